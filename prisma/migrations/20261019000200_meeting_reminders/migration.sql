@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."meetings" ADD COLUMN     "reminderOffsets" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN     "meetingId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."meeting_reminders" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailsSent" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "meeting_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meeting_reminders_meetingId_offsetMinutes_key" ON "public"."meeting_reminders"("meetingId", "offsetMinutes");
+
+-- AddForeignKey
+ALTER TABLE "public"."meeting_reminders" ADD CONSTRAINT "meeting_reminders_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "public"."meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "public"."meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."notes" ADD COLUMN     "reminderEmail" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reminderRecurrence" TEXT,
+ADD COLUMN     "reminderSnoozedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN     "noteId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "notes_hasReminder_reminderSent_reminderDate_idx" ON "public"."notes"("hasReminder", "reminderSent", "reminderDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "public"."notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
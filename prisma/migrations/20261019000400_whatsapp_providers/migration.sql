@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."whatsapp_messages" ADD COLUMN     "provider" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."whatsapp_recipients" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "providerMessageId" TEXT,
+ADD COLUMN     "readAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "whatsapp_recipients_providerMessageId_idx" ON "public"."whatsapp_recipients"("providerMessageId");
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."SendChannel" AS ENUM ('EMAIL', 'WHATSAPP');
+
+-- CreateEnum
+CREATE TYPE "public"."SendJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+ALTER TYPE "public"."WhatsAppStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "public"."email_recipients" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."whatsapp_recipients" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."send_jobs" (
+    "id" TEXT NOT NULL,
+    "channel" "public"."SendChannel" NOT NULL,
+    "status" "public"."SendJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "totalCount" INTEGER NOT NULL,
+    "processedCount" INTEGER NOT NULL DEFAULT 0,
+    "sentCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "mediaContent" TEXT,
+    "lastError" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "emailMessageId" TEXT,
+    "whatsappMessageId" TEXT,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "send_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "send_jobs_emailMessageId_key" ON "public"."send_jobs"("emailMessageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "send_jobs_whatsappMessageId_key" ON "public"."send_jobs"("whatsappMessageId");
+
+-- CreateIndex
+CREATE INDEX "send_jobs_channel_status_idx" ON "public"."send_jobs"("channel", "status");
+
+-- CreateIndex
+CREATE INDEX "email_recipients_emailMessageId_status_idx" ON "public"."email_recipients"("emailMessageId", "status");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_recipients_whatsappMessageId_status_idx" ON "public"."whatsapp_recipients"("whatsappMessageId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."send_jobs" ADD CONSTRAINT "send_jobs_emailMessageId_fkey" FOREIGN KEY ("emailMessageId") REFERENCES "public"."email_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."send_jobs" ADD CONSTRAINT "send_jobs_whatsappMessageId_fkey" FOREIGN KEY ("whatsappMessageId") REFERENCES "public"."whatsapp_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."send_jobs" ADD CONSTRAINT "send_jobs_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
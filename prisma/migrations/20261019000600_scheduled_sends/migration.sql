@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."SendJobStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "public"."send_jobs" ADD COLUMN     "scheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "send_jobs_status_scheduledAt_idx" ON "public"."send_jobs"("status", "scheduledAt");
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."SuppressionChannel" AS ENUM ('EMAIL', 'WHATSAPP', 'CALL');
+
+-- CreateEnum
+CREATE TYPE "public"."SuppressionSource" AS ENUM ('UNSUBSCRIBE_LINK', 'STOP_REPLY', 'DO_NOT_CONTACT', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "public"."send_jobs" ADD COLUMN     "skippedCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."contact_suppressions" (
+    "id" TEXT NOT NULL,
+    "channel" "public"."SuppressionChannel" NOT NULL,
+    "source" "public"."SuppressionSource" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "seekerId" TEXT NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "contact_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_suppressions_channel_idx" ON "public"."contact_suppressions"("channel");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_suppressions_seekerId_channel_key" ON "public"."contact_suppressions"("seekerId", "channel");
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_suppressions" ADD CONSTRAINT "contact_suppressions_seekerId_fkey" FOREIGN KEY ("seekerId") REFERENCES "public"."seekers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_suppressions" ADD CONSTRAINT "contact_suppressions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: inquiries already marked DO_NOT_CONTACT are suppressed on every channel
+INSERT INTO "public"."contact_suppressions" ("id", "channel", "source", "reason", "seekerId", "createdById")
+SELECT md5(random()::text || clock_timestamp()::text || dnc."seekerId" || channels.channel::text),
+       channels.channel,
+       'DO_NOT_CONTACT',
+       'Interaction logged as Do Not Contact',
+       dnc."seekerId",
+       dnc."userId"
+FROM (
+    SELECT DISTINCT ON ("seekerId") "seekerId", "userId"
+    FROM "public"."interactions"
+    WHERE "outcome" = 'DO_NOT_CONTACT'
+    ORDER BY "seekerId", "createdAt" DESC
+) dnc
+CROSS JOIN (
+    SELECT unnest(enum_range(NULL::"public"."SuppressionChannel")) AS channel
+) channels
+ON CONFLICT ("seekerId", "channel") DO NOTHING;
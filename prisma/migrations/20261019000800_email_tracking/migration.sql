@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."EmailEventType" AS ENUM ('OPEN', 'CLICK');
+
+-- AlterTable
+ALTER TABLE "public"."email_recipients" ADD COLUMN     "clickCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "clickedAt" TIMESTAMP(3),
+ADD COLUMN     "openCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "openedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."email_links" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailMessageId" TEXT NOT NULL,
+
+    CONSTRAINT "email_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."email_tracking_events" (
+    "id" TEXT NOT NULL,
+    "type" "public"."EmailEventType" NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recipientId" TEXT NOT NULL,
+    "linkId" TEXT,
+
+    CONSTRAINT "email_tracking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_messages_campaignId_idx" ON "public"."email_messages"("campaignId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_links_emailMessageId_url_key" ON "public"."email_links"("emailMessageId", "url");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_events_recipientId_type_idx" ON "public"."email_tracking_events"("recipientId", "type");
+
+-- CreateIndex
+CREATE INDEX "email_tracking_events_linkId_idx" ON "public"."email_tracking_events"("linkId");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_links" ADD CONSTRAINT "email_links_emailMessageId_fkey" FOREIGN KEY ("emailMessageId") REFERENCES "public"."email_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."email_tracking_events" ADD CONSTRAINT "email_tracking_events_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "public"."email_recipients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."email_tracking_events" ADD CONSTRAINT "email_tracking_events_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "public"."email_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
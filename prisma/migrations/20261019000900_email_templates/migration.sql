@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."email_messages" ADD COLUMN     "isHtml" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."email_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_templates_userId_idx" ON "public"."email_templates"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_userId_name_key" ON "public"."email_templates"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_templates" ADD CONSTRAINT "email_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
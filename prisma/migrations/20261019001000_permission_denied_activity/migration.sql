@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ActivityType" ADD VALUE 'PERMISSION_DENIED';
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "public"."AssignmentStrategy" AS ENUM ('ROUND_ROBIN', 'LEAST_OPEN_FOLLOW_UPS', 'FIXED_OWNER');
+
+-- AlterTable
+ALTER TABLE "public"."assignments" ADD COLUMN     "assignedById" TEXT,
+ADD COLUMN     "ruleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."assignment_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "programId" TEXT,
+    "campus" TEXT,
+    "marketingSource" TEXT,
+    "city" TEXT,
+    "strategy" "public"."AssignmentStrategy" NOT NULL,
+    "fixedOwnerId" TEXT,
+    "lastAssignedId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "assignment_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."assignment_rule_members" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "assignment_rule_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assignments_coordinatorId_idx" ON "public"."assignments"("coordinatorId");
+
+-- CreateIndex
+CREATE INDEX "assignment_rules_isActive_priority_idx" ON "public"."assignment_rules"("isActive", "priority");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignment_rule_members_ruleId_userId_key" ON "public"."assignment_rule_members"("ruleId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."assignments" ADD CONSTRAINT "assignments_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."assignment_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assignment_rules" ADD CONSTRAINT "assignment_rules_programId_fkey" FOREIGN KEY ("programId") REFERENCES "public"."programs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assignment_rules" ADD CONSTRAINT "assignment_rules_fixedOwnerId_fkey" FOREIGN KEY ("fixedOwnerId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assignment_rule_members" ADD CONSTRAINT "assignment_rule_members_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."assignment_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assignment_rule_members" ADD CONSTRAINT "assignment_rule_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
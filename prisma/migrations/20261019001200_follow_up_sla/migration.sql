@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "managerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."follow_up_tasks" ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "overdueNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "follow_up_tasks_status_dueAt_idx" ON "public"."follow_up_tasks"("status", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."users" ADD CONSTRAINT "users_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."deal_stage_history" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "fromStage" "public"."DealStage",
+    "toStage" "public"."DealStage" NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deal_stage_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deal_stage_history_dealId_changedAt_idx" ON "public"."deal_stage_history"("dealId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."deal_stage_history" ADD CONSTRAINT "deal_stage_history_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "public"."deals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."deal_stage_history" ADD CONSTRAINT "deal_stage_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
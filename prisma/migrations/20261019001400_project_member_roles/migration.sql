@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'PROJECT_MEMBER_ADDED';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'PROJECT_MEMBER_REMOVED';
+
+-- CreateEnum
+CREATE TYPE "public"."ProjectMemberRole" AS ENUM ('OWNER', 'MANAGER', 'MEMBER', 'VIEWER');
+
+-- AlterTable: convert the free-text role, mapping the labels used so far
+ALTER TABLE "public"."project_members" ALTER COLUMN "role" TYPE "public"."ProjectMemberRole" USING (
+  CASE
+    WHEN lower("role") LIKE '%owner%' THEN 'OWNER'
+    WHEN lower("role") LIKE '%manager%' THEN 'MANAGER'
+    WHEN lower("role") LIKE '%viewer%' THEN 'VIEWER'
+    ELSE 'MEMBER'
+  END
+)::"public"."ProjectMemberRole";
+ALTER TABLE "public"."project_members" ALTER COLUMN "role" SET DEFAULT 'MEMBER';
+
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN     "projectId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- Best guess for tasks that were finished before completion times were recorded
+UPDATE "public"."tasks" SET "completedAt" = "updatedAt" WHERE "status" IN ('DONE', 'COMPLETED');
+
+-- Replace manually entered project progress with the share of completed tasks
+UPDATE "public"."projects" p
+SET "progress" = COALESCE((
+    SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE t."status" IN ('DONE', 'COMPLETED')) / NULLIF(COUNT(*), 0))::INTEGER
+    FROM "public"."tasks" t
+    WHERE t."projectId" = p."id" AND t."status" <> 'CANCELLED'
+), 0);
+
+-- CreateIndex
+CREATE INDEX "tasks_projectId_completedAt_idx" ON "public"."tasks"("projectId", "completedAt");
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKDAYS', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "public"."follow_up_tasks" ADD COLUMN "recurrenceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN "recurrenceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."task_recurrences" (
+    "id" TEXT NOT NULL,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "daysOfWeek" INTEGER[],
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "until" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "task_recurrences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "follow_up_tasks_recurrenceId_idx" ON "public"."follow_up_tasks"("recurrenceId");
+
+-- CreateIndex
+CREATE INDEX "tasks_recurrenceId_idx" ON "public"."tasks"("recurrenceId");
+
+-- AddForeignKey
+ALTER TABLE "public"."follow_up_tasks" ADD CONSTRAINT "follow_up_tasks_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "public"."task_recurrences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "public"."task_recurrences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_recurrences" ADD CONSTRAINT "task_recurrences_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
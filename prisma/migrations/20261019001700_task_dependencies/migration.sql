@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN "startDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."task_dependencies" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "dependsOnId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_dependsOnId_idx" ON "public"."task_dependencies"("dependsOnId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_taskId_dependsOnId_key" ON "public"."task_dependencies"("taskId", "dependsOnId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_dependsOnId_fkey" FOREIGN KEY ("dependsOnId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'POST_PUBLISHED';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'POST_PUBLISH_FAILED';
+
+-- CreateEnum
+CREATE TYPE "public"."SocialPlatform" AS ENUM ('FACEBOOK', 'INSTAGRAM', 'LINKEDIN');
+
+-- CreateEnum
+CREATE TYPE "public"."PublicationStatus" AS ENUM ('QUEUED', 'PUBLISHED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."social_media_posts" ADD COLUMN     "platforms" "public"."SocialPlatform"[] DEFAULT ARRAY[]::"public"."SocialPlatform"[];
+
+-- CreateTable
+CREATE TABLE "public"."post_publications" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "platform" "public"."SocialPlatform" NOT NULL,
+    "status" "public"."PublicationStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "lastError" TEXT,
+    "externalId" TEXT,
+    "externalUrl" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_publications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_publications_status_nextAttemptAt_idx" ON "public"."post_publications"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_publications_postId_platform_key" ON "public"."post_publications"("postId", "platform");
+
+-- AddForeignKey
+ALTER TABLE "public"."post_publications" ADD CONSTRAINT "post_publications_postId_fkey" FOREIGN KEY ("postId") REFERENCES "public"."social_media_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,153 @@
+-- AlterEnum
+ALTER TYPE "public"."ApprovalStatus" ADD VALUE 'SKIPPED';
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'POST_APPROVAL_ESCALATED';
+
+-- CreateTable
+CREATE TABLE "public"."approval_workflows" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "approval_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."approval_workflow_stages" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "approverUserIds" TEXT[],
+    "approverRole" "public"."UserRole",
+    "approverCustomRoleId" TEXT,
+    "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+    "escalateAfterHours" INTEGER,
+    "escalateToId" TEXT,
+
+    CONSTRAINT "approval_workflow_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."post_approval_stages" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+    "escalateAfterHours" INTEGER,
+    "escalateToId" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "escalatedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_approval_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."approval_delegations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."social_media_posts" ADD COLUMN     "workflowId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."post_approvals" ADD COLUMN     "stageId" TEXT,
+ADD COLUMN     "decidedById" TEXT;
+
+-- Backfill: every step of the existing sequential chains becomes a one-approver stage
+INSERT INTO "public"."post_approval_stages" ("id", "postId", "order", "name", "requiredApprovals", "startedAt", "completedAt")
+SELECT
+  'stage_' || a."id",
+  a."postId",
+  a."order",
+  'Approver ' || a."order",
+  1,
+  -- Started once every earlier step approved; the current step of a post in review counts from now
+  CASE
+    WHEN a."status" <> 'PENDING' THEN COALESCE(a."approvedAt", a."updatedAt")
+    WHEN p."status" = 'PENDING_APPROVAL' AND NOT EXISTS (
+      SELECT 1 FROM "public"."post_approvals" e
+      WHERE e."postId" = a."postId" AND e."order" < a."order" AND e."status" <> 'APPROVED'
+    ) THEN CURRENT_TIMESTAMP
+    ELSE NULL
+  END,
+  CASE WHEN a."status" <> 'PENDING' THEN COALESCE(a."approvedAt", a."updatedAt") ELSE NULL END
+FROM "public"."post_approvals" a
+JOIN "public"."social_media_posts" p ON p."id" = a."postId";
+
+UPDATE "public"."post_approvals" SET "stageId" = 'stage_' || "id";
+
+ALTER TABLE "public"."post_approvals" ALTER COLUMN "stageId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."post_approvals_postId_approverId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_workflows_name_key" ON "public"."approval_workflows"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_workflow_stages_workflowId_order_key" ON "public"."approval_workflow_stages"("workflowId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_approval_stages_postId_order_key" ON "public"."post_approval_stages"("postId", "order");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_userId_endsAt_idx" ON "public"."approval_delegations"("userId", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "approval_delegations_delegateId_endsAt_idx" ON "public"."approval_delegations"("delegateId", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "post_approvals_postId_idx" ON "public"."post_approvals"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_approvals_stageId_approverId_key" ON "public"."post_approvals"("stageId", "approverId");
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_workflows" ADD CONSTRAINT "approval_workflows_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_workflow_stages" ADD CONSTRAINT "approval_workflow_stages_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "public"."approval_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_workflow_stages" ADD CONSTRAINT "approval_workflow_stages_approverCustomRoleId_fkey" FOREIGN KEY ("approverCustomRoleId") REFERENCES "public"."roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_workflow_stages" ADD CONSTRAINT "approval_workflow_stages_escalateToId_fkey" FOREIGN KEY ("escalateToId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_approval_stages" ADD CONSTRAINT "post_approval_stages_postId_fkey" FOREIGN KEY ("postId") REFERENCES "public"."social_media_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_approval_stages" ADD CONSTRAINT "post_approval_stages_escalateToId_fkey" FOREIGN KEY ("escalateToId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_approvals" ADD CONSTRAINT "post_approvals_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "public"."post_approval_stages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_approvals" ADD CONSTRAINT "post_approvals_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_delegations" ADD CONSTRAINT "approval_delegations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."approval_delegations" ADD CONSTRAINT "approval_delegations_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."social_media_posts" ADD CONSTRAINT "social_media_posts_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "public"."approval_workflows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- AlterTable
+ALTER TABLE "public"."social_media_posts" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "public"."post_comments" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."post_revisions" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "caption" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "budget" DOUBLE PRECISION,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "platforms" "public"."SocialPlatform"[] DEFAULT ARRAY[]::"public"."SocialPlatform"[],
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."post_reviews" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "decidedById" TEXT,
+    "stageName" TEXT NOT NULL,
+    "status" "public"."ApprovalStatus" NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: existing posts start at version 1 with their current content
+INSERT INTO "public"."post_revisions" ("id", "postId", "version", "caption", "imageUrl", "budget", "startDate", "endDate", "platforms", "createdById", "createdAt")
+SELECT 'rev_' || p."id", p."id", 1, p."caption", p."imageUrl", p."budget", p."startDate", p."endDate", p."platforms", p."createdById", p."createdAt"
+FROM "public"."social_media_posts" p;
+
+-- Backfill: decisions made so far were on version 1
+INSERT INTO "public"."post_reviews" ("id", "postId", "version", "approverId", "decidedById", "stageName", "status", "comment", "createdAt")
+SELECT 'review_' || a."id", a."postId", 1, a."approverId", a."decidedById", s."name", a."status", a."comment", COALESCE(a."approvedAt", a."updatedAt")
+FROM "public"."post_approvals" a
+JOIN "public"."post_approval_stages" s ON s."id" = a."stageId"
+WHERE a."status" IN ('APPROVED', 'REJECTED');
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_revisions_postId_version_key" ON "public"."post_revisions"("postId", "version");
+
+-- CreateIndex
+CREATE INDEX "post_reviews_postId_version_idx" ON "public"."post_reviews"("postId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."post_revisions" ADD CONSTRAINT "post_revisions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "public"."social_media_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_revisions" ADD CONSTRAINT "post_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_reviews" ADD CONSTRAINT "post_reviews_postId_fkey" FOREIGN KEY ("postId") REFERENCES "public"."social_media_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_reviews" ADD CONSTRAINT "post_reviews_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."post_reviews" ADD CONSTRAINT "post_reviews_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
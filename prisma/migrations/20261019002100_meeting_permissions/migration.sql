@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."Permission" ADD VALUE 'CREATE_MEETING';
+ALTER TYPE "public"."Permission" ADD VALUE 'READ_MEETING';
+ALTER TYPE "public"."Permission" ADD VALUE 'UPDATE_MEETING';
+ALTER TYPE "public"."Permission" ADD VALUE 'DELETE_MEETING';
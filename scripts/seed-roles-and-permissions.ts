@@ -61,6 +61,49 @@ const DEFAULT_PERMISSIONS = [
   { name: 'UPDATE_SETTINGS' as const, description: 'Update system settings' },
   { name: 'MANAGE_SYSTEM_CONFIG' as const, description: 'Manage system configuration' },
   
+  // Project Management
+  { name: 'CREATE_PROJECT' as const, description: 'Create new projects' },
+  { name: 'READ_PROJECT' as const, description: 'View project information' },
+  { name: 'UPDATE_PROJECT' as const, description: 'Update project information' },
+  { name: 'DELETE_PROJECT' as const, description: 'Delete projects' },
+  { name: 'MANAGE_PROJECT_MEMBERS' as const, description: 'Manage project members' },
+  
+  // Enhanced Task Management
+  { name: 'MANAGE_TASK_CHECKLISTS' as const, description: 'Manage task checklists' },
+  { name: 'MANAGE_TASK_ATTACHMENTS' as const, description: 'Manage task attachments' },
+  { name: 'MANAGE_TASK_COMMENTS' as const, description: 'Manage task comments' },
+  { name: 'MANAGE_TASK_TIME_ENTRIES' as const, description: 'Manage task time entries' },
+  { name: 'CREATE_SUBTASKS' as const, description: 'Create subtasks' },
+  
+  // Deal Management
+  { name: 'CREATE_DEAL' as const, description: 'Create new deals' },
+  { name: 'READ_DEAL' as const, description: 'View deal information' },
+  { name: 'UPDATE_DEAL' as const, description: 'Update deal information' },
+  { name: 'DELETE_DEAL' as const, description: 'Delete deals' },
+  { name: 'MANAGE_DEAL_ACTIVITIES' as const, description: 'Manage deal activities' },
+  
+  // Client Management
+  { name: 'CREATE_CLIENT' as const, description: 'Create new clients' },
+  { name: 'READ_CLIENT' as const, description: 'View client information' },
+  { name: 'UPDATE_CLIENT' as const, description: 'Update client information' },
+  { name: 'DELETE_CLIENT' as const, description: 'Delete clients' },
+  
+  // Notebook Management
+  { name: 'CREATE_NOTEBOOK' as const, description: 'Create new notebooks' },
+  { name: 'READ_NOTEBOOK' as const, description: 'View notebooks' },
+  { name: 'UPDATE_NOTEBOOK' as const, description: 'Update notebooks' },
+  { name: 'DELETE_NOTEBOOK' as const, description: 'Delete notebooks' },
+  { name: 'CREATE_NOTE' as const, description: 'Create new notes' },
+  { name: 'READ_NOTE' as const, description: 'View notes' },
+  { name: 'UPDATE_NOTE' as const, description: 'Update notes' },
+  { name: 'DELETE_NOTE' as const, description: 'Delete notes' },
+  
+  // Meeting Management
+  { name: 'CREATE_MEETING' as const, description: 'Schedule new meetings' },
+  { name: 'READ_MEETING' as const, description: 'View meetings' },
+  { name: 'UPDATE_MEETING' as const, description: 'Update meetings' },
+  { name: 'DELETE_MEETING' as const, description: 'Delete meetings' },
+  
   // Special Permissions
   { name: 'DELETE_ADMINISTRATOR' as const, description: 'Delete administrator users' },
   { name: 'MANAGE_ALL_USERS' as const, description: 'Manage all users in the system' },
@@ -74,11 +117,18 @@ const ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'DELETE_ADMINISTRATOR', 'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   ADMIN: [
@@ -87,11 +137,18 @@ const ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   DEVELOPER: [
@@ -100,27 +157,42 @@ const ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'DELETE_ADMINISTRATOR', 'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   COORDINATOR: [
-    // Limited to inquiries, tasks, and basic user management
-    'READ_USER', 'UPDATE_USER',
+    // Limited to inquiries, tasks, projects, deals, clients, notebooks, meetings, and viewing users
+    'READ_USER',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'READ_PROGRAM',
     'READ_CAMPAIGN',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
-    'READ_REPORTS', 'VIEW_ANALYTICS'
+    'READ_REPORTS', 'VIEW_ANALYTICS',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING'
   ],
   VIEWER: [
     // Read-only access
     'READ_USER', 'READ_SEEKER', 'READ_TASK', 'READ_PROGRAM', 'READ_CAMPAIGN', 
-    'READ_INQUIRY', 'READ_REPORTS', 'VIEW_ANALYTICS'
+    'READ_INQUIRY', 'READ_REPORTS', 'VIEW_ANALYTICS',
+    'READ_PROJECT', 'READ_DEAL', 'READ_CLIENT', 'READ_NOTEBOOK', 'READ_NOTE', 'READ_MEETING'
   ]
 }
 
@@ -192,7 +264,7 @@ function getRoleDescription(roleName: string): string {
     ADMINISTRATOR: 'Full system access with ability to delete administrators',
     ADMIN: 'Full system access but cannot delete administrators',
     DEVELOPER: 'Full system access for development purposes',
-    COORDINATOR: 'Limited access to inquiries, tasks, and basic user management',
+    COORDINATOR: 'Limited access to inquiries, tasks, projects, deals, clients, notebooks and meetings',
     VIEWER: 'Read-only access to system data'
   }
   return descriptions[roleName as keyof typeof descriptions] || ''
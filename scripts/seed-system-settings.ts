@@ -110,6 +110,153 @@ async function seedSystemSettings() {
       }
     })
 
+    // Bulk Send Queue
+    await prisma.systemSettings.upsert({
+      where: { key: 'EMAIL_SEND_RATE_PER_MINUTE' },
+      update: {},
+      create: {
+        key: 'EMAIL_SEND_RATE_PER_MINUTE',
+        value: '60',
+        description: 'Maximum bulk campaign emails sent per minute',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'WHATSAPP_SEND_RATE_PER_MINUTE' },
+      update: {},
+      create: {
+        key: 'WHATSAPP_SEND_RATE_PER_MINUTE',
+        value: '20',
+        description: 'Maximum bulk campaign WhatsApp messages sent per minute',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'SEND_MAX_ATTEMPTS' },
+      update: {},
+      create: {
+        key: 'SEND_MAX_ATTEMPTS',
+        value: '4',
+        description: 'Send attempts per recipient before a transient failure is recorded as failed',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'EMAIL_TRACKING_ENABLED' },
+      update: {},
+      create: {
+        key: 'EMAIL_TRACKING_ENABLED',
+        value: 'true',
+        description: 'Track opens (tracking pixel) and link clicks in bulk emails',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    // Follow-up SLA
+    await prisma.systemSettings.upsert({
+      where: { key: 'FOLLOW_UP_ASSIGNEE_GRACE_MINUTES' },
+      update: {},
+      create: {
+        key: 'FOLLOW_UP_ASSIGNEE_GRACE_MINUTES',
+        value: '60',
+        description: 'Minutes after an overdue follow-up was due before its assignee is reminded',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'FOLLOW_UP_MANAGER_GRACE_HOURS' },
+      update: {},
+      create: {
+        key: 'FOLLOW_UP_MANAGER_GRACE_HOURS',
+        value: '24',
+        description: 'Hours after an overdue follow-up was due before the assignee\'s manager is notified',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'DEAL_BASE_CURRENCY' },
+      update: {},
+      create: {
+        key: 'DEAL_BASE_CURRENCY',
+        value: 'USD',
+        description: 'Currency the weighted deal forecast is reported in',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'DEAL_EXCHANGE_RATES' },
+      update: {},
+      create: {
+        key: 'DEAL_EXCHANGE_RATES',
+        value: '{}',
+        description: 'JSON map of currency code to the value of one unit in the base currency, e.g. {"EUR": 1.08}',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    // Project Progress & Health Settings
+    await prisma.systemSettings.upsert({
+      where: { key: 'PROJECT_PROGRESS_WEIGHT_BY_HOURS' },
+      update: {},
+      create: {
+        key: 'PROJECT_PROGRESS_WEIGHT_BY_HOURS',
+        value: 'false',
+        description: 'Weight project progress by task estimatedHours instead of counting tasks',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'PROJECT_HOURLY_COST' },
+      update: {},
+      create: {
+        key: 'PROJECT_HOURLY_COST',
+        value: '50',
+        description: 'Cost of one logged hour when comparing project time against its budget (0 disables the budget check)',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'PROJECT_HEALTH_AT_RISK_MARGIN' },
+      update: {},
+      create: {
+        key: 'PROJECT_HEALTH_AT_RISK_MARGIN',
+        value: '15',
+        description: 'Percentage points schedule or budget use may run ahead of progress before a project is at risk',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'SOCIAL_PUBLISH_MAX_ATTEMPTS' },
+      update: {},
+      create: {
+        key: 'SOCIAL_PUBLISH_MAX_ATTEMPTS',
+        value: '5',
+        description: 'Publish attempts per platform before a scheduled post is marked as failed and its creator notified',
+        isActive: true,
+        requiresRestart: false
+      }
+    })
+
     console.log('✅ System settings seeded successfully')
   } catch (error) {
     console.error('❌ Error seeding system settings:', error)
@@ -168,6 +168,34 @@ export async function GET(request: NextRequest) {
       })
     })
 
+    // Project membership changes for the current user (removed members can no longer see the project)
+    const membershipNotifications = await prisma.notification.findMany({
+      where: {
+        userId: user.id,
+        type: { in: ['PROJECT_MEMBER_ADDED', 'PROJECT_MEMBER_REMOVED'] },
+        createdAt: { gte: sinceDate }
+      },
+      include: {
+        project: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    membershipNotifications.forEach(notification => {
+      activities.push({
+        id: `notification-${notification.id}`,
+        type: notification.type,
+        title: notification.title,
+        description: notification.message,
+        timestamp: notification.createdAt,
+        userId: null,
+        entityType: 'project',
+        entityId: notification.projectId,
+        entityName: notification.project?.name
+      })
+    })
+
     // Sort all activities by timestamp
     activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
 
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+
+// DELETE /api/approval-delegations/[id] - End an out-of-office delegation
+// Decisions the delegate already made stand
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const delegation = await prisma.approvalDelegation.findUnique({
+      where: { id },
+    })
+
+    if (!delegation) {
+      return NextResponse.json({ error: 'Delegation not found' }, { status: 404 })
+    }
+
+    if (delegation.userId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to remove this delegation' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.approvalDelegation.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Delegation removed successfully' })
+  } catch (error) {
+    console.error('Error deleting approval delegation:', error)
+    return NextResponse.json({ error: 'Failed to delete approval delegation' }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+
+const delegationInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  delegate: { select: { id: true, name: true, email: true } },
+} as const
+
+// GET /api/approval-delegations - Current and upcoming out-of-office delegations of the user, both ways
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const now = new Date()
+
+    const [given, taken] = await Promise.all([
+      prisma.approvalDelegation.findMany({
+        where: { userId: user.id, endsAt: { gt: now } },
+        include: delegationInclude,
+        orderBy: { startsAt: 'asc' },
+      }),
+      prisma.approvalDelegation.findMany({
+        where: { delegateId: user.id, endsAt: { gt: now } },
+        include: delegationInclude,
+        orderBy: { startsAt: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({ given, taken })
+  } catch (error) {
+    console.error('Error fetching approval delegations:', error)
+    return NextResponse.json({ error: 'Failed to fetch approval delegations' }, { status: 500 })
+  }
+}
+
+// POST /api/approval-delegations - Let someone approve posts for a user while they are out of office
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const body = await request.json()
+    const { delegateId, startsAt, endsAt, reason } = body
+
+    // Admins can set up cover for someone who is already away
+    const userId = body.userId && isAdminRole(user.role) ? body.userId : user.id
+
+    if (!delegateId || !startsAt || !endsAt) {
+      return NextResponse.json(
+        { error: 'Delegate, start and end are required' },
+        { status: 400 }
+      )
+    }
+
+    if (delegateId === userId) {
+      return NextResponse.json({ error: 'You cannot delegate to yourself' }, { status: 400 })
+    }
+
+    const start = new Date(startsAt)
+    const end = new Date(endsAt)
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json({ error: 'Invalid start or end date' }, { status: 400 })
+    }
+    if (end <= start || end <= new Date()) {
+      return NextResponse.json({ error: 'End must be after the start and in the future' }, { status: 400 })
+    }
+
+    const [delegator, delegate] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true } }),
+      prisma.user.findUnique({ where: { id: delegateId }, select: { id: true, isActive: true } }),
+    ])
+    if (!delegator) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (!delegate || !delegate.isActive) {
+      return NextResponse.json({ error: 'Delegate must be an active user' }, { status: 400 })
+    }
+
+    // The delegate would otherwise be able to approve their own posts on the user's behalf
+    const reviewsDelegatePosts = await prisma.postApproval.findFirst({
+      where: {
+        approverId: userId,
+        status: 'PENDING',
+        post: { createdById: delegateId, status: 'PENDING_APPROVAL' },
+      },
+      select: { id: true },
+    })
+    if (reviewsDelegatePosts) {
+      return NextResponse.json(
+        { error: 'The delegate has posts awaiting approval from this user and cannot cover their own posts' },
+        { status: 400 }
+      )
+    }
+
+    // One delegate at a time, so it is always clear who covers
+    const overlapping = await prisma.approvalDelegation.findFirst({
+      where: { userId, startsAt: { lt: end }, endsAt: { gt: start } },
+    })
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'An out-of-office delegation already covers part of this period' },
+        { status: 409 }
+      )
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: {
+        userId,
+        delegateId,
+        startsAt: start,
+        endsAt: end,
+        reason: reason?.trim() || null,
+      },
+      include: delegationInclude,
+    })
+
+    return NextResponse.json(delegation, { status: 201 })
+  } catch (error) {
+    console.error('Error creating approval delegation:', error)
+    return NextResponse.json({ error: 'Failed to create approval delegation' }, { status: 500 })
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, requirePermission } from '@/lib/auth'
+import { approvalWorkflowInclude, parseWorkflowStages, validateWorkflowStageReferences } from '@/lib/post-approvals'
+
+// GET /api/approval-workflows/[id] - Get a post approval workflow template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAuth(request)
+    const { id } = await params
+
+    const workflow = await prisma.approvalWorkflow.findUnique({
+      where: { id },
+      include: approvalWorkflowInclude,
+    })
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Approval workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(workflow)
+  } catch (error) {
+    console.error('Error fetching approval workflow:', error)
+    return NextResponse.json({ error: 'Failed to fetch approval workflow' }, { status: 500 })
+  }
+}
+
+// PUT /api/approval-workflows/[id] - Update a post approval workflow template
+// Posts already in review keep the stages they were created with
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingWorkflow = await prisma.approvalWorkflow.findUnique({
+      where: { id },
+    })
+
+    if (!existingWorkflow) {
+      return NextResponse.json({ error: 'Approval workflow not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    let name: string | undefined
+    if (body.name !== undefined) {
+      name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ error: 'Workflow name is required' }, { status: 400 })
+      }
+      const sameName = await prisma.approvalWorkflow.findUnique({ where: { name } })
+      if (sameName && sameName.id !== id) {
+        return NextResponse.json({ error: 'A workflow with this name already exists' }, { status: 409 })
+      }
+    }
+
+    // Stages left out of the request are kept as they are
+    let stages: ReturnType<typeof parseWorkflowStages> | undefined
+    if (body.stages !== undefined) {
+      stages = parseWorkflowStages(body.stages)
+      if ('error' in stages) {
+        return NextResponse.json({ error: stages.error }, { status: 400 })
+      }
+      const referenceError = await validateWorkflowStageReferences(stages.stages)
+      if (referenceError) {
+        return NextResponse.json({ error: referenceError }, { status: 400 })
+      }
+    }
+
+    const workflow = await prisma.$transaction(async (tx) => {
+      if (stages && 'stages' in stages) {
+        await tx.approvalWorkflowStage.deleteMany({ where: { workflowId: id } })
+        await tx.approvalWorkflowStage.createMany({
+          data: stages.stages.map((stage, index) => ({ ...stage, workflowId: id, order: index + 1 })),
+        })
+      }
+
+      return tx.approvalWorkflow.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(body.description !== undefined && { description: body.description?.trim() || null }),
+          ...(body.isActive !== undefined && { isActive: !!body.isActive }),
+        },
+        include: approvalWorkflowInclude,
+      })
+    })
+
+    return NextResponse.json(workflow)
+  } catch (error) {
+    console.error('Error updating approval workflow:', error)
+    return NextResponse.json({ error: 'Failed to update approval workflow' }, { status: 500 })
+  }
+}
+
+// DELETE /api/approval-workflows/[id] - Delete a post approval workflow template
+// Posts created from it keep their approval stages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingWorkflow = await prisma.approvalWorkflow.findUnique({
+      where: { id },
+    })
+
+    if (!existingWorkflow) {
+      return NextResponse.json({ error: 'Approval workflow not found' }, { status: 404 })
+    }
+
+    await prisma.approvalWorkflow.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Approval workflow deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting approval workflow:', error)
+    return NextResponse.json({ error: 'Failed to delete approval workflow' }, { status: 500 })
+  }
+}
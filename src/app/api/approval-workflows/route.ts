@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, requirePermission } from '@/lib/auth'
+import { approvalWorkflowInclude, parseWorkflowStages, validateWorkflowStageReferences } from '@/lib/post-approvals'
+
+// GET /api/approval-workflows - List post approval workflow templates
+export async function GET(request: NextRequest) {
+  try {
+    // Anyone creating a post picks from these
+    await requireAuth(request)
+
+    const workflows = await prisma.approvalWorkflow.findMany({
+      include: approvalWorkflowInclude,
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json(workflows)
+  } catch (error) {
+    console.error('Error fetching approval workflows:', error)
+    return NextResponse.json({ error: 'Failed to fetch approval workflows' }, { status: 500 })
+  }
+}
+
+// POST /api/approval-workflows - Create a post approval workflow template
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) {
+      return NextResponse.json({ error: 'Workflow name is required' }, { status: 400 })
+    }
+
+    const parsed = parseWorkflowStages(body.stages)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const referenceError = await validateWorkflowStageReferences(parsed.stages)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const existing = await prisma.approvalWorkflow.findUnique({ where: { name } })
+    if (existing) {
+      return NextResponse.json({ error: 'A workflow with this name already exists' }, { status: 409 })
+    }
+
+    const workflow = await prisma.approvalWorkflow.create({
+      data: {
+        name,
+        description: body.description?.trim() || null,
+        isActive: body.isActive ?? true,
+        createdById: user.id,
+        stages: {
+          create: parsed.stages.map((stage, index) => ({ ...stage, order: index + 1 })),
+        },
+      },
+      include: approvalWorkflowInclude,
+    })
+
+    return NextResponse.json(workflow, { status: 201 })
+  } catch (error) {
+    console.error('Error creating approval workflow:', error)
+    return NextResponse.json({ error: 'Failed to create approval workflow' }, { status: 500 })
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AssignmentStrategy } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { assignmentRuleInclude, validateAssignmentRuleInput } from '@/lib/inquiry-assignment'
+
+// PUT /api/assignment-rules/[id] - Update an inquiry assignment rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingRule = await prisma.assignmentRule.findUnique({
+      where: { id },
+      include: { members: { select: { userId: true } } },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    // Fields left out of the request keep their current values
+    const input = {
+      name: body.name ?? existingRule.name,
+      priority: body.priority ?? existingRule.priority,
+      isActive: body.isActive ?? existingRule.isActive,
+      programId: body.programId !== undefined ? body.programId : existingRule.programId,
+      campus: body.campus !== undefined ? body.campus : existingRule.campus,
+      marketingSource: body.marketingSource !== undefined ? body.marketingSource : existingRule.marketingSource,
+      city: body.city !== undefined ? body.city : existingRule.city,
+      strategy: body.strategy ?? existingRule.strategy,
+      fixedOwnerId: body.fixedOwnerId !== undefined ? body.fixedOwnerId : existingRule.fixedOwnerId,
+      memberIds: body.memberIds ?? existingRule.members.map(m => m.userId),
+    }
+
+    const validationError = validateAssignmentRuleInput(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const strategy = input.strategy as AssignmentStrategy
+    const memberIds: string[] = strategy === 'FIXED_OWNER' ? [] : Array.from(new Set(input.memberIds as string[]))
+
+    const rule = await prisma.$transaction(async (tx) => {
+      await tx.assignmentRuleMember.deleteMany({
+        where: { ruleId: id, userId: { notIn: memberIds } },
+      })
+      await tx.assignmentRuleMember.createMany({
+        data: memberIds.map(userId => ({ ruleId: id, userId })),
+        skipDuplicates: true,
+      })
+
+      return tx.assignmentRule.update({
+        where: { id },
+        data: {
+          name: input.name.trim(),
+          priority: input.priority,
+          isActive: input.isActive,
+          programId: input.programId || null,
+          campus: input.campus?.trim() || null,
+          marketingSource: input.marketingSource?.trim() || null,
+          city: input.city?.trim() || null,
+          strategy,
+          fixedOwnerId: strategy === 'FIXED_OWNER' ? input.fixedOwnerId : null,
+        },
+        include: assignmentRuleInclude,
+      })
+    })
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    console.error('Error updating assignment rule:', error)
+    return NextResponse.json({ error: 'Failed to update assignment rule' }, { status: 500 })
+  }
+}
+
+// DELETE /api/assignment-rules/[id] - Delete an inquiry assignment rule
+// Inquiries it already assigned keep their coordinator
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingRule = await prisma.assignmentRule.findUnique({
+      where: { id },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 })
+    }
+
+    await prisma.assignmentRule.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Assignment rule deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting assignment rule:', error)
+    return NextResponse.json({ error: 'Failed to delete assignment rule' }, { status: 500 })
+  }
+}
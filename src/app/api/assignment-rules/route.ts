@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AssignmentStrategy } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { assignmentRuleInclude, validateAssignmentRuleInput } from '@/lib/inquiry-assignment'
+
+// GET /api/assignment-rules - List inquiry assignment rules in priority order
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'READ_SETTINGS')
+    if (user instanceof NextResponse) return user
+
+    const rules = await prisma.assignmentRule.findMany({
+      include: assignmentRuleInclude,
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error('Error fetching assignment rules:', error)
+    return NextResponse.json({ error: 'Failed to fetch assignment rules' }, { status: 500 })
+  }
+}
+
+// POST /api/assignment-rules - Create an inquiry assignment rule
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_SYSTEM_CONFIG')
+    if (user instanceof NextResponse) return user
+
+    const body = await request.json()
+
+    const validationError = validateAssignmentRuleInput(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const strategy = body.strategy as AssignmentStrategy
+    const memberIds: string[] = strategy === 'FIXED_OWNER' ? [] : Array.from(new Set(body.memberIds as string[]))
+
+    const rule = await prisma.assignmentRule.create({
+      data: {
+        name: body.name.trim(),
+        priority: body.priority ?? 0,
+        isActive: body.isActive ?? true,
+        programId: body.programId || null,
+        campus: body.campus?.trim() || null,
+        marketingSource: body.marketingSource?.trim() || null,
+        city: body.city?.trim() || null,
+        strategy,
+        fixedOwnerId: strategy === 'FIXED_OWNER' ? body.fixedOwnerId : null,
+        members: {
+          create: memberIds.map(userId => ({ userId })),
+        },
+      },
+      include: assignmentRuleInclude,
+    })
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    console.error('Error creating assignment rule:', error)
+    return NextResponse.json({ error: 'Failed to create assignment rule' }, { status: 500 })
+  }
+}
@@ -13,12 +13,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const user = await login(email, password)
+    const { user, error } = await login(email, password)
 
     if (!user) {
-      // Log failed login attempt
-      await logFailedLogin(email, request, 'Invalid credentials')
-      
+      if (error === 'MAINTENANCE_MODE') {
+        await logFailedLogin(email, request, 'Maintenance mode')
+
+        return NextResponse.json(
+          { error: 'The system is under maintenance. Only administrators can sign in right now.' },
+          { status: 503 }
+        )
+      }
+
+      // Locked accounts get the same answer as a wrong email or password, so the response never
+      // tells whether an account exists
+      await logFailedLogin(email, request, error === 'ACCOUNT_LOCKED' ? 'Account locked' : 'Invalid credentials')
+
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
@@ -26,7 +36,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Log successful login
-    await logLogin(user.id, request, user.token)
+    await logLogin(user.id, request, user.sessionId)
 
     const response = NextResponse.json({
       user: {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { logLogout } from '@/lib/activity-logger'
-import { verifyToken } from '@/lib/auth'
+import { verifyToken, endSession } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,8 +9,11 @@ export async function POST(request: NextRequest) {
     if (token) {
       const decoded = verifyToken(token)
       if (decoded) {
+        // End the session so the token can't be reused
+        await endSession(token, 'LOGOUT')
+
         // Log logout activity
-        await logLogout(decoded.id, request, token)
+        await logLogout(decoded.id, request, decoded.sid)
       }
     }
   } catch (error) {
@@ -6,7 +6,7 @@ export async function GET(request: NextRequest) {
     const token = request.cookies.get('auth-token')?.value || 
                   request.headers.get('authorization')?.replace('Bearer ', '')
 
-    const user = await getCurrentUser(token)
+    const user = await getCurrentUser(token, request)
 
     if (!user) {
       return NextResponse.json(
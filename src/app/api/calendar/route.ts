@@ -3,7 +3,7 @@ import { prisma } from '@/lib/prisma'
 import { isAdminRole, requireAuth } from '@/lib/auth'
 import { FollowUpStatus } from '@prisma/client'
 
-// GET /api/calendar - Get all calendar events (meetings, tasks, follow-ups)
+// GET /api/calendar - Get all calendar events (meetings, tasks, follow-ups, scheduled campaign sends)
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth(request)
@@ -134,6 +134,41 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // Fetch upcoming scheduled email/WhatsApp sends
+    const scheduledSendWhere: any = { status: 'SCHEDULED' }
+    if (!isAdmin) {
+      scheduledSendWhere.createdById = user.id
+    }
+    if (Object.keys(dateFilter).length > 0) {
+      scheduledSendWhere.scheduledAt = dateFilter
+    }
+
+    const scheduledSends = await prisma.sendJob.findMany({
+      where: scheduledSendWhere,
+      include: {
+        emailMessage: {
+          select: {
+            subject: true
+          }
+        },
+        whatsappMessage: {
+          select: {
+            message: true
+          }
+        },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: {
+        scheduledAt: 'asc'
+      }
+    })
+
     // Format events for calendar
     const events = [
       // Meetings
@@ -191,7 +226,28 @@ export async function GET(request: NextRequest) {
           createdBy: task.createdBy,
           status: task.status,
           raw: task
-        }))
+        })),
+
+      // Scheduled campaign sends
+      ...scheduledSends.map(job => {
+        const whatsappText = job.whatsappMessage?.message || ''
+        return {
+          id: job.id,
+          type: 'campaign-send',
+          title: job.channel === 'EMAIL'
+            ? `Email: ${job.emailMessage?.subject || 'Scheduled email'}`
+            : `WhatsApp: ${whatsappText.substring(0, 50)}${whatsappText.length > 50 ? '...' : ''}`,
+          start: job.scheduledAt!,
+          end: new Date(new Date(job.scheduledAt!).getTime() + 30 * 60 * 1000), // 30 minutes default
+          allDay: false,
+          color: job.channel === 'EMAIL' ? '#0ea5e9' : '#22c55e', // sky / green
+          description: `Scheduled send to ${job.totalCount} recipient${job.totalCount === 1 ? '' : 's'}`,
+          channel: job.channel,
+          createdBy: job.createdBy,
+          status: job.status,
+          raw: { id: job.id, channel: job.channel, scheduledAt: job.scheduledAt, totalCount: job.totalCount }
+        }
+      })
     ]
 
     return NextResponse.json({
@@ -199,6 +255,7 @@ export async function GET(request: NextRequest) {
       meetings: meetings.length,
       tasks: tasks.length,
       regularTasks: regularTasks.length,
+      scheduledSends: scheduledSends.length,
       total: events.length
     })
   } catch (error) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isAdminRole, requireAuth } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 
 // GET /api/campaigns/[id] - Get a specific campaign
 export async function GET(
@@ -8,7 +8,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
     const campaign = await prisma.campaign.findUnique({
@@ -88,7 +89,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
     const body = await request.json()
@@ -208,7 +210,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
     // Check if campaign exists
@@ -1,26 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 
 // GET /api/campaigns - Get all campaigns
-// Accessible to all authenticated users
+// Requires READ_CAMPAIGN (READ_INQUIRY for the inquiry form)
 // For inquiry form: all users can see all ACTIVE campaigns
 // For other contexts: normal users see only their own campaigns
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    // Get query parameters for filtering and pagination
+    const searchParams = request.nextUrl.searchParams
+    const forInquiry = searchParams.get('forInquiry') === 'true' // Special flag for inquiry form
+
+    const user = await requirePermission(request, forInquiry ? 'READ_INQUIRY' : 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     
     // Build where clause for user filtering
     const where: any = {
       isDeleted: false
     }
     
-    // Get query parameters for filtering and pagination
-    const searchParams = request.nextUrl.searchParams
     const status = searchParams.get('status')
     const type = searchParams.get('type')
     const search = searchParams.get('search')
-    const forInquiry = searchParams.get('forInquiry') === 'true' // Special flag for inquiry form
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '20')
     const skip = (page - 1) * limit
@@ -121,7 +123,8 @@ export async function GET(request: NextRequest) {
 // POST /api/campaigns - Create a new campaign
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     
     const body = await request.json()
     const {
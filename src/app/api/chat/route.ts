@@ -3,9 +3,15 @@ import {
   GoogleGenerativeAI,
   HarmBlockThreshold,
   HarmCategory,
+  type FunctionResponsePart,
   type SafetySetting,
 } from '@google/generative-ai'
+import { format } from 'date-fns'
 import { requireAuth } from '@/lib/auth'
+import { ChatCitation, chatFunctionDeclarations, runChatTool } from '@/lib/chat-tools'
+
+// How many rounds of function calls the model may make before it has to answer
+const MAX_TOOL_ROUNDS = 5
 
 export async function POST(request: NextRequest) {
   // Parse request body first (can only be read once)
@@ -108,6 +114,13 @@ export async function POST(request: NextRequest) {
       maxOutputTokens: 1024,
     }
 
+    const systemInstruction = [
+      `You are the assistant in our student recruitment CRM, talking to ${user.name || user.email}. Today is ${format(new Date(), 'EEEE, MMMM d, yyyy')}.`,
+      'Use the functions to answer questions about inquiries, programs and their Q&A, meetings and follow-ups.',
+      'Only state CRM facts that a function returned; if a function returns an error or nothing, say so rather than guessing.',
+      'The functions only return data this user is allowed to see, so counts may not cover the whole organisation.',
+    ].join(' ')
+
     // Build conversation history
     const chatHistory = history.map((msg: { role: string; content: string }) => ({
       role: msg.role === 'user' ? 'user' : 'model',
@@ -138,6 +151,8 @@ export async function POST(request: NextRequest) {
         const model = genAI.getGenerativeModel({ 
           model: modelName,
           safetySettings,
+          systemInstruction,
+          tools: [{ functionDeclarations: chatFunctionDeclarations }],
         })
 
         const chat = model.startChat({
@@ -145,12 +160,31 @@ export async function POST(request: NextRequest) {
           generationConfig,
         })
 
-        const result = await chat.sendMessage(message)
+        let result = await chat.sendMessage(message)
+        const citations = new Map<string, ChatCitation>()
+
+        // Run the lookups the model asks for and hand back the results until it answers in text
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const functionCalls = result.response.functionCalls()
+          if (!functionCalls || functionCalls.length === 0) break
+
+          const functionResponses: FunctionResponsePart[] = []
+          for (const call of functionCalls) {
+            const toolResult = await runChatTool(call.name, call.args, user)
+            for (const citation of toolResult.citations) {
+              citations.set(`${citation.kind}:${citation.id}`, citation)
+            }
+            functionResponses.push({ functionResponse: { name: call.name, response: toolResult.response } })
+          }
+          result = await chat.sendMessage(functionResponses)
+        }
+
         const response = await result.response
-        const text = response.text()
+        const text = response.text() || 'Sorry, I could not find an answer to that. Please try rephrasing your question.'
 
         return NextResponse.json({
           message: text,
+          citations: Array.from(citations.values()),
         })
       } catch (modelError: any) {
         lastError = modelError
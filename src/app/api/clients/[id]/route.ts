@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getClientForUser, serializeClientTags, withParsedTags } from '@/lib/clients'
+import { getDealAccessConditions, getDealCurrencySettings } from '@/lib/deals'
+
+// Activities shown in the client's timeline
+const TIMELINE_LIMIT = 100
+
+// GET /api/clients/[id] - Client with linked deals, won value and deal activity timeline
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_CLIENT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getClientForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    // Non-admins only see the deals they have access to
+    const dealWhere: Prisma.DealWhereInput = { clientId: id }
+    if (!isAdminRole(user.role)) {
+      dealWhere.OR = getDealAccessConditions(user.id)
+    }
+
+    const [client, deals, { baseCurrency, rates }] = await Promise.all([
+      prisma.client.findUnique({
+        where: { id },
+        include: {
+          createdBy: {
+            select: { id: true, name: true, email: true }
+          }
+        }
+      }),
+      prisma.deal.findMany({
+        where: dealWhere,
+        include: {
+          assignedTo: {
+            select: { id: true, name: true, email: true }
+          },
+          project: {
+            select: { id: true, name: true, color: true }
+          },
+          _count: {
+            select: { activities: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      getDealCurrencySettings(),
+    ])
+
+    const timeline = await prisma.dealActivity.findMany({
+      where: { dealId: { in: deals.map(deal => deal.id) } },
+      include: {
+        user: {
+          select: { id: true, name: true }
+        },
+        deal: {
+          select: { id: true, title: true }
+        }
+      },
+      orderBy: { date: 'desc' },
+      take: TIMELINE_LIMIT
+    })
+
+    // Won value per currency, plus a total in the base currency where a rate is configured
+    const wonByCurrency: Record<string, number> = {}
+    for (const deal of deals) {
+      if (deal.stage !== 'WON' || !deal.value) continue
+      const currency = deal.currency.toUpperCase()
+      wonByCurrency[currency] = (wonByCurrency[currency] || 0) + deal.value
+    }
+    const unconvertedCurrencies = Object.keys(wonByCurrency).filter(currency => !rates[currency])
+    const totalWonValue = Object.entries(wonByCurrency)
+      .reduce((sum, [currency, value]) => sum + value * (rates[currency] || 0), 0)
+
+    return NextResponse.json({
+      ...withParsedTags(client!),
+      deals,
+      timeline,
+      summary: {
+        dealCount: deals.length,
+        openDealCount: deals.filter(deal => deal.stage !== 'WON' && deal.stage !== 'LOST').length,
+        wonDealCount: deals.filter(deal => deal.stage === 'WON').length,
+        baseCurrency,
+        totalWonValue: Math.round(totalWonValue * 100) / 100,
+        wonByCurrency,
+        unconvertedCurrencies
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching client:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch client' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/clients/[id] - Update a client. Only the fields sent are changed.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_CLIENT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getClientForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    const body = await request.json()
+
+    if (body.name !== undefined && !String(body.name).trim()) {
+      return NextResponse.json(
+        { error: 'Client name is required' },
+        { status: 400 }
+      )
+    }
+
+    const optionalFields = ['email', 'phone', 'company', 'website', 'address', 'industry', 'size', 'notes'] as const
+    const data: Prisma.ClientUpdateInput = {
+      ...(body.name !== undefined && { name: String(body.name).trim() }),
+      ...(body.tags !== undefined && { tags: serializeClientTags(body.tags) }),
+    }
+    for (const field of optionalFields) {
+      if (body[field] !== undefined) {
+        data[field] = body[field] ? String(body[field]).trim() || null : null
+      }
+    }
+
+    const client = await prisma.client.update({
+      where: { id },
+      data,
+    })
+
+    return NextResponse.json(withParsedTags(client))
+  } catch (error) {
+    console.error('Error updating client:', error)
+    return NextResponse.json(
+      { error: 'Failed to update client' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/clients/[id] - Delete a client. Linked deals are kept without a client.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'DELETE_CLIENT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getClientForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    // Only the creator or an admin can remove a client other users' deals may point at
+    if (access.createdById !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'Only the client\'s creator or an admin can delete it' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.client.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Client deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting client:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete client' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { CLIENT_SIZES, getClientAccessConditions } from '@/lib/clients'
+
+// GET /api/clients/filters - Industries and sizes available for filtering the client list
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'READ_CLIENT')
+    if (user instanceof NextResponse) return user
+
+    const clients = await prisma.client.findMany({
+      where: isAdminRole(user.role) ? {} : { OR: getClientAccessConditions(user.id) },
+      select: { industry: true, size: true },
+      distinct: ['industry', 'size'],
+    })
+
+    const industries = Array.from(new Set(clients.map(c => c.industry).filter((v): v is string => !!v))).sort()
+    const usedSizes = new Set(clients.map(c => c.size).filter((v): v is string => !!v))
+    // Standard sizes first in order, then any custom values
+    const sizes = [
+      ...CLIENT_SIZES.filter(size => usedSizes.has(size)),
+      ...Array.from(usedSizes).filter(size => !CLIENT_SIZES.includes(size)).sort(),
+    ]
+
+    return NextResponse.json({ industries, sizes })
+  } catch (error) {
+    console.error('Error fetching client filters:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch client filters' },
+      { status: 500 }
+    )
+  }
+}
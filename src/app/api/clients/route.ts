@@ -1,35 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getClientAccessConditions, serializeClientTags, withParsedTags } from '@/lib/clients'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_CLIENT')
+    if (user instanceof NextResponse) return user
     const { searchParams } = new URL(request.url)
     const search = searchParams.get('search')
     const industry = searchParams.get('industry')
+    const size = searchParams.get('size')
 
-    const whereClause: Record<string, any> = {}
-    
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own clients
+    const conditions: Prisma.ClientWhereInput[] = []
+
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own clients and clients of their deals
     if (!isAdminRole(user.role)) {
-      whereClause.createdById = user.id
+      conditions.push({ OR: getClientAccessConditions(user.id) })
     }
 
     if (search) {
-      whereClause.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-        { company: { contains: search, mode: 'insensitive' } }
-      ]
+      conditions.push({
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { email: { contains: search, mode: 'insensitive' } },
+          { company: { contains: search, mode: 'insensitive' } },
+          { tags: { contains: search, mode: 'insensitive' } }
+        ]
+      })
     }
 
     if (industry) {
-      whereClause.industry = industry
+      conditions.push({ industry })
+    }
+
+    if (size) {
+      conditions.push({ size })
     }
 
     const clients = await prisma.client.findMany({
-      where: whereClause,
+      where: { AND: conditions },
       include: {
         createdBy: {
           select: { id: true, name: true, email: true }
@@ -39,6 +50,7 @@ export async function GET(request: NextRequest) {
             id: true,
             title: true,
             value: true,
+            currency: true,
             stage: true,
             probability: true
           }
@@ -54,7 +66,7 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    return NextResponse.json(clients)
+    return NextResponse.json(clients.map(withParsedTags))
   } catch (error) {
     console.error('Error fetching clients:', error)
     return NextResponse.json(
@@ -66,9 +78,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_CLIENT')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
-    
+
     const {
       name,
       email,
@@ -82,7 +95,7 @@ export async function POST(request: NextRequest) {
       tags
     } = body
 
-    if (!name) {
+    if (!name?.trim()) {
       return NextResponse.json(
         { error: 'Client name is required' },
         { status: 400 }
@@ -92,7 +105,7 @@ export async function POST(request: NextRequest) {
     // Create client
     const client = await prisma.client.create({
       data: {
-        name,
+        name: name.trim(),
         email,
         phone,
         company,
@@ -101,12 +114,12 @@ export async function POST(request: NextRequest) {
         industry,
         size,
         notes,
-        tags: tags ? JSON.stringify(tags) : null,
+        tags: serializeClientTags(tags),
         createdById: user.id
       }
     })
 
-    return NextResponse.json(client, { status: 201 })
+    return NextResponse.json(withParsedTags(client), { status: 201 })
   } catch (error) {
     console.error('Error creating client:', error)
     return NextResponse.json(
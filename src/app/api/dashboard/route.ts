@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { isAdminRole, requireAuth } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 import { FollowUpStatus } from '@prisma/client'
 
 export async function GET(request: NextRequest) {
@@ -11,7 +12,7 @@ export async function GET(request: NextRequest) {
     const isAdmin = isAdminRole(user.role)
     
     // Build where clauses for user filtering
-    const seekerWhere = isAdmin ? {} : { createdById: user.id }
+    const seekerWhere = isAdmin ? {} : { OR: getSeekerAccessConditions(user.id) }
     const campaignWhere = isAdmin ? { isDeleted: false } : { createdById: user.id, isDeleted: false }
     const taskWhere = isAdmin ? {} : { assignedTo: user.id }
     const interactionWhere = isAdmin ? {} : { userId: user.id }
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getDealForUser, isDealActivityType } from '@/lib/deals'
+
+// PATCH /api/deals/[id]/activities/[activityId] - Edit an activity (author or admin)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; activityId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_DEAL_ACTIVITIES')
+    if (user instanceof NextResponse) return user
+    const { id, activityId } = await params
+
+    const deal = await getDealForUser(id, user)
+    if (deal instanceof NextResponse) return deal
+
+    const existingActivity = await prisma.dealActivity.findFirst({
+      where: { id: activityId, dealId: id },
+    })
+
+    if (!existingActivity) {
+      return NextResponse.json(
+        { error: 'Activity not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingActivity.userId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only edit your own activities' },
+        { status: 403 }
+      )
+    }
+
+    const { type, title, description, date, duration } = await request.json()
+
+    if (type !== undefined && !isDealActivityType(type)) {
+      return NextResponse.json(
+        { error: 'Invalid activity type' },
+        { status: 400 }
+      )
+    }
+
+    if (title !== undefined && !title?.trim()) {
+      return NextResponse.json(
+        { error: 'Activity title is required' },
+        { status: 400 }
+      )
+    }
+
+    const activityDate = date !== undefined ? new Date(date) : undefined
+    if (activityDate && isNaN(activityDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid activity date' },
+        { status: 400 }
+      )
+    }
+
+    if (duration !== undefined && duration !== null && (!Number.isInteger(duration) || duration < 0)) {
+      return NextResponse.json(
+        { error: 'Duration must be a whole number of minutes' },
+        { status: 400 }
+      )
+    }
+
+    const activity = await prisma.dealActivity.update({
+      where: { id: activityId },
+      data: {
+        ...(type !== undefined && { type }),
+        ...(title !== undefined && { title: title.trim() }),
+        ...(description !== undefined && { description: description?.trim() || null }),
+        ...(activityDate && { date: activityDate }),
+        ...(duration !== undefined && { duration }),
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    return NextResponse.json(activity)
+  } catch (error) {
+    console.error('Error updating deal activity:', error)
+    return NextResponse.json(
+      { error: 'Failed to update deal activity' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/deals/[id]/activities/[activityId] - Delete an activity (author or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; activityId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_DEAL_ACTIVITIES')
+    if (user instanceof NextResponse) return user
+    const { id, activityId } = await params
+
+    const deal = await getDealForUser(id, user)
+    if (deal instanceof NextResponse) return deal
+
+    const existingActivity = await prisma.dealActivity.findFirst({
+      where: { id: activityId, dealId: id },
+    })
+
+    if (!existingActivity) {
+      return NextResponse.json(
+        { error: 'Activity not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingActivity.userId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only delete your own activities' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.dealActivity.delete({
+      where: { id: activityId },
+    })
+
+    return NextResponse.json({ message: 'Activity deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting deal activity:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete deal activity' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getDealForUser, isDealActivityType } from '@/lib/deals'
+
+// GET /api/deals/[id]/activities - List a deal's activities, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_DEAL')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const deal = await getDealForUser(id, user)
+    if (deal instanceof NextResponse) return deal
+
+    const activities = await prisma.dealActivity.findMany({
+      where: { dealId: id },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { date: 'desc' },
+    })
+
+    return NextResponse.json(activities)
+  } catch (error) {
+    console.error('Error fetching deal activities:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch deal activities' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/deals/[id]/activities - Log a call, email, meeting or other activity
+// Body: { type, title, description?, date?, duration? (minutes) }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_DEAL_ACTIVITIES')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const deal = await getDealForUser(id, user)
+    if (deal instanceof NextResponse) return deal
+
+    const { type, title, description, date, duration } = await request.json()
+
+    if (!isDealActivityType(type)) {
+      return NextResponse.json(
+        { error: 'Invalid activity type' },
+        { status: 400 }
+      )
+    }
+
+    if (!title?.trim()) {
+      return NextResponse.json(
+        { error: 'Activity title is required' },
+        { status: 400 }
+      )
+    }
+
+    const activityDate = date ? new Date(date) : new Date()
+    if (isNaN(activityDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid activity date' },
+        { status: 400 }
+      )
+    }
+
+    if (duration !== undefined && duration !== null && (!Number.isInteger(duration) || duration < 0)) {
+      return NextResponse.json(
+        { error: 'Duration must be a whole number of minutes' },
+        { status: 400 }
+      )
+    }
+
+    const activity = await prisma.dealActivity.create({
+      data: {
+        dealId: id,
+        userId: user.id,
+        type,
+        title: title.trim(),
+        description: description?.trim() || null,
+        date: activityDate,
+        duration: duration ?? null,
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    return NextResponse.json(activity, { status: 201 })
+  } catch (error) {
+    console.error('Error creating deal activity:', error)
+    return NextResponse.json(
+      { error: 'Failed to log deal activity' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { dealInclude, getActualCloseDate, getDealForUser, isDealStage } from '@/lib/deals'
+import { getProjectForUser } from '@/lib/project-access'
+import { getClientForUser } from '@/lib/clients'
+
+// GET /api/deals/[id] - Get a deal with its activities and stage history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_DEAL')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getDealForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    const deal = await prisma.deal.findUnique({
+      where: { id },
+      include: dealInclude,
+    })
+
+    return NextResponse.json(deal)
+  } catch (error) {
+    console.error('Error fetching deal:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch deal' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/deals/[id] - Update a deal. Only the fields sent are changed.
+// A stage change is recorded in the deal's stage history and sets actualCloseDate on WON/LOST.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_DEAL')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingDeal = await getDealForUser(id, user)
+    if (existingDeal instanceof NextResponse) return existingDeal
+
+    const body = await request.json()
+    const {
+      title,
+      description,
+      value,
+      currency,
+      stage,
+      probability,
+      expectedCloseDate,
+      source,
+      projectId,
+      assignedToId,
+      clientId,
+      tags
+    } = body
+
+    if (title !== undefined && !String(title).trim()) {
+      return NextResponse.json(
+        { error: 'Deal title is required' },
+        { status: 400 }
+      )
+    }
+
+    if (stage !== undefined && !isDealStage(stage)) {
+      return NextResponse.json(
+        { error: 'Invalid deal stage' },
+        { status: 400 }
+      )
+    }
+
+    if (probability !== undefined && (!Number.isInteger(probability) || probability < 0 || probability > 100)) {
+      return NextResponse.json(
+        { error: 'Probability must be a whole number between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return NextResponse.json(
+        { error: 'Value must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    // Only links that change are checked. Linking a project widens who can see the deal, so it must be
+    // one of the user's projects. Clients must be visible to the user, and assignees active users.
+    if (projectId && projectId !== existingDeal.projectId) {
+      const access = await getProjectForUser(projectId, user)
+      if (access instanceof NextResponse) return access
+    }
+
+    if (assignedToId && assignedToId !== existingDeal.assignedToId) {
+      const assignee = await prisma.user.findUnique({
+        where: { id: assignedToId },
+        select: { isActive: true },
+      })
+      if (!assignee?.isActive) {
+        return NextResponse.json(
+          { error: 'Deals can only be assigned to active users' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (clientId && clientId !== existingDeal.clientId) {
+      const client = await getClientForUser(clientId, user)
+      if (client instanceof NextResponse) return client
+    }
+
+    const data: Prisma.DealUncheckedUpdateInput = {
+      ...(title !== undefined && { title: String(title).trim() }),
+      ...(description !== undefined && { description }),
+      ...(value !== undefined && { value }),
+      ...(currency !== undefined && { currency: String(currency).toUpperCase() }),
+      ...(probability !== undefined && { probability }),
+      ...(expectedCloseDate !== undefined && { expectedCloseDate: expectedCloseDate ? new Date(expectedCloseDate) : null }),
+      ...(source !== undefined && { source }),
+      ...(projectId !== undefined && { projectId: projectId || null }),
+      ...(assignedToId !== undefined && { assignedToId: assignedToId || null }),
+      ...(clientId !== undefined && { clientId: clientId || null }),
+      ...(tags !== undefined && { tags: tags ? JSON.stringify(tags) : null }),
+    }
+
+    const stageChanged = stage !== undefined && stage !== existingDeal.stage
+
+    const deal = await prisma.$transaction(async (tx) => {
+      if (stageChanged) {
+        await tx.dealStageHistory.create({
+          data: {
+            dealId: id,
+            fromStage: existingDeal.stage,
+            toStage: stage,
+            changedById: user.id,
+          },
+        })
+      }
+
+      return tx.deal.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(stageChanged && {
+            stage,
+            actualCloseDate: getActualCloseDate(stage, existingDeal.actualCloseDate),
+          }),
+        },
+        include: dealInclude,
+      })
+    })
+
+    return NextResponse.json(deal)
+  } catch (error) {
+    console.error('Error updating deal:', error)
+    return NextResponse.json(
+      { error: 'Failed to update deal' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/deals/[id] - Delete a deal with its activities and stage history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'DELETE_DEAL')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existingDeal = await getDealForUser(id, user)
+    if (existingDeal instanceof NextResponse) return existingDeal
+
+    await prisma.deal.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Deal deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting deal:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete deal' },
+      { status: 500 }
+    )
+  }
+}
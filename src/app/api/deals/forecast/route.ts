@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getDealAccessConditions, getDealForecast } from '@/lib/deals'
+
+// GET /api/deals/forecast - Weighted pipeline forecast by expected close month
+// Optional filters: projectId, clientId, assignedToId
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'READ_DEAL')
+    if (user instanceof NextResponse) return user
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId')
+    const clientId = searchParams.get('clientId')
+    const assignedToId = searchParams.get('assignedToId')
+
+    const where: Prisma.DealWhereInput = {
+      ...(projectId && { projectId }),
+      ...(clientId && { clientId }),
+      ...(assignedToId && { assignedToId }),
+    }
+
+    if (!isAdminRole(user.role)) {
+      where.OR = getDealAccessConditions(user.id)
+    }
+
+    const forecast = await getDealForecast(where)
+
+    return NextResponse.json(forecast)
+  } catch (error) {
+    console.error('Error building deal forecast:', error)
+    return NextResponse.json(
+      { error: 'Failed to build deal forecast' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getActualCloseDate, getDealAccessConditions, isDealStage } from '@/lib/deals'
+import { getProjectForUser } from '@/lib/project-access'
+import { getClientForUser } from '@/lib/clients'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_DEAL')
+    if (user instanceof NextResponse) return user
     const { searchParams } = new URL(request.url)
     const stage = searchParams.get('stage')
     const projectId = searchParams.get('projectId')
@@ -14,11 +18,7 @@ export async function GET(request: NextRequest) {
     
     // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own deals or deals in their projects
     if (!isAdminRole(user.role)) {
-      whereClause.OR = [
-        { createdById: user.id },
-        { assignedToId: user.id },
-        { project: { members: { some: { userId: user.id } } } }
-      ]
+      whereClause.OR = getDealAccessConditions(user.id)
     }
 
     if (stage) {
@@ -77,7 +77,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_DEAL')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const {
@@ -102,22 +103,65 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create deal
+    if (!isDealStage(stage)) {
+      return NextResponse.json(
+        { error: 'Invalid deal stage' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(probability) || probability < 0 || probability > 100) {
+      return NextResponse.json(
+        { error: 'Probability must be a whole number between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    // Linking a project widens who can see the deal, so it must be one of the user's projects.
+    // Clients must be visible to the user, and assignees active users.
+    if (projectId) {
+      const access = await getProjectForUser(projectId, user)
+      if (access instanceof NextResponse) return access
+    }
+
+    if (assignedToId) {
+      const assignee = await prisma.user.findUnique({
+        where: { id: assignedToId },
+        select: { isActive: true },
+      })
+      if (!assignee?.isActive) {
+        return NextResponse.json(
+          { error: 'Deals can only be assigned to active users' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (clientId) {
+      const client = await getClientForUser(clientId, user)
+      if (client instanceof NextResponse) return client
+    }
+
+    // Create deal, recording its initial stage
     const deal = await prisma.deal.create({
       data: {
         title,
         description,
         value,
-        currency,
+        currency: String(currency).toUpperCase(),
         stage,
         probability,
         expectedCloseDate: expectedCloseDate ? new Date(expectedCloseDate) : null,
+        actualCloseDate: getActualCloseDate(stage, null),
         source,
         projectId,
         assignedToId,
         clientId,
         tags: tags ? JSON.stringify(tags) : null,
-        createdById: user.id
+        createdById: user.id,
+        stageHistory: {
+          create: { toStage: stage, changedById: user.id }
+        }
       },
       include: {
         createdBy: {
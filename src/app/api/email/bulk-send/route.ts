@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
-import { sendEmailViaSMTP, verifySMTPConnection } from '@/lib/smtp'
+import { requirePermission } from '@/lib/auth'
+import { verifySMTPConnection } from '@/lib/smtp'
+import { runJob } from '@/lib/jobs'
+import { resolveScheduledAt } from '@/lib/send-queue'
+import { getSuppressedSeekerIds } from '@/lib/contact-suppression'
 
 interface SeekerData {
   id: string
@@ -12,15 +15,21 @@ interface SeekerData {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
 
     // Parse multipart form data
     const formData = await request.formData()
     const seekersJson = formData.get('seekers') as string
     const subject = formData.get('subject') as string
     const message = formData.get('message') as string
+    const scheduledAtValue = (formData.get('scheduledAt') as string | null) || ''
+    // Optional marketing campaign the send belongs to (open/click stats show in its analytics)
+    const campaignId = (formData.get('campaignId') as string | null) || ''
+    // Rich-text bodies are sent as HTML; plain text is split into paragraphs
+    const isHtml = formData.get('isHtml') === 'true'
 
-    if (!seekersJson || !subject || !message) {
+    if (!seekersJson || !subject || !message || (isHtml && !message.replace(/<[^>]*>/g, '').trim())) {
       return NextResponse.json(
         { error: 'Missing required fields: seekers, subject, or message' },
         { status: 400 }
@@ -37,15 +46,40 @@ export async function POST(request: NextRequest) {
     }
 
     // Filter seekers with email addresses
-    const seekersWithEmail = seekers.filter(seeker => seeker.email)
+    const seekersWithAddress = seekers.filter(seeker => seeker.email)
 
-    if (seekersWithEmail.length === 0) {
+    if (seekersWithAddress.length === 0) {
       return NextResponse.json(
         { error: 'No seekers with email addresses found' },
         { status: 400 }
       )
     }
 
+    // Skip inquiries that unsubscribed or are marked Do Not Contact
+    const suppressedIds = await getSuppressedSeekerIds('EMAIL', seekersWithAddress.map(seeker => seeker.id))
+    const seekersWithEmail = seekersWithAddress.filter(seeker => !suppressedIds.has(seeker.id))
+    const suppressedCount = seekersWithAddress.length - seekersWithEmail.length
+
+    if (seekersWithEmail.length === 0) {
+      return NextResponse.json(
+        { error: 'All selected inquiries have opted out of email', suppressedCount },
+        { status: 400 }
+      )
+    }
+
+    // Optional schedule, entered in the institute time zone
+    let scheduledAt: Date | undefined
+    if (scheduledAtValue) {
+      const resolved = await resolveScheduledAt(scheduledAtValue)
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        )
+      }
+      scheduledAt = resolved.scheduledAt
+    }
+
     // Parse attachments from form data
     const attachments: Array<{ filename: string; content: string; mimeType: string; size: number }> = []
     for (const [key, value] of formData.entries()) {
@@ -90,160 +124,66 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create email message record
+    // Create the message with PENDING recipients and queue (or schedule) it; the send-queue job
+    // delivers it within the configured rate limit and the client polls /api/send-jobs/[id] for progress
     const emailMessage = await prisma.emailMessage.create({
       data: {
         subject,
         message,
+        isHtml,
         recipientCount: seekersWithEmail.length,
         sentCount: 0,
         failedCount: 0,
-        sentAt: new Date(),
+        sentAt: scheduledAt || new Date(),
         userId: user.id,
-      },
-    })
-
-    // Create attachment records if any
-    if (attachments.length > 0) {
-      await prisma.emailAttachment.createMany({
-        data: attachments.map(att => ({
-          emailMessageId: emailMessage.id,
-          filename: att.filename,
-          mimeType: att.mimeType,
-          size: att.size,
-          content: att.content,
-        })),
-      })
-    }
-
-    // Send emails to all recipients
-    let sentCount = 0
-    let failedCount = 0
-    const results = []
-
-    for (const seeker of seekersWithEmail) {
-      if (!seeker.email) continue
-
-      try {
-        // Personalize message with seeker name
-        const personalizedMessage = message.replace(
-          /\{name\}/gi,
-          seeker.fullName || 'there'
-        )
-
-        // Convert message to HTML format
-        const htmlMessage = `
-          <html>
-            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
-              ${personalizedMessage.split('\n').map(line => `<p>${line}</p>`).join('')}
-              <br/>
-              <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;"/>
-              <p style="font-size: 12px; color: #666;">
-                This email was sent via the CRM System
-              </p>
-            </body>
-          </html>
-        `
-
-        // Prepare attachments for SMTP
-        const smtpAttachments = attachments.length > 0
-          ? attachments.map(att => ({
-            filename: att.filename,
-            content: att.content, // Already base64 encoded
-            contentType: att.mimeType,
-          }))
-          : undefined
-
-        const result = await sendEmailViaSMTP({
-          to: seeker.email,
-          subject,
-          html: htmlMessage,
-          attachments: smtpAttachments,
-        })
-
-        if (result.success) {
-          sentCount++
-
-          // Create recipient record
-          await prisma.emailRecipient.create({
-            data: {
-              emailMessageId: emailMessage.id,
-              seekerId: seeker.id,
-              email: seeker.email,
-              status: 'SENT',
-              sentAt: new Date(),
-            },
-          })
-
-          results.push({
-            seekerId: seeker.id,
-            email: seeker.email,
-            success: true,
-          })
-        } else {
-          failedCount++
-
-          // Create recipient record with error
-          await prisma.emailRecipient.create({
-            data: {
-              emailMessageId: emailMessage.id,
-              seekerId: seeker.id,
-              email: seeker.email,
-              status: 'FAILED',
-              errorMessage: result.error,
-            },
-          })
-
-          results.push({
-            seekerId: seeker.id,
-            email: seeker.email,
-            success: false,
-            error: result.error,
-          })
-        }
-      } catch (error) {
-        failedCount++
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-
-        // Create recipient record with error
-        await prisma.emailRecipient.create({
-          data: {
-            emailMessageId: emailMessage.id,
+        campaignId: campaignId || null,
+        recipients: {
+          create: seekersWithEmail.map(seeker => ({
             seekerId: seeker.id,
-            email: seeker.email || 'unknown',
-            status: 'FAILED',
-            errorMessage,
+            email: seeker.email!,
+            status: 'PENDING' as const,
+          })),
+        },
+        // Created together with the job so the worker never sees it without its attachments
+        attachments: {
+          create: attachments.map(att => ({
+            filename: att.filename,
+            mimeType: att.mimeType,
+            size: att.size,
+            content: att.content,
+          })),
+        },
+        sendJob: {
+          create: {
+            channel: 'EMAIL',
+            status: scheduledAt ? 'SCHEDULED' : 'QUEUED',
+            scheduledAt,
+            totalCount: seekersWithEmail.length,
+            skippedCount: suppressedCount,
+            createdById: user.id,
           },
-        })
-
-        results.push({
-          seekerId: seeker.id,
-          email: seeker.email,
-          success: false,
-          error: errorMessage,
-        })
-      }
-    }
-
-    // Update email message with final counts
-    await prisma.emailMessage.update({
-      where: { id: emailMessage.id },
-      data: {
-        sentCount,
-        failedCount,
+        },
+      },
+      include: {
+        sendJob: { select: { id: true } },
       },
     })
 
+    // Start sending right away rather than on the next tick
+    if (!scheduledAt) {
+      void runJob('send-queue')
+    }
+
     return NextResponse.json({
       success: true,
+      jobId: emailMessage.sendJob!.id,
       messageId: emailMessage.id,
       recipientCount: seekersWithEmail.length,
-      sentCount,
-      failedCount,
-      results,
-    })
+      suppressedCount,
+      scheduledAt: scheduledAt || null,
+    }, { status: 202 })
   } catch (error) {
-    console.error('Error sending bulk emails:', error)
+    console.error('Error queueing bulk emails:', error)
     return NextResponse.json(
       { error: 'Failed to send emails', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getEmailTrackingStats } from '@/lib/email-tracking'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
 
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '20')
     const skip = (page - 1) * limit
+    const campaignId = searchParams.get('campaignId')
 
     // Build where clause based on user role
     const where: any = {}
@@ -19,6 +22,13 @@ export async function GET(request: NextRequest) {
       where.userId = user.id
     }
 
+    if (campaignId) {
+      where.campaignId = campaignId
+    }
+
+    // Scheduled sends are listed separately until they go out
+    where.NOT = { sendJob: { is: { status: 'SCHEDULED' } } }
+
     // Fetch email messages with recipients and attachments
     const [messages, total] = await Promise.all([
       prisma.emailMessage.findMany({
@@ -63,16 +73,22 @@ export async function GET(request: NextRequest) {
       prisma.emailMessage.count({ where }),
     ])
 
+    // Open/click tracking per message
+    const trackingStats = await getEmailTrackingStats(messages)
+
     // Format response
     const formattedMessages = messages.map(msg => ({
       id: msg.id,
       subject: msg.subject,
       message: msg.message,
+      isHtml: msg.isHtml,
       recipientCount: msg.recipientCount,
       sentCount: msg.sentCount,
       failedCount: msg.failedCount,
       attachmentCount: msg.attachments.length,
+      campaignId: msg.campaignId,
       sentAt: msg.sentAt.toISOString(),
+      tracking: trackingStats.get(msg.id),
       user: {
         id: msg.user.id,
         name: msg.user.name,
@@ -84,6 +100,10 @@ export async function GET(request: NextRequest) {
         status: rec.status,
         errorMessage: rec.errorMessage,
         sentAt: rec.sentAt?.toISOString(),
+        openedAt: rec.openedAt?.toISOString(),
+        openCount: rec.openCount,
+        clickedAt: rec.clickedAt?.toISOString(),
+        clickCount: rec.clickCount,
         seeker: {
           id: rec.seeker.id,
           fullName: rec.seeker.fullName,
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+
+async function findAccessibleTemplate(id: string, user: { id: string; role: string }) {
+  const where: any = { id }
+  // Non-admins can only use and change their own templates
+  if (!isAdminRole(user.role)) {
+    where.userId = user.id
+  }
+  return prisma.emailTemplate.findFirst({ where })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const template = await findAccessibleTemplate(id, user)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found or access denied' }, { status: 404 })
+    }
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error fetching email template:', error)
+    return NextResponse.json({ error: 'Failed to fetch template' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+    const body = await request.json()
+
+    const existing = await findAccessibleTemplate(id, user)
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found or access denied' }, { status: 404 })
+    }
+
+    const data: Prisma.EmailTemplateUpdateInput = {}
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ error: 'Template name is required' }, { status: 400 })
+      }
+      const duplicate = await prisma.emailTemplate.findFirst({
+        where: { userId: existing.userId, name, NOT: { id } },
+        select: { id: true },
+      })
+      if (duplicate) {
+        return NextResponse.json({ error: 'A template with this name already exists' }, { status: 409 })
+      }
+      data.name = name
+    }
+    if (body.subject !== undefined) {
+      const subject = typeof body.subject === 'string' ? body.subject.trim() : ''
+      if (!subject) {
+        return NextResponse.json({ error: 'Template subject is required' }, { status: 400 })
+      }
+      data.subject = subject
+    }
+    if (body.body !== undefined) {
+      const content = typeof body.body === 'string' ? body.body : ''
+      if (!content.replace(/<[^>]*>/g, '').trim()) {
+        return NextResponse.json({ error: 'Template body is required' }, { status: 400 })
+      }
+      data.body = content
+    }
+
+    const template = await prisma.emailTemplate.update({
+      where: { id },
+      data,
+    })
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error updating email template:', error)
+    return NextResponse.json({ error: 'Failed to update template' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'DELETE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const existing = await findAccessibleTemplate(id, user)
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found or access denied' }, { status: 404 })
+    }
+
+    await prisma.emailTemplate.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting email template:', error)
+    return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 })
+  }
+}
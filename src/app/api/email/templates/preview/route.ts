@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import { getSeekerMergeValues, renderEmail } from '@/lib/email-templates'
+
+// POST /api/email/templates/preview - Render a subject/body (or a saved template) for one inquiry
+// Body: { seekerId, templateId? } or { seekerId, subject, body, isHtml? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+    const body = await request.json()
+
+    if (!body.seekerId) {
+      return NextResponse.json({ error: 'seekerId is required' }, { status: 400 })
+    }
+
+    // Enforce RBAC: non-admins can only preview against inquiries they created or are assigned to
+    const seekerWhere: any = { id: body.seekerId, NOT: { isDeleted: true } }
+    if (!isAdminRole(user.role)) {
+      seekerWhere.OR = getSeekerAccessConditions(user.id)
+    }
+    const seeker = await prisma.seeker.findFirst({
+      where: seekerWhere,
+      select: { id: true, fullName: true, email: true },
+    })
+    if (!seeker) {
+      return NextResponse.json({ error: 'Inquiry not found or access denied' }, { status: 404 })
+    }
+
+    let message: { subject: string; message: string; isHtml: boolean }
+    if (body.templateId) {
+      const templateWhere: any = { id: body.templateId }
+      if (!isAdminRole(user.role)) {
+        templateWhere.userId = user.id
+      }
+      const template = await prisma.emailTemplate.findFirst({ where: templateWhere })
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found or access denied' }, { status: 404 })
+      }
+      message = { subject: template.subject, message: template.body, isHtml: true }
+    } else {
+      message = {
+        subject: typeof body.subject === 'string' ? body.subject : '',
+        message: typeof body.body === 'string' ? body.body : '',
+        isHtml: body.isHtml !== false,
+      }
+    }
+
+    const values = (await getSeekerMergeValues([seeker.id])).get(seeker.id) || {}
+    const rendered = renderEmail(message, values)
+
+    return NextResponse.json({
+      seeker,
+      subject: rendered.subject,
+      html: rendered.html,
+      missingFields: rendered.missingFields,
+    })
+  } catch (error) {
+    console.error('Error rendering email preview:', error)
+    return NextResponse.json({ error: 'Failed to render preview' }, { status: 500 })
+  }
+}
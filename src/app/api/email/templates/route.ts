@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+
+const templateSelect = {
+  id: true,
+  name: true,
+  subject: true,
+  body: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+
+    const where: any = {}
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own templates
+    if (!isAdminRole(user.role)) {
+      where.userId = user.id
+    }
+
+    const templates = await prisma.emailTemplate.findMany({
+      where,
+      orderBy: {
+        updatedAt: 'desc',
+      },
+      select: templateSelect,
+    })
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Error fetching email templates:', error)
+    return NextResponse.json({ error: 'Failed to fetch templates' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'CREATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
+    const body = await request.json()
+
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    const subject = typeof body.subject === 'string' ? body.subject.trim() : ''
+    const content = typeof body.body === 'string' ? body.body : ''
+
+    if (!name) {
+      return NextResponse.json({ error: 'Template name is required' }, { status: 400 })
+    }
+    if (!subject) {
+      return NextResponse.json({ error: 'Template subject is required' }, { status: 400 })
+    }
+    if (!content.replace(/<[^>]*>/g, '').trim()) {
+      return NextResponse.json({ error: 'Template body is required' }, { status: 400 })
+    }
+
+    // Create or update per-user by name
+    const template = await prisma.emailTemplate.upsert({
+      where: {
+        userId_name: {
+          userId: user.id,
+          name,
+        },
+      },
+      update: { subject, body: content },
+      create: { userId: user.id, name, subject, body: content },
+      select: templateSelect,
+    })
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error saving email template:', error)
+    return NextResponse.json({ error: 'Failed to save template' }, { status: 500 })
+  }
+}
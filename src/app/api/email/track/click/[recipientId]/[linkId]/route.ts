@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordEmailClick } from '@/lib/email-tracking'
+
+// GET /api/email/track/click/[recipientId]/[linkId] - Records a link click and redirects to the link
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipientId: string; linkId: string }> }
+) {
+  try {
+    const { recipientId, linkId } = await params
+    const url = await recordEmailClick(recipientId, linkId, {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    })
+
+    if (!url) {
+      return new NextResponse('Link not found', { status: 404, headers: { 'Content-Type': 'text/plain' } })
+    }
+
+    return NextResponse.redirect(url, 302)
+  } catch (error) {
+    console.error('Error recording email click:', error)
+    return new NextResponse('Failed to open link', { status: 500, headers: { 'Content-Type': 'text/plain' } })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TRACKING_PIXEL, recordEmailOpen } from '@/lib/email-tracking'
+
+// GET /api/email/track/open/[recipientId] - Tracking pixel embedded in bulk emails
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ recipientId: string }> }
+) {
+  try {
+    const { recipientId } = await params
+    await recordEmailOpen(recipientId, {
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      userAgent: request.headers.get('user-agent'),
+    })
+  } catch (error) {
+    console.error('Error recording email open:', error)
+  }
+
+  // Always answer with the pixel so mail clients never show a broken image
+  return new NextResponse(new Uint8Array(TRACKING_PIXEL), {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+    },
+  })
+}
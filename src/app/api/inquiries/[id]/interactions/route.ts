@@ -1,19 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import { SUPPRESSION_CHANNELS, suppressContacts } from '@/lib/contact-suppression'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
 
-    // Enforce RBAC: non-admins can only access interactions for inquiries they created
+    // Enforce RBAC: non-admins can only access interactions for inquiries they created or are assigned to
     const seekerWhere: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
     }
     const seeker = await prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
     if (!seeker) {
@@ -54,15 +57,16 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'MANAGE_INQUIRY_INTERACTIONS')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const body = await request.json()
 
-    // Enforce RBAC: non-admins can only create interactions for inquiries they created
+    // Enforce RBAC: non-admins can only create interactions for inquiries they created or are assigned to
     const seekerWhere: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
     }
     const seeker = await prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
     if (!seeker) {
@@ -100,6 +104,17 @@ export async function POST(
       })
     }
 
+    // Do Not Contact suppresses every outbound channel for this inquiry
+    if (body.outcome === 'DO_NOT_CONTACT') {
+      await suppressContacts({
+        seekerIds: [id],
+        channels: SUPPRESSION_CHANNELS,
+        source: 'DO_NOT_CONTACT',
+        reason: body.notes || undefined,
+        createdById: _user.id,
+      })
+    }
+
     return NextResponse.json(interaction, { status: 201 })
   } catch (error) {
     console.error('Error creating interaction:', error)
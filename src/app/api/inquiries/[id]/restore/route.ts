@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 // POST /api/inquiries/[id]/restore - Restore a deleted inquiry (creator only)
 export async function POST(
@@ -8,7 +8,8 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_INQUIRY')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     const existing = await prisma.seeker.findFirst({
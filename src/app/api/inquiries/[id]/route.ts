@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 import { logUserActivity } from '@/lib/activity-logger'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) { 
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const { id } = await params
     
@@ -16,9 +18,9 @@ export async function GET(
     // Treat legacy rows where isDeleted might be NULL as "not deleted"
     const where: any = { id, NOT: { isDeleted: true } }
     
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own inquiries
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show inquiries the user created or is assigned to
     if (!isAdminRole(_user.role)) {
-      where.createdById = _user.id
+      where.OR = getSeekerAccessConditions(_user.id)
     }
     
     const seeker = await prisma.seeker.findFirst({
@@ -79,7 +81,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const body = await request.json()
     const { id } = await params
@@ -87,9 +90,9 @@ export async function PUT(
     // Check if user has permission to update this inquiry
     const where: any = { id, NOT: { isDeleted: true } }
     
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow updating own inquiries
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow updating inquiries the user created or is assigned to
     if (!isAdminRole(_user.role)) {
-      where.createdById = _user.id
+      where.OR = getSeekerAccessConditions(_user.id)
     }
     
     const existingSeeker = await prisma.seeker.findFirst({ where })
@@ -156,7 +159,8 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const body = await request.json()
     const { id } = await params
@@ -164,9 +168,9 @@ export async function PATCH(
     // Check if user has permission to update this inquiry
     const where: any = { id, NOT: { isDeleted: true } }
     
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow updating own inquiries
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow updating inquiries the user created or is assigned to
     if (!isAdminRole(_user.role)) {
-      where.createdById = _user.id
+      where.OR = getSeekerAccessConditions(_user.id)
     }
     
     const existingSeeker = await prisma.seeker.findFirst({ where })
@@ -279,7 +283,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'DELETE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const { id } = await params
     
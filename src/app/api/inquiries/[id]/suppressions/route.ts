@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SuppressionChannel } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import {
+  SUPPRESSION_CHANNELS,
+  SUPPRESSION_SOURCE_LABELS,
+  liftSuppressions,
+  suppressContacts,
+} from '@/lib/contact-suppression'
+
+async function findAccessibleSeeker(id: string, user: { id: string; role: string }) {
+  // Enforce RBAC: non-admins can only manage opt-outs for inquiries they created or are assigned to
+  const seekerWhere: any = { id, NOT: { isDeleted: true } }
+  if (!isAdminRole(user.role)) {
+    seekerWhere.OR = getSeekerAccessConditions(user.id)
+  }
+  return prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
+}
+
+function parseChannels(value: unknown): SuppressionChannel[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null
+  if (!value.every(channel => SUPPRESSION_CHANNELS.includes(channel))) return null
+  return value as SuppressionChannel[]
+}
+
+async function getSuppressionStatus(seekerId: string) {
+  const suppressions = await prisma.contactSuppression.findMany({
+    where: { seekerId },
+    include: { createdBy: { select: { name: true } } },
+  })
+
+  return SUPPRESSION_CHANNELS.map(channel => {
+    const suppression = suppressions.find(s => s.channel === channel)
+    return {
+      channel,
+      suppressed: !!suppression,
+      source: suppression?.source || null,
+      sourceLabel: suppression ? SUPPRESSION_SOURCE_LABELS[suppression.source] : null,
+      reason: suppression?.reason || null,
+      createdAt: suppression?.createdAt || null,
+      createdBy: suppression?.createdBy?.name || null,
+    }
+  })
+}
+
+// GET /api/inquiries/[id]/suppressions - Opt-out status per channel
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_INQUIRY')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const seeker = await findAccessibleSeeker(id, user)
+    if (!seeker) {
+      return NextResponse.json(
+        { error: 'Inquiry not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await getSuppressionStatus(id))
+  } catch (error) {
+    console.error('Error fetching contact suppressions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch contact preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/inquiries/[id]/suppressions - Opt the inquiry out of channels ({ channels, reason? })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+    const body = await request.json()
+
+    const seeker = await findAccessibleSeeker(id, user)
+    if (!seeker) {
+      return NextResponse.json(
+        { error: 'Inquiry not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const channels = parseChannels(body.channels)
+    if (!channels) {
+      return NextResponse.json(
+        { error: `channels must be a non-empty list of: ${SUPPRESSION_CHANNELS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await suppressContacts({
+      seekerIds: [id],
+      channels,
+      source: 'MANUAL',
+      reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined,
+      createdById: user.id,
+    })
+
+    return NextResponse.json(await getSuppressionStatus(id))
+  } catch (error) {
+    console.error('Error creating contact suppressions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update contact preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/inquiries/[id]/suppressions?channel=EMAIL - Allow contact on a channel again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const seeker = await findAccessibleSeeker(id, user)
+    if (!seeker) {
+      return NextResponse.json(
+        { error: 'Inquiry not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const channels = parseChannels(searchParams.getAll('channel'))
+    if (!channels) {
+      return NextResponse.json(
+        { error: `channel must be one of: ${SUPPRESSION_CHANNELS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    await liftSuppressions({ seekerIds: [id], channels })
+
+    return NextResponse.json(await getSuppressionStatus(id))
+  } catch (error) {
+    console.error('Error removing contact suppressions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update contact preferences' },
+      { status: 500 }
+    )
+  }
+}
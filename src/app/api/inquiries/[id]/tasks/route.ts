@@ -1,20 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import { parseRecurrenceRule, recurrenceSelect } from '@/lib/task-recurrence'
+import { getInstituteTimeZone } from '@/lib/system-settings'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const { id } = await params
 
-    // Enforce RBAC: non-admins can only access tasks for inquiries they created
+    // Enforce RBAC: non-admins can only access tasks for inquiries they created or are assigned to
     const seekerWhere: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
     }
     const seeker = await prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
     if (!seeker) {
@@ -34,6 +38,9 @@ export async function GET(
             name: true,
           },
         },
+        recurrence: {
+          select: recurrenceSelect,
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -55,15 +62,16 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'CREATE_TASK')
+    if (_user instanceof NextResponse) return _user
     
-    const body = await request.json()
+    const { recurrence, ...body } = await request.json()
     const { id } = await params
 
-    // Enforce RBAC: non-admins can only create tasks for inquiries they created
+    // Enforce RBAC: non-admins can only create tasks for inquiries they created or are assigned to
     const seekerWhere: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
     }
     const seeker = await prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
     if (!seeker) {
@@ -72,20 +80,48 @@ export async function POST(
         { status: 404 }
       )
     }
-    
-    const task = await prisma.followUpTask.create({
-      data: {
-        ...body,
-        seekerId: id,
-        assignedTo: _user.id,
-      },
-      include: {
-        user: {
-          select: {
-            name: true,
+
+    // Repeating follow-ups are scheduled from their due time
+    let recurrenceRule = null
+    if (recurrence) {
+      if (!body.dueAt) {
+        return NextResponse.json(
+          { error: 'A due date is required for a repeating follow-up' },
+          { status: 400 }
+        )
+      }
+      const parsed = parseRecurrenceRule(recurrence, await getInstituteTimeZone())
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      recurrenceRule = parsed.rule
+    }
+
+    const task = await prisma.$transaction(async (tx) => {
+      const series = recurrenceRule
+        ? await tx.taskRecurrence.create({
+          data: { ...recurrenceRule, startsAt: new Date(body.dueAt), createdById: _user.id },
+        })
+        : null
+
+      return tx.followUpTask.create({
+        data: {
+          ...body,
+          seekerId: id,
+          assignedTo: _user.id,
+          recurrenceId: series?.id,
+        },
+        include: {
+          user: {
+            select: {
+              name: true,
+            },
+          },
+          recurrence: {
+            select: recurrenceSelect,
           },
         },
-      },
+      })
     })
 
     return NextResponse.json(task, { status: 201 })
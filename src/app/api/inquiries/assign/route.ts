@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions, reassignInquiries } from '@/lib/inquiry-assignment'
+
+// POST /api/inquiries/assign - Reassign one or more inquiries to a coordinator
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (user instanceof NextResponse) return user
+
+    const body = await request.json()
+    const { seekerIds, coordinatorId } = body
+
+    if (!Array.isArray(seekerIds) || seekerIds.length === 0) {
+      return NextResponse.json({ error: 'Select at least one inquiry to reassign' }, { status: 400 })
+    }
+
+    if (!coordinatorId) {
+      return NextResponse.json({ error: 'Coordinator is required' }, { status: 400 })
+    }
+
+    const coordinator = await prisma.user.findUnique({
+      where: { id: coordinatorId },
+      select: { id: true, name: true, isActive: true },
+    })
+
+    if (!coordinator || !coordinator.isActive) {
+      return NextResponse.json({ error: 'Coordinator not found or inactive' }, { status: 400 })
+    }
+
+    // Non-admins can only reassign inquiries they created or are assigned to
+    const where: any = { id: { in: seekerIds }, NOT: { isDeleted: true } }
+    if (!isAdminRole(user.role)) {
+      where.OR = getSeekerAccessConditions(user.id)
+    }
+
+    const seekers = await prisma.seeker.findMany({
+      where,
+      select: { id: true },
+    })
+
+    if (seekers.length !== new Set(seekerIds).size) {
+      return NextResponse.json(
+        { error: 'Some inquiries were not found or you do not have access to them' },
+        { status: 404 }
+      )
+    }
+
+    const reassigned = await reassignInquiries(seekers.map(s => s.id), coordinator.id, user.id)
+
+    return NextResponse.json({ reassigned, coordinator: { id: coordinator.id, name: coordinator.name } })
+  } catch (error) {
+    console.error('Error reassigning inquiries:', error)
+    return NextResponse.json({ error: 'Failed to reassign inquiries' }, { status: 500 })
+  }
+}
@@ -0,0 +1,277 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { logUserActivity } from '@/lib/activity-logger'
+import { createAutomaticFollowUpTasks } from '@/lib/inquiry-follow-ups'
+import { autoAssignInquiry } from '@/lib/inquiry-assignment'
+import {
+  DuplicateStrategy,
+  ImportRowResult,
+  MappedImportRow,
+  MAX_IMPORT_ROWS,
+  normalizePhone,
+  splitProgramNames,
+  summarizeImportResults,
+  validateImportRow,
+} from '@/lib/inquiry-import'
+
+const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ['skip', 'merge', 'overwrite']
+
+// POST /api/inquiries/import - Validate (dryRun) or import mapped spreadsheet rows
+export async function POST(request: NextRequest) {
+  try {
+    const _user = await requirePermission(request, 'CREATE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
+
+    const body = await request.json()
+    const rows: MappedImportRow[] = Array.isArray(body.rows) ? body.rows : []
+    const duplicateStrategy: DuplicateStrategy = DUPLICATE_STRATEGIES.includes(body.duplicateStrategy)
+      ? body.duplicateStrategy
+      : 'skip'
+    const dryRun = body.dryRun === true
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No rows to import' },
+        { status: 400 }
+      )
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `A single import can contain at most ${MAX_IMPORT_ROWS} rows` },
+        { status: 400 }
+      )
+    }
+
+    // Resolve program names (case-insensitive) to program IDs
+    const programs = await prisma.program.findMany({
+      select: { id: true, name: true },
+    })
+    const programIdsByName = new Map(programs.map(p => [p.name.trim().toLowerCase(), p.id]))
+
+    // Look up existing inquiries for every phone in the file in one query
+    const phones = Array.from(new Set(
+      rows.flatMap(row => [row.phone?.trim(), normalizePhone(row.phone)]).filter(Boolean) as string[]
+    ))
+    const existingSeekers = await prisma.seeker.findMany({
+      where: { phone: { in: phones } },
+      include: {
+        preferredPrograms: { select: { programId: true } },
+        assignments: { select: { coordinatorId: true } },
+      },
+    })
+    const existingByPhone = new Map(existingSeekers.map(s => [normalizePhone(s.phone), s]))
+
+    const seenPhones = new Set<string>()
+    const results: ImportRowResult[] = []
+
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index]
+      const rowNumber = index + 1
+      const phone = normalizePhone(row.phone)
+      const result: ImportRowResult = {
+        rowNumber,
+        status: 'valid',
+        fullName: row.fullName,
+        phone: row.phone,
+        errors: [],
+      }
+      results.push(result)
+
+      result.errors = validateImportRow(row)
+
+      const programNames = splitProgramNames(row.preferredPrograms)
+      const unknownPrograms = programNames.filter(name => !programIdsByName.has(name.toLowerCase()))
+      if (unknownPrograms.length > 0) {
+        result.errors.push(`Unknown program(s): ${unknownPrograms.join(', ')}`)
+      }
+
+      if (result.errors.length > 0) {
+        result.status = 'error'
+        continue
+      }
+
+      if (seenPhones.has(phone)) {
+        result.status = 'skipped'
+        result.message = 'Duplicate phone number earlier in this file'
+        continue
+      }
+      seenPhones.add(phone)
+
+      const programIds = programNames.map(name => programIdsByName.get(name.toLowerCase())!)
+      const existing = existingByPhone.get(phone)
+
+      if (existing) {
+        result.seekerId = existing.id
+
+        if (existing.isDeleted) {
+          result.status = 'skipped'
+          result.message = 'Matches an inquiry in the trash - restore it to update'
+          continue
+        }
+
+        // Non-admins may only touch inquiries they created or are assigned to (same rule as PUT /api/inquiries/[id])
+        if (
+          !isAdminRole(_user.role) &&
+          existing.createdById !== _user.id &&
+          !existing.assignments.some(a => a.coordinatorId === _user.id)
+        ) {
+          result.status = 'skipped'
+          result.message = 'An inquiry with this phone number exists and belongs to another user'
+          continue
+        }
+
+        if (duplicateStrategy === 'skip') {
+          result.status = dryRun ? 'duplicate' : 'skipped'
+          result.message = 'An inquiry with this phone number already exists'
+          continue
+        }
+
+        if (dryRun) {
+          result.status = 'duplicate'
+          result.message = duplicateStrategy === 'merge'
+            ? 'Existing inquiry will be merged (empty fields filled in)'
+            : 'Existing inquiry will be overwritten'
+          continue
+        }
+
+        try {
+          const data: Record<string, unknown> = {}
+          const fields = {
+            fullName: row.fullName,
+            email: row.email,
+            city: row.city,
+            marketingSource: row.marketingSource,
+            whatsappNumber: row.whatsappNumber ? normalizePhone(row.whatsappNumber) : undefined,
+            description: row.description,
+          }
+
+          for (const [key, value] of Object.entries(fields)) {
+            if (!value) continue
+            const current = (existing as Record<string, unknown>)[key]
+            if (duplicateStrategy === 'overwrite' || !current) {
+              data[key] = value
+            }
+          }
+          if (data.whatsappNumber) {
+            data.whatsapp = true
+          }
+
+          await prisma.seeker.update({
+            where: { id: existing.id },
+            data,
+          })
+
+          if (programIds.length > 0) {
+            if (duplicateStrategy === 'overwrite') {
+              await prisma.seekerProgram.deleteMany({ where: { seekerId: existing.id } })
+            }
+            const currentProgramIds = new Set(
+              duplicateStrategy === 'overwrite' ? [] : existing.preferredPrograms.map(p => p.programId)
+            )
+            const toAdd = programIds.filter(id => !currentProgramIds.has(id))
+            if (toAdd.length > 0) {
+              await prisma.seekerProgram.createMany({
+                data: toAdd.map(programId => ({ seekerId: existing.id, programId })),
+                skipDuplicates: true,
+              })
+            }
+          }
+
+          result.status = 'updated'
+          result.message = duplicateStrategy === 'merge' ? 'Merged into existing inquiry' : 'Existing inquiry overwritten'
+        } catch (error) {
+          console.error(`Error updating inquiry from import row ${rowNumber}:`, error)
+          result.status = 'error'
+          result.errors.push(error instanceof Error ? error.message : 'Failed to update inquiry')
+        }
+        continue
+      }
+
+      if (dryRun) {
+        result.message = 'New inquiry will be created'
+        continue
+      }
+
+      try {
+        const seeker = await prisma.seeker.create({
+          data: {
+            fullName: row.fullName!,
+            phone,
+            email: row.email || null,
+            city: row.city || null,
+            marketingSource: row.marketingSource!,
+            whatsapp: !!row.whatsappNumber,
+            whatsappNumber: row.whatsappNumber ? normalizePhone(row.whatsappNumber) : null,
+            description: row.description || null,
+            createdById: _user.id,
+            preferredPrograms: {
+              create: programIds.map(programId => ({ programId })),
+            },
+          },
+        })
+
+        result.status = 'created'
+        result.seekerId = seeker.id
+        result.message = 'Inquiry created'
+
+        let assigneeId = _user.id
+        try {
+          const assignment = await autoAssignInquiry(seeker.id, _user.id)
+          if (assignment) {
+            assigneeId = assignment.coordinatorId
+          }
+        } catch (assignError) {
+          console.error('Error assigning imported inquiry:', assignError)
+          // Don't fail the row if assignment fails - the inquiry stays with the importer
+        }
+
+        try {
+          await createAutomaticFollowUpTasks(seeker, assigneeId, _user.id)
+        } catch (taskError) {
+          console.error('Error creating automatic follow-up tasks for imported inquiry:', taskError)
+          // Don't fail the row if task creation fails
+        }
+      } catch (error) {
+        console.error(`Error creating inquiry from import row ${rowNumber}:`, error)
+        result.status = 'error'
+        result.errors.push(error instanceof Error ? error.message : 'Failed to create inquiry')
+      }
+    }
+
+    const summary = summarizeImportResults(results)
+
+    if (!dryRun) {
+      try {
+        await logUserActivity({
+          userId: _user.id,
+          activityType: 'CREATE_INQUIRY',
+          request,
+          isSuccessful: true,
+          metadata: {
+            bulkImport: true,
+            duplicateStrategy,
+            ...summary,
+          },
+        })
+      } catch (logError) {
+        console.error('Error logging inquiry import activity:', logError)
+      }
+    }
+
+    return NextResponse.json({
+      dryRun,
+      duplicateStrategy,
+      summary,
+      results,
+    })
+  } catch (error) {
+    console.error('Error importing inquiries:', error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import inquiries' },
+      { status: 500 }
+    )
+  }
+}
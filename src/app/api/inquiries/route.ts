@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 import { logUserActivity } from '@/lib/activity-logger'
+import { createAutomaticFollowUpTasks } from '@/lib/inquiry-follow-ups'
+import { autoAssignInquiry, getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 
 export async function GET(request: NextRequest) {
   try {
-    // Pass request to requireAuth to get the actual logged-in user
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     // Get pagination parameters from query string
     const searchParams = request.nextUrl.searchParams
@@ -24,7 +26,7 @@ export async function GET(request: NextRequest) {
     
     // Build where clause based on user role
     // Only ADMIN/ADMINISTRATOR/DEVELOPER can see all inquiries
-    // Other users can only see inquiries they created
+    // Other users can only see inquiries they created or are assigned to
     // Treat legacy rows where isDeleted might be NULL as "not deleted"
     // (Some older DB rows may have NULL even if Prisma schema is non-nullable)
     const where: any = {
@@ -32,8 +34,8 @@ export async function GET(request: NextRequest) {
     }
     
     if (!isAdminRole(_user.role)) {
-      // Non-admin users can only see inquiries they created
-      where.createdById = _user.id
+      // Non-admin users can only see inquiries they created or are assigned to
+      where.OR = getSeekerAccessConditions(_user.id)
     }
     
     // Use transaction to fetch data and count in parallel for better performance
@@ -53,6 +55,20 @@ export async function GET(request: NextRequest) {
               name: true,
             },
           },
+          assignments: {
+            select: {
+              assignedAt: true,
+              coordinator: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+            orderBy: {
+              assignedAt: 'desc',
+            },
+          },
           campaigns: {
             include: {
               campaign: {
@@ -116,8 +132,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Pass request to requireAuth to get the actual logged-in user, not fallback admin
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'CREATE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     
     const body = await request.json()
     console.log('Received body:', body)
@@ -310,69 +326,25 @@ export async function POST(request: NextRequest) {
       // Don't fail the inquiry creation if logging fails
     }
 
+    // Assign the inquiry to a coordinator using the assignment rules
+    let assigneeId = _user.id
+    try {
+      const assignment = await autoAssignInquiry(seeker.id, _user.id)
+      if (assignment) {
+        assigneeId = assignment.coordinatorId
+      }
+    } catch (assignError) {
+      console.error('Error assigning inquiry:', assignError)
+      // Don't fail the inquiry creation if assignment fails - it stays with its creator
+    }
+
     // Automatically create 2 follow-up tasks for new inquiries
     try {
-      const now = new Date()
-      
-      // First follow-up: 3 days from now
-      const firstDueDate = new Date(now)
-      firstDueDate.setDate(firstDueDate.getDate() + 3)
-      firstDueDate.setHours(10, 0, 0, 0) // Set to 10 AM
-      
-      // Second follow-up: 7 days from now
-      const secondDueDate = new Date(now)
-      secondDueDate.setDate(secondDueDate.getDate() + 7)
-      secondDueDate.setHours(10, 0, 0, 0) // Set to 10 AM
-      
-      // Create first follow-up task
-      const firstFollowUpTask = await prisma.followUpTask.create({
-        data: {
-          seekerId: seeker.id,
-          assignedTo: _user.id,
-          dueAt: firstDueDate,
-          purpose: 'CALLBACK',
-          notes: `Automatic follow-up #1: Initial contact follow-up for inquiry - ${seeker.fullName} (${seeker.phone})`,
-          status: 'OPEN',
-        },
-      })
-      
-      // Create second follow-up task
-      const secondFollowUpTask = await prisma.followUpTask.create({
-        data: {
-          seekerId: seeker.id,
-          assignedTo: _user.id,
-          dueAt: secondDueDate,
-          purpose: 'CALLBACK',
-          notes: `Automatic follow-up #2: Secondary follow-up for inquiry - ${seeker.fullName} (${seeker.phone})`,
-          status: 'OPEN',
-        },
-      })
-      
-      // Create initial action history entries
-      await Promise.all([
-        prisma.taskActionHistory.create({
-          data: {
-            taskId: firstFollowUpTask.id,
-            fromStatus: null,
-            toStatus: 'OPEN',
-            actionBy: _user.id,
-            notes: 'Task created automatically from new inquiry - First follow-up (3 days)',
-          },
-        }),
-        prisma.taskActionHistory.create({
-          data: {
-            taskId: secondFollowUpTask.id,
-            fromStatus: null,
-            toStatus: 'OPEN',
-            actionBy: _user.id,
-            notes: 'Task created automatically from new inquiry - Second follow-up (7 days)',
-          },
-        }),
-      ])
-      
+      const followUps = await createAutomaticFollowUpTasks(seeker, assigneeId, _user.id)
+
       console.log('Automatic follow-up tasks created:', {
-        first: firstFollowUpTask.id,
-        second: secondFollowUpTask.id,
+        first: followUps.first.id,
+        second: followUps.second.id,
       })
     } catch (taskError) {
       console.error('Error creating automatic follow-up tasks:', taskError)
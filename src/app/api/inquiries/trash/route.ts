@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 // GET /api/inquiries/trash - List deleted inquiries for current user
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_INQUIRY')
+    if (user instanceof NextResponse) return user
 
     const inquiries = await prisma.seeker.findMany({
       where: {
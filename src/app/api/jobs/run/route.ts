@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+import { getRegisteredJobs, runAllJobs, runJob } from '@/lib/jobs'
+
+// POST /api/jobs/run - Trigger background jobs (for external cron services or admins)
+// Body (optional): { job: "meeting-reminders" } - runs every job when omitted
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    const isCron = !!cronSecret && authHeader === `Bearer ${cronSecret}`
+
+    if (!isCron) {
+      const user = await requireAuth(request)
+      if (!isAdminRole(user.role)) {
+        return NextResponse.json(
+          { error: 'Only administrators can run background jobs' },
+          { status: 403 }
+        )
+      }
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const jobName = typeof body?.job === 'string' ? body.job : null
+
+    if (jobName && !getRegisteredJobs().some(job => job.name === jobName)) {
+      return NextResponse.json(
+        { error: `Unknown job: ${jobName}` },
+        { status: 404 }
+      )
+    }
+
+    const results = jobName ? [await runJob(jobName)] : await runAllJobs()
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error running background jobs:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run background jobs' },
+      { status: 500 }
+    )
+  }
+}
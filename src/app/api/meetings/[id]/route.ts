@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { normalizeReminderOffsets } from '@/lib/meeting-reminders'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_MEETING')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     const meeting = await prisma.meeting.findUnique({
@@ -68,7 +70,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_MEETING')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     const body = await request.json()
     
@@ -86,7 +89,8 @@ export async function PUT(
       meetingId,
       meetingPassword,
       agenda,
-      attendees
+      attendees,
+      reminderOffsets
     } = body
 
     // Check if meeting exists
@@ -179,6 +183,23 @@ export async function PUT(
     if (meetingPassword !== undefined) updateData.meetingPassword = meetingPassword
     if (agenda !== undefined) updateData.agenda = agenda
     if (attendees !== undefined) updateData.attendees = attendees
+    if (reminderOffsets !== undefined) {
+      updateData.reminderOffsets = reminderOffsets === null
+        ? null
+        : JSON.stringify(normalizeReminderOffsets(reminderOffsets))
+    }
+
+    // Re-arm reminders when the start time or reminder offsets change
+    const startTimeChanged = updateData.startTime !== undefined &&
+      updateData.startTime.getTime() !== existingMeeting.startTime.getTime()
+    const offsetsChanged = updateData.reminderOffsets !== undefined &&
+      updateData.reminderOffsets !== existingMeeting.reminderOffsets
+    if (startTimeChanged || offsetsChanged) {
+      await prisma.meetingReminder.deleteMany({
+        where: { meetingId: id }
+      })
+      updateData.reminderSent = false
+    }
 
     const meeting = await prisma.meeting.update({
       where: { id },
@@ -224,7 +245,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_MEETING')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     // Check if meeting exists
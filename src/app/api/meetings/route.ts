@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { normalizeReminderOffsets } from '@/lib/meeting-reminders'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_MEETING')
+    if (user instanceof NextResponse) return user
     
     // Build where clause based on user role
     const where: any = {}
@@ -52,7 +54,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_MEETING')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const { 
@@ -68,7 +71,8 @@ export async function POST(request: NextRequest) {
       meetingId,
       meetingPassword,
       agenda,
-      attendees
+      attendees,
+      reminderOffsets
     } = body
 
     // Validate required fields
@@ -144,7 +148,11 @@ export async function POST(request: NextRequest) {
         meetingId,
         meetingPassword,
         agenda,
-        attendees
+        attendees,
+        // Omitted = default reminders, [] = no reminders
+        reminderOffsets: reminderOffsets !== undefined
+          ? JSON.stringify(normalizeReminderOffsets(reminderOffsets))
+          : null
       },
       include: {
         createdBy: {
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_NOTEBOOK')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     const notebook = await prisma.notebook.findFirst({
@@ -68,7 +69,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_NOTEBOOK')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     const body = await request.json()
 
@@ -127,7 +129,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_NOTEBOOK')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     // Check if notebook exists and belongs to user
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_NOTEBOOK')
+    if (user instanceof NextResponse) return user
     
     // Build where clause - users can only see their own notebooks
     const where: any = {
@@ -42,7 +43,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_NOTEBOOK')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const {
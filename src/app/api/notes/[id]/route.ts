@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { getNextReminderOccurrence, isNoteReminderRecurrence } from '@/lib/note-reminders'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_NOTE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     const note = await prisma.note.findFirst({
@@ -68,7 +70,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_NOTE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     const body = await request.json()
 
@@ -83,7 +86,9 @@ export async function PUT(
       notebookId,
       parentNoteId,
       hasReminder,
-      reminderDate
+      reminderDate,
+      reminderRecurrence,
+      reminderEmail
     } = body
 
     // Check if note exists and belongs to user
@@ -146,6 +151,23 @@ export async function PUT(
       }
     }
 
+    // Re-arm the reminder when it is switched on or rescheduled
+    const newReminderDate = reminderDate !== undefined ? (reminderDate ? new Date(reminderDate) : null) : undefined
+    const reminderRescheduled = newReminderDate !== undefined &&
+      newReminderDate?.getTime() !== existingNote.reminderDate?.getTime()
+    const reminderEnabled = hasReminder === true && !existingNote.hasReminder
+    let resetReminder = reminderRescheduled || reminderEnabled
+
+    // Making an already delivered reminder recurring schedules its next occurrence
+    const recurrence = isNoteReminderRecurrence(reminderRecurrence) ? reminderRecurrence : null
+    const effectiveReminderDate = newReminderDate !== undefined ? newReminderDate : existingNote.reminderDate
+    let nextReminderDate = newReminderDate
+    if (recurrence && recurrence !== existingNote.reminderRecurrence && effectiveReminderDate &&
+      (existingNote.reminderSent || effectiveReminderDate <= new Date())) {
+      nextReminderDate = getNextReminderOccurrence(effectiveReminderDate, recurrence)
+      resetReminder = true
+    }
+
     // Update note
     const note = await prisma.note.update({
       where: { id },
@@ -160,7 +182,10 @@ export async function PUT(
         ...(notebookId !== undefined && { notebookId: notebookId || null }),
         ...(parentNoteId !== undefined && { parentNoteId: parentNoteId || null }),
         ...(hasReminder !== undefined && { hasReminder }),
-        ...(reminderDate !== undefined && { reminderDate: reminderDate ? new Date(reminderDate) : null })
+        ...(nextReminderDate !== undefined && { reminderDate: nextReminderDate }),
+        ...(reminderRecurrence !== undefined && { reminderRecurrence: recurrence }),
+        ...(reminderEmail !== undefined && { reminderEmail }),
+        ...(resetReminder && { reminderSent: false, reminderSnoozedUntil: null })
       },
       include: {
         createdBy: {
@@ -198,7 +223,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_NOTE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     // Check if note exists and belongs to user
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { MAX_NOTE_SNOOZE_MS } from '@/lib/note-reminders'
+
+// POST /api/notes/[id]/snooze - Snooze a note reminder until the given time
+// Body: { until: ISO timestamp } (computed client-side from the snooze option)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_NOTE')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+    const body = await request.json()
+
+    const until = body.until ? new Date(body.until) : null
+    const now = Date.now()
+
+    if (!until || isNaN(until.getTime()) || until.getTime() <= now) {
+      return NextResponse.json(
+        { error: 'A future snooze time is required' },
+        { status: 400 }
+      )
+    }
+
+    if (until.getTime() - now > MAX_NOTE_SNOOZE_MS) {
+      return NextResponse.json(
+        { error: 'Reminders can be snoozed for at most 30 days' },
+        { status: 400 }
+      )
+    }
+
+    // Check if note exists and belongs to user
+    const existingNote = await prisma.note.findFirst({
+      where: {
+        id,
+        createdById: user.id
+      }
+    })
+
+    if (!existingNote) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      )
+    }
+
+    const note = await prisma.note.update({
+      where: { id },
+      data: {
+        hasReminder: true,
+        reminderSent: false,
+        reminderSnoozedUntil: until,
+        // One-off reminders without a date get the snooze time as their date
+        ...(!existingNote.reminderDate && { reminderDate: until })
+      },
+      select: {
+        id: true,
+        title: true,
+        hasReminder: true,
+        reminderDate: true,
+        reminderRecurrence: true,
+        reminderSnoozedUntil: true,
+        reminderSent: true
+      }
+    })
+
+    return NextResponse.json(note)
+  } catch (error) {
+    console.error('Error snoozing note reminder:', error)
+    return NextResponse.json(
+      { error: 'Failed to snooze reminder' },
+      { status: 500 }
+    )
+  }
+}
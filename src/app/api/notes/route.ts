@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { isNoteReminderRecurrence } from '@/lib/note-reminders'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_NOTE')
+    if (user instanceof NextResponse) return user
     const { searchParams } = new URL(request.url)
     const notebookId = searchParams.get('notebookId')
     const parentNoteId = searchParams.get('parentNoteId')
@@ -62,7 +64,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_NOTE')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const {
@@ -74,7 +77,9 @@ export async function POST(request: NextRequest) {
       coverImage,
       order,
       hasReminder,
-      reminderDate
+      reminderDate,
+      reminderRecurrence,
+      reminderEmail
     } = body
 
     if (!title) {
@@ -130,6 +135,8 @@ export async function POST(request: NextRequest) {
         order: order || 0,
         hasReminder: hasReminder || false,
         reminderDate: reminderDate ? new Date(reminderDate) : null,
+        reminderRecurrence: isNoteReminderRecurrence(reminderRecurrence) ? reminderRecurrence : null,
+        reminderEmail: reminderEmail || false,
         createdById: user.id
       },
       include: {
@@ -29,6 +29,28 @@ export async function GET(request: NextRequest) {
             status: true,
           },
         },
+        meeting: {
+          select: {
+            id: true,
+            title: true,
+            startTime: true,
+          },
+        },
+        note: {
+          select: {
+            id: true,
+            title: true,
+            notebookId: true,
+            hasReminder: true,
+            reminderRecurrence: true,
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -32,6 +32,7 @@ export async function POST(
         postId: id,
         userId: user.id,
         comment: comment.trim(),
+        version: post.version, // Pinned to the version being discussed
       },
       include: {
         user: {
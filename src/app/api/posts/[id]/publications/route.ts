@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+import { publicationSelect, retryFailedPublications } from '@/lib/post-publishing'
+import { isPostReviewer } from '@/lib/post-approvals'
+
+async function getPostForPublishing(id: string) {
+  return prisma.socialMediaPost.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      status: true,
+      createdById: true,
+      approvals: { select: { approverId: true } },
+    },
+  })
+}
+
+// GET /api/posts/[id]/publications - Publishing status of a post on each platform
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const post = await getPostForPublishing(id)
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    // Same visibility as the post itself: admin, creator or approver
+    const canView = isAdminRole(user.role) ||
+      post.createdById === user.id ||
+      await isPostReviewer(post.approvals.map((a) => a.approverId), user.id)
+    if (!canView) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view this post' },
+        { status: 403 }
+      )
+    }
+
+    const publications = await prisma.postPublication.findMany({
+      where: { postId: id },
+      select: publicationSelect,
+      orderBy: { platform: 'asc' },
+    })
+
+    return NextResponse.json(publications)
+  } catch (error) {
+    console.error('Error fetching post publications:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch post publications' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/posts/[id]/publications - Retry the platforms a post failed to publish to
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const post = await getPostForPublishing(id)
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (post.createdById !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to publish this post' },
+        { status: 403 }
+      )
+    }
+
+    if (post.status !== 'SCHEDULED') {
+      return NextResponse.json(
+        { error: 'Only scheduled posts can be retried' },
+        { status: 400 }
+      )
+    }
+
+    const retried = await retryFailedPublications(id)
+    if (retried === 0) {
+      return NextResponse.json(
+        { error: 'No failed platforms to retry' },
+        { status: 400 }
+      )
+    }
+
+    const publications = await prisma.postPublication.findMany({
+      where: { postId: id },
+      select: publicationSelect,
+      orderBy: { platform: 'asc' },
+    })
+
+    return NextResponse.json({ retried, publications })
+  } catch (error) {
+    console.error('Error retrying post publications:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to retry publishing' },
+      { status: 500 }
+    )
+  }
+}
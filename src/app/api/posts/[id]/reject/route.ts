@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
-import { notifyPostRejected } from '@/lib/notification-service'
+import { approvalStagesInclude, getActionableApproval, recordApprovalDecision } from '@/lib/post-approvals'
 
-// POST /api/posts/[id]/reject - Reject a post
+// POST /api/posts/[id]/reject - Reject a post for its current approval stage
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -21,86 +21,19 @@ export async function POST(
       )
     }
 
-    // Get the post with approvals
-    const post = await prisma.socialMediaPost.findUnique({
-      where: { id },
-      include: {
-        approvals: {
-          orderBy: {
-            order: 'asc',
-          },
-        },
-      },
-    })
+    // The user's own pending approval in the current stage, or one they cover as a delegate
+    const actionable = await getActionableApproval(id, user)
+    if (actionable instanceof NextResponse) return actionable
 
-    if (!post) {
-      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
-    }
-
-    // Find current user's approval
-    const userApproval = post.approvals.find((a) => a.approverId === user.id)
-
-    if (!userApproval) {
-      return NextResponse.json(
-        { error: 'You are not an approver for this post' },
-        { status: 403 }
-      )
-    }
-
-    if (userApproval.status !== 'PENDING') {
+    // Rejects the post once the stage can no longer reach its quorum
+    const recorded = await recordApprovalDecision(actionable, user, 'REJECTED', comment)
+    if (!recorded) {
       return NextResponse.json(
         { error: 'You have already processed this approval' },
         { status: 400 }
       )
     }
 
-    // Check if it's user's turn
-    const previousApprovals = post.approvals.filter((a) => a.order < userApproval.order)
-    const allPreviousApproved = previousApprovals.every((a) => a.status === 'APPROVED')
-
-    if (!allPreviousApproved) {
-      return NextResponse.json(
-        { error: 'Previous approvers must approve first' },
-        { status: 400 }
-      )
-    }
-
-    // Update approval status
-    await prisma.postApproval.update({
-      where: { id: userApproval.id },
-      data: {
-        status: 'REJECTED',
-        comment,
-        approvedAt: new Date(),
-      },
-    })
-
-    // Update post status to REJECTED
-    const updatedPostStatus = await prisma.socialMediaPost.update({
-      where: { id },
-      data: {
-        status: 'REJECTED',
-      },
-      include: {
-        createdBy: {
-          select: { id: true, name: true, email: true },
-        },
-      },
-    })
-
-    // Notify post creator of rejection
-    try {
-      await notifyPostRejected(
-        updatedPostStatus.createdById,
-        id,
-        post.caption,
-        user.name || user.email,
-        comment
-      )
-    } catch (error) {
-      console.error('Error sending notification:', error)
-    }
-
     // Get updated post
     const updatedPost = await prisma.socialMediaPost.findUnique({
       where: { id },
@@ -114,6 +47,7 @@ export async function POST(
             email: true,
           },
         },
+        approvalStages: approvalStagesInclude,
         approvals: {
           include: {
             approver: {
@@ -140,4 +74,3 @@ export async function POST(
     )
   }
 }
-
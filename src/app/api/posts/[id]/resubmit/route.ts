@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { notifyPostResubmitted } from '@/lib/notification-service'
+import { publicationSelect } from '@/lib/post-publishing'
+import { approvalStagesInclude, notifyFirstStageApprovers, restartApprovals } from '@/lib/post-approvals'
+
+// POST /api/posts/[id]/resubmit - Send a rejected post through its approval chain again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const { note } = body // Optional explanation of what changed, added as a comment on the new version
+
+    const post = await prisma.socialMediaPost.findUnique({
+      where: { id },
+      select: { id: true, caption: true, status: true, version: true, createdById: true },
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (post.createdById !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the creator can resubmit this post' },
+        { status: 403 }
+      )
+    }
+
+    if (post.status !== 'REJECTED') {
+      return NextResponse.json(
+        { error: 'Only rejected posts can be resubmitted' },
+        { status: 400 }
+      )
+    }
+
+    const restarted = await restartApprovals(id)
+    if (!restarted) {
+      return NextResponse.json(
+        { error: 'Only rejected posts can be resubmitted' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof note === 'string' && note.trim()) {
+      await prisma.postComment.create({
+        data: { postId: id, userId: user.id, comment: note.trim(), version: post.version },
+      })
+    }
+
+    await notifyFirstStageApprovers(id, (approverId) => notifyPostResubmitted(
+      approverId,
+      id,
+      post.caption,
+      user.name || user.email,
+      post.version
+    ))
+
+    const updatedPost = await prisma.socialMediaPost.findUnique({
+      where: { id },
+      include: {
+        program: true,
+        campaign: true,
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        approvalStages: approvalStagesInclude,
+        approvals: {
+          include: {
+            approver: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: {
+            order: 'asc',
+          },
+        },
+        publications: {
+          select: publicationSelect,
+        },
+      },
+    })
+
+    return NextResponse.json(updatedPost)
+  } catch (error) {
+    console.error('Error resubmitting post:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resubmit post' },
+      { status: 500 }
+    )
+  }
+}
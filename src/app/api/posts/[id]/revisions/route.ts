@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+import { getActiveDelegatorIds, isPostReviewer } from '@/lib/post-approvals'
+import { getLastReviewedVersion, reviewInclude, revisionSelect } from '@/lib/post-revisions'
+
+// GET /api/posts/[id]/revisions - Versions of a post with the reviews and comments made on each
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const post = await prisma.socialMediaPost.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        version: true,
+        createdById: true,
+        approvals: { select: { approverId: true } },
+      },
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    // Same visibility as the post itself: admin, creator or approver
+    const canView = isAdminRole(user.role) ||
+      post.createdById === user.id ||
+      await isPostReviewer(post.approvals.map((a) => a.approverId), user.id)
+    if (!canView) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view this post' },
+        { status: 403 }
+      )
+    }
+
+    const [revisions, reviews, comments, delegatorIds] = await Promise.all([
+      prisma.postRevision.findMany({
+        where: { postId: id },
+        select: revisionSelect,
+        orderBy: { version: 'asc' },
+      }),
+      prisma.postReview.findMany({
+        where: { postId: id },
+        include: reviewInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.postComment.findMany({
+        where: { postId: id },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      getActiveDelegatorIds(user.id),
+    ])
+
+    const lastReviewedVersion = await getLastReviewedVersion(id, post.version, [user.id, ...delegatorIds])
+
+    return NextResponse.json({
+      version: post.version,
+      lastReviewedVersion,
+      revisions,
+      reviews,
+      comments,
+    })
+  } catch (error) {
+    console.error('Error fetching post revisions:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch post revisions' },
+      { status: 500 }
+    )
+  }
+}
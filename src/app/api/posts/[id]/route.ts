@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, isAdminRole } from '@/lib/auth'
+import { isSocialPlatform } from '@/lib/social-publishing'
+import { publicationSelect } from '@/lib/post-publishing'
+import { approvalStagesInclude, isPostReviewer } from '@/lib/post-approvals'
+import { hasContentChanged, recordPostRevision } from '@/lib/post-revisions'
+
+const PENDING_EDIT_ERROR = 'A post awaiting approval cannot be changed. Wait for the decision, then edit and resubmit it if it is rejected.'
 
 // GET /api/posts/[id] - Get a specific post
 export async function GET(
@@ -23,6 +29,7 @@ export async function GET(
             email: true,
           },
         },
+        approvalStages: approvalStagesInclude,
         approvals: {
           include: {
             approver: {
@@ -50,6 +57,12 @@ export async function GET(
             createdAt: 'desc',
           },
         },
+        publications: {
+          select: publicationSelect,
+          orderBy: {
+            platform: 'asc',
+          },
+        },
       },
     })
 
@@ -57,10 +70,10 @@ export async function GET(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 })
     }
 
-    // Check permissions: admin or creator or approver
+    // Check permissions: admin or creator or approver (or an approver's out-of-office delegate)
     const isAdminUser = isAdminRole(user.role)
     const isCreator = post.createdById === user.id
-    const isApprover = post.approvals.some((a) => a.approverId === user.id)
+    const isApprover = await isPostReviewer(post.approvals.map((a) => a.approverId), user.id)
 
     if (!isAdminUser && !isCreator && !isApprover) {
       return NextResponse.json(
@@ -106,54 +119,103 @@ export async function PUT(
       )
     }
 
-    if (existingPost.status === 'APPROVED' || existingPost.status === 'PUBLISHED') {
+    if (existingPost.status === 'APPROVED' || existingPost.status === 'SCHEDULED' || existingPost.status === 'PUBLISHED') {
       return NextResponse.json(
-        { error: 'Cannot update an approved or published post' },
+        { error: 'Cannot update an approved, scheduled or published post' },
         { status: 400 }
       )
     }
 
-    const { caption, imageUrl, budget, startDate, endDate, programId, campaignId } = body
+    const { caption, imageUrl, budget, startDate, endDate, programId, campaignId, platforms } = body
 
-    // Update post
-    const updatedPost = await prisma.socialMediaPost.update({
-      where: { id },
-      data: {
-        ...(caption && { caption }),
-        ...(imageUrl !== undefined && { imageUrl }),
-        ...(budget !== undefined && { budget: budget ? parseFloat(budget) : null }),
-        ...(startDate && { startDate: new Date(startDate) }),
-        ...(endDate && { endDate: new Date(endDate) }),
-        ...(programId !== undefined && { programId: programId || null }),
-        ...(campaignId !== undefined && { campaignId: campaignId || null }),
-      },
-      include: {
-        program: true,
-        campaign: true,
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
+    if (platforms !== undefined && (!Array.isArray(platforms) || !platforms.every(isSocialPlatform))) {
+      return NextResponse.json(
+        { error: 'Platforms must be a list of FACEBOOK, INSTAGRAM or LINKEDIN' },
+        { status: 400 }
+      )
+    }
+
+    // The post's content once this update is applied
+    const content = {
+      caption: caption || existingPost.caption,
+      imageUrl: imageUrl !== undefined ? imageUrl : existingPost.imageUrl,
+      budget: budget !== undefined ? (budget ? parseFloat(budget) : null) : existingPost.budget,
+      startDate: startDate ? new Date(startDate) : existingPost.startDate,
+      endDate: endDate ? new Date(endDate) : existingPost.endDate,
+      platforms: platforms !== undefined ? Array.from(new Set<typeof existingPost.platforms[number]>(platforms)) : existingPost.platforms,
+    }
+
+    if (content.platforms.includes('INSTAGRAM') && !content.imageUrl) {
+      return NextResponse.json(
+        { error: 'Instagram posts need an image' },
+        { status: 400 }
+      )
+    }
+    const contentChanged = hasContentChanged(existingPost, content)
+
+    // Approvals are given for a version; changing it mid-review would let the chain finish on unseen content
+    if (contentChanged && existingPost.status !== 'DRAFT' && existingPost.status !== 'REJECTED') {
+      return NextResponse.json(
+        { error: PENDING_EDIT_ERROR },
+        { status: 400 }
+      )
+    }
+
+    // Update post; an edit of its content becomes the next version, keeping the previous one
+    const updatedPost = await prisma.$transaction(async (tx) => {
+      // Re-check the status as part of the write, in case the post was resubmitted in the meantime
+      const updated = await tx.socialMediaPost.updateMany({
+        where: { id, ...(contentChanged && { status: { in: ['DRAFT', 'REJECTED'] } }) },
+        data: {
+          ...content,
+          ...(programId !== undefined && { programId: programId || null }),
+          ...(campaignId !== undefined && { campaignId: campaignId || null }),
         },
-        approvals: {
-          include: {
-            approver: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
+      })
+      if (updated.count === 0) return null
+
+      if (contentChanged) {
+        await recordPostRevision(tx, id, user.id)
+      }
+
+      return tx.socialMediaPost.findUniqueOrThrow({
+        where: { id },
+        include: {
+          program: true,
+          campaign: true,
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
             },
           },
-          orderBy: {
-            order: 'asc',
+          approvalStages: approvalStagesInclude,
+          approvals: {
+            include: {
+              approver: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+            orderBy: {
+              order: 'asc',
+            },
           },
         },
-      },
+      })
     })
 
+    if (!updatedPost) {
+      return NextResponse.json(
+        { error: PENDING_EDIT_ERROR },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(updatedPost)
   } catch (error) {
     console.error('Error updating post:', error)
@@ -191,8 +253,11 @@ export async function DELETE(
       )
     }
 
-    // Cannot delete published posts
-    if (existingPost.status === 'PUBLISHED') {
+    // Cannot delete posts that are live anywhere
+    const livePublications = await prisma.postPublication.count({
+      where: { postId: id, status: 'PUBLISHED' },
+    })
+    if (existingPost.status === 'PUBLISHED' || livePublications > 0) {
       return NextResponse.json(
         { error: 'Cannot delete a published post' },
         { status: 400 }
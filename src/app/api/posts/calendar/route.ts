@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, requireAuth } from '@/lib/auth'
+import { Prisma } from '@prisma/client'
+
+const campaignSelect = {
+  id: true,
+  name: true,
+  type: true,
+  status: true,
+  budget: true,
+  startDate: true,
+  endDate: true,
+  campaignType: {
+    select: {
+      color: true,
+    },
+  },
+} as const
+
+// GET /api/posts/calendar - Posts and campaign run windows between startDate and endDate for the content calendar
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const isAdminUser = isAdminRole(user.role)
+
+    const searchParams = request.nextUrl.searchParams
+    const startDate = new Date(searchParams.get('startDate') || '')
+    const endDate = new Date(searchParams.get('endDate') || '')
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate < startDate) {
+      return NextResponse.json(
+        { error: 'startDate and endDate must be valid dates, with endDate after startDate' },
+        { status: 400 }
+      )
+    }
+
+    // Non-admin users only see their own posts and campaigns, as on the posts and campaigns pages
+    const postWhere: Prisma.SocialMediaPostWhereInput = {
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+      ...(!isAdminUser && { createdById: user.id }),
+    }
+
+    const posts = await prisma.socialMediaPost.findMany({
+      where: postWhere,
+      select: {
+        id: true,
+        caption: true,
+        imageUrl: true,
+        status: true,
+        budget: true,
+        startDate: true,
+        endDate: true,
+        platforms: true,
+        campaignId: true,
+        program: {
+          select: {
+            id: true,
+            name: true,
+            campus: true,
+          },
+        },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        startDate: 'asc',
+      },
+    })
+
+    // Campaigns running in the range, plus those the posts belong to, even if they run at another time
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        isDeleted: false,
+        OR: [
+          {
+            startDate: { lte: endDate },
+            OR: [{ endDate: null }, { endDate: { gte: startDate } }],
+            ...(!isAdminUser && { createdById: user.id }),
+          },
+          { id: { in: posts.flatMap(post => post.campaignId ? [post.campaignId] : []) } },
+        ],
+      },
+      select: campaignSelect,
+      orderBy: {
+        startDate: 'asc',
+      },
+    })
+
+    // Every post drawing on these campaign budgets in the range counts towards overlapping spend,
+    // including other users' posts, so only the fields the budget check needs are sent for them
+    const budgetPosts = await prisma.socialMediaPost.findMany({
+      where: {
+        campaignId: { in: campaigns.map(campaign => campaign.id) },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+      select: {
+        id: true,
+        budget: true,
+        startDate: true,
+        endDate: true,
+        campaignId: true,
+      },
+    })
+
+    return NextResponse.json({
+      posts,
+      budgetPosts,
+      campaigns: campaigns.map(({ campaignType, ...campaign }) => ({
+        ...campaign,
+        color: campaignType?.color ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching content calendar:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch content calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
+import { approvalStagesInclude, getActiveDelegatorIds } from '@/lib/post-approvals'
 
 // GET /api/posts/pending - Get posts pending approval for current user
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth(request)
 
-    // Find posts where user is the next approver
+    // Approvals the user can act on: their own, and those of approvers they are covering for
+    const actingFor = [user.id, ...await getActiveDelegatorIds(user.id)]
+
+    // Find posts whose current stage waits on one of those approvals
     const posts = await prisma.socialMediaPost.findMany({
       where: {
         status: 'PENDING_APPROVAL',
-        approvals: {
+        approvalStages: {
           some: {
-            approverId: user.id,
-            status: 'PENDING',
+            startedAt: { not: null },
+            completedAt: null,
+            approvals: {
+              some: {
+                approverId: { in: actingFor },
+                status: 'PENDING',
+              },
+            },
           },
         },
       },
@@ -40,6 +50,7 @@ export async function GET(request: NextRequest) {
             email: true,
           },
         },
+        approvalStages: approvalStagesInclude,
         approvals: {
           include: {
             approver: {
@@ -60,17 +71,7 @@ export async function GET(request: NextRequest) {
       },
     })
 
-    // Filter to only include posts where it's actually the user's turn
-    const pendingForUser = posts.filter((post) => {
-      const userApproval = post.approvals.find((a) => a.approverId === user.id)
-      if (!userApproval || userApproval.status !== 'PENDING') return false
-
-      // Check if all previous approvals are complete
-      const previousApprovals = post.approvals.filter((a) => a.order < userApproval.order)
-      return previousApprovals.every((a) => a.status === 'APPROVED')
-    })
-
-    return NextResponse.json({ posts: pendingForUser, count: pendingForUser.length })
+    return NextResponse.json({ posts, count: posts.length })
   } catch (error) {
     console.error('Error fetching pending approvals:', error)
     return NextResponse.json(
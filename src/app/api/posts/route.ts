@@ -2,6 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, isAdminRole } from '@/lib/auth'
 import { notifyApprovalRequest } from '@/lib/notification-service'
+import { isSocialPlatform } from '@/lib/social-publishing'
+import { publicationSelect } from '@/lib/post-publishing'
+import {
+  PlannedApprovalStage,
+  approvalStagesInclude,
+  createPostApprovalStages,
+  notifyFirstStageApprovers,
+  planManualStages,
+  planWorkflowStages
+} from '@/lib/post-approvals'
+import { snapshotPostRevision } from '@/lib/post-revisions'
 
 // GET /api/posts - Get all posts
 export async function GET(request: NextRequest) {
@@ -55,6 +66,7 @@ export async function GET(request: NextRequest) {
               email: true,
             },
           },
+          approvalStages: approvalStagesInclude,
           approvals: {
             include: {
               approver: {
@@ -82,6 +94,12 @@ export async function GET(request: NextRequest) {
               createdAt: 'desc',
             },
           },
+          publications: {
+            select: publicationSelect,
+            orderBy: {
+              platform: 'asc',
+            },
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -125,7 +143,9 @@ export async function POST(request: NextRequest) {
       endDate,
       programId,
       campaignId,
-      approvers, // Array of user IDs in approval order
+      workflowId, // Approval workflow template to follow...
+      approvers, // ...or user IDs in approval order, each approving in turn
+      platforms = [], // Where to publish once approved
     } = body
 
     // Validate required fields
@@ -137,9 +157,30 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate approvers
-    if (!approvers || !Array.isArray(approvers) || approvers.length === 0) {
+    if (!workflowId && (!approvers || !Array.isArray(approvers) || approvers.length === 0)) {
+      return NextResponse.json(
+        { error: 'Choose an approval workflow or at least one approver' },
+        { status: 400 }
+      )
+    }
+
+    if (!workflowId && new Set(approvers).size !== approvers.length) {
       return NextResponse.json(
-        { error: 'At least one approver is required' },
+        { error: 'Duplicate approvers are not allowed' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(platforms) || !platforms.every(isSocialPlatform)) {
+      return NextResponse.json(
+        { error: 'Platforms must be a list of FACEBOOK, INSTAGRAM or LINKEDIN' },
+        { status: 400 }
+      )
+    }
+
+    if (platforms.includes('INSTAGRAM') && !imageUrl) {
+      return NextResponse.json(
+        { error: 'Instagram posts need an image' },
         { status: 400 }
       )
     }
@@ -152,26 +193,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create post with approvals
-    const post = await prisma.socialMediaPost.create({
-      data: {
-        caption,
-        imageUrl,
-        budget: budget ? parseFloat(budget) : null,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        status: 'PENDING_APPROVAL',
-        programId: programId || null,
-        campaignId: campaignId || null,
-        createdById: user.id,
-        approvals: {
-          create: approvers.map((approverId: string, index: number) => ({
-            approverId,
-            order: index + 1,
-            status: index === 0 ? 'PENDING' : 'PENDING', // First approver gets pending
-          })),
+    // Resolve the template's approvers now; later template changes don't affect this post
+    let stages: PlannedApprovalStage[]
+    if (workflowId) {
+      const planned = await planWorkflowStages(workflowId, user.id)
+      if ('error' in planned) {
+        return NextResponse.json({ error: planned.error }, { status: 400 })
+      }
+      stages = planned.stages
+    } else {
+      stages = planManualStages(approvers)
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const newPost = await tx.socialMediaPost.create({
+        data: {
+          caption,
+          imageUrl,
+          budget: budget ? parseFloat(budget) : null,
+          startDate: new Date(startDate),
+          endDate: new Date(endDate),
+          status: 'PENDING_APPROVAL',
+          programId: programId || null,
+          campaignId: campaignId || null,
+          platforms: Array.from(new Set(platforms)),
+          workflowId: workflowId || null,
+          createdById: user.id,
         },
-      },
+      })
+      await createPostApprovalStages(tx, newPost.id, stages)
+      await snapshotPostRevision(tx, newPost, user.id)
+      return newPost
+    })
+
+    const post = await prisma.socialMediaPost.findUniqueOrThrow({
+      where: { id: created.id },
       include: {
         program: true,
         campaign: true,
@@ -182,6 +238,7 @@ export async function POST(request: NextRequest) {
             email: true,
           },
         },
+        approvalStages: approvalStagesInclude,
         approvals: {
           include: {
             approver: {
@@ -199,21 +256,13 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Send notification to first approver
-    try {
-      const firstApprover = post.approvals[0]
-      if (firstApprover) {
-        await notifyApprovalRequest(
-          firstApprover.approverId,
-          post.id,
-          post.caption,
-          user.name || user.email
-        )
-      }
-    } catch (error) {
-      console.error('Error sending notification:', error)
-      // Don't fail the post creation if notification fails
-    }
+    // Send approval requests to the first stage (notifications never fail the post creation)
+    await notifyFirstStageApprovers(post.id, (approverId) => notifyApprovalRequest(
+      approverId,
+      post.id,
+      post.caption,
+      user.name || user.email
+    ))
 
     return NextResponse.json(post, { status: 201 })
   } catch (error) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 // GET all Q&A items for a program
 export async function GET(
@@ -8,7 +8,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const { id: programId } = await params
 
@@ -41,7 +42,8 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const { id: programId } = await params
     const body = await request.json()
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const program = await prisma.program.findUnique({
@@ -44,7 +45,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const body = await request.json()
@@ -200,7 +202,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'DELETE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     // Check if program has any seekers
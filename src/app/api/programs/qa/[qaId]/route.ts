@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 // GET a single Q&A item
 export async function GET(
@@ -8,7 +8,8 @@ export async function GET(
   { params }: { params: Promise<{ qaId: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const { qaId } = await params
 
@@ -52,7 +53,8 @@ export async function PUT(
   { params }: { params: Promise<{ qaId: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const { qaId } = await params
     const body = await request.json()
@@ -86,7 +88,8 @@ export async function DELETE(
   { params }: { params: Promise<{ qaId: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const { qaId } = await params
 
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 // GET /api/programs - Get all programs
-// Accessible to all authenticated users regardless of role
+// Requires READ_PROGRAM
 export async function GET(request: NextRequest) {
   try {
-    // Require authentication but allow any role
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const programs = await prisma.program.findMany({
       orderBy: {
@@ -47,7 +47,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'CREATE_PROGRAM')
+    if (_user instanceof NextResponse) return _user
     
     const body = await request.json()
     
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getProjectForUser } from '@/lib/project-access'
+import { getProjectBurndown } from '@/lib/project-progress'
+
+// GET /api/projects/[id]/burndown - Remaining work over time for the burndown chart
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_PROJECT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getProjectForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    const project = await prisma.project.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, status: true, startDate: true, endDate: true, budget: true, createdAt: true },
+    })
+
+    return NextResponse.json(await getProjectBurndown(project))
+  } catch (error) {
+    console.error('Error fetching project burndown:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project burndown' },
+      { status: 500 }
+    )
+  }
+}
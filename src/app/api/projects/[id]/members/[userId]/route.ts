@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { notifyProjectMemberRemoved } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import {
+  PROJECT_MANAGER_ROLES,
+  canAssignProjectRole,
+  getProjectForUser,
+  isProjectMemberRole,
+} from '@/lib/project-access'
+
+// PATCH /api/projects/[id]/members/[userId] - Change a member's project role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_PROJECT_MEMBERS')
+    if (user instanceof NextResponse) return user
+    const { id, userId } = await params
+
+    const access = await getProjectForUser(id, user, PROJECT_MANAGER_ROLES)
+    if (access instanceof NextResponse) return access
+
+    const existingMember = access.project.members.find(m => m.userId === userId)
+    if (!existingMember) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    const { role } = await request.json()
+
+    if (!isProjectMemberRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid project role' },
+        { status: 400 }
+      )
+    }
+
+    // Managers can only move members between MEMBER and VIEWER
+    if (!canAssignProjectRole(access.role, existingMember.role) || !canAssignProjectRole(access.role, role)) {
+      return NextResponse.json(
+        { error: 'Only project owners can change owners or managers' },
+        { status: 403 }
+      )
+    }
+
+    const member = await prisma.projectMember.update({
+      where: { projectId_userId: { projectId: id, userId } },
+      data: { role },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    return NextResponse.json(member)
+  } catch (error) {
+    console.error('Error updating project member:', error)
+    return NextResponse.json(
+      { error: 'Failed to update project member' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/members/[userId] - Remove a member
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_PROJECT_MEMBERS')
+    if (user instanceof NextResponse) return user
+    const { id, userId } = await params
+
+    const access = await getProjectForUser(id, user, PROJECT_MANAGER_ROLES)
+    if (access instanceof NextResponse) return access
+
+    const existingMember = access.project.members.find(m => m.userId === userId)
+    if (!existingMember) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canAssignProjectRole(access.role, existingMember.role)) {
+      return NextResponse.json(
+        { error: 'Only project owners can remove owners or managers' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.projectMember.delete({
+      where: { projectId_userId: { projectId: id, userId } },
+    })
+
+    if (userId !== user.id) {
+      try {
+        await notifyProjectMemberRemoved(userId, id, access.project.name, user.name || user.email)
+        invalidateUnreadCountCache(userId)
+      } catch (error) {
+        console.error('Error sending notification:', error)
+        // Don't fail removing the member if notification fails
+      }
+    }
+
+    return NextResponse.json({ message: 'Member removed successfully' })
+  } catch (error) {
+    console.error('Error removing project member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove project member' },
+      { status: 500 }
+    )
+  }
+}
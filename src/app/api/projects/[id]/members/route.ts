@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { notifyProjectMemberAdded } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import {
+  PROJECT_MANAGER_ROLES,
+  PROJECT_ROLE_LABELS,
+  canAssignProjectRole,
+  getProjectForUser,
+  isProjectMemberRole,
+} from '@/lib/project-access'
+
+// GET /api/projects/[id]/members - List members with their project roles
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_PROJECT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getProjectForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId: id },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { joinedAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      members,
+      createdById: access.project.createdById,
+      currentUserRole: access.role,
+    })
+  } catch (error) {
+    console.error('Error fetching project members:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project members' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/members - Add a member
+// Body: { userId, role? } (role defaults to MEMBER)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_PROJECT_MEMBERS')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getProjectForUser(id, user, PROJECT_MANAGER_ROLES)
+    if (access instanceof NextResponse) return access
+
+    const { userId, role = 'MEMBER' } = await request.json()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isProjectMemberRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid project role' },
+        { status: 400 }
+      )
+    }
+
+    if (!canAssignProjectRole(access.role, role)) {
+      return NextResponse.json(
+        { error: 'Only project owners can add owners or managers' },
+        { status: 403 }
+      )
+    }
+
+    if (userId === access.project.createdById) {
+      return NextResponse.json(
+        { error: 'The project creator is already its owner' },
+        { status: 400 }
+      )
+    }
+
+    if (access.project.members.some(m => m.userId === userId)) {
+      return NextResponse.json(
+        { error: 'User is already a member of this project' },
+        { status: 409 }
+      )
+    }
+
+    const memberUser = await prisma.user.findFirst({
+      where: { id: userId, isActive: true },
+      select: { id: true },
+    })
+
+    if (!memberUser) {
+      return NextResponse.json(
+        { error: 'User not found or inactive' },
+        { status: 400 }
+      )
+    }
+
+    const member = await prisma.projectMember.create({
+      data: {
+        projectId: id,
+        userId,
+        role,
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    try {
+      await notifyProjectMemberAdded(userId, id, access.project.name, PROJECT_ROLE_LABELS[role], user.name || user.email)
+      invalidateUnreadCountCache(userId)
+    } catch (error) {
+      console.error('Error sending notification:', error)
+      // Don't fail adding the member if notification fails
+    }
+
+    return NextResponse.json(member, { status: 201 })
+  } catch (error) {
+    console.error('Error adding project member:', error)
+    return NextResponse.json(
+      { error: 'Failed to add project member' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { PROJECT_MANAGER_ROLES, getProjectForUser, getProjectRole } from '@/lib/project-access'
+import { getProjectsProgress } from '@/lib/project-progress'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_PROJECT')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
     // Build where clause based on user role
@@ -84,7 +87,13 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(project)
+    const progress = await getProjectsProgress([project])
+
+    return NextResponse.json({
+      ...project,
+      ...progress.get(project.id),
+      currentUserRole: getProjectRole(project, user)
+    })
   } catch (error) {
     console.error('Error fetching project:', error)
     return NextResponse.json(
@@ -99,7 +108,8 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_PROJECT')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     const body = await request.json()
     
@@ -111,32 +121,14 @@ export async function PUT(
       startDate,
       endDate,
       budget,
-      progress,
       color
     } = body
 
-    // Check if user has permission to update this project
-    const where: any = { id }
-    
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow updating own projects or projects they're members of
-    if (!isAdminRole(user.role)) {
-      where.OR = [
-        { createdById: user.id },
-        { members: { some: { userId: user.id } } }
-      ]
-    }
-    
-    const existingProject = await prisma.project.findFirst({
-      where
-    })
-
-    if (!existingProject) {
-      return NextResponse.json(
-        { error: 'Project not found or access denied' },
-        { status: 404 }
-      )
-    }
+    // Only the project's owners and managers can edit its details and budget
+    const access = await getProjectForUser(id, user, PROJECT_MANAGER_ROLES)
+    if (access instanceof NextResponse) return access
 
+    // progress is derived from the project's tasks and can't be set directly
     const updateData: any = {}
     if (name !== undefined) updateData.name = name
     if (description !== undefined) updateData.description = description
@@ -145,7 +137,6 @@ export async function PUT(
     if (startDate !== undefined) updateData.startDate = startDate ? new Date(startDate) : null
     if (endDate !== undefined) updateData.endDate = endDate ? new Date(endDate) : null
     if (budget !== undefined) updateData.budget = budget
-    if (progress !== undefined) updateData.progress = progress
     if (color !== undefined) updateData.color = color
 
     const project = await prisma.project.update({
@@ -180,27 +171,13 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_PROJECT')
+    if (user instanceof NextResponse) return user
     const { id } = await params
 
-    // Check if user is the creator of the project or is Admin/Administrator
-    const where: any = { id }
-    
-    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only allow deleting own projects
-    if (!isAdminRole(user.role)) {
-      where.createdById = user.id
-    }
-    
-    const project = await prisma.project.findFirst({
-      where
-    })
-
-    if (!project) {
-      return NextResponse.json(
-        { error: 'Project not found or access denied' },
-        { status: 404 }
-      )
-    }
+    // Only the project's owners can delete it
+    const access = await getProjectForUser(id, user, ['OWNER'])
+    if (access instanceof NextResponse) return access
 
     await prisma.project.delete({
       where: { id }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { PROJECT_TASK_EDITOR_ROLES, getProjectForUser } from '@/lib/project-access'
+
+// GET /api/projects/[id]/timeline - Tasks and their dependencies for the Gantt view
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_PROJECT')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const access = await getProjectForUser(id, user)
+    if (access instanceof NextResponse) return access
+
+    const [project, tasks, dependencies] = await Promise.all([
+      prisma.project.findUniqueOrThrow({
+        where: { id },
+        select: { id: true, name: true, startDate: true, endDate: true },
+      }),
+      prisma.task.findMany({
+        where: { projectId: id, status: { not: 'CANCELLED' } },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          priority: true,
+          startDate: true,
+          dueDate: true,
+          assignedTo: { select: { id: true, name: true } },
+        },
+        orderBy: [{ startDate: 'asc' }, { dueDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+      prisma.taskDependency.findMany({
+        where: { task: { projectId: id } },
+        select: { taskId: true, dependsOnId: true },
+      }),
+    ])
+
+    return NextResponse.json({
+      project,
+      tasks,
+      dependencies,
+      canEdit: PROJECT_TASK_EDITOR_ROLES.includes(access.role),
+    })
+  } catch (error) {
+    console.error('Error fetching project timeline:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project timeline' },
+      { status: 500 }
+    )
+  }
+}
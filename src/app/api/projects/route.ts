@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { notifyProjectMemberAdded } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { PROJECT_ROLE_LABELS } from '@/lib/project-access'
+import { getProjectsProgress } from '@/lib/project-progress'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_PROJECT')
+    if (user instanceof NextResponse) return user
     
     // Build where clause based on user role
     const where: any = {}
@@ -43,7 +48,10 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    return NextResponse.json(projects)
+    // Progress and health are derived from the projects' tasks
+    const progress = await getProjectsProgress(projects)
+
+    return NextResponse.json(projects.map(project => ({ ...project, ...progress.get(project.id) })))
   } catch (error) {
     console.error('Error fetching projects:', error)
     return NextResponse.json(
@@ -55,7 +63,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_PROJECT')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const {
@@ -90,10 +99,13 @@ export async function POST(request: NextRequest) {
         color,
         createdById: user.id,
         members: {
-          create: memberIds.map((memberId: string) => ({
-            userId: memberId,
-            role: 'Member'
-          }))
+          // The creator is the project's owner without a member row
+          create: memberIds
+            .filter((memberId: string) => memberId !== user.id)
+            .map((memberId: string) => ({
+              userId: memberId,
+              role: 'MEMBER'
+            }))
         }
       },
       include: {
@@ -110,6 +122,16 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    try {
+      for (const member of project.members) {
+        await notifyProjectMemberAdded(member.userId, project.id, project.name, PROJECT_ROLE_LABELS[member.role], user.name || user.email)
+        invalidateUnreadCountCache(member.userId)
+      }
+    } catch (error) {
+      console.error('Error sending notification:', error)
+      // Don't fail the project creation if notification fails
+    }
+
     return NextResponse.json(project, { status: 201 })
   } catch (error) {
     console.error('Error creating project:', error)
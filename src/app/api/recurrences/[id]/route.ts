@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { COMPLETED_FOLLOW_UP_STATUSES } from '@/lib/follow-up-sla'
+import { COMPLETED_TASK_STATUSES, refreshProjectProgress } from '@/lib/project-progress'
+import { getInstituteTimeZone } from '@/lib/system-settings'
+import { getRecurrenceForUser, parseRecurrenceRule } from '@/lib/task-recurrence'
+
+// GET /api/recurrences/[id] - A recurring series with its occurrences so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const recurrence = await getRecurrenceForUser(id, user)
+    if (recurrence instanceof NextResponse) return recurrence
+
+    return NextResponse.json(recurrence)
+  } catch (error) {
+    console.error('Error fetching recurring series:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recurring series' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/recurrences/[id] - Change the rule and/or the details of the series' open occurrences.
+// The rule applies from the next occurrence on; the open occurrence keeps its due date.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+    const body = await request.json()
+
+    const recurrence = await getRecurrenceForUser(id, user)
+    if (recurrence instanceof NextResponse) return recurrence
+
+    if (recurrence.cancelledAt) {
+      return NextResponse.json(
+        { error: 'This series has been cancelled' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseRecurrenceRule({
+      frequency: body.frequency ?? recurrence.frequency,
+      interval: body.interval ?? recurrence.interval,
+      daysOfWeek: body.daysOfWeek ?? recurrence.daysOfWeek,
+      until: body.until !== undefined ? body.until : recurrence.until,
+      maxOccurrences: body.maxOccurrences !== undefined ? body.maxOccurrences : recurrence.maxOccurrences,
+    }, await getInstituteTimeZone())
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { title, description, priority, assignedToId, estimatedHours, purpose, notes, assignedTo } = body
+
+    await prisma.$transaction(async (tx) => {
+      await tx.taskRecurrence.update({
+        where: { id },
+        data: parsed.rule,
+      })
+
+      // Later occurrences are copied from the open one, so editing it edits the rest of the series
+      await tx.task.updateMany({
+        where: { recurrenceId: id, status: { notIn: [...COMPLETED_TASK_STATUSES, 'CANCELLED'] } },
+        data: {
+          ...(title && { title }),
+          ...(description !== undefined && { description }),
+          ...(priority && { priority }),
+          ...(assignedToId !== undefined && { assignedToId: assignedToId || null }),
+          ...(estimatedHours !== undefined && { estimatedHours }),
+        },
+      })
+
+      await tx.followUpTask.updateMany({
+        where: { recurrenceId: id, status: { notIn: COMPLETED_FOLLOW_UP_STATUSES } },
+        data: {
+          ...(purpose && { purpose }),
+          ...(notes !== undefined && { notes }),
+          ...(assignedTo && { assignedTo }),
+        },
+      })
+    })
+
+    const updated = await getRecurrenceForUser(id, user)
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating recurring series:', error)
+    return NextResponse.json(
+      { error: 'Failed to update recurring series' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/recurrences/[id] - Cancel the whole series. Completed occurrences are kept;
+// open tasks are marked cancelled and pending follow-ups are removed.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id } = await params
+
+    const recurrence = await getRecurrenceForUser(id, user)
+    if (recurrence instanceof NextResponse) return recurrence
+
+    await prisma.$transaction([
+      prisma.taskRecurrence.update({
+        where: { id },
+        data: { isActive: false, cancelledAt: new Date() },
+      }),
+      prisma.task.updateMany({
+        where: { recurrenceId: id, status: { notIn: [...COMPLETED_TASK_STATUSES, 'CANCELLED'] } },
+        data: { status: 'CANCELLED' },
+      }),
+      prisma.followUpTask.deleteMany({
+        where: { recurrenceId: id, status: { notIn: COMPLETED_FOLLOW_UP_STATUSES } },
+      }),
+    ])
+
+    const projectIds = new Set(recurrence.tasks.map(task => task.projectId))
+    for (const projectId of projectIds) {
+      if (projectId) await refreshProjectProgress(projectId)
+    }
+
+    return NextResponse.json({ message: 'Recurring series cancelled' })
+  } catch (error) {
+    console.error('Error cancelling recurring series:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel recurring series' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,18 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isAdminRole, requireAuth } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
-    
-    // Only ADMIN/ADMINISTRATOR/DEVELOPER can view reports
-    if (!isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Access denied. Admin privileges required.' },
-        { status: 403 }
-      )
-    }
+    const user = await requirePermission(request, 'READ_REPORTS')
+    if (user instanceof NextResponse) return user
 
     const { searchParams } = new URL(request.url)
     const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString())
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 import { SeekerStage } from '@prisma/client'
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 
 export async function GET(request: NextRequest) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_REPORTS')
+    if (_user instanceof NextResponse) return _user
     const isAdmin = isAdminRole(_user.role)
     
     const { searchParams } = new URL(request.url)
@@ -19,7 +21,7 @@ export async function GET(request: NextRequest) {
     
     // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own data
     if (!isAdmin) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
       interactionWhere.userId = _user.id
     }
     
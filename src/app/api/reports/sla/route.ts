@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import { getFollowUpSlaReport } from '@/lib/follow-up-sla'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/reports/sla - Time to first contact and on-time follow-up rates
+// Query: days (default 30) - report on the last N days
+export async function GET(request: NextRequest) {
+  try {
+    const _user = await requirePermission(request, 'READ_REPORTS')
+    if (_user instanceof NextResponse) return _user
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+
+    if (!Number.isInteger(days) || days < 1 || days > 366) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 366' },
+        { status: 400 }
+      )
+    }
+
+    const to = new Date()
+    const from = new Date(to.getTime() - days * DAY_MS)
+
+    // If not ADMIN/ADMINISTRATOR/DEVELOPER, only report on the user's own inquiries and follow-ups
+    const isAdmin = isAdminRole(_user.role)
+    const report = await getFollowUpSlaReport({
+      from,
+      to,
+      seekerAccess: isAdmin ? undefined : getSeekerAccessConditions(_user.id),
+      coordinatorId: isAdmin ? undefined : _user.id,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error generating SLA report:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate SLA report' },
+      { status: 500 }
+    )
+  }
+}
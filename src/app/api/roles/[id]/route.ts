@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isAdminRole, requireAuth } from '@/lib/auth'
+import { checkPermission, requirePermission } from '@/lib/auth'
+import { invalidateUserPermissionsCache } from '@/lib/user-permissions'
 
 // GET /api/roles/[id] - Get a specific role
 export async function GET(
@@ -8,32 +9,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_ROLE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
-    // Check if user has READ_ROLE permission
-    const hasPermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          users: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        permission: {
-          name: 'READ_ROLE'
-        }
-      }
-    })
-
-    if (!hasPermission && !isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to read role details' },
-        { status: 403 }
-      )
-    }
-    
     const role = await prisma.role.findUnique({
       where: { id },
       include: {
@@ -98,33 +77,16 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_ROLE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
-    // Check if user has UPDATE_ROLE permission
-    const hasPermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          users: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        permission: {
-          name: 'UPDATE_ROLE'
-        }
-      }
-    })
+    const { name, description, permissions } = await request.json()
 
-    if (!hasPermission && !isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to update roles' },
-        { status: 403 }
-      )
+    if (permissions !== undefined) {
+      const denied = await checkPermission(user, 'MANAGE_ROLE_PERMISSIONS', request)
+      if (denied) return denied
     }
-    
-    const { name, description, permissions } = await request.json()
 
     // Check if role exists
     const existingRole = await prisma.role.findUnique({
@@ -200,6 +162,8 @@ export async function PUT(
           }))
         })
       }
+
+      invalidateUserPermissionsCache()
     }
 
     // Fetch the updated role with permissions
@@ -249,32 +213,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'DELETE_ROLE')
+    if (user instanceof NextResponse) return user
     const { id } = await params
     
-    // Check if user has DELETE_ROLE permission
-    const hasPermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          users: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        permission: {
-          name: 'DELETE_ROLE'
-        }
-      }
-    })
-
-    if (!hasPermission && !isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to delete roles' },
-        { status: 403 }
-      )
-    }
-    
     // Check if role exists
     const existingRole = await prisma.role.findUnique({
       where: { id },
@@ -1,34 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isAdminRole, requireAuth, requireRole } from '@/lib/auth'
+import { checkPermission, requirePermission } from '@/lib/auth'
 
 // GET /api/roles - Get all roles with permissions and user counts
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
-    
-    // Check if user has READ_ROLE permission
-    const hasPermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          users: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        permission: {
-          name: 'READ_ROLE'
-        }
-      }
-    })
-
-    if (!hasPermission && !isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to read roles' },
-        { status: 403 }
-      )
-    }
+    const user = await requirePermission(request, 'READ_ROLE')
+    if (user instanceof NextResponse) return user
     
     const roles = await prisma.role.findMany({
       include: {
@@ -89,32 +67,15 @@ export async function GET(request: NextRequest) {
 // POST /api/roles - Create a new role
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_ROLE')
+    if (user instanceof NextResponse) return user
     
-    // Check if user has CREATE_ROLE permission
-    const hasPermission = await prisma.rolePermission.findFirst({
-      where: {
-        role: {
-          users: {
-            some: {
-              userId: user.id
-            }
-          }
-        },
-        permission: {
-          name: 'CREATE_ROLE'
-        }
-      }
-    })
+    const { name, description, permissions } = await request.json()
 
-    if (!hasPermission && !isAdminRole(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to create roles' },
-        { status: 403 }
-      )
+    if (permissions && permissions.length > 0) {
+      const denied = await checkPermission(user, 'MANAGE_ROLE_PERMISSIONS', request)
+      if (denied) return denied
     }
-    
-    const { name, description, permissions } = await request.json()
 
     if (!name) {
       return NextResponse.json(
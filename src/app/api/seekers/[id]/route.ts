@@ -1,21 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'UPDATE_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const body = await request.json()
 
-    // Enforce RBAC: non-admins can only update their own (non-deleted) seekers
+    // Enforce RBAC: non-admins can only update (non-deleted) seekers they created or are assigned to
     const where: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      where.createdById = _user.id
+      where.OR = getSeekerAccessConditions(_user.id)
     }
 
     const existing = await prisma.seeker.findFirst({ where })
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireAuth(request)
+    const _user = await requirePermission(request, 'READ_INQUIRY')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
 
-    // Enforce RBAC: non-admins can only view tasks for seekers they created
+    // Enforce RBAC: non-admins can only view tasks for seekers they created or are assigned to
     const seekerWhere: any = { id, NOT: { isDeleted: true } }
     if (!isAdminRole(_user.role)) {
-      seekerWhere.createdById = _user.id
+      seekerWhere.OR = getSeekerAccessConditions(_user.id)
     }
 
     const seeker = await prisma.seeker.findFirst({ where: seekerWhere, select: { id: true } })
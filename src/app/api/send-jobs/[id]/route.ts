@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SendJob } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+import { runJob } from '@/lib/jobs'
+import { getInstituteTimeZone } from '@/lib/system-settings'
+import {
+  cancelSendJob,
+  getMediaOnlyLabel,
+  isSendJobFinished,
+  pauseSendJob,
+  resolveScheduledAt,
+  resumeSendJob,
+  serializeScheduledSend,
+  serializeSendJob,
+  updateScheduledSend,
+} from '@/lib/send-queue'
+
+// Edit the time or content of a send that is still SCHEDULED
+async function updateScheduled(job: SendJob, body: Record<string, unknown>) {
+  if (job.status !== 'SCHEDULED') {
+    return NextResponse.json(
+      { error: 'Only scheduled sends can be edited' },
+      { status: 400 }
+    )
+  }
+
+  const changes: { scheduledAt?: Date; subject?: string; message?: string } = {}
+
+  if (typeof body.scheduledAt === 'string') {
+    const resolved = await resolveScheduledAt(body.scheduledAt)
+    if (resolved.error) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: 400 }
+      )
+    }
+    changes.scheduledAt = resolved.scheduledAt
+  }
+
+  if (typeof body.subject === 'string') {
+    if (job.channel !== 'EMAIL' || !body.subject.trim()) {
+      return NextResponse.json(
+        { error: 'Subject is required for email sends' },
+        { status: 400 }
+      )
+    }
+    changes.subject = body.subject.trim()
+  }
+
+  if (typeof body.message === 'string') {
+    const message = body.message.trim()
+    // Rich-text bodies can be empty markup such as <p><br></p>
+    if (job.channel === 'EMAIL' && !message.replace(/<[^>]*>/g, '').trim()) {
+      return NextResponse.json(
+        { error: 'Message content is required' },
+        { status: 400 }
+      )
+    }
+    if (job.channel === 'WHATSAPP' && !message) {
+      // A caption can only be removed from media sends
+      const whatsappMessage = await prisma.whatsAppMessage.findUnique({
+        where: { id: job.whatsappMessageId! },
+        select: { mediaFilename: true },
+      })
+      if (!whatsappMessage?.mediaFilename) {
+        return NextResponse.json(
+          { error: 'Message content is required' },
+          { status: 400 }
+        )
+      }
+      changes.message = getMediaOnlyLabel(whatsappMessage.mediaFilename)
+    } else {
+      changes.message = message
+    }
+  }
+
+  const updated = await updateScheduledSend(job.id, changes)
+  const timeZone = await getInstituteTimeZone()
+  const withMessages = await prisma.sendJob.findUniqueOrThrow({
+    where: { id: updated.id },
+    include: {
+      emailMessage: { select: { subject: true, message: true, isHtml: true } },
+      whatsappMessage: { select: { message: true, mediaFilename: true } },
+    },
+  })
+
+  return NextResponse.json(serializeScheduledSend(withMessages, timeZone))
+}
+
+async function getAccessibleJob(request: NextRequest, id: string) {
+  const user = await requireAuth(request)
+  const job = await prisma.sendJob.findUnique({ where: { id } })
+
+  // Data isolation: non-admin users can only see and control their own sends
+  if (!job || (!isAdminRole(user.role) && job.createdById !== user.id)) {
+    return null
+  }
+  return job
+}
+
+// GET /api/send-jobs/[id] - Progress of a bulk send
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getAccessibleJob(request, id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Send job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(serializeSendJob(job))
+  } catch (error) {
+    console.error('Error fetching send job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch send job' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/send-jobs/[id] - Pause, resume or cancel a bulk send, or edit a scheduled one
+// Body: { action: "pause" | "resume" | "cancel" } or { action: "update", scheduledAt?, subject?, message? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const job = await getAccessibleJob(request, id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Send job not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const action = body?.action
+
+    if (!['pause', 'resume', 'cancel', 'update'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Action must be one of: pause, resume, cancel, update' },
+        { status: 400 }
+      )
+    }
+
+    if (isSendJobFinished(job)) {
+      return NextResponse.json(
+        { error: `This send is already ${job.status.toLowerCase()}` },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'update') {
+      return updateScheduled(job, body)
+    }
+
+    if (job.status === 'SCHEDULED' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: 'A scheduled send can only be edited or cancelled' },
+        { status: 400 }
+      )
+    }
+
+    let updated
+    if (action === 'pause') {
+      updated = await pauseSendJob(job.id)
+    } else if (action === 'resume') {
+      updated = await resumeSendJob(job.id)
+      // Pick the job up right away rather than on the next tick
+      void runJob('send-queue')
+    } else {
+      updated = await cancelSendJob(job.id)
+    }
+
+    return NextResponse.json(serializeSendJob(updated))
+  } catch (error) {
+    console.error('Error updating send job:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update send job' },
+      { status: 500 }
+    )
+  }
+}
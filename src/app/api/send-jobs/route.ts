@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, SendChannel } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAuth, isAdminRole } from '@/lib/auth'
+import { serializeScheduledSend, serializeSendJob } from '@/lib/send-queue'
+import { getInstituteTimeZone } from '@/lib/system-settings'
+
+// GET /api/send-jobs - List bulk send jobs (?channel=EMAIL|WHATSAPP&active=true or &scheduled=true)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const { searchParams } = new URL(request.url)
+    const channel = searchParams.get('channel')
+    const activeOnly = searchParams.get('active') === 'true'
+    const scheduledOnly = searchParams.get('scheduled') === 'true'
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100)
+
+    const where: Prisma.SendJobWhereInput = {}
+    // Data isolation: non-admin users only see their own sends
+    if (!isAdminRole(user.role)) {
+      where.createdById = user.id
+    }
+    if (channel === 'EMAIL' || channel === 'WHATSAPP') {
+      where.channel = channel as SendChannel
+    }
+    if (activeOnly) {
+      where.status = { in: ['QUEUED', 'RUNNING', 'PAUSED'] }
+    }
+
+    if (scheduledOnly) {
+      where.status = 'SCHEDULED'
+      const [jobs, timeZone] = await Promise.all([
+        prisma.sendJob.findMany({
+          where,
+          include: {
+            emailMessage: { select: { subject: true, message: true, isHtml: true } },
+            whatsappMessage: { select: { message: true, mediaFilename: true } },
+          },
+          orderBy: { scheduledAt: 'asc' },
+          take: limit,
+        }),
+        getInstituteTimeZone(),
+      ])
+
+      return NextResponse.json({
+        jobs: jobs.map(job => serializeScheduledSend(job, timeZone)),
+        timeZone,
+      })
+    }
+
+    const jobs = await prisma.sendJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ jobs: jobs.map(serializeSendJob) })
+  } catch (error) {
+    console.error('Error fetching send jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch send jobs' },
+      { status: 500 }
+    )
+  }
+}
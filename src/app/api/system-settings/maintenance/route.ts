@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { isMaintenanceModeEnabled } from '@/lib/system-settings'
+
+// GET /api/system-settings/maintenance - Public maintenance status (used by middleware)
+export async function GET() {
+  try {
+    const enabled = await isMaintenanceModeEnabled()
+    return NextResponse.json({ enabled })
+  } catch (error) {
+    console.error('Error fetching maintenance status:', error)
+    return NextResponse.json({ enabled: false })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { isAdminRole, requireAuth } from '@/lib/auth'
+import { invalidateSystemSettingsCache } from '@/lib/system-settings'
 
 export async function GET(request: NextRequest) {
   try {
@@ -65,6 +66,8 @@ export async function PUT(request: NextRequest) {
       }
     })
 
+    invalidateSystemSettingsCache(key)
+
     return NextResponse.json(setting)
   } catch (error) {
     console.error('Error updating system setting:', error)
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, isAdminRole } from '@/lib/auth'
+import { COMPLETED_FOLLOW_UP_STATUSES } from '@/lib/follow-up-sla'
+import { createNextFollowUpOccurrence } from '@/lib/task-recurrence'
 
 export async function PATCH(
   request: NextRequest,
@@ -18,6 +20,7 @@ export async function PATCH(
       select: { 
         status: true,
         assignedTo: true,
+        recurrenceId: true,
         seeker: {
           select: {
             createdById: true
@@ -88,7 +91,14 @@ export async function PATCH(
       },
     })
 
-    return NextResponse.json(updatedTask)
+    // Completing an occurrence of a repeating follow-up schedules the next one
+    const nextOccurrence = currentTask.recurrenceId &&
+      COMPLETED_FOLLOW_UP_STATUSES.includes(status) &&
+      !COMPLETED_FOLLOW_UP_STATUSES.includes(currentTask.status)
+      ? await createNextFollowUpOccurrence(id, _user.id)
+      : null
+
+    return NextResponse.json({ ...updatedTask, nextOccurrence })
   } catch (error) {
     console.error('Error updating task:', error)
     return NextResponse.json(
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+import { deleteTaskAttachmentFile } from '@/lib/task-attachments'
+
+// DELETE /api/tasks/enhanced/[id]/attachments/[attachmentId] - Delete an attachment (uploader, task creator or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_ATTACHMENTS')
+    if (user instanceof NextResponse) return user
+    const { id, attachmentId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const attachment = await prisma.taskAttachment.findFirst({
+      where: { id: attachmentId, taskId: id },
+    })
+
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (attachment.uploadedById !== user.id && task.createdById !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only delete attachments you uploaded' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.taskAttachment.delete({
+      where: { id: attachmentId },
+    })
+    await deleteTaskAttachmentFile(attachment)
+
+    return NextResponse.json({ message: 'Attachment deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting task attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    )
+  }
+}
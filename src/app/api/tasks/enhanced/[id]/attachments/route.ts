@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+import { getTaskAttachmentType, MAX_TASK_ATTACHMENT_BYTES, saveTaskAttachmentFile, TASK_ATTACHMENT_EXTENSIONS } from '@/lib/task-attachments'
+
+// GET /api/tasks/enhanced/[id]/attachments - List a task's attachments, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user)
+    if (task instanceof NextResponse) return task
+
+    const attachments = await prisma.taskAttachment.findMany({
+      where: { taskId: id },
+      include: {
+        uploadedBy: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { uploadedAt: 'desc' },
+    })
+
+    return NextResponse.json(attachments)
+  } catch (error) {
+    console.error('Error fetching task attachments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch attachments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/enhanced/[id]/attachments - Upload an attachment (multipart form field "file")
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_ATTACHMENTS')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_TASK_ATTACHMENT_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_TASK_ATTACHMENT_BYTES / (1024 * 1024)} MB)` },
+        { status: 400 }
+      )
+    }
+
+    if (!getTaskAttachmentType(file.name)) {
+      return NextResponse.json(
+        { error: `This file type is not allowed. Allowed types: ${TASK_ATTACHMENT_EXTENSIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const stored = await saveTaskAttachmentFile(file)
+
+    const attachment = await prisma.taskAttachment.create({
+      data: {
+        taskId: id,
+        uploadedById: user.id,
+        filename: stored.filename,
+        originalName: file.name,
+        fileSize: file.size,
+        mimeType: stored.mimeType,
+        url: stored.url,
+      },
+      include: {
+        uploadedBy: {
+          select: { id: true, name: true }
+        }
+      },
+    })
+
+    return NextResponse.json(attachment, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading task attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// PATCH /api/tasks/enhanced/[id]/checklists/[itemId] - Rename or tick/untick a checklist item
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_CHECKLISTS')
+    if (user instanceof NextResponse) return user
+    const { id, itemId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const existingItem = await prisma.taskChecklist.findFirst({
+      where: { id: itemId, taskId: id },
+    })
+
+    if (!existingItem) {
+      return NextResponse.json(
+        { error: 'Checklist item not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { title, completed } = body
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      return NextResponse.json(
+        { error: 'Checklist item title is required' },
+        { status: 400 }
+      )
+    }
+
+    const item = await prisma.taskChecklist.update({
+      where: { id: itemId },
+      data: {
+        ...(title !== undefined && { title: title.trim() }),
+        ...(completed !== undefined && { completed: !!completed }),
+      },
+    })
+
+    return NextResponse.json(item)
+  } catch (error) {
+    console.error('Error updating checklist item:', error)
+    return NextResponse.json(
+      { error: 'Failed to update checklist item' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/enhanced/[id]/checklists/[itemId] - Remove a checklist item
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_CHECKLISTS')
+    if (user instanceof NextResponse) return user
+    const { id, itemId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const deleted = await prisma.taskChecklist.deleteMany({
+      where: { id: itemId, taskId: id },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: 'Checklist item not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Checklist item deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting checklist item:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete checklist item' },
+      { status: 500 }
+    )
+  }
+}
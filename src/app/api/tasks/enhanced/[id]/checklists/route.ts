@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// GET /api/tasks/enhanced/[id]/checklists - List a task's checklist items in order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user)
+    if (task instanceof NextResponse) return task
+
+    const items = await prisma.taskChecklist.findMany({
+      where: { taskId: id },
+      orderBy: { order: 'asc' },
+    })
+
+    return NextResponse.json(items)
+  } catch (error) {
+    console.error('Error fetching checklist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch checklist' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/enhanced/[id]/checklists - Add a checklist item at the end
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_CHECKLISTS')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Checklist item title is required' },
+        { status: 400 }
+      )
+    }
+
+    const last = await prisma.taskChecklist.findFirst({
+      where: { taskId: id },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+
+    const item = await prisma.taskChecklist.create({
+      data: {
+        taskId: id,
+        title,
+        completed: !!body.completed,
+        order: (last?.order ?? -1) + 1,
+      },
+    })
+
+    return NextResponse.json(item, { status: 201 })
+  } catch (error) {
+    console.error('Error creating checklist item:', error)
+    return NextResponse.json(
+      { error: 'Failed to create checklist item' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/tasks/enhanced/[id]/checklists - Reorder checklist items
+// Body: { itemIds: string[] } - every item of the task, in the new order
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_CHECKLISTS')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const itemIds: unknown = body.itemIds
+
+    if (!Array.isArray(itemIds) || itemIds.some(itemId => typeof itemId !== 'string')) {
+      return NextResponse.json(
+        { error: 'itemIds must be a list of checklist item ids' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.taskChecklist.findMany({
+      where: { taskId: id },
+      select: { id: true },
+    })
+    const existingIds = new Set(existing.map(item => item.id))
+
+    if (itemIds.length !== existingIds.size || new Set(itemIds).size !== itemIds.length || !itemIds.every(itemId => existingIds.has(itemId))) {
+      return NextResponse.json(
+        { error: 'itemIds must list every checklist item of this task exactly once' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.$transaction(
+      itemIds.map((itemId, index) => prisma.taskChecklist.update({
+        where: { id: itemId },
+        data: { order: index },
+      }))
+    )
+
+    const items = await prisma.taskChecklist.findMany({
+      where: { taskId: id },
+      orderBy: { order: 'asc' },
+    })
+
+    return NextResponse.json(items)
+  } catch (error) {
+    console.error('Error reordering checklist:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder checklist' },
+      { status: 500 }
+    )
+  }
+}
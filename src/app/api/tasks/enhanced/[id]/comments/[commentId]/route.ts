@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// PATCH /api/tasks/enhanced/[id]/comments/[commentId] - Edit a comment (author only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_COMMENTS')
+    if (user instanceof NextResponse) return user
+    const { id, commentId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const existingComment = await prisma.taskComment.findFirst({
+      where: { id: commentId, taskId: id },
+    })
+
+    if (!existingComment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingComment.authorId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only edit your own comments' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const content = typeof body.content === 'string' ? body.content.trim() : ''
+
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Comment cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    const comment = await prisma.taskComment.update({
+      where: { id: commentId },
+      data: { content },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    return NextResponse.json(comment)
+  } catch (error) {
+    console.error('Error updating task comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update comment' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/enhanced/[id]/comments/[commentId] - Delete a comment (author or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_COMMENTS')
+    if (user instanceof NextResponse) return user
+    const { id, commentId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const existingComment = await prisma.taskComment.findFirst({
+      where: { id: commentId, taskId: id },
+    })
+
+    if (!existingComment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingComment.authorId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only delete your own comments' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.taskComment.delete({
+      where: { id: commentId },
+    })
+
+    return NextResponse.json({ message: 'Comment deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting task comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// GET /api/tasks/enhanced/[id]/comments - List a task's comments, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user)
+    if (task instanceof NextResponse) return task
+
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId: id },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json(comments)
+  } catch (error) {
+    console.error('Error fetching task comments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch comments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/enhanced/[id]/comments - Add a comment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_COMMENTS')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const content = typeof body.content === 'string' ? body.content.trim() : ''
+
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Comment cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        taskId: id,
+        authorId: user.id,
+        content,
+      },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    })
+
+    return NextResponse.json(comment, { status: 201 })
+  } catch (error) {
+    console.error('Error creating task comment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create comment' },
+      { status: 500 }
+    )
+  }
+}
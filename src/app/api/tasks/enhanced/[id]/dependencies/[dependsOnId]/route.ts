@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// DELETE /api/tasks/enhanced/[id]/dependencies/[dependsOnId] - Stop this task waiting on another
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; dependsOnId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_TASK')
+    if (user instanceof NextResponse) return user
+    const { id, dependsOnId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const { count } = await prisma.taskDependency.deleteMany({
+      where: { taskId: id, dependsOnId },
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Dependency not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing task dependency:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove task dependency' },
+      { status: 500 }
+    )
+  }
+}
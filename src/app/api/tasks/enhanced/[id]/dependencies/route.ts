@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+import { dependencyTaskSelect, rescheduleTask, wouldCreateDependencyCycle } from '@/lib/task-dependencies'
+
+// GET /api/tasks/enhanced/[id]/dependencies - Tasks this task waits on, and tasks waiting on it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user)
+    if (task instanceof NextResponse) return task
+
+    const [blockedBy, blocking] = await Promise.all([
+      prisma.taskDependency.findMany({
+        where: { taskId: id },
+        select: { id: true, dependsOn: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.taskDependency.findMany({
+        where: { dependsOnId: id },
+        select: { id: true, task: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({
+      projectId: task.projectId,
+      blockedBy: blockedBy.map(d => d.dependsOn),
+      blocking: blocking.map(d => d.task),
+    })
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch task dependencies' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/enhanced/[id]/dependencies - Make this task wait until another task of its project is done
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const dependsOnId = typeof body.dependsOnId === 'string' ? body.dependsOnId : ''
+
+    if (!dependsOnId) {
+      return NextResponse.json(
+        { error: 'dependsOnId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!task.projectId) {
+      return NextResponse.json(
+        { error: 'Only tasks in a project can have dependencies' },
+        { status: 400 }
+      )
+    }
+
+    const blocker = await getTaskForUser(dependsOnId, user)
+    if (blocker instanceof NextResponse) return blocker
+
+    if (blocker.projectId !== task.projectId) {
+      return NextResponse.json(
+        { error: 'A task can only depend on tasks in the same project' },
+        { status: 400 }
+      )
+    }
+
+    const projectId = task.projectId
+    // Serializable, so two requests adding opposite dependencies at once cannot both pass the cycle check
+    const conflict = await prisma.$transaction(async (tx) => {
+      if (await wouldCreateDependencyCycle(tx, projectId, id, dependsOnId)) {
+        return 'This dependency would create a cycle'
+      }
+
+      const existing = await tx.taskDependency.findUnique({
+        where: { taskId_dependsOnId: { taskId: id, dependsOnId } },
+      })
+      if (existing) {
+        return 'This task already depends on that task'
+      }
+
+      await tx.taskDependency.create({
+        data: { taskId: id, dependsOnId },
+      })
+      return null
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    })
+
+    if (conflict) {
+      return NextResponse.json(
+        { error: conflict },
+        { status: 409 }
+      )
+    }
+
+    // Push this task (and whatever waits on it) past the blocker's due date if it now starts too early
+    const dates = await prisma.task.findUniqueOrThrow({
+      where: { id: dependsOnId },
+      select: { startDate: true, dueDate: true },
+    })
+    const rescheduled = await rescheduleTask(dependsOnId, dates.startDate, dates.dueDate)
+
+    return NextResponse.json(
+      {
+        dependsOn: rescheduled.find(t => t.id === dependsOnId),
+        rescheduled: rescheduled.filter(t => t.id !== dependsOnId),
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return NextResponse.json(
+        { error: 'Dependencies of this project changed at the same time. Please try again.' },
+        { status: 409 }
+      )
+    }
+    console.error('Error adding task dependency:', error)
+    return NextResponse.json(
+      { error: 'Failed to add task dependency' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission } from '@/lib/auth'
+import { PROJECT_TASK_EDITOR_ROLES, getProjectForUser } from '@/lib/project-access'
+import { getTaskCompletedAt, isTaskCompleted, refreshProjectProgress } from '@/lib/project-progress'
+import { createNextTaskOccurrence, recurrenceSelect } from '@/lib/task-recurrence'
+import { getTaskForUser } from '@/lib/task-access'
+import { getOpenBlockers } from '@/lib/task-dependencies'
 
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'UPDATE_TASK')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     const { id } = await params
     
@@ -16,44 +22,36 @@ export async function PATCH(
       description,
       status,
       priority,
+      startDate,
       dueDate,
+      estimatedHours,
       assignedToId,
       projectId,
+      ignoreBlockers,
     } = body
 
-    // Check if task exists and user has permission
-    const existingTask = await prisma.task.findUnique({
-      where: { id },
-      include: {
-        createdBy: true,
-        assignedTo: true,
-        project: {
-          include: {
-            members: true
-          }
-        }
-      }
-    })
+    // Check if task exists and user can change it (project viewers can't)
+    const existingTask = await getTaskForUser(id, user, 'write')
+    if (existingTask instanceof NextResponse) return existingTask
 
-    if (!existingTask) {
-      return NextResponse.json(
-        { error: 'Task not found' },
-        { status: 404 }
-      )
+    // Moving the task into a project needs a task-editing role there
+    if (projectId) {
+      const access = await getProjectForUser(projectId, user, PROJECT_TASK_EDITOR_ROLES)
+      if (access instanceof NextResponse) return access
     }
 
-    // Check permissions: Admin/Administrator can update any task, others must be creator, assignee, or project member
-    const isAdmin = isAdminRole(user.role)
-    const hasPermission = isAdmin ||
-      existingTask.createdById === user.id ||
-      existingTask.assignedToId === user.id ||
-      existingTask.project?.members.some(m => m.userId === user.id)
-
-    if (!hasPermission) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
-      )
+    // Starting a task whose blockers are still open needs confirming
+    if (status === 'IN_PROGRESS' && existingTask.status !== 'IN_PROGRESS' && !ignoreBlockers) {
+      const blockers = await getOpenBlockers(id)
+      if (blockers.length > 0) {
+        return NextResponse.json(
+          {
+            error: `This task is waiting on ${blockers.length} unfinished task${blockers.length === 1 ? '' : 's'}`,
+            blockers
+          },
+          { status: 409 }
+        )
+      }
     }
 
     // Update task
@@ -62,9 +60,11 @@ export async function PATCH(
       data: {
         ...(title && { title }),
         ...(description !== undefined && { description }),
-        ...(status && { status }),
+        ...(status && { status, completedAt: getTaskCompletedAt(status, existingTask) }),
         ...(priority && { priority }),
+        ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
         ...(dueDate && { dueDate: new Date(dueDate) }),
+        ...(estimatedHours !== undefined && { estimatedHours }),
         ...(assignedToId !== undefined && { assignedToId: assignedToId || null }),
         ...(projectId !== undefined && { projectId: projectId || null }),
       },
@@ -83,11 +83,27 @@ export async function PATCH(
         },
         checklists: {
           orderBy: { order: 'asc' }
+        },
+        recurrence: {
+          select: recurrenceSelect
         }
       }
     })
 
-    return NextResponse.json(updatedTask)
+    // Completing an occurrence of a repeating task schedules the next one
+    const nextOccurrence = status && existingTask.recurrenceId && isTaskCompleted(status) && !isTaskCompleted(existingTask.status)
+      ? await createNextTaskOccurrence(id)
+      : null
+
+    // Keep the progress of the project(s) the task is in, or was moved out of, in step
+    if (status || estimatedHours !== undefined || projectId !== undefined || nextOccurrence) {
+      const projectIds = new Set([existingTask.projectId, updatedTask.projectId])
+      for (const affectedProjectId of projectIds) {
+        if (affectedProjectId) await refreshProjectProgress(affectedProjectId)
+      }
+    }
+
+    return NextResponse.json({ ...updatedTask, nextOccurrence })
   } catch (error) {
     console.error('Error updating task:', error)
     return NextResponse.json(
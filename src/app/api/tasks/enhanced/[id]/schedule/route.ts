@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+import { rescheduleTask } from '@/lib/task-dependencies'
+
+// PUT /api/tasks/enhanced/[id]/schedule - Move a task on the timeline, pushing back tasks that wait on it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'UPDATE_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const startDate = body.startDate ? new Date(body.startDate) : null
+    const dueDate = body.dueDate ? new Date(body.dueDate) : null
+
+    if ((startDate && isNaN(startDate.getTime())) || (dueDate && isNaN(dueDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid date' },
+        { status: 400 }
+      )
+    }
+
+    if (startDate && dueDate && startDate > dueDate) {
+      return NextResponse.json(
+        { error: 'Start date must be on or before the due date' },
+        { status: 400 }
+      )
+    }
+
+    const tasks = await rescheduleTask(id, startDate, dueDate)
+
+    return NextResponse.json({ tasks })
+  } catch (error) {
+    console.error('Error rescheduling task:', error)
+    return NextResponse.json(
+      { error: 'Failed to reschedule task' },
+      { status: 500 }
+    )
+  }
+}
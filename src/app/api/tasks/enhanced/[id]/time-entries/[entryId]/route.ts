@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission, isAdminRole } from '@/lib/auth'
+import { getDurationMinutes, getTaskForUser, updateTaskActualHours } from '@/lib/task-access'
+
+// PATCH /api/tasks/enhanced/[id]/time-entries/[entryId] - Edit a time entry (owner or admin)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_TIME_ENTRIES')
+    if (user instanceof NextResponse) return user
+    const { id, entryId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const existingEntry = await prisma.taskTimeEntry.findFirst({
+      where: { id: entryId, taskId: id },
+    })
+
+    if (!existingEntry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingEntry.userId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only edit your own time entries' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const startTime = body.startTime !== undefined ? new Date(body.startTime) : existingEntry.startTime
+    const endTime = body.endTime !== undefined ? new Date(body.endTime) : existingEntry.endTime
+
+    if (isNaN(startTime.getTime()) || (endTime && isNaN(endTime.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid start or end time' },
+        { status: 400 }
+      )
+    }
+
+    // A running timer is stopped through /stop, not by editing it
+    if (!existingEntry.endTime && body.endTime !== undefined) {
+      return NextResponse.json(
+        { error: 'Stop the timer before editing its end time' },
+        { status: 400 }
+      )
+    }
+
+    if (endTime && endTime <= startTime) {
+      return NextResponse.json(
+        { error: 'End time must be after start time' },
+        { status: 400 }
+      )
+    }
+
+    const timeEntry = await prisma.taskTimeEntry.update({
+      where: { id: entryId },
+      data: {
+        ...(body.description !== undefined && { description: body.description?.trim() || null }),
+        startTime,
+        ...(endTime && { endTime, duration: getDurationMinutes(startTime, endTime) }),
+      },
+      include: {
+        user: {
+          select: { id: true, name: true }
+        }
+      },
+    })
+    const { actualHours } = await updateTaskActualHours(id)
+
+    return NextResponse.json({ timeEntry, actualHours })
+  } catch (error) {
+    console.error('Error updating time entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to update time entry' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/enhanced/[id]/time-entries/[entryId] - Delete a time entry (owner or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_TIME_ENTRIES')
+    if (user instanceof NextResponse) return user
+    const { id, entryId } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const existingEntry = await prisma.taskTimeEntry.findFirst({
+      where: { id: entryId, taskId: id },
+    })
+
+    if (!existingEntry) {
+      return NextResponse.json(
+        { error: 'Time entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingEntry.userId !== user.id && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: 'You can only delete your own time entries' },
+        { status: 403 }
+      )
+    }
+
+    await prisma.taskTimeEntry.delete({
+      where: { id: entryId },
+    })
+    const { actualHours } = await updateTaskActualHours(id)
+
+    return NextResponse.json({ message: 'Time entry deleted successfully', actualHours })
+  } catch (error) {
+    console.error('Error deleting time entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete time entry' },
+      { status: 500 }
+    )
+  }
+}
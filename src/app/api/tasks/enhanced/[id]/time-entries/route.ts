@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getDurationMinutes, getTaskForUser, updateTaskActualHours } from '@/lib/task-access'
+
+// GET /api/tasks/enhanced/[id]/time-entries - List a task's time entries, newest first
+// Entries without an endTime are running timers
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user)
+    if (task instanceof NextResponse) return task
+
+    const [timeEntries, taskHours] = await Promise.all([
+      prisma.taskTimeEntry.findMany({
+        where: { taskId: id },
+        include: {
+          user: {
+            select: { id: true, name: true }
+          }
+        },
+        orderBy: { startTime: 'desc' },
+      }),
+      prisma.task.findUnique({
+        where: { id },
+        select: { estimatedHours: true, actualHours: true },
+      }),
+    ])
+
+    return NextResponse.json({ timeEntries, ...taskHours })
+  } catch (error) {
+    console.error('Error fetching time entries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch time entries' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tasks/enhanced/[id]/time-entries - Log time manually
+// Body: { startTime, endTime, description? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_TIME_ENTRIES')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json()
+    const startTime = new Date(body.startTime)
+    const endTime = new Date(body.endTime)
+
+    if (!body.startTime || !body.endTime || isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return NextResponse.json(
+        { error: 'Start and end time are required' },
+        { status: 400 }
+      )
+    }
+
+    if (endTime <= startTime) {
+      return NextResponse.json(
+        { error: 'End time must be after start time' },
+        { status: 400 }
+      )
+    }
+
+    const timeEntry = await prisma.taskTimeEntry.create({
+      data: {
+        taskId: id,
+        userId: user.id,
+        description: body.description?.trim() || null,
+        startTime,
+        endTime,
+        duration: getDurationMinutes(startTime, endTime),
+      },
+      include: {
+        user: {
+          select: { id: true, name: true }
+        }
+      },
+    })
+    const { actualHours } = await updateTaskActualHours(id)
+
+    return NextResponse.json({ timeEntry, actualHours }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating time entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to log time' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getTaskForUser } from '@/lib/task-access'
+
+// POST /api/tasks/enhanced/[id]/time-entries/start - Start a timer for the current user
+// Each user can run one timer at a time, across all tasks
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_TIME_ENTRIES')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const body = await request.json().catch(() => ({}))
+
+    const runningEntry = await prisma.taskTimeEntry.findFirst({
+      where: { userId: user.id, endTime: null },
+      include: {
+        task: {
+          select: { id: true, title: true }
+        }
+      },
+    })
+
+    if (runningEntry) {
+      return NextResponse.json(
+        {
+          error: runningEntry.taskId === id
+            ? 'A timer is already running for this task'
+            : `Stop the timer running on "${runningEntry.task.title}" first`,
+          runningEntry,
+        },
+        { status: 409 }
+      )
+    }
+
+    const timeEntry = await prisma.taskTimeEntry.create({
+      data: {
+        taskId: id,
+        userId: user.id,
+        description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+        startTime: new Date(),
+      },
+      include: {
+        user: {
+          select: { id: true, name: true }
+        }
+      },
+    })
+
+    return NextResponse.json(timeEntry, { status: 201 })
+  } catch (error) {
+    console.error('Error starting timer:', error)
+    return NextResponse.json(
+      { error: 'Failed to start timer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requirePermission } from '@/lib/auth'
+import { getDurationMinutes, getTaskForUser, updateTaskActualHours } from '@/lib/task-access'
+
+// POST /api/tasks/enhanced/[id]/time-entries/stop - Stop the current user's timer on this task
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requirePermission(request, 'MANAGE_TASK_TIME_ENTRIES')
+    if (user instanceof NextResponse) return user
+    const { id } = await params
+
+    const task = await getTaskForUser(id, user, 'write')
+    if (task instanceof NextResponse) return task
+
+    const runningEntry = await prisma.taskTimeEntry.findFirst({
+      where: { taskId: id, userId: user.id, endTime: null },
+    })
+
+    if (!runningEntry) {
+      return NextResponse.json(
+        { error: 'No timer is running for this task' },
+        { status: 404 }
+      )
+    }
+
+    const endTime = new Date()
+
+    // Conditional on endTime still being empty so a double stop doesn't overwrite the first
+    const stopped = await prisma.taskTimeEntry.updateMany({
+      where: { id: runningEntry.id, endTime: null },
+      data: {
+        endTime,
+        duration: getDurationMinutes(runningEntry.startTime, endTime),
+      },
+    })
+
+    if (stopped.count === 0) {
+      return NextResponse.json(
+        { error: 'No timer is running for this task' },
+        { status: 404 }
+      )
+    }
+
+    const [timeEntry, { actualHours }] = await Promise.all([
+      prisma.taskTimeEntry.findUnique({
+        where: { id: runningEntry.id },
+        include: {
+          user: {
+            select: { id: true, name: true }
+          }
+        },
+      }),
+      updateTaskActualHours(id),
+    ])
+
+    return NextResponse.json({ timeEntry, actualHours })
+  } catch (error) {
+    console.error('Error stopping timer:', error)
+    return NextResponse.json(
+      { error: 'Failed to stop timer' },
+      { status: 500 }
+    )
+  }
+}
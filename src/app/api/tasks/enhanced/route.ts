@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { checkPermission, requirePermission, isAdminRole } from '@/lib/auth'
+import { PROJECT_TASK_EDITOR_ROLES, getProjectForUser } from '@/lib/project-access'
+import { getTaskCompletedAt, refreshProjectProgress } from '@/lib/project-progress'
+import { parseRecurrenceRule, recurrenceSelect } from '@/lib/task-recurrence'
+import { getInstituteTimeZone } from '@/lib/system-settings'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_TASK')
+    if (user instanceof NextResponse) return user
     const { searchParams } = new URL(request.url)
     const projectId = searchParams.get('projectId')
     const status = searchParams.get('status')
@@ -51,6 +56,9 @@ export async function GET(request: NextRequest) {
         subtasks: {
           select: { id: true, title: true, status: true }
         },
+        recurrence: {
+          select: recurrenceSelect
+        },
         checklists: {
           orderBy: { order: 'asc' }
         },
@@ -103,7 +111,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_TASK')
+    if (user instanceof NextResponse) return user
     const body = await request.json()
     
     const {
@@ -111,13 +120,15 @@ export async function POST(request: NextRequest) {
       description,
       status = 'OPEN',
       priority = 'MEDIUM',
+      startDate,
       dueDate,
       estimatedHours,
       projectId,
       assignedToId,
       parentTaskId,
       tags,
-      checklists = []
+      checklists = [],
+      recurrence
     } = body
 
     if (!title) {
@@ -127,46 +138,98 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create task
-    const task = await prisma.task.create({
-      data: {
-        title,
-        description,
-        status,
-        priority,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        estimatedHours,
-        projectId,
-        assignedToId,
-        parentTaskId,
-        tags: tags ? JSON.stringify(tags) : null,
-        createdById: user.id,
-        checklists: {
-          create: checklists.map((checklist: { title: string }, index: number) => ({
-            title: checklist.title,
-            order: index
-          }))
-        }
-      },
-      include: {
-        createdBy: {
-          select: { id: true, name: true, email: true }
-        },
-        assignedTo: {
-          select: { id: true, name: true, email: true }
-        },
-        project: {
-          select: { id: true, name: true, color: true }
-        },
-        parentTask: {
-          select: { id: true, title: true }
+    if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+      return NextResponse.json(
+        { error: 'Start date must be on or before the due date' },
+        { status: 400 }
+      )
+    }
+
+    // Repeating tasks are scheduled from their due date
+    let recurrenceRule = null
+    if (recurrence) {
+      if (!dueDate) {
+        return NextResponse.json(
+          { error: 'A due date is required for a repeating task' },
+          { status: 400 }
+        )
+      }
+      const parsed = parseRecurrenceRule(recurrence, await getInstituteTimeZone())
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      recurrenceRule = parsed.rule
+    }
+
+    if (parentTaskId) {
+      const denied = await checkPermission(user, 'CREATE_SUBTASKS', request)
+      if (denied) return denied
+    }
+
+    // Adding a task to a project needs a task-editing role there
+    if (projectId) {
+      const access = await getProjectForUser(projectId, user, PROJECT_TASK_EDITOR_ROLES)
+      if (access instanceof NextResponse) return access
+    }
+
+    // Create task, and its series when it repeats
+    const task = await prisma.$transaction(async (tx) => {
+      const series = recurrenceRule
+        ? await tx.taskRecurrence.create({
+          data: { ...recurrenceRule, startsAt: new Date(dueDate), createdById: user.id }
+        })
+        : null
+
+      return tx.task.create({
+        data: {
+          title,
+          description,
+          status,
+          completedAt: getTaskCompletedAt(status),
+          priority,
+          startDate: startDate ? new Date(startDate) : null,
+          dueDate: dueDate ? new Date(dueDate) : null,
+          estimatedHours,
+          projectId,
+          assignedToId,
+          parentTaskId,
+          tags: tags ? JSON.stringify(tags) : null,
+          createdById: user.id,
+          checklists: {
+            create: checklists.map((checklist: { title: string }, index: number) => ({
+              title: checklist.title,
+              order: index
+            }))
+          },
+          recurrenceId: series?.id
         },
-        checklists: {
-          orderBy: { order: 'asc' }
+        include: {
+          createdBy: {
+            select: { id: true, name: true, email: true }
+          },
+          assignedTo: {
+            select: { id: true, name: true, email: true }
+          },
+          project: {
+            select: { id: true, name: true, color: true }
+          },
+          parentTask: {
+            select: { id: true, title: true }
+          },
+          checklists: {
+            orderBy: { order: 'asc' }
+          },
+          recurrence: {
+            select: recurrenceSelect
+          }
         }
-      }
+      })
     })
 
+    if (task.projectId) {
+      await refreshProjectProgress(task.projectId)
+    }
+
     return NextResponse.json(task, { status: 201 })
   } catch (error) {
     console.error('Error creating task:', error)
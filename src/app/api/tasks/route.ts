@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth, isAdminRole } from '@/lib/auth'
+import { recurrenceSelect } from '@/lib/task-recurrence'
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +31,9 @@ export async function GET(request: NextRequest) {
             name: true,
           },
         },
+        recurrence: {
+          select: recurrenceSelect,
+        },
         actionHistory: {
           include: {
             user: {
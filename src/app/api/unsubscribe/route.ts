@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { escapeHtml } from '@/lib/utils'
+import { unsubscribeEmailAddress, verifyUnsubscribeToken } from '@/lib/contact-suppression'
+
+function htmlPage(title: string, body: string, status = 200) {
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 480px; margin: 60px auto; padding: 0 16px;">
+    <h2>${escapeHtml(title)}</h2>
+    ${body}
+  </body>
+</html>`
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+// GET /api/unsubscribe?token=... - Confirmation page linked from every email.
+// Unsubscribing needs a POST so link scanners that prefetch URLs don't opt people out.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || ''
+  const email = verifyUnsubscribeToken(token)
+
+  if (!email) {
+    return htmlPage('Invalid link', '<p>This unsubscribe link is invalid or incomplete.</p>', 400)
+  }
+
+  return htmlPage(
+    'Unsubscribe',
+    `<p>Stop receiving emails at <strong>${escapeHtml(email)}</strong>?</p>
+    <form method="POST" action="/api/unsubscribe?token=${encodeURIComponent(token)}">
+      <button type="submit" style="background: #2563eb; color: #fff; border: none; border-radius: 6px; padding: 10px 18px; cursor: pointer;">
+        Unsubscribe
+      </button>
+    </form>`
+  )
+}
+
+// POST /api/unsubscribe?token=... - Confirm from the page above, or RFC 8058 one-click from mail clients
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || ''
+    const email = verifyUnsubscribeToken(token)
+
+    if (!email) {
+      return htmlPage('Invalid link', '<p>This unsubscribe link is invalid or incomplete.</p>', 400)
+    }
+
+    await unsubscribeEmailAddress(email)
+
+    return htmlPage(
+      'You have been unsubscribed',
+      `<p>We will no longer send campaign emails to <strong>${escapeHtml(email)}</strong>.</p>`
+    )
+  } catch (error) {
+    console.error('Error processing unsubscribe:', error)
+    return htmlPage('Something went wrong', '<p>We could not process your request. Please try again later.</p>', 500)
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { isAdminRole, requireRole, hashPassword } from '@/lib/auth'
+import { checkPermission, requirePermission, isAdminRole, hashPassword, validatePassword } from '@/lib/auth'
+import { invalidateUserPermissionsCache } from '@/lib/user-permissions'
 import { UserRole } from '@prisma/client'
 
 export async function GET(
@@ -8,7 +9,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireRole('ADMIN', request)
+    const _user = await requirePermission(request, 'READ_USER')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const user = await prisma.user.findUnique({
@@ -46,11 +48,72 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireRole('ADMIN', request)
+    const _user = await requirePermission(request, 'UPDATE_USER')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
     
     const body = await request.json()
-    const { name, email, password, role, isActive, selectedRoles } = body
+    const { name, email, password, role, isActive, selectedRoles, managerId } = body
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id },
+      select: { role: true }
+    })
+
+    if (!targetUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // UPDATE_USER only covers the caller's own account; editing anyone else (their password,
+    // email or active flag included) and administrator accounts need MANAGE_ALL_USERS
+    if (id !== _user.id || isAdminRole(targetUser.role) || (role !== undefined && isAdminRole(role))) {
+      const denied = await checkPermission(_user, 'MANAGE_ALL_USERS', request)
+      if (denied) return denied
+    }
+    if ((role !== undefined && role !== targetUser.role) || selectedRoles !== undefined) {
+      const denied = await checkPermission(_user, 'MANAGE_USER_ROLES', request)
+      if (denied) return denied
+    }
+    
+    // Managers receive escalations for overdue follow-ups, so the chain must not loop back
+    if (managerId) {
+      let currentId: string | null = managerId
+      const visited = new Set<string>()
+      while (currentId && !visited.has(currentId)) {
+        if (currentId === id) {
+          return NextResponse.json(
+            { error: 'A user cannot report to themselves, directly or through another manager' },
+            { status: 400 }
+          )
+        }
+        visited.add(currentId)
+        const manager: { managerId: string | null } | null = await prisma.user.findUnique({
+          where: { id: currentId },
+          select: { managerId: true }
+        })
+        if (!manager && currentId === managerId) {
+          return NextResponse.json(
+            { error: 'Manager not found' },
+            { status: 400 }
+          )
+        }
+        currentId = manager?.managerId ?? null
+      }
+    }
+    
+    // Enforce PASSWORD_MIN_LENGTH when the password is being changed
+    if (password) {
+      const passwordError = await validatePassword(password)
+      if (passwordError) {
+        return NextResponse.json(
+          { error: passwordError },
+          { status: 400 }
+        )
+      }
+    }
     
     // Hash the password if provided
     const hashedPassword = password ? await hashPassword(password) : undefined
@@ -61,17 +124,24 @@ export async function PUT(
       email?: string
       role?: UserRole
       isActive?: boolean
+      managerId?: string | null
       password?: string
+      failedLoginAttempts?: number
+      lockedUntil?: Date | null
     } = {}
     
     if (name !== undefined) updateData.name = name
     if (email !== undefined) updateData.email = email
     if (role !== undefined) updateData.role = role as UserRole
     if (isActive !== undefined) updateData.isActive = isActive
+    if (managerId !== undefined) updateData.managerId = managerId || null
     
     // Only include password if it's being updated
+    // (a password reset by an admin also lifts any login lockout)
     if (hashedPassword) {
       updateData.password = hashedPassword
+      updateData.failedLoginAttempts = 0
+      updateData.lockedUntil = null
     }
     
     const updatedUser = await prisma.user.update({
@@ -105,6 +175,8 @@ export async function PUT(
       }
     }
 
+    invalidateUserPermissionsCache(id)
+
     // Fetch the updated user with all relations
     const finalUser = await prisma.user.findUnique({
       where: { id },
@@ -143,7 +215,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const _user = await requireRole('ADMIN', request)
+    const _user = await requirePermission(request, 'DELETE_USER')
+    if (_user instanceof NextResponse) return _user
     const { id } = await params
 
     // Prevent deleting yourself
@@ -168,6 +241,9 @@ export async function DELETE(
 
     // Prevent deleting the last admin role user
     if (isAdminRole(userToDelete.role)) {
+      const denied = await checkPermission(_user, 'DELETE_ADMINISTRATOR', request)
+      if (denied) return denied
+
       const adminCount = await prisma.user.count({
         where: {
           role: { in: ['ADMIN', 'ADMINISTRATOR', 'DEVELOPER'] },
@@ -186,6 +262,7 @@ export async function DELETE(
     await prisma.user.delete({
       where: { id },
     })
+    invalidateUserPermissionsCache(id)
 
     return NextResponse.json({ message: 'User deleted successfully' })
   } catch (error) {
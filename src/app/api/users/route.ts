@@ -1,13 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireRole, hashPassword } from '@/lib/auth'
+import { checkPermission, isAdminRole, requirePermission, hashPassword, validatePassword } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
-    const _user = await requireRole('ADMIN', request)
+    const _user = await requirePermission(request, 'READ_USER')
+    if (_user instanceof NextResponse) return _user
     
+    // Never send password hashes; READ_USER is held by non-admin roles too
     const users = await prisma.user.findMany({
-      include: {
+      select: {
+        id: true,
+        clerkId: true,
+        name: true,
+        email: true,
+        role: true,
+        isActive: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+        managerId: true,
+        createdAt: true,
+        updatedAt: true,
         _count: {
           select: {
             interactions: true,
@@ -39,7 +52,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const _user = await requireRole('ADMIN', request)
+    const _user = await requirePermission(request, 'CREATE_USER')
+    if (_user instanceof NextResponse) return _user
     
     const body = await request.json()
     const { name, email, password, role, clerkId, roles } = body
@@ -52,6 +66,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Administrator accounts and custom role assignments need their own permissions
+    if (isAdminRole(role)) {
+      const denied = await checkPermission(_user, 'MANAGE_ALL_USERS', request)
+      if (denied) return denied
+    }
+    if (roles?.length > 0) {
+      const denied = await checkPermission(_user, 'MANAGE_USER_ROLES', request)
+      if (denied) return denied
+    }
+
     // Check if user with this email already exists
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -64,6 +88,15 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Enforce PASSWORD_MIN_LENGTH
+    const passwordError = await validatePassword(password)
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      )
+    }
+
     // Hash the password if provided
     const hashedPassword = password ? await hashPassword(password) : null
     
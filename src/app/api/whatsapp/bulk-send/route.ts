@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth } from '@/lib/auth'
+import { requireAuth, requirePermission } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { uploadToS3 } from '@/lib/s3'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { randomUUID } from 'crypto'
-
-// Ultramsg API configuration
-const ULTRAMSG_API_URL = 'https://api.ultramsg.com/instance104497'
-const ULTRAMSG_TOKEN = '8yk46hlsn78dbubl'
+import { getWhatsAppProvider } from '@/lib/whatsapp'
+import { getMediaOnlyLabel, resolveScheduledAt } from '@/lib/send-queue'
+import { runJob } from '@/lib/jobs'
+import { getSuppressedSeekerIds } from '@/lib/contact-suppression'
 
 // Media storage configuration
 const MEDIA_UPLOAD_DIR = join(process.cwd(), 'public', 'uploads', 'whatsapp-media')
@@ -54,7 +54,8 @@ interface Seeker {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     
     // Handle FormData for file uploads
     const formData = await request.formData()
@@ -62,6 +63,7 @@ export async function POST(request: NextRequest) {
     const message = formData.get('message') as string
     const campaignId = (formData.get('campaignId') as string | null) || ''
     const mediaFile = formData.get('media') as File | null
+    const scheduledAtValue = (formData.get('scheduledAt') as string | null) || ''
     
     if (!seekersData) {
       return NextResponse.json(
@@ -70,15 +72,27 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const seekers = JSON.parse(seekersData as string)
+    const selectedSeekers: Seeker[] = JSON.parse(seekersData as string)
 
-    if (!seekers || seekers.length === 0) {
+    if (!selectedSeekers || selectedSeekers.length === 0) {
       return NextResponse.json(
         { error: 'No seekers provided' },
         { status: 400 }
       )
     }
 
+    // Skip inquiries that replied STOP or are marked Do Not Contact (no recipient row is created)
+    const suppressedIds = await getSuppressedSeekerIds('WHATSAPP', selectedSeekers.map(seeker => seeker.id))
+    const seekers = selectedSeekers.filter(seeker => !suppressedIds.has(seeker.id))
+    const suppressedCount = selectedSeekers.length - seekers.length
+
+    if (seekers.length === 0) {
+      return NextResponse.json(
+        { error: 'All selected inquiries have opted out of WhatsApp messages', suppressedCount },
+        { status: 400 }
+      )
+    }
+
     if ((!message || message.trim().length === 0) && !mediaFile) {
       return NextResponse.json(
         { error: 'Message content or media file is required' },
@@ -86,6 +100,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Optional schedule, entered in the institute time zone
+    let scheduledAt: Date | undefined
+    if (scheduledAtValue) {
+      const resolved = await resolveScheduledAt(scheduledAtValue)
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        )
+      }
+      scheduledAt = resolved.scheduledAt
+    }
+
     // Save media file (try S3 first, fallback to local storage)
     let savedMediaFile: { filePath: string; fileName: string; s3Key?: string } | null = null
     if (mediaFile) {
@@ -109,202 +136,68 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const results = {
-      sentCount: 0,
-      failedCount: 0,
-      errors: [] as string[]
-    }
+    // Resolve the provider before writing anything (fails fast when credentials are missing)
+    const provider = await getWhatsAppProvider()
 
-    const recipientLogs: Array<{
-      seekerId: string
-      phoneNumber: string
-      status: 'SENT' | 'FAILED'
-      errorMessage?: string
-      sentAt?: Date
-    }> = []
+    // The queue re-sends the same attachment to every recipient, so keep its content on the job
+    const mediaContent = mediaFile
+      ? Buffer.from(await mediaFile.arrayBuffer()).toString('base64')
+      : null
 
-    // Pre-compute media payload once (mass-send uses the same attachment)
-    let mediaBase64: string | null = null
-    let endpoint = `${ULTRAMSG_API_URL}/messages/chat`
-    let mediaField: 'image' | 'video' | 'audio' | 'document' | null = null
-    if (mediaFile) {
-      const mediaBuffer = await mediaFile.arrayBuffer()
-      mediaBase64 = Buffer.from(mediaBuffer).toString('base64')
-      if (mediaFile.type.startsWith('video/')) {
-        endpoint = `${ULTRAMSG_API_URL}/messages/video`
-        mediaField = 'video'
-      } else if (mediaFile.type.startsWith('audio/')) {
-        endpoint = `${ULTRAMSG_API_URL}/messages/audio`
-        mediaField = 'audio'
-      } else if (mediaFile.type === 'application/pdf') {
-        endpoint = `${ULTRAMSG_API_URL}/messages/document`
-        mediaField = 'document'
-      } else {
-        endpoint = `${ULTRAMSG_API_URL}/messages/image`
-        mediaField = 'image'
-      }
-    }
-
-    // Process each seeker
-    for (const seeker of seekers) {
-      try {
-        // Skip non-WhatsApp inquiries (UI should filter, but backend must still guard)
-        if (!seeker?.whatsapp) {
-          results.failedCount++
-          const errorMessage = 'This inquiry is not marked as WhatsApp-enabled'
-          results.errors.push(`Failed to send to ${seeker.fullName}: ${errorMessage}`)
-          recipientLogs.push({
-            seekerId: seeker.id,
-            phoneNumber: seeker.whatsappNumber || seeker.phone || '',
-            status: 'FAILED',
-            errorMessage,
-          })
-          continue
-        }
+    // Inquiries that are not WhatsApp-enabled are recorded as failed up front
+    // (UI should filter, but backend must still guard); the rest are queued as PENDING
+    const notWhatsAppCount = seekers.filter((seeker: Seeker) => !seeker?.whatsapp).length
 
-        // Determine the phone number to use
-        const phoneNumber = seeker.whatsappNumber || seeker.phone
-        
-        // Clean phone number (remove spaces, dashes, etc.)
-        const cleanPhone = phoneNumber.replace(/[\s\-\(\)]/g, '')
-        
-        // Add country code if not present (assuming Sri Lanka +94)
-        const formattedPhone = cleanPhone.startsWith('+') 
-          ? cleanPhone 
-          : cleanPhone.startsWith('94') 
-            ? `+${cleanPhone}`
-            : `+94${cleanPhone}`
-
-        console.log('Processing seeker:', {
-          name: seeker.fullName,
-          originalPhone: phoneNumber,
-          cleanPhone: cleanPhone,
-          formattedPhone: formattedPhone,
-          whatsapp: seeker.whatsapp
-        })
-
-        // Prepare request body based on whether media is included
-        let requestBody: Record<string, any> = {
-          to: formattedPhone,
-          priority: 10,
-          referenceId: `campaign_${campaignId || 'bulk'}_${seeker.id}`
-        }
-
-        if (mediaFile) {
-          // For media messages, use different format
-          requestBody = {
-            ...requestBody,
-            [mediaField as string]: mediaBase64, // Use appropriate field for media type
-            caption: message && message.trim() ? message.trim() : 'Media message'
-          }
-        } else {
-          // For text messages
-          requestBody.body = message
-        }
-
-        // Send message via Ultramsg API
-        console.log('Sending to Ultramsg API:', {
-          url: endpoint,
-          requestBody: requestBody
-        })
-        
-        const response = await fetch(`${endpoint}?token=${ULTRAMSG_TOKEN}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(requestBody)
-        })
-
-        const responseData = await response.json().catch(() => ({}))
-        console.log('Ultramsg API response:', {
-          status: response.status,
-          statusText: response.statusText,
-          data: responseData
-        })
-        
-        // Log detailed error information if present
-        if (responseData.error) {
-          console.log('Ultramsg API error details:', JSON.stringify(responseData.error, null, 2))
-        }
-
-        // Check if the response is successful and doesn't contain errors
-        if (response.ok && !responseData.error) {
-          // Log the interaction in the database
-          const interactionNotes = mediaFile 
-            ? `Bulk WhatsApp message with media sent via campaign. Media: ${mediaFile.name}${message ? `, Message: "${message.substring(0, 50)}${message.length > 50 ? '...' : ''}"` : ''}`
-            : `Bulk WhatsApp message sent via campaign. Message: "${message.substring(0, 100)}${message.length > 100 ? '...' : ''}"`
-            
-          await prisma.interaction.create({
-            data: {
-              seekerId: seeker.id,
-              userId: user.id,
-              channel: 'WHATSAPP',
-              outcome: 'CONNECTED_INTERESTED', // Default outcome for sent messages
-              notes: interactionNotes
-            }
-          })
-
-          results.sentCount++
-          recipientLogs.push({
-            seekerId: seeker.id,
-            phoneNumber: formattedPhone,
-            status: 'SENT',
-            sentAt: new Date(),
-          })
-        } else {
-          results.failedCount++
-          const errorMessage = responseData.error 
-            ? (Array.isArray(responseData.error) ? responseData.error[0]?.message || responseData.error[0] : responseData.error.message || responseData.error)
-            : (responseData.message || 'Unknown error')
-          results.errors.push(`Failed to send to ${seeker.fullName}: ${errorMessage}`)
-          recipientLogs.push({
-            seekerId: seeker.id,
-            phoneNumber: formattedPhone,
-            status: 'FAILED',
-            errorMessage: String(errorMessage),
-          })
-        }
-      } catch (error) {
-        console.error(`Error sending message to ${seeker.fullName}:`, error)
-        results.failedCount++
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-        results.errors.push(`Error sending to ${seeker.fullName}: ${errorMessage}`)
-        recipientLogs.push({
-          seekerId: seeker.id,
-          phoneNumber: seeker?.whatsappNumber || seeker?.phone || '',
-          status: 'FAILED',
-          errorMessage,
-        })
-      }
-    }
-
-    // Create WhatsApp message history record
+    // Create the history record with PENDING recipients and a send job. Each recipient id is passed
+    // to the provider as referenceId so delivery webhooks can be matched; the client polls
+    // /api/send-jobs/[id] for progress
     const whatsappMessage = await prisma.whatsAppMessage.create({
       data: {
-        message: message || (savedMediaFile ? `Media: ${savedMediaFile.fileName}` : 'Media message'),
+        message: message || getMediaOnlyLabel(savedMediaFile?.fileName),
         mediaType: mediaFile?.type,
         mediaFilename: savedMediaFile?.fileName || mediaFile?.name,
         mediaFilePath: savedMediaFile?.filePath,
         mediaSize: mediaFile?.size,
         recipientCount: seekers.length,
-        sentCount: results.sentCount,
-        failedCount: results.failedCount,
-        sentAt: new Date(),
+        sentCount: 0,
+        failedCount: notWhatsAppCount,
+        sentAt: scheduledAt || new Date(),
         userId: user.id,
         campaignId: campaignId || 'bulk',
+        provider: provider.name,
         recipients: {
-          create: recipientLogs.map((r) => ({
-            seekerId: r.seekerId,
-            phoneNumber: r.phoneNumber,
-            status: r.status,
-            errorMessage: r.errorMessage,
-            sentAt: r.sentAt,
+          create: seekers.map((seeker: Seeker) => ({
+            seekerId: seeker.id,
+            phoneNumber: seeker.whatsappNumber || seeker.phone || '',
+            ...(seeker?.whatsapp
+              ? { status: 'PENDING' as const }
+              : { status: 'FAILED' as const, errorMessage: 'This inquiry is not marked as WhatsApp-enabled' }),
           }))
+        },
+        sendJob: {
+          create: {
+            channel: 'WHATSAPP',
+            status: scheduledAt ? 'SCHEDULED' : 'QUEUED',
+            scheduledAt,
+            totalCount: seekers.length,
+            processedCount: notWhatsAppCount,
+            failedCount: notWhatsAppCount,
+            skippedCount: suppressedCount,
+            mediaContent,
+            createdById: user.id,
+          }
         }
+      },
+      include: {
+        sendJob: { select: { id: true } }
       }
     })
 
+    // Start sending right away rather than on the next tick
+    if (!scheduledAt) {
+      void runJob('send-queue')
+    }
+
     // Log the bulk send activity
     await prisma.userActivityLog.create({
       data: {
@@ -318,24 +211,28 @@ export async function POST(request: NextRequest) {
             size: mediaFile.size
           } : null,
           totalSeekers: seekers.length,
-          sentCount: results.sentCount,
-          failedCount: results.failedCount,
-          seekerIds: seekers.map((s: any) => s.id),
+          queued: seekers.length - notWhatsAppCount,
+          suppressed: suppressedCount,
+          sendJobId: whatsappMessage.sendJob!.id,
+          scheduledAt: scheduledAt?.toISOString() || null,
+          seekerIds: seekers.map(s => s.id),
           campaignId: campaignId || 'bulk'
         },
         ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
         userAgent: request.headers.get('user-agent') || 'unknown',
-        isSuccessful: results.failedCount === 0
+        isSuccessful: true
       }
     })
 
     return NextResponse.json({
       success: true,
-      sentCount: results.sentCount,
-      failedCount: results.failedCount,
-      totalSeekers: seekers.length,
-      errors: results.errors
-    })
+      jobId: whatsappMessage.sendJob!.id,
+      messageId: whatsappMessage.id,
+      recipientCount: seekers.length,
+      skippedCount: notWhatsAppCount,
+      suppressedCount,
+      scheduledAt: scheduledAt || null,
+    }, { status: 202 })
 
   } catch (error) {
     console.error('Error in bulk WhatsApp send:', error)
@@ -354,33 +251,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to check Ultramsg connection status
+// GET endpoint to check the WhatsApp provider connection status
 export async function GET(request: Request) {
   try {
     await requireAuth(request)
-    
-    // Test connection to Ultramsg API
-    const response = await fetch(`${ULTRAMSG_API_URL}/status?token=${ULTRAMSG_TOKEN}`, {
-      method: 'GET'
-    })
 
-    if (response.ok) {
-      const status = await response.json()
-      return NextResponse.json({
-        connected: true,
-        status: status
-      })
-    } else {
-      return NextResponse.json({
-        connected: false,
-        error: 'Failed to connect to Ultramsg API'
-      })
-    }
+    const provider = await getWhatsAppProvider()
+    const status = await provider.getStatus()
+
+    return NextResponse.json({
+      provider: provider.name,
+      ...status
+    })
   } catch (error) {
-    console.error('Error checking Ultramsg connection:', error)
+    console.error('Error checking WhatsApp provider connection:', error)
     return NextResponse.json({
       connected: false,
-      error: 'Connection test failed'
+      error: error instanceof Error ? error.message : 'Connection test failed'
     })
   }
 }
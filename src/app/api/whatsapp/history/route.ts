@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     
     // Build where clause based on user role
     const where: any = {}
@@ -13,6 +14,9 @@ export async function GET(request: NextRequest) {
     if (!isAdminRole(user.role)) {
       where.userId = user.id
     }
+
+    // Scheduled sends are listed separately until they go out
+    where.NOT = { sendJob: { is: { status: 'SCHEDULED' } } }
     
     // Fetch WhatsApp message history with related data
     const messages = await prisma.whatsAppMessage.findMany({
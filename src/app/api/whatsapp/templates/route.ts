@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireAuth, isAdminRole } from '@/lib/auth'
+import { requirePermission, isAdminRole } from '@/lib/auth'
 import { uploadToS3 } from '@/lib/s3'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
@@ -29,7 +29,8 @@ async function saveTemplateMediaLocally(file: File): Promise<{ filePath: string;
 
 export async function GET(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'READ_CAMPAIGN')
+    if (user instanceof NextResponse) return user
 
     const where: any = {}
     // If not ADMIN/ADMINISTRATOR/DEVELOPER, only show user's own templates
@@ -65,7 +66,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth(request)
+    const user = await requirePermission(request, 'CREATE_CAMPAIGN')
+    if (user instanceof NextResponse) return user
     const formData = await request.formData()
 
     const name = (formData.get('name') as string | null)?.trim() || ''
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSettingOrEnv } from '@/lib/system-settings'
+import {
+  applyWhatsAppInboundMessages,
+  applyWhatsAppStatusUpdates,
+  getWhatsAppProvider,
+  isWhatsAppProviderName,
+} from '@/lib/whatsapp'
+import { safeCompare } from '@/lib/whatsapp/webhook-secret'
+
+// GET /api/whatsapp/webhook - WhatsApp Cloud API subscription verification
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const mode = searchParams.get('hub.mode')
+  const token = searchParams.get('hub.verify_token')
+  const challenge = searchParams.get('hub.challenge')
+
+  const verifyToken = await getSettingOrEnv('WHATSAPP_CLOUD_VERIFY_TOKEN')
+
+  if (mode === 'subscribe' && verifyToken && token && safeCompare(token, verifyToken) && challenge) {
+    return new NextResponse(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } })
+  }
+
+  return NextResponse.json(
+    { error: 'Webhook verification failed' },
+    { status: 403 }
+  )
+}
+
+// POST /api/whatsapp/webhook?provider=ultramsg|cloud|mock&secret=... - Delivery status callbacks and inbound STOP/START replies
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const providerParam = searchParams.get('provider')
+
+    if (providerParam && !isWhatsAppProviderName(providerParam)) {
+      return NextResponse.json(
+        { error: `Unknown WhatsApp provider: ${providerParam}` },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getWhatsAppProvider(providerParam && isWhatsAppProviderName(providerParam) ? providerParam : undefined)
+    const rawBody = await request.text()
+
+    const verified = await provider.verifyWebhook({
+      rawBody,
+      headers: request.headers,
+      searchParams,
+    })
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      )
+    }
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      )
+    }
+
+    const updates = provider.parseWebhook(payload)
+    const result = await applyWhatsAppStatusUpdates(updates)
+    const inboundResult = await applyWhatsAppInboundMessages(provider.parseInboundMessages(payload))
+
+    return NextResponse.json({ success: true, provider: provider.name, ...result, ...inboundResult })
+  } catch (error) {
+    console.error('Error processing WhatsApp webhook:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process webhook' },
+      { status: 500 }
+    )
+  }
+}
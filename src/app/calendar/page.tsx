@@ -10,7 +10,7 @@ import { AlertCircle, Clock, MapPin } from 'lucide-react'
 import { safeJsonParse } from '@/lib/utils'
 import { cn } from '@/lib/utils'
 
-type CalendarEventType = 'meeting' | 'followup' | 'task'
+type CalendarEventType = 'meeting' | 'followup' | 'task' | 'campaign-send'
 
 type Person = {
   id?: string
@@ -59,6 +59,7 @@ const typeLabels: Record<CalendarEventType, string> = {
   meeting: 'Meeting',
   followup: 'Follow-up',
   task: 'Task',
+  'campaign-send': 'Scheduled Send',
 }
 
 export default function CalendarPage() {
@@ -333,6 +334,8 @@ export default function CalendarPage() {
                                 return 'bg-green-100 text-green-700 border-green-200'
                               case 'task':
                                 return 'bg-orange-100 text-orange-700 border-orange-200'
+                              case 'campaign-send':
+                                return 'bg-sky-100 text-sky-700 border-sky-200'
                               default:
                                 return 'bg-gray-100 text-gray-700 border-gray-200'
                             }
@@ -0,0 +1,33 @@
+'use client'
+
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { ClientDetail } from '@/components/clients/client-detail'
+import { useAuth } from '@/hooks/use-auth'
+import { useParams } from 'next/navigation'
+
+export default function ClientDetailPage() {
+  const { user, loading } = useAuth()
+  const params = useParams()
+  const clientId = params.clientId as string
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-2 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <ClientDetail clientId={clientId} />
+    </DashboardLayout>
+  )
+}
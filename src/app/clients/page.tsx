@@ -0,0 +1,47 @@
+'use client'
+
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { ClientList } from '@/components/clients/client-list'
+import { useAuth } from '@/hooks/use-auth'
+import { Building2 } from 'lucide-react'
+
+export default function ClientsPage() {
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-2 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-2xl shadow-lg shadow-blue-500/30">
+            <Building2 className="h-8 w-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 dark:from-white dark:to-gray-300 bg-clip-text text-transparent">
+              Clients
+            </h1>
+            <p className="text-gray-500 mt-1">
+              Companies and contacts behind your deals
+            </p>
+          </div>
+        </div>
+
+        <ClientList />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -5,13 +5,20 @@ import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { SendJobProgress, SendJobProgressData } from '@/components/campaigns/send-job-progress'
+import { ScheduledSendsList, formatScheduledTime } from '@/components/campaigns/scheduled-sends-list'
+import { EmailTrackingData, EmailTrackingSummary } from '@/components/campaigns/email-tracking-summary'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AdvancedRichTextEditor } from '@/components/ui/advanced-rich-text-editor'
+import { EmailTemplatePicker } from '@/components/campaigns/email-template-picker'
+import { EmailPreviewDialog } from '@/components/campaigns/email-preview-dialog'
+import { EMAIL_MERGE_FIELDS } from '@/lib/email-merge-fields'
 import { safeJsonParse } from '@/lib/utils'
 import { 
   Mail, 
@@ -59,15 +66,22 @@ interface Program {
   description?: string
 }
 
+interface CampaignOption {
+  id: string
+  name: string
+}
+
 interface EmailMessageHistory {
   id: string
   subject: string
   message: string
+  isHtml?: boolean
   attachmentCount?: number
   recipientCount: number
   sentCount: number
   failedCount: number
   sentAt: string
+  tracking?: EmailTrackingData
   user: {
     id: string
     name: string
@@ -76,9 +90,11 @@ interface EmailMessageHistory {
   recipients: Array<{
     id: string
     email: string
-    status: 'PENDING' | 'SENT' | 'FAILED' | 'DELIVERED' | 'READ'
+    status: 'PENDING' | 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'CANCELLED'
     errorMessage?: string
     sentAt?: string
+    openedAt?: string
+    clickedAt?: string
     seeker: {
       id: string
       fullName: string
@@ -109,10 +125,20 @@ export default function EmailCampaignPage() {
   const [historyLoading, setHistoryLoading] = useState(false)
   const [expandedEmailId, setExpandedEmailId] = useState<string | null>(null)
   const [previewEmail, setPreviewEmail] = useState<EmailMessageHistory | null>(null)
+  const [activeJobIds, setActiveJobIds] = useState<string[]>([])
+  const [scheduleEnabled, setScheduleEnabled] = useState(false)
+  const [scheduledAt, setScheduledAt] = useState('')
+  const [timeZone, setTimeZone] = useState<string | null>(null)
+  const [scheduledRefreshKey, setScheduledRefreshKey] = useState(0)
+  const [campaigns, setCampaigns] = useState<CampaignOption[]>([])
+  const [campaignId, setCampaignId] = useState('none')
+  const [showPreview, setShowPreview] = useState(false)
 
   useEffect(() => {
     fetchSeekers()
     fetchPrograms()
+    fetchCampaigns()
+    fetchActiveJobs()
   }, [])
 
   useEffect(() => {
@@ -158,6 +184,30 @@ export default function EmailCampaignPage() {
     }
   }
 
+  // Resume progress display for sends still in the queue (e.g. after a page reload)
+  const fetchActiveJobs = async () => {
+    try {
+      const response = await fetch('/api/send-jobs?channel=EMAIL&active=true')
+      if (response.ok) {
+        const data = await safeJsonParse(response)
+        setActiveJobIds((data.jobs || []).map((job: { id: string }) => job.id))
+      }
+    } catch (error) {
+      console.error('Error fetching active sends:', error)
+    }
+  }
+
+  const handleJobFinished = (job: SendJobProgressData) => {
+    setActiveJobIds(prev => prev.filter(id => id !== job.id))
+    setSendStatus({
+      type: job.status === 'CANCELLED' ? 'info' : 'success',
+      message: job.status === 'CANCELLED'
+        ? `Send cancelled. ${job.sentCount} emails were sent before cancelling.`
+        : `Successfully sent ${job.sentCount} emails. ${job.failedCount} failed.`
+    })
+    fetchHistory()
+  }
+
   const fetchPrograms = async () => {
     try {
       const response = await fetch('/api/programs')
@@ -170,6 +220,18 @@ export default function EmailCampaignPage() {
     }
   }
 
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/campaigns?limit=100')
+      if (response.ok) {
+        const data = await safeJsonParse(response)
+        setCampaigns(data.campaigns || [])
+      }
+    } catch (error) {
+      console.error('Error fetching campaigns:', error)
+    }
+  }
+
   const fetchHistory = async () => {
     try {
       setHistoryLoading(true)
@@ -237,6 +299,13 @@ export default function EmailCampaignPage() {
     setAttachments(prev => prev.filter((_, i) => i !== index))
   }
 
+  // The rich-text editor leaves markup such as <p><br></p> behind when cleared
+  const hasMessageContent = message.replace(/<[^>]*>/g, '').trim().length > 0
+
+  const insertMergeField = (key: string) => {
+    setMessage(prev => `${prev}{{${key}}}`)
+  }
+
   const handleSendEmails = async () => {
     if (selectedSeekers.size === 0) {
       setSendStatus({
@@ -254,7 +323,7 @@ export default function EmailCampaignPage() {
       return
     }
 
-    if (!message.trim()) {
+    if (!hasMessageContent) {
       setSendStatus({
         type: 'error',
         message: 'Please enter an email message'
@@ -262,6 +331,14 @@ export default function EmailCampaignPage() {
       return
     }
 
+    if (scheduleEnabled && !scheduledAt) {
+      setSendStatus({
+        type: 'error',
+        message: 'Please choose when to send the emails'
+      })
+      return
+    }
+
     try {
       setSending(true)
       setSendStatus(null)
@@ -273,6 +350,9 @@ export default function EmailCampaignPage() {
       formData.append('seekers', JSON.stringify(selectedSeekersData))
       formData.append('subject', subject.trim())
       formData.append('message', message.trim())
+      formData.append('isHtml', 'true')
+      if (scheduleEnabled) formData.append('scheduledAt', scheduledAt)
+      if (campaignId !== 'none') formData.append('campaignId', campaignId)
       
       // Append attachments
       attachments.forEach((file, index) => {
@@ -287,17 +367,29 @@ export default function EmailCampaignPage() {
       const result = await response.json()
 
       if (response.ok) {
-        setSendStatus({
-          type: 'success',
-          message: `Successfully sent ${result.sentCount} emails. ${result.failedCount} failed.`
-        })
+        if (result.scheduledAt) {
+          setSendStatus({
+            type: 'success',
+            message: `${result.recipientCount} emails scheduled for ${formatScheduledTime(scheduledAt, timeZone || 'institute time')}.${result.suppressedCount ? ` ${result.suppressedCount} skipped (opted out).` : ''}`
+          })
+          setScheduledRefreshKey(key => key + 1)
+          setScheduleEnabled(false)
+          setScheduledAt('')
+        } else {
+          setSendStatus({
+            type: 'info',
+            message: `${result.recipientCount} emails queued for sending.${result.suppressedCount ? ` ${result.suppressedCount} skipped (opted out).` : ''} You can leave this page - sending continues in the background.`
+          })
+          setActiveJobIds(prev => [result.jobId, ...prev])
+          // Automatically show and refresh history after sending
+          setShowHistory(true)
+          fetchHistory()
+        }
         setSelectedSeekers(new Set())
         setSubject('')
         setMessage('')
         setAttachments([])
-        // Automatically show and refresh history after sending
-        setShowHistory(true)
-        fetchHistory()
+        setCampaignId('none')
       } else {
         setSendStatus({
           type: 'error',
@@ -359,6 +451,15 @@ export default function EmailCampaignPage() {
           <div className="lg:col-span-1">
             <Card className="p-6">
               <div className="space-y-6">
+                <EmailTemplatePicker
+                  subject={subject}
+                  body={message}
+                  onApply={(template) => {
+                    setSubject(template.subject)
+                    setMessage(template.body)
+                  }}
+                />
+
                 <div>
                   <Label htmlFor="subject" className="text-sm font-medium">
                     Email Subject *
@@ -376,14 +477,64 @@ export default function EmailCampaignPage() {
                   <Label htmlFor="message" className="text-sm font-medium">
                     Message Content *
                   </Label>
-                  <Textarea
-                    id="message"
-                    placeholder="Enter your email message here..."
+                  <AdvancedRichTextEditor
                     value={message}
-                    onChange={(e) => setMessage(e.target.value)}
-                    className="mt-2 min-h-[160px]"
+                    onChange={setMessage}
+                    placeholder="Enter your email message here..."
+                    className="mt-2"
                   />
+                  <div className="mt-2 space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                      {EMAIL_MERGE_FIELDS.map(field => (
+                        <Button
+                          key={field.key}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => insertMergeField(field.key)}
+                        >
+                          {field.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {'Merge fields work in the subject too. Use {{programName|our programs}} to set the text used when a value is missing.'}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => setShowPreview(true)}
+                    disabled={selectedSeekers.size === 0 || !hasMessageContent}
+                    title={selectedSeekers.size === 0 ? 'Select an inquiry to preview' : undefined}
+                  >
+                    <Eye className="h-4 w-4 mr-1" />
+                    Preview
+                  </Button>
                 </div>
+
+                {campaigns.length > 0 && (
+                  <div>
+                    <Label className="text-sm font-medium">Campaign (Optional)</Label>
+                    <Select value={campaignId} onValueChange={setCampaignId}>
+                      <SelectTrigger className="mt-2">
+                        <SelectValue placeholder="No campaign" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No campaign</SelectItem>
+                        {campaigns.map(campaign => (
+                          <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Open and click rates appear in the campaign&apos;s analytics.
+                    </p>
+                  </div>
+                )}
                 
                 {/* Attachments Section */}
                 <div>
@@ -442,6 +593,32 @@ export default function EmailCampaignPage() {
                   </div>
                 </div>
 
+                {/* Schedule */}
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="schedule-send"
+                      checked={scheduleEnabled}
+                      onCheckedChange={(checked) => setScheduleEnabled(checked === true)}
+                    />
+                    <Label htmlFor="schedule-send" className="text-sm font-medium cursor-pointer">
+                      Schedule for later
+                    </Label>
+                  </div>
+                  {scheduleEnabled && (
+                    <div>
+                      <Input
+                        type="datetime-local"
+                        value={scheduledAt}
+                        onChange={(e) => setScheduledAt(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Time zone: {timeZone || 'institute time zone'}. Recipients are re-checked when the send starts.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 {/* Send Button */}
                 <Button
                   onClick={handleSendEmails}
@@ -451,16 +628,28 @@ export default function EmailCampaignPage() {
                   {sending ? (
                     <div className="flex items-center space-x-2">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>Sending...</span>
+                      <span>Queueing...</span>
                     </div>
                   ) : (
                     <div className="flex items-center space-x-2">
-                      <Send className="h-4 w-4" />
-                      <span>Send to {selectedSeekers.size} Selected</span>
+                      {scheduleEnabled ? <Clock className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+                      <span>{scheduleEnabled ? 'Schedule' : 'Send'} to {selectedSeekers.size} Selected</span>
                     </div>
                   )}
                 </Button>
 
+                {/* Queued sends */}
+                {activeJobIds.map(jobId => (
+                  <SendJobProgress key={jobId} jobId={jobId} onFinished={handleJobFinished} />
+                ))}
+
+                {/* Upcoming scheduled sends */}
+                <ScheduledSendsList
+                  channel="EMAIL"
+                  refreshKey={scheduledRefreshKey}
+                  onTimeZoneChange={setTimeZone}
+                />
+
                 {/* Status Messages */}
                 {sendStatus && (
                   <Alert className={sendStatus.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
@@ -727,7 +916,7 @@ export default function EmailCampaignPage() {
                             </div>
                           </div>
                           <div className={`text-sm text-gray-600 ${expandedEmailId === email.id ? '' : 'line-clamp-3'}`}>
-                            {email.message}
+                            {email.isHtml ? email.message.replace(/<[^>]*>/g, ' ') : email.message}
                           </div>
                           <div className="flex items-center flex-wrap gap-4 mt-3 text-sm text-gray-500">
                             <div className="flex items-center space-x-1">
@@ -759,6 +948,11 @@ export default function EmailCampaignPage() {
                               <span>{email.recipientCount} recipient{email.recipientCount > 1 ? 's' : ''}</span>
                             </div>
                           </div>
+                          {email.tracking && email.sentCount > 0 && (
+                            <div className="mt-2">
+                              <EmailTrackingSummary tracking={email.tracking} showTopLinks={expandedEmailId === email.id} />
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -785,6 +979,11 @@ export default function EmailCampaignPage() {
                                     <div className="text-xs text-red-600 mt-1">{recipient.errorMessage}</div>
                                   )}
                                 </div>
+                                {recipient.clickedAt ? (
+                                  <Badge variant="secondary" className="text-xs flex-shrink-0">Clicked</Badge>
+                                ) : recipient.openedAt && (
+                                  <Badge variant="secondary" className="text-xs flex-shrink-0">Opened</Badge>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -860,7 +1059,7 @@ export default function EmailCampaignPage() {
                   <div 
                     className="prose prose-sm max-w-none"
                     dangerouslySetInnerHTML={{ 
-                      __html: previewEmail.message.split('\n').map(line => `<p>${line}</p>`).join('') 
+                      __html: previewEmail.isHtml ? previewEmail.message : previewEmail.message.split('\n').map(line => `<p>${line}</p>`).join('') 
                     }}
                   />
                 </div>
@@ -908,6 +1107,14 @@ export default function EmailCampaignPage() {
             )}
           </DialogContent>
         </Dialog>
+
+        <EmailPreviewDialog
+          open={showPreview}
+          onOpenChange={setShowPreview}
+          seekers={seekers.filter(seeker => selectedSeekers.has(seeker.id))}
+          subject={subject}
+          body={message}
+        />
       </div>
     </DashboardLayout>
   )
@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/use-auth'
 import { usePermissions } from '@/hooks/use-permissions'
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
 import { NewInquiryButton } from '@/components/inquiries/new-inquiry-button'
+import { ImportInquiriesButton } from '@/components/inquiries/import-inquiries-button'
 import { InquiriesTable } from '@/components/inquiries/inquiries-table'
 
 export default function InquiriesPage() {
@@ -59,7 +60,12 @@ export default function InquiriesPage() {
               )}
             </p>
           </div>
-          {hasPermission('CREATE_SEEKER') && <NewInquiryButton />}
+          {hasPermission('CREATE_SEEKER') && (
+            <div className="flex items-center gap-2">
+              <ImportInquiriesButton />
+              <NewInquiryButton />
+            </div>
+          )}
         </div>
         
         <InquiriesTable />
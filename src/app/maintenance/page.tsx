@@ -0,0 +1,33 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Wrench } from 'lucide-react'
+
+export default function MaintenancePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          <div className="flex justify-center">
+            <div className="rounded-full bg-yellow-100 p-4">
+              <Wrench className="h-10 w-10 text-yellow-600" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">
+            Under Maintenance
+          </CardTitle>
+          <CardDescription className="text-center">
+            TSHE CRM is temporarily unavailable while we carry out scheduled maintenance.
+            Please check back shortly.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center text-sm text-gray-600">
+          Administrators can still{' '}
+          <Link href="/sign-in" className="text-primary underline">
+            sign in
+          </Link>
+          .
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
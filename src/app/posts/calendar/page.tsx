@@ -0,0 +1,61 @@
+'use client'
+
+import Link from 'next/link'
+import { useAuth } from '@/hooks/use-auth'
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { Button } from '@/components/ui/button'
+import { ContentCalendar } from '@/components/posts/content-calendar'
+import { FileText } from 'lucide-react'
+
+export default function ContentCalendarPage() {
+  const { user, loading: authLoading } = useAuth()
+
+  if (authLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-sm text-muted-foreground">Loading...</p>
+          </div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!user) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900">Access Denied</h1>
+            <p className="mt-2 text-gray-600">Please sign in to access the content calendar.</p>
+          </div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center pb-4 border-b border-gray-200">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Content Calendar</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Social media posts and campaign run windows, coloured by campaign type
+            </p>
+          </div>
+          <Button variant="outline" size="lg" asChild>
+            <Link href="/posts">
+              <FileText className="w-4 h-4 mr-2" />
+              All Posts
+            </Link>
+          </Button>
+        </div>
+
+        <ContentCalendar />
+      </div>
+    </DashboardLayout>
+  )
+}
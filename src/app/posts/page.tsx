@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useAuth } from '@/hooks/use-auth'
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
 import { Button } from '@/components/ui/button'
@@ -9,10 +10,23 @@ import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { NewPostDialog } from '@/components/posts/new-post-dialog'
 import { ApprovalDialog } from '@/components/posts/approval-dialog'
-import { Plus, CheckCircle, XCircle, Clock, Eye, MessageSquare, Calendar } from 'lucide-react'
+import { ApprovalDelegationDialog } from '@/components/posts/approval-delegation-dialog'
+import { PostHistoryDialog } from '@/components/posts/post-history-dialog'
+import { ResubmitPostDialog } from '@/components/posts/resubmit-post-dialog'
+import { Plus, CheckCircle, XCircle, Clock, Eye, MessageSquare, Calendar, ExternalLink, RotateCcw, MinusCircle, AlertTriangle, Plane, History, Pencil, CalendarClock } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 
+interface PostApproval {
+  id: string
+  order: number
+  status: string
+  comment: string | null
+  approvedAt: string | null
+  approver: { id: string; name: string; email: string }
+  decidedBy?: { id: string; name: string; email: string } | null
+}
+
 interface Post {
   id: string
   caption: string
@@ -21,18 +35,35 @@ interface Post {
   startDate: string
   endDate: string
   status: string
+  version: number
   createdAt: string
+  publishedAt?: string | null
+  platforms?: string[]
+  publications?: Array<{
+    id: string
+    platform: string
+    status: string
+    attempts: number
+    nextAttemptAt: string
+    lastError: string | null
+    externalUrl: string | null
+    publishedAt: string | null
+  }>
   program?: { id: string; name: string; campus: string }
   campaign?: { id: string; name: string; type: string }
   createdBy: { id: string; name: string; email: string }
-  approvals?: Array<{
+  approvalStages?: Array<{
     id: string
     order: number
-    status: string
-    comment: string | null
-    approvedAt: string | null
-    approver: { id: string; name: string; email: string }
+    name: string
+    requiredApprovals: number
+    startedAt: string | null
+    escalatedAt: string | null
+    completedAt: string | null
+    escalateTo: { id: string; name: string; email: string } | null
+    approvals: PostApproval[]
   }>
+  approvals?: PostApproval[]
   comments?: Array<{
     id: string
     comment: string
@@ -41,13 +72,22 @@ interface Post {
   }>
 }
 
+const PLATFORM_LABELS: Record<string, string> = {
+  FACEBOOK: 'Facebook',
+  INSTAGRAM: 'Instagram',
+  LINKEDIN: 'LinkedIn',
+}
+
 export default function PostsPage() {
   const { user, loading: authLoading } = useAuth()
   const [showNewDialog, setShowNewDialog] = useState(false)
+  const [showDelegationDialog, setShowDelegationDialog] = useState(false)
   const [posts, setPosts] = useState<Post[]>([])
   const [pendingPosts, setPendingPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState('all')
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null)
+  const [resubmitPost, setResubmitPost] = useState<Post | null>(null)
   const [approvalDialog, setApprovalDialog] = useState<{
     open: boolean
     type: 'approve' | 'reject'
@@ -142,6 +182,22 @@ export default function PostsPage() {
     }
   }
 
+  const handleRetryPublishing = async (postId: string) => {
+    try {
+      const response = await fetch(`/api/posts/${postId}/publications`, { method: 'POST' })
+      if (response.ok) {
+        toast.success('Publishing will be retried shortly')
+        fetchPosts()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to retry publishing')
+      }
+    } catch (error) {
+      console.error('Error retrying publishing:', error)
+      toast.error('Failed to retry publishing')
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { variant: any; label: string; icon: any }> = {
       DRAFT: { variant: 'secondary', label: 'Draft', icon: null },
@@ -197,7 +253,12 @@ export default function PostsPage() {
                   </p>
                 )}
               </div>
-              {getStatusBadge(post.status)}
+              <div className="flex items-center gap-2">
+                {post.version > 1 && (
+                  <Badge variant="outline" className="text-xs">v{post.version}</Badge>
+                )}
+                {getStatusBadge(post.status)}
+              </div>
             </div>
 
             {/* Caption */}
@@ -217,46 +278,138 @@ export default function PostsPage() {
               </span>
             </div>
 
-            {/* Approval Chain */}
-            {post.approvals && post.approvals.length > 0 && (
+            {/* Publishing */}
+            {post.publications && post.publications.length > 0 ? (
               <div className="space-y-2">
-                <p className="text-xs font-medium">Approval Chain:</p>
-                <div className="space-y-2">
-                  {post.approvals.sort((a, b) => a.order - b.order).map((approval) => (
-                    <div key={approval.id} className="space-y-1">
-                      <div
-                        className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs ${
-                          approval.status === 'APPROVED'
-                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                            : approval.status === 'REJECTED'
-                            ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
-                            : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
-                        }`}
-                      >
-                        <span className="font-bold">{approval.order}</span>
-                        <span>{approval.approver.name}</span>
-                        {approval.status === 'APPROVED' && <CheckCircle className="w-3 h-3" />}
-                        {approval.status === 'REJECTED' && <XCircle className="w-3 h-3" />}
-                        {approval.status === 'PENDING' && <Clock className="w-3 h-3" />}
-                        {approval.approvedAt && (
-                          <span className="text-xs opacity-75 ml-auto">
-                            {format(new Date(approval.approvedAt), 'MMM dd, HH:mm')}
-                          </span>
-                        )}
-                      </div>
-                      {approval.comment && (
-                        <div className="ml-4 pl-3 border-l-2 border-gray-200 dark:border-gray-700">
-                          <p className="text-xs text-muted-foreground italic">
-                            "{approval.comment}"
-                          </p>
-                        </div>
+                <p className="text-xs font-medium">Publishing:</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  {post.publications.map((publication) => (
+                    <div
+                      key={publication.id}
+                      title={publication.lastError || undefined}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs ${
+                        publication.status === 'PUBLISHED'
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                          : publication.status === 'FAILED'
+                          ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                          : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
+                      }`}
+                    >
+                      <span className="font-medium">{PLATFORM_LABELS[publication.platform] || publication.platform}</span>
+                      {publication.status === 'PUBLISHED' && publication.publishedAt && (
+                        <span>{format(new Date(publication.publishedAt), 'MMM dd, HH:mm')}</span>
+                      )}
+                      {publication.status === 'QUEUED' && (
+                        <span>
+                          {publication.attempts > 0 ? 'Retrying' : 'Scheduled'} {format(new Date(publication.nextAttemptAt), 'MMM dd, HH:mm')}
+                        </span>
+                      )}
+                      {publication.status === 'FAILED' && <span>Failed</span>}
+                      {publication.externalUrl && (
+                        <a href={publication.externalUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
                       )}
                     </div>
                   ))}
+                  {post.createdBy.id === user?.id && post.publications.some(p => p.status === 'FAILED') && (
+                    <Button variant="outline" size="sm" onClick={() => handleRetryPublishing(post.id)}>
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : post.platforms && post.platforms.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Publishes to {post.platforms.map(p => PLATFORM_LABELS[p] || p).join(', ')} once approved
+              </p>
+            )}
+
+            {/* Approval Chain */}
+            {post.approvalStages && post.approvalStages.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium">Approval Chain:</p>
+                <div className="space-y-3">
+                  {post.approvalStages.map((stage) => {
+                    const approvedCount = stage.approvals.filter(a => a.status === 'APPROVED').length
+                    const isCurrent = post.status === 'PENDING_APPROVAL' && !!stage.startedAt && !stage.completedAt
+                    return (
+                      <div key={stage.id} className="space-y-1.5">
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="font-bold">{stage.order}</span>
+                          <span className="font-medium">{stage.name}</span>
+                          {(stage.requiredApprovals > 1 || stage.approvals.length > 1) && (
+                            <span className="text-muted-foreground">
+                              {approvedCount}/{stage.requiredApprovals} approval{stage.requiredApprovals === 1 ? '' : 's'}
+                              {stage.approvals.length > stage.requiredApprovals && ` from ${stage.approvals.length}`}
+                            </span>
+                          )}
+                          {isCurrent && <Badge variant="outline" className="text-xs">Current</Badge>}
+                          {stage.escalatedAt && (
+                            <span className="flex items-center gap-1 text-amber-600">
+                              <AlertTriangle className="w-3 h-3" />
+                              Escalated{stage.escalateTo && ` to ${stage.escalateTo.name}`}
+                            </span>
+                          )}
+                        </div>
+                        {stage.approvals.map((approval) => (
+                          <div key={approval.id} className="ml-4 space-y-1">
+                            <div
+                              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs ${
+                                approval.status === 'APPROVED'
+                                  ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                                  : approval.status === 'REJECTED'
+                                  ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                                  : approval.status === 'SKIPPED'
+                                  ? 'bg-gray-50 text-gray-400 dark:bg-gray-900 dark:text-gray-500'
+                                  : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
+                              }`}
+                            >
+                              <span>{approval.approver.name}</span>
+                              {approval.decidedBy && (
+                                <span className="opacity-75">(by {approval.decidedBy.name} as delegate)</span>
+                              )}
+                              {approval.status === 'APPROVED' && <CheckCircle className="w-3 h-3" />}
+                              {approval.status === 'REJECTED' && <XCircle className="w-3 h-3" />}
+                              {approval.status === 'PENDING' && <Clock className="w-3 h-3" />}
+                              {approval.status === 'SKIPPED' && <MinusCircle className="w-3 h-3" />}
+                              {approval.approvedAt && (
+                                <span className="text-xs opacity-75 ml-auto">
+                                  {format(new Date(approval.approvedAt), 'MMM dd, HH:mm')}
+                                </span>
+                              )}
+                            </div>
+                            {approval.comment && (
+                              <div className="ml-4 pl-3 border-l-2 border-gray-200 dark:border-gray-700">
+                                <p className="text-xs text-muted-foreground italic">
+                                  "{approval.comment}"
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  })}
                 </div>
               </div>
             )}
 
+            {/* Revisions */}
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setHistoryPostId(post.id)}>
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+              {post.status === 'REJECTED' && post.createdBy.id === user?.id && (
+                <Button variant="outline" size="sm" onClick={() => setResubmitPost(post)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit & Resubmit
+                </Button>
+              )}
+            </div>
+
             {/* Approval Actions */}
             {showApprovalActions && (
               <div className="flex gap-2 pt-2">
@@ -323,10 +476,22 @@ export default function PostsPage() {
               Create and manage social media posts with approval workflow
             </p>
           </div>
-          <Button onClick={() => setShowNewDialog(true)} size="lg">
-            <Plus className="w-4 h-4 mr-2" />
-            Create Post
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="lg" asChild>
+              <Link href="/posts/calendar">
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Content Calendar
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={() => setShowDelegationDialog(true)} size="lg">
+              <Plane className="w-4 h-4 mr-2" />
+              Out of Office
+            </Button>
+            <Button onClick={() => setShowNewDialog(true)} size="lg">
+              <Plus className="w-4 h-4 mr-2" />
+              Create Post
+            </Button>
+          </div>
         </div>
 
         {/* Tabs */}
@@ -341,6 +506,9 @@ export default function PostsPage() {
           <TabsTrigger value="approved">
             Approved ({posts.filter(p => p.status === 'APPROVED').length})
           </TabsTrigger>
+          <TabsTrigger value="scheduled">
+            Scheduled ({posts.filter(p => p.status === 'SCHEDULED').length})
+          </TabsTrigger>
         </TabsList>
 
           {/* All Posts */}
@@ -389,6 +557,20 @@ export default function PostsPage() {
             posts?.filter(p => p.status === 'APPROVED').map((post) => renderPost(post))
           )}
         </TabsContent>
+
+          {/* Scheduled Posts */}
+          <TabsContent value="scheduled" className="space-y-4">
+          {posts.filter(p => p.status === 'SCHEDULED').length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Calendar className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No posts waiting to be published</p>
+              </CardContent>
+            </Card>
+          ) : (
+            posts.filter(p => p.status === 'SCHEDULED').map((post) => renderPost(post))
+          )}
+        </TabsContent>
         </Tabs>
 
         {/* New Post Dialog */}
@@ -401,6 +583,13 @@ export default function PostsPage() {
           }}
         />
 
+        {/* Out-of-office delegation */}
+        <ApprovalDelegationDialog
+          open={showDelegationDialog}
+          onOpenChange={setShowDelegationDialog}
+          onDelegationsChanged={fetchPendingApprovals}
+        />
+
         {/* Approval Dialog */}
         <ApprovalDialog
           open={approvalDialog.open}
@@ -410,6 +599,25 @@ export default function PostsPage() {
           type={approvalDialog.type}
           onConfirm={handleApprovalConfirm}
           loading={approvalDialog.loading}
+          postId={approvalDialog.postId}
+        />
+
+        {/* Revision history */}
+        <PostHistoryDialog
+          open={!!historyPostId}
+          onOpenChange={(open) => !open && setHistoryPostId(null)}
+          postId={historyPostId}
+        />
+
+        {/* Edit & resubmit a rejected post */}
+        <ResubmitPostDialog
+          open={!!resubmitPost}
+          onOpenChange={(open) => !open && setResubmitPost(null)}
+          post={resubmitPost}
+          onResubmitted={() => {
+            fetchPosts()
+            fetchPendingApprovals()
+          }}
         />
       </div>
     </DashboardLayout>
@@ -1,6 +1,8 @@
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
 import { UserManagementDashboard } from '@/components/user-management/user-management-dashboard'
 import { RoleManagementDashboard } from '@/components/user-management/role-management-dashboard'
+import { AssignmentRulesDashboard } from '@/components/user-management/assignment-rules-dashboard'
+import { ApprovalWorkflowsDashboard } from '@/components/user-management/approval-workflows-dashboard'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 
 export default function UserManagementPage() {
@@ -16,6 +18,8 @@ export default function UserManagementPage() {
           <TabsList>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="roles">Roles & Permissions</TabsTrigger>
+            <TabsTrigger value="assignment">Lead Assignment</TabsTrigger>
+            <TabsTrigger value="approval-workflows">Approval Workflows</TabsTrigger>
           </TabsList>
           
           <TabsContent value="users">
@@ -25,6 +29,14 @@ export default function UserManagementPage() {
           <TabsContent value="roles">
             <RoleManagementDashboard />
           </TabsContent>
+
+          <TabsContent value="assignment">
+            <AssignmentRulesDashboard />
+          </TabsContent>
+
+          <TabsContent value="approval-workflows">
+            <ApprovalWorkflowsDashboard />
+          </TabsContent>
         </Tabs>
       </div>
     </DashboardLayout>
@@ -21,6 +21,8 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { SendJobProgress, SendJobProgressData } from '@/components/campaigns/send-job-progress'
+import { ScheduledSendsList, formatScheduledTime } from '@/components/campaigns/scheduled-sends-list'
 import { safeJsonParse } from '@/lib/utils'
 import { format, endOfDay, startOfDay } from 'date-fns'
 import { DateRange } from 'react-day-picker'
@@ -45,7 +47,9 @@ import {
   Clock,
   CheckCircle,
   XCircle,
-  User
+  User,
+  CheckCheck,
+  Eye
 } from 'lucide-react'
 
 interface Seeker {
@@ -92,9 +96,11 @@ interface WhatsAppMessageHistory {
   recipients: Array<{
     id: string
     phoneNumber: string
-    status: 'PENDING' | 'SENT' | 'FAILED' | 'DELIVERED' | 'READ'
+    status: 'PENDING' | 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'CANCELLED'
     errorMessage?: string
     sentAt?: string
+    deliveredAt?: string
+    readAt?: string
     seeker: {
       id: string
       fullName: string
@@ -137,6 +143,11 @@ export default function WhatsAppCampaignPage() {
   const [showHistory, setShowHistory] = useState(false)
   const [historyLoading, setHistoryLoading] = useState(false)
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined)
+  const [activeJobIds, setActiveJobIds] = useState<string[]>([])
+  const [scheduleEnabled, setScheduleEnabled] = useState(false)
+  const [scheduledAt, setScheduledAt] = useState('')
+  const [timeZone, setTimeZone] = useState<string | null>(null)
+  const [scheduledRefreshKey, setScheduledRefreshKey] = useState(0)
 
   // Templates
   const [templates, setTemplates] = useState<WhatsAppTemplate[]>([])
@@ -155,6 +166,7 @@ export default function WhatsAppCampaignPage() {
     fetchSeekers()
     fetchPrograms()
     fetchTemplates()
+    fetchActiveJobs()
   }, [])
 
   useEffect(() => {
@@ -220,6 +232,32 @@ export default function WhatsAppCampaignPage() {
     }
   }
 
+  // Resume progress display for sends still in the queue (e.g. after a page reload)
+  const fetchActiveJobs = async () => {
+    try {
+      const response = await fetch('/api/send-jobs?channel=WHATSAPP&active=true')
+      if (response.ok) {
+        const data = await safeJsonParse(response)
+        setActiveJobIds((data.jobs || []).map((job: { id: string }) => job.id))
+      }
+    } catch (error) {
+      console.error('Error fetching active sends:', error)
+    }
+  }
+
+  const handleJobFinished = (job: SendJobProgressData) => {
+    setActiveJobIds(prev => prev.filter(id => id !== job.id))
+    setSendStatus({
+      type: job.status === 'CANCELLED' ? 'info' : 'success',
+      message: job.status === 'CANCELLED'
+        ? `Send cancelled. ${job.sentCount} messages were sent before cancelling.`
+        : `Successfully sent ${job.sentCount} messages. ${job.failedCount} failed.`
+    })
+    if (showHistory) {
+      fetchHistory()
+    }
+  }
+
   const fetchPrograms = async () => {
     try {
       const response = await fetch('/api/programs')
@@ -488,6 +526,14 @@ export default function WhatsAppCampaignPage() {
       return
     }
 
+    if (scheduleEnabled && !scheduledAt) {
+      setSendStatus({
+        type: 'error',
+        message: 'Please choose when to send the messages'
+      })
+      return
+    }
+
     try {
       setSending(true)
       setSendStatus(null)
@@ -499,6 +545,7 @@ export default function WhatsAppCampaignPage() {
       formData.append('seekers', JSON.stringify(selectedSeekersData))
       formData.append('message', message.trim())
       if (mediaFile) formData.append('media', mediaFile)
+      if (scheduleEnabled) formData.append('scheduledAt', scheduledAt)
       
       const response = await fetch('/api/whatsapp/bulk-send', {
         method: 'POST',
@@ -508,10 +555,21 @@ export default function WhatsAppCampaignPage() {
       const result = await response.json()
 
       if (response.ok) {
-        setSendStatus({
-          type: 'success',
-          message: `Successfully sent ${result.sentCount} messages. ${result.failedCount} failed.`
-        })
+        if (result.scheduledAt) {
+          setSendStatus({
+            type: 'success',
+            message: `${result.recipientCount - (result.skippedCount || 0)} messages scheduled for ${formatScheduledTime(scheduledAt, timeZone || 'institute time')}.${result.suppressedCount ? ` ${result.suppressedCount} skipped (opted out).` : ''}`
+          })
+          setScheduledRefreshKey(key => key + 1)
+          setScheduleEnabled(false)
+          setScheduledAt('')
+        } else {
+          setSendStatus({
+            type: 'info',
+            message: `${result.recipientCount - (result.skippedCount || 0)} messages queued for sending.${result.suppressedCount ? ` ${result.suppressedCount} skipped (opted out).` : ''} You can leave this page - sending continues in the background.`
+          })
+          setActiveJobIds(prev => [result.jobId, ...prev])
+        }
         setSelectedSeekers(new Set())
         setMessage('')
         setMediaFile(null)
@@ -697,6 +755,32 @@ export default function WhatsAppCampaignPage() {
                   </div>
                 </div>
 
+                {/* Schedule */}
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="schedule-send"
+                      checked={scheduleEnabled}
+                      onCheckedChange={(checked) => setScheduleEnabled(checked === true)}
+                    />
+                    <Label htmlFor="schedule-send" className="text-sm font-medium cursor-pointer">
+                      Schedule for later
+                    </Label>
+                  </div>
+                  {scheduleEnabled && (
+                    <div>
+                      <Input
+                        type="datetime-local"
+                        value={scheduledAt}
+                        onChange={(e) => setScheduledAt(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Time zone: {timeZone || 'institute time zone'}. Recipients are re-checked when the send starts.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 {/* Send Button */}
                 <Button
                   onClick={handleSendMessages}
@@ -706,16 +790,28 @@ export default function WhatsAppCampaignPage() {
                   {sending ? (
                     <div className="flex items-center space-x-2">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>Sending...</span>
+                      <span>Queueing...</span>
                     </div>
                   ) : (
                     <div className="flex items-center space-x-2">
-                      <Send className="h-4 w-4" />
-                      <span>Send to {selectedSeekers.size} Selected</span>
+                      {scheduleEnabled ? <Clock className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+                      <span>{scheduleEnabled ? 'Schedule' : 'Send'} to {selectedSeekers.size} Selected</span>
                     </div>
                   )}
                 </Button>
 
+                {/* Queued sends */}
+                {activeJobIds.map(jobId => (
+                  <SendJobProgress key={jobId} jobId={jobId} onFinished={handleJobFinished} />
+                ))}
+
+                {/* Upcoming scheduled sends */}
+                <ScheduledSendsList
+                  channel="WHATSAPP"
+                  refreshKey={scheduledRefreshKey}
+                  onTimeZoneChange={setTimeZone}
+                />
+
                 {/* Status Messages */}
                 {sendStatus && (
                   <Alert className={sendStatus.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
@@ -1064,6 +1160,20 @@ export default function WhatsAppCampaignPage() {
                                 <span>{message.failedCount} failed</span>
                               </div>
                             )}
+                            {message.recipients.some(r => r.status === 'DELIVERED' || r.status === 'READ') && (
+                              <div className="flex items-center space-x-1">
+                                <CheckCheck className="h-3 w-3 text-blue-600" />
+                                <span>
+                                  {message.recipients.filter(r => r.status === 'DELIVERED' || r.status === 'READ').length} delivered
+                                </span>
+                              </div>
+                            )}
+                            {message.recipients.some(r => r.status === 'READ') && (
+                              <div className="flex items-center space-x-1">
+                                <Eye className="h-3 w-3 text-purple-600" />
+                                <span>{message.recipients.filter(r => r.status === 'READ').length} read</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -1119,6 +1229,16 @@ export default function WhatsAppCampaignPage() {
                               }`} />
                               <span className="text-gray-600">{recipient.seeker.fullName}</span>
                               <span className="text-gray-400">({recipient.phoneNumber})</span>
+                              <span
+                                className="text-xs text-gray-500"
+                                title={
+                                  recipient.readAt ? `Read ${new Date(recipient.readAt).toLocaleString()}` :
+                                  recipient.deliveredAt ? `Delivered ${new Date(recipient.deliveredAt).toLocaleString()}` :
+                                  undefined
+                                }
+                              >
+                                {recipient.status.charAt(0) + recipient.status.slice(1).toLowerCase()}
+                              </span>
                               {recipient.errorMessage && (
                                 <span className="text-red-500 text-xs">
                                   {recipient.errorMessage}
@@ -188,6 +188,7 @@ export function ActivityLogsDashboard() {
       case 'SESSION_TIMEOUT': return <Clock className="h-4 w-4 text-yellow-500" />
       case 'PASSWORD_CHANGE': return <Shield className="h-4 w-4 text-blue-500" />
       case 'PROFILE_UPDATE': return <User className="h-4 w-4 text-purple-500" />
+      case 'PERMISSION_DENIED': return <AlertTriangle className="h-4 w-4 text-red-500" />
       default: return <Activity className="h-4 w-4 text-gray-500" />
     }
   }
@@ -280,6 +281,7 @@ export function ActivityLogsDashboard() {
                       <SelectItem value="SESSION_TIMEOUT">Session Timeout</SelectItem>
                       <SelectItem value="PASSWORD_CHANGE">Password Change</SelectItem>
                       <SelectItem value="PROFILE_UPDATE">Profile Update</SelectItem>
+                      <SelectItem value="PERMISSION_DENIED">Permission Denied</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -12,6 +12,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { AnalyticsDashboard } from './analytics-dashboard'
+import { CampaignEmailStats } from './campaign-email-stats'
 import { Trash2 } from 'lucide-react'
 import { toast } from 'sonner'
 import { safeJsonParse } from '@/lib/utils'
@@ -294,7 +295,10 @@ export function AnalyticsDialog({ open, onOpenChange, campaign, onSuccess }: Ana
         </DialogHeader>
         
         {viewMode === 'view' && campaign ? (
-          <AnalyticsDashboard campaign={campaign} />
+          <>
+            <AnalyticsDashboard campaign={campaign} />
+            <CampaignEmailStats campaignId={campaign.id} />
+          </>
         ) : (
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <Tabs defaultValue="basic" className="w-full">
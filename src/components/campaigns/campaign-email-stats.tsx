@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { safeJsonParse } from '@/lib/utils'
+import { EmailTrackingData, EmailTrackingSummary } from './email-tracking-summary'
+import { Mail } from 'lucide-react'
+
+interface CampaignEmail {
+  id: string
+  subject: string
+  sentCount: number
+  sentAt: string
+  tracking?: EmailTrackingData
+}
+
+interface CampaignEmailStatsProps {
+  campaignId: string
+}
+
+// Recent sends are enough for the dialog; the full history is on the Email Campaign page
+const EMAIL_LIMIT = 50
+
+function toPercent(count: number, total: number) {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0
+}
+
+export function CampaignEmailStats({ campaignId }: CampaignEmailStatsProps) {
+  const [emails, setEmails] = useState<CampaignEmail[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+    const fetchEmails = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/email/history?campaignId=${campaignId}&limit=${EMAIL_LIMIT}`)
+        if (response.ok) {
+          const data = await safeJsonParse(response)
+          if (active) setEmails(data.messages || [])
+        }
+      } catch (error) {
+        console.error('Error fetching campaign emails:', error)
+      } finally {
+        if (active) setLoading(false)
+      }
+    }
+    fetchEmails()
+    return () => {
+      active = false
+    }
+  }, [campaignId])
+
+  if (loading || emails.length === 0) return null
+
+  const sent = emails.reduce((sum, email) => sum + email.sentCount, 0)
+  const opened = emails.reduce((sum, email) => sum + (email.tracking?.openedCount || 0), 0)
+  const clicked = emails.reduce((sum, email) => sum + (email.tracking?.clickedCount || 0), 0)
+
+  return (
+    <Card className="w-full overflow-hidden mt-6">
+      <CardHeader>
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Performance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-semibold">{sent}</p>
+            <p className="text-xs text-gray-500">Emails sent</p>
+          </div>
+          <div>
+            <p className="text-2xl font-semibold text-blue-700">{toPercent(opened, sent)}%</p>
+            <p className="text-xs text-gray-500">Open rate</p>
+          </div>
+          <div>
+            <p className="text-2xl font-semibold text-purple-700">{toPercent(clicked, sent)}%</p>
+            <p className="text-xs text-gray-500">Click rate</p>
+          </div>
+        </div>
+        <div className="space-y-3">
+          {emails.map(email => (
+            <div key={email.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-gray-900 truncate">{email.subject}</p>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(email.sentAt).toLocaleDateString()} · {email.sentCount} sent
+                </span>
+              </div>
+              {email.tracking && <EmailTrackingSummary tracking={email.tracking} showTopLinks />}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { EMAIL_MERGE_FIELDS } from '@/lib/email-merge-fields'
+import { safeJsonParse } from '@/lib/utils'
+import { Loader2 } from 'lucide-react'
+
+interface EmailPreviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Inquiries the preview can be rendered for (usually the selected recipients)
+  seekers: Array<{ id: string; fullName: string }>
+  subject: string
+  body: string
+}
+
+interface RenderedPreview {
+  subject: string
+  html: string
+  missingFields: string[]
+}
+
+export function EmailPreviewDialog({ open, onOpenChange, seekers, subject, body }: EmailPreviewDialogProps) {
+  const [seekerId, setSeekerId] = useState('')
+  const [preview, setPreview] = useState<RenderedPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && !seekers.some(s => s.id === seekerId)) {
+      setSeekerId(seekers[0]?.id || '')
+    }
+  }, [open, seekers, seekerId])
+
+  useEffect(() => {
+    if (!open || !seekerId) return
+    let active = true
+
+    const fetchPreview = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch('/api/email/templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ seekerId, subject, body, isHtml: true }),
+        })
+        const data = await safeJsonParse(response)
+        if (!active) return
+        if (response.ok) {
+          setPreview(data)
+        } else {
+          setError(data.error || 'Failed to render preview')
+        }
+      } catch (previewError) {
+        console.error('Error rendering email preview:', previewError)
+        if (active) setError('Network error. Please try again.')
+      } finally {
+        if (active) setLoading(false)
+      }
+    }
+
+    fetchPreview()
+    return () => {
+      active = false
+    }
+  }, [open, seekerId, subject, body])
+
+  const fieldLabel = (key: string) => EMAIL_MERGE_FIELDS.find(field => field.key === key)?.label || key
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email Preview</DialogTitle>
+          <DialogDescription>Merge fields are filled in for the chosen inquiry.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Preview as</Label>
+            <Select value={seekerId} onValueChange={setSeekerId}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Select an inquiry" />
+              </SelectTrigger>
+              <SelectContent>
+                {seekers.map(seeker => (
+                  <SelectItem key={seeker.id} value={seeker.id}>{seeker.fullName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Rendering preview...</span>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {preview && !loading && (
+            <>
+              {preview.missingFields.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-amber-700">
+                  <span>Using fallbacks for:</span>
+                  {preview.missingFields.map(key => (
+                    <Badge key={key} variant="outline" className="text-amber-700 border-amber-300">
+                      {fieldLabel(key)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div>
+                <Label>Subject</Label>
+                <p className="mt-1 text-sm font-medium text-gray-900">{preview.subject}</p>
+              </div>
+              {/* Sandboxed so the rendered email cannot run scripts in the app */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.html}
+                className="w-full h-[420px] border border-gray-200 rounded-lg bg-white"
+              />
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
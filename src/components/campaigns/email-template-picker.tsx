@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { safeJsonParse } from '@/lib/utils'
+import { Save, Trash2 } from 'lucide-react'
+
+export interface EmailTemplate {
+  id: string
+  name: string
+  subject: string
+  body: string
+  updatedAt: string
+}
+
+interface EmailTemplatePickerProps {
+  // Current composer content, saved by "Save as Template"
+  subject: string
+  body: string
+  onApply: (template: EmailTemplate) => void
+}
+
+export function EmailTemplatePicker({ subject, body, onApply }: EmailTemplatePickerProps) {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([])
+  const [selectedId, setSelectedId] = useState('none')
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [templateName, setTemplateName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/email/templates')
+      if (response.ok) {
+        const data = await safeJsonParse(response)
+        setTemplates(data.templates || [])
+      }
+    } catch (fetchError) {
+      console.error('Error fetching email templates:', fetchError)
+    }
+  }
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  const handleSelect = (value: string) => {
+    setSelectedId(value)
+    const template = templates.find(t => t.id === value)
+    if (template) onApply(template)
+  }
+
+  const openSaveDialog = () => {
+    setTemplateName(templates.find(t => t.id === selectedId)?.name || '')
+    setError(null)
+    setSaveOpen(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch('/api/email/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: templateName, subject, body }),
+      })
+      const data = await safeJsonParse(response)
+      if (response.ok) {
+        setSaveOpen(false)
+        setSelectedId(data.template.id)
+        fetchTemplates()
+      } else {
+        setError(data.error || 'Failed to save template')
+      }
+    } catch (saveError) {
+      console.error('Error saving email template:', saveError)
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    const template = templates.find(t => t.id === selectedId)
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/email/templates/${template.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setSelectedId('none')
+        fetchTemplates()
+      } else {
+        const data = await safeJsonParse(response)
+        alert(data.error || 'Failed to delete template')
+      }
+    } catch (deleteError) {
+      console.error('Error deleting email template:', deleteError)
+    }
+  }
+
+  return (
+    <div>
+      <Label className="text-sm font-medium">Template</Label>
+      <div className="flex items-center gap-2 mt-2">
+        <Select value={selectedId} onValueChange={handleSelect}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select a template" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No template</SelectItem>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={openSaveDialog}
+          disabled={!subject.trim() || !body.replace(/<[^>]*>/g, '').trim()}
+          title="Save as template"
+        >
+          <Save className="h-4 w-4" />
+        </Button>
+        {selectedId !== 'none' && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleDelete}
+            className="text-red-600 hover:text-red-700"
+            title="Delete template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>
+              Saves the current subject and message. Saving with an existing name updates that template.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="template-name">Template name</Label>
+            <Input
+              id="template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className="mt-2"
+            />
+            {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !templateName.trim()}>
+              {saving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
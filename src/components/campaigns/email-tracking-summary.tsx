@@ -0,0 +1,56 @@
+'use client'
+
+import { Eye, MousePointerClick, Link as LinkIcon } from 'lucide-react'
+
+export interface EmailTrackingData {
+  openedCount: number
+  clickedCount: number
+  openRate: number
+  clickRate: number
+  totalOpens: number
+  totalClicks: number
+  topLinks: Array<{ url: string; clicks: number; uniqueClicks: number }>
+}
+
+interface EmailTrackingSummaryProps {
+  tracking: EmailTrackingData
+  // Show the most clicked links below the rates
+  showTopLinks?: boolean
+}
+
+export function EmailTrackingSummary({ tracking, showTopLinks = false }: EmailTrackingSummaryProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+        <div className="flex items-center space-x-1" title={`${tracking.totalOpens} total opens`}>
+          <Eye className="h-3 w-3 text-blue-600" />
+          <span className="font-medium text-blue-700">{tracking.openRate}% opened</span>
+          <span>({tracking.openedCount})</span>
+        </div>
+        <div className="flex items-center space-x-1" title={`${tracking.totalClicks} total clicks`}>
+          <MousePointerClick className="h-3 w-3 text-purple-600" />
+          <span className="font-medium text-purple-700">{tracking.clickRate}% clicked</span>
+          <span>({tracking.clickedCount})</span>
+        </div>
+      </div>
+      {showTopLinks && tracking.topLinks.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-700">Top links</p>
+          {tracking.topLinks.map(link => (
+            <div key={link.url} className="flex items-center justify-between gap-2 text-xs">
+              <div className="flex items-center space-x-1 min-w-0">
+                <LinkIcon className="h-3 w-3 text-gray-400 flex-shrink-0" />
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline truncate">
+                  {link.url}
+                </a>
+              </div>
+              <span className="text-gray-600 flex-shrink-0">
+                {link.uniqueClicks} people · {link.clicks} clicks
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
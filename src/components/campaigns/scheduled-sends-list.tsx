@@ -0,0 +1,234 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { AdvancedRichTextEditor } from '@/components/ui/advanced-rich-text-editor'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { safeJsonParse } from '@/lib/utils'
+import { CalendarClock, Pencil, XCircle } from 'lucide-react'
+
+export interface ScheduledSend {
+  id: string
+  channel: 'EMAIL' | 'WHATSAPP'
+  totalCount: number
+  scheduledAt: string
+  scheduledAtLocal: string
+  timeZone: string
+  subject: string | null
+  message: string
+  isHtml: boolean
+  mediaFilename: string | null
+}
+
+interface ScheduledSendsListProps {
+  channel: 'EMAIL' | 'WHATSAPP'
+  // Bump to refetch (e.g. after scheduling a new send)
+  refreshKey?: number
+  onTimeZoneChange?: (timeZone: string) => void
+}
+
+// Scheduled sends are refreshed periodically so ones that have started drop off the list
+const REFRESH_INTERVAL_MS = 30000
+
+export function formatScheduledTime(scheduledAtLocal: string, timeZone: string) {
+  return `${scheduledAtLocal.replace('T', ' ')} (${timeZone})`
+}
+
+export function ScheduledSendsList({ channel, refreshKey = 0, onTimeZoneChange }: ScheduledSendsListProps) {
+  const [sends, setSends] = useState<ScheduledSend[]>([])
+  const [editing, setEditing] = useState<ScheduledSend | null>(null)
+  const [editScheduledAt, setEditScheduledAt] = useState('')
+  const [editSubject, setEditSubject] = useState('')
+  const [editMessage, setEditMessage] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchScheduledSends = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/send-jobs?channel=${channel}&scheduled=true`)
+      if (response.ok) {
+        const data = await safeJsonParse(response)
+        setSends(data.jobs || [])
+        if (data.timeZone) {
+          onTimeZoneChange?.(data.timeZone)
+        }
+      }
+    } catch (fetchError) {
+      console.error('Error fetching scheduled sends:', fetchError)
+    }
+  }, [channel, onTimeZoneChange])
+
+  useEffect(() => {
+    fetchScheduledSends()
+    const interval = setInterval(fetchScheduledSends, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchScheduledSends, refreshKey])
+
+  const openEditor = (send: ScheduledSend) => {
+    setEditing(send)
+    setEditScheduledAt(send.scheduledAtLocal)
+    setEditSubject(send.subject || '')
+    // Media-only WhatsApp sends store a placeholder label instead of a caption
+    setEditMessage(send.mediaFilename && send.message === `Media: ${send.mediaFilename}` ? '' : send.message)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(`/api/send-jobs/${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'update',
+          scheduledAt: editScheduledAt,
+          message: editMessage,
+          ...(channel === 'EMAIL' && { subject: editSubject }),
+        }),
+      })
+      const data = await safeJsonParse(response)
+      if (response.ok) {
+        setEditing(null)
+        fetchScheduledSends()
+      } else {
+        setError(data.error || 'Failed to update scheduled send')
+      }
+    } catch (saveError) {
+      console.error('Error updating scheduled send:', saveError)
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async (send: ScheduledSend) => {
+    if (!confirm('Cancel this scheduled send? Nothing will be sent.')) return
+
+    try {
+      const response = await fetch(`/api/send-jobs/${send.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' }),
+      })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        alert(data.error || 'Failed to cancel scheduled send')
+      }
+      fetchScheduledSends()
+    } catch (cancelError) {
+      console.error('Error cancelling scheduled send:', cancelError)
+    }
+  }
+
+  if (sends.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <CalendarClock className="h-4 w-4" />
+        <span>Scheduled ({sends.length})</span>
+      </div>
+      {sends.map(send => (
+        <div key={send.id} className="border border-gray-200 rounded-lg p-3 bg-gray-50 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {send.subject || send.message}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatScheduledTime(send.scheduledAtLocal, send.timeZone)} · {send.totalCount} recipient{send.totalCount === 1 ? '' : 's'}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1 flex-shrink-0">
+              <Button size="sm" variant="ghost" onClick={() => openEditor(send)} title="Edit">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleCancel(send)}
+                className="text-red-600 hover:text-red-700"
+                title="Cancel"
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Scheduled Send</DialogTitle>
+            <DialogDescription>
+              Times are in the institute time zone ({editing?.timeZone}).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="edit-scheduled-at">Send at</Label>
+              <Input
+                id="edit-scheduled-at"
+                type="datetime-local"
+                value={editScheduledAt}
+                onChange={(e) => setEditScheduledAt(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            {channel === 'EMAIL' && (
+              <div>
+                <Label htmlFor="edit-subject">Subject</Label>
+                <Input
+                  id="edit-subject"
+                  value={editSubject}
+                  onChange={(e) => setEditSubject(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="edit-message">Message</Label>
+              {editing?.isHtml ? (
+                <AdvancedRichTextEditor
+                  value={editMessage}
+                  onChange={setEditMessage}
+                  className="mt-2"
+                />
+              ) : (
+                <Textarea
+                  id="edit-message"
+                  value={editMessage}
+                  onChange={(e) => setEditMessage(e.target.value)}
+                  className="mt-2 min-h-[120px]"
+                />
+              )}
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
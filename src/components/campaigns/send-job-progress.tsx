@@ -0,0 +1,186 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { safeJsonParse } from '@/lib/utils'
+import { Pause, Play, XCircle, Loader2 } from 'lucide-react'
+
+export interface SendJobProgressData {
+  id: string
+  channel: 'EMAIL' | 'WHATSAPP'
+  status: 'QUEUED' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'CANCELLED'
+  totalCount: number
+  processedCount: number
+  sentCount: number
+  failedCount: number
+  skippedCount: number
+  pendingCount: number
+  percent: number
+  lastError?: string | null
+}
+
+interface SendJobProgressProps {
+  jobId: string
+  onFinished?: (job: SendJobProgressData) => void
+}
+
+const POLL_INTERVAL_MS = 2000
+
+const STATUS_LABELS: Record<SendJobProgressData['status'], string> = {
+  QUEUED: 'Queued',
+  RUNNING: 'Sending',
+  PAUSED: 'Paused',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+}
+
+function isFinished(status: SendJobProgressData['status']) {
+  return status === 'COMPLETED' || status === 'CANCELLED'
+}
+
+export function SendJobProgress({ jobId, onFinished }: SendJobProgressProps) {
+  const [job, setJob] = useState<SendJobProgressData | null>(null)
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const finishedRef = useRef(false)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  const handleUpdate = useCallback((data: SendJobProgressData) => {
+    setJob(data)
+    if (isFinished(data.status) && !finishedRef.current) {
+      finishedRef.current = true
+      onFinishedRef.current?.(data)
+    }
+  }, [])
+
+  // Poll progress until the job completes or is cancelled
+  useEffect(() => {
+    finishedRef.current = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let active = true
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/send-jobs/${jobId}`)
+        if (response.ok) {
+          const data: SendJobProgressData = await safeJsonParse(response)
+          if (!active) return
+          handleUpdate(data)
+          if (isFinished(data.status)) return
+        }
+      } catch (pollError) {
+        console.error('Error fetching send progress:', pollError)
+      }
+      if (active) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+    }
+
+    poll()
+    return () => {
+      active = false
+      if (timer) clearTimeout(timer)
+    }
+  }, [jobId, handleUpdate])
+
+  const handleAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this send? Messages that have not been sent yet will not be delivered.')) {
+      return
+    }
+
+    try {
+      setUpdating(true)
+      setError(null)
+      const response = await fetch(`/api/send-jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await safeJsonParse(response)
+      if (response.ok) {
+        handleUpdate(data)
+      } else {
+        setError(data.error || 'Failed to update send')
+      }
+    } catch (actionError) {
+      console.error('Error updating send job:', actionError)
+      setError('Network error. Please try again.')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  if (!job) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-600 border border-gray-200 rounded-lg p-3">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Loading send progress...</span>
+      </div>
+    )
+  }
+
+  const finished = isFinished(job.status)
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3 bg-gray-50">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {job.status === 'RUNNING' && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+          <span className="text-sm font-medium text-gray-900">
+            {job.processedCount} of {job.totalCount} processed
+          </span>
+        </div>
+        <Badge variant={job.status === 'CANCELLED' ? 'destructive' : job.status === 'COMPLETED' ? 'default' : 'secondary'}>
+          {STATUS_LABELS[job.status]}
+        </Badge>
+      </div>
+
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${job.status === 'PAUSED' ? 'bg-yellow-500' : job.status === 'CANCELLED' ? 'bg-gray-400' : 'bg-blue-600'}`}
+          style={{ width: `${job.percent}%` }}
+        />
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-600">
+        <span className="text-green-700">{job.sentCount} sent</span>
+        <span className="text-red-700">{job.failedCount} failed</span>
+        {job.skippedCount > 0 && <span>{job.skippedCount} skipped (opted out)</span>}
+        {!finished && <span>{job.pendingCount} pending</span>}
+      </div>
+
+      {job.lastError && !finished && (
+        <p className="text-xs text-amber-700">Last error: {job.lastError}</p>
+      )}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      {!finished && (
+        <div className="flex items-center space-x-2">
+          {job.status === 'PAUSED' ? (
+            <Button size="sm" variant="outline" onClick={() => handleAction('resume')} disabled={updating}>
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => handleAction('pause')} disabled={updating}>
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleAction('cancel')}
+            disabled={updating}
+            className="text-red-600 hover:text-red-700"
+          >
+            <XCircle className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
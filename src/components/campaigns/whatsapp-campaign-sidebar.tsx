@@ -218,7 +218,7 @@ export function WhatsAppCampaignSidebar({ campaignId, onClose }: WhatsAppCampaig
       if (response.ok) {
         setSendStatus({
           type: 'success',
-          message: `Successfully sent ${result.sentCount} messages. ${result.failedCount} failed.`
+          message: `${result.recipientCount - (result.skippedCount || 0)} messages queued for sending.${result.suppressedCount ? ` ${result.suppressedCount} skipped (opted out).` : ''} Track progress on the WhatsApp Campaign page.`
         })
         setSelectedSeekers(new Set())
         setMessage('')
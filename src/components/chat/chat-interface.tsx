@@ -1,18 +1,21 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, Bot, User, Loader2, Sparkles } from 'lucide-react'
+import Link from 'next/link'
+import { Send, Bot, User, Loader2, Sparkles, Database } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { cn } from '@/lib/utils'
 import { useAuth } from '@/hooks/use-auth'
+import type { ChatCitation } from '@/lib/chat-tools'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: ChatCitation[] // CRM records the answer was based on
 }
 
 export function ChatInterface() {
@@ -91,6 +94,7 @@ export function ChatInterface() {
         role: 'assistant',
         content: data.message,
         timestamp: new Date(),
+        citations: Array.isArray(data.citations) ? data.citations : [],
       }
 
       setMessages((prev) => [...prev, assistantMessage])
@@ -153,8 +157,8 @@ export function ChatInterface() {
                 Welcome to AI Assistant
               </h3>
               <p className="text-sm text-muted-foreground max-w-md">
-                Ask me anything! I can help you with your CRM tasks, answer questions,
-                provide insights, and assist with your work.
+                Ask me anything! I can look up inquiry numbers, program details and Q&A,
+                your upcoming meetings and open follow-ups, and show which records I used.
               </p>
             </div>
           )}
@@ -184,6 +188,23 @@ export function ChatInterface() {
                 <p className="text-sm whitespace-pre-wrap break-words">
                   {message.content}
                 </p>
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-foreground/10 space-y-1">
+                    <p className="text-xs font-medium flex items-center gap-1 opacity-70">
+                      <Database className="h-3 w-3" />
+                      Sources
+                    </p>
+                    <ul className="space-y-0.5">
+                      {message.citations.map((citation) => (
+                        <li key={`${citation.kind}-${citation.id}`} className="text-xs">
+                          <Link href={citation.href} className="hover:underline">
+                            {citation.label}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <span className="text-xs opacity-70 mt-1 block">
                   {message.timestamp.toLocaleTimeString([], {
                     hour: '2-digit',
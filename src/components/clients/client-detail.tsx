@@ -0,0 +1,404 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  ArrowLeft,
+  Building2,
+  Clock,
+  DollarSign,
+  Edit,
+  Globe,
+  Mail,
+  MapPin,
+  Phone,
+  Target,
+  Trash2,
+  TrendingUp
+} from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { safeJsonParse } from '@/lib/utils'
+import { usePermissions } from '@/hooks/use-permissions'
+import { ClientForm, type ClientFormData } from './client-form'
+import type { Client } from './client-list'
+
+interface ClientDetails extends Client {
+  deals: {
+    id: string
+    title: string
+    value?: number | null
+    currency: string
+    stage: string
+    probability: number
+    expectedCloseDate?: string | null
+    actualCloseDate?: string | null
+    assignedTo?: { id: string; name: string } | null
+    project?: { id: string; name: string } | null
+    _count: { activities: number }
+  }[]
+  timeline: {
+    id: string
+    type: string
+    title: string
+    description?: string | null
+    date: string
+    duration?: number | null
+    user: { id: string; name: string }
+    deal: { id: string; title: string }
+  }[]
+  summary: {
+    dealCount: number
+    openDealCount: number
+    wonDealCount: number
+    baseCurrency: string
+    totalWonValue: number
+    wonByCurrency: Record<string, number>
+    unconvertedCurrencies: string[]
+  }
+}
+
+interface ClientDetailProps {
+  clientId: string
+}
+
+const STAGE_COLORS: Record<string, string> = {
+  LEAD: 'bg-gray-100 text-gray-800',
+  CONTACTED: 'bg-blue-100 text-blue-800',
+  QUALIFIED: 'bg-yellow-100 text-yellow-800',
+  PROPOSAL: 'bg-purple-100 text-purple-800',
+  NEGOTIATION: 'bg-orange-100 text-orange-800',
+  WON: 'bg-green-100 text-green-800',
+  LOST: 'bg-red-100 text-red-800'
+}
+
+const formatCurrency = (amount: number, currency: string = 'USD') => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency
+  }).format(amount)
+}
+
+export function ClientDetail({ clientId }: ClientDetailProps) {
+  const router = useRouter()
+  const { hasPermission } = usePermissions()
+  const [client, setClient] = useState<ClientDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchClient = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}`)
+      const data = await safeJsonParse(response)
+      if (response.ok) {
+        setClient(data)
+      } else {
+        toast.error(data.error || 'Failed to load client')
+      }
+    } catch (error) {
+      console.error('Error fetching client:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchClient()
+  }, [fetchClient])
+
+  const handleSave = async (data: ClientFormData) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to update client')
+        return
+      }
+      toast.success('Client updated')
+      setShowForm(false)
+      fetchClient()
+    } catch (error) {
+      console.error('Error updating client:', error)
+      toast.error('Failed to update client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!client || !confirm(`Delete ${client.name}? Linked deals are kept without a client.`)) return
+    try {
+      const response = await fetch(`/api/clients/${clientId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await safeJsonParse(response)
+        toast.error(result.error || 'Failed to delete client')
+        return
+      }
+      toast.success('Client deleted')
+      router.push('/clients')
+    } catch (error) {
+      console.error('Error deleting client:', error)
+      toast.error('Failed to delete client')
+    }
+  }
+
+  if (loading) {
+    return <div className="py-12 text-center text-muted-foreground">Loading client...</div>
+  }
+
+  if (!client) {
+    return (
+      <div className="py-12 text-center space-y-4">
+        <p className="text-muted-foreground">Client not found</p>
+        <Button variant="outline" onClick={() => router.push('/clients')}>Back to Clients</Button>
+      </div>
+    )
+  }
+
+  const { summary } = client
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-2">
+          <Link href="/clients" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Clients
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold">{client.name}</h1>
+          {client.company && (
+            <p className="flex items-center gap-2 text-muted-foreground">
+              <Building2 className="h-4 w-4" />
+              {client.company}
+              {client.industry && ` · ${client.industry}`}
+              {client.size && ` · ${client.size} employees`}
+            </p>
+          )}
+          {client.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {client.tags.map(tag => (
+                <Badge key={tag} variant="secondary">{tag}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {hasPermission('UPDATE_CLIENT') && (
+            <Button variant="outline" onClick={() => setShowForm(true)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          {hasPermission('DELETE_CLIENT') && (
+            <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Total Won Value</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(summary.totalWonValue, summary.baseCurrency)}</p>
+                {summary.unconvertedCurrencies.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Plus {summary.unconvertedCurrencies
+                      .map(currency => formatCurrency(summary.wonByCurrency[currency], currency))
+                      .join(', ')} without an exchange rate
+                  </p>
+                )}
+              </div>
+              <DollarSign className="h-8 w-8 text-green-600" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Deals</p>
+                <p className="text-2xl font-bold">{summary.dealCount}</p>
+                <p className="text-xs text-muted-foreground mt-1">{summary.wonDealCount} won</p>
+              </div>
+              <Target className="h-8 w-8 text-blue-600" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Open Deals</p>
+                <p className="text-2xl font-bold">{summary.openDealCount}</p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-purple-600" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Linked Deals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {client.deals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No deals linked to this client</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Deal</TableHead>
+                        <TableHead>Stage</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead>Owner</TableHead>
+                        <TableHead>Close Date</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {client.deals.map(deal => (
+                        <TableRow key={deal.id}>
+                          <TableCell>
+                            <div className="font-medium">{deal.title}</div>
+                            {deal.project && <div className="text-xs text-muted-foreground">{deal.project.name}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={STAGE_COLORS[deal.stage] || STAGE_COLORS.LEAD}>{deal.stage}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {deal.value != null ? formatCurrency(deal.value, deal.currency) : '—'}
+                            <div className="text-xs text-muted-foreground">{deal.probability}%</div>
+                          </TableCell>
+                          <TableCell>{deal.assignedTo?.name || '—'}</TableCell>
+                          <TableCell>
+                            {deal.actualCloseDate
+                              ? new Date(deal.actualCloseDate).toLocaleDateString()
+                              : deal.expectedCloseDate
+                                ? `Expected ${new Date(deal.expectedCloseDate).toLocaleDateString()}`
+                                : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Activity Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {client.timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No activity on this client&apos;s deals yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {client.timeline.map(activity => (
+                    <div key={activity.id} className="flex gap-3">
+                      <div className="mt-1.5 h-2 w-2 rounded-full bg-primary shrink-0" />
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className="text-xs">{activity.type.replace(/_/g, ' ')}</Badge>
+                          <span className="text-sm font-medium break-words">{activity.title}</span>
+                        </div>
+                        {activity.description && (
+                          <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{activity.description}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 flex-wrap">
+                          {activity.deal.title} · {activity.user.name} · {formatDistanceToNow(new Date(activity.date), { addSuffix: true })}
+                          {activity.duration ? (
+                            <>
+                              {' · '}
+                              <Clock className="h-3 w-3" />
+                              {activity.duration} min
+                            </>
+                          ) : null}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle>Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {client.email && (
+              <a href={`mailto:${client.email}`} className="flex items-center gap-2 text-blue-600 hover:underline break-all">
+                <Mail className="h-4 w-4 shrink-0" />
+                {client.email}
+              </a>
+            )}
+            {client.phone && (
+              <p className="flex items-center gap-2">
+                <Phone className="h-4 w-4 shrink-0" />
+                {client.phone}
+              </p>
+            )}
+            {client.website && (
+              <a href={client.website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-600 hover:underline break-all">
+                <Globe className="h-4 w-4 shrink-0" />
+                {client.website}
+              </a>
+            )}
+            {client.address && (
+              <p className="flex items-start gap-2">
+                <MapPin className="h-4 w-4 shrink-0 mt-0.5" />
+                {client.address}
+              </p>
+            )}
+            {client.notes && (
+              <div className="pt-3 border-t">
+                <p className="text-muted-foreground whitespace-pre-wrap break-words">{client.notes}</p>
+              </div>
+            )}
+            <p className="pt-3 border-t text-xs text-muted-foreground">
+              Added by {client.createdBy.name} {formatDistanceToNow(new Date(client.createdAt), { addSuffix: true })}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Client</DialogTitle>
+          </DialogHeader>
+          <ClientForm
+            client={client}
+            onSave={handleSave}
+            onCancel={() => setShowForm(false)}
+            loading={saving}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { Client } from './client-list'
+
+// Mirrors CLIENT_SIZES in src/lib/clients.ts
+const CLIENT_SIZES = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+']
+const NO_SIZE = 'none'
+
+export interface ClientFormData {
+  name: string
+  email: string
+  phone: string
+  company: string
+  website: string
+  address: string
+  industry: string
+  size: string
+  notes: string
+  tags: string[]
+}
+
+interface ClientFormProps {
+  client?: Client | null
+  onSave: (data: ClientFormData) => void
+  onCancel: () => void
+  loading?: boolean
+}
+
+export function ClientForm({ client, onSave, onCancel, loading }: ClientFormProps) {
+  const [form, setForm] = useState({
+    name: '',
+    email: '',
+    phone: '',
+    company: '',
+    website: '',
+    address: '',
+    industry: '',
+    size: '',
+    notes: '',
+    tags: ''
+  })
+
+  useEffect(() => {
+    if (client) {
+      setForm({
+        name: client.name || '',
+        email: client.email || '',
+        phone: client.phone || '',
+        company: client.company || '',
+        website: client.website || '',
+        address: client.address || '',
+        industry: client.industry || '',
+        size: client.size || '',
+        notes: client.notes || '',
+        tags: client.tags.join(', ')
+      })
+    }
+  }, [client])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      ...form,
+      tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    })
+  }
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setForm({ ...form, [field]: e.target.value })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="client-name">Name *</Label>
+          <Input id="client-name" value={form.name} onChange={update('name')} required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="client-company">Company</Label>
+          <Input id="client-company" value={form.company} onChange={update('company')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="client-email">Email</Label>
+          <Input id="client-email" type="email" value={form.email} onChange={update('email')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="client-phone">Phone</Label>
+          <Input id="client-phone" value={form.phone} onChange={update('phone')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="client-industry">Industry</Label>
+          <Input id="client-industry" value={form.industry} onChange={update('industry')} placeholder="e.g. Education" />
+        </div>
+        <div className="space-y-2">
+          <Label>Company Size</Label>
+          <Select
+            value={form.size || NO_SIZE}
+            onValueChange={(size) => setForm({ ...form, size: size === NO_SIZE ? '' : size })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SIZE}>Not set</SelectItem>
+              {CLIENT_SIZES.map(size => (
+                <SelectItem key={size} value={size}>{size} employees</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="client-website">Website</Label>
+          <Input id="client-website" value={form.website} onChange={update('website')} placeholder="https://" />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="client-address">Address</Label>
+          <Input id="client-address" value={form.address} onChange={update('address')} />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="client-tags">Tags</Label>
+          <Input id="client-tags" value={form.tags} onChange={update('tags')} placeholder="Comma separated, e.g. partner, enterprise" />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="client-notes">Notes</Label>
+          <Textarea id="client-notes" value={form.notes} onChange={update('notes')} rows={3} />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={loading || !form.name.trim()}>
+          {loading ? 'Saving...' : client ? 'Save Changes' : 'Create Client'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Building2, Plus, Search } from 'lucide-react'
+import { toast } from 'sonner'
+import { safeJsonParse } from '@/lib/utils'
+import { usePermissions } from '@/hooks/use-permissions'
+import { ClientForm, type ClientFormData } from './client-form'
+
+export interface Client {
+  id: string
+  name: string
+  email?: string | null
+  phone?: string | null
+  company?: string | null
+  website?: string | null
+  address?: string | null
+  industry?: string | null
+  size?: string | null
+  notes?: string | null
+  tags: string[]
+  createdAt: string
+  createdBy: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
+interface ClientListItem extends Client {
+  deals: {
+    id: string
+    title: string
+    value?: number | null
+    currency: string
+    stage: string
+  }[]
+  _count: {
+    deals: number
+  }
+}
+
+const ALL = 'all'
+
+export function ClientList() {
+  const router = useRouter()
+  const { hasPermission } = usePermissions()
+  const [clients, setClients] = useState<ClientListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [industry, setIndustry] = useState(ALL)
+  const [size, setSize] = useState(ALL)
+  const [filters, setFilters] = useState<{ industries: string[]; sizes: string[] }>({ industries: [], sizes: [] })
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchClients = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+      if (search.trim()) params.set('search', search.trim())
+      if (industry !== ALL) params.set('industry', industry)
+      if (size !== ALL) params.set('size', size)
+
+      const response = await fetch(`/api/clients?${params}`)
+      if (response.ok) {
+        setClients(await safeJsonParse(response))
+      }
+    } catch (error) {
+      console.error('Error fetching clients:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [search, industry, size])
+
+  const fetchFilters = async () => {
+    try {
+      const response = await fetch('/api/clients/filters')
+      if (response.ok) {
+        setFilters(await safeJsonParse(response))
+      }
+    } catch (error) {
+      console.error('Error fetching client filters:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchFilters()
+  }, [])
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(fetchClients, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchClients])
+
+  const handleCreate = async (data: ClientFormData) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to create client')
+        return
+      }
+      toast.success('Client created')
+      setShowForm(false)
+      router.push(`/clients/${result.id}`)
+    } catch (error) {
+      console.error('Error creating client:', error)
+      toast.error('Failed to create client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <CardTitle>Clients</CardTitle>
+        {hasPermission('CREATE_CLIENT') && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Client
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search by name, email, company or tag"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <Select value={industry} onValueChange={setIndustry}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All industries</SelectItem>
+              {filters.industries.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={size} onValueChange={setSize}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sizes</SelectItem>
+              {filters.sizes.map(value => (
+                <SelectItem key={value} value={value}>{value} employees</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="py-8 text-center text-muted-foreground">Loading clients...</div>
+        ) : clients.length === 0 ? (
+          <div className="text-center py-8">
+            <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No clients found</h3>
+            <p className="text-muted-foreground">
+              {search || industry !== ALL || size !== ALL
+                ? 'Try a different search or filter.'
+                : 'Add a client to link it to your deals.'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Industry</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead className="text-right">Deals</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {clients.map(client => (
+                  <TableRow
+                    key={client.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(`/clients/${client.id}`)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{client.name}</div>
+                      {client.email && <div className="text-xs text-muted-foreground">{client.email}</div>}
+                    </TableCell>
+                    <TableCell>{client.company || '—'}</TableCell>
+                    <TableCell>{client.industry || '—'}</TableCell>
+                    <TableCell>{client.size || '—'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {client.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{client._count.deals}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create New Client</DialogTitle>
+          </DialogHeader>
+          <ClientForm
+            onSave={handleCreate}
+            onCancel={() => setShowForm(false)}
+            loading={saving}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,435 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { safeJsonParse } from '@/lib/utils'
+import { ArrowRight, Clock, Trash2 } from 'lucide-react'
+
+interface DealActivity {
+  id: string
+  type: string
+  title: string
+  description?: string | null
+  date: string
+  duration?: number | null
+  user: { id: string; name: string }
+}
+
+interface DealStageChange {
+  id: string
+  fromStage: string | null
+  toStage: string
+  changedAt: string
+  changedBy: { id: string; name: string }
+}
+
+interface DealDetails {
+  id: string
+  title: string
+  description?: string | null
+  value?: number | null
+  currency: string
+  stage: string
+  probability: number
+  expectedCloseDate?: string | null
+  actualCloseDate?: string | null
+  activities: DealActivity[]
+  stageHistory: DealStageChange[]
+}
+
+interface DealDetailsDialogProps {
+  dealId: string | null
+  stages: { key: string; label: string; color: string }[]
+  onOpenChange: (open: boolean) => void
+  onDealChanged: () => void
+}
+
+const ACTIVITY_TYPES = [
+  { key: 'CALL', label: 'Call' },
+  { key: 'EMAIL', label: 'Email' },
+  { key: 'MEETING', label: 'Meeting' },
+  { key: 'NOTE', label: 'Note' },
+  { key: 'TASK', label: 'Task' },
+  { key: 'PROPOSAL_SENT', label: 'Proposal Sent' },
+  { key: 'CONTRACT_SIGNED', label: 'Contract Signed' }
+]
+
+// Activity types that usually have a duration
+const TIMED_ACTIVITY_TYPES = ['CALL', 'MEETING']
+
+export function DealDetailsDialog({ dealId, stages, onOpenChange, onDealChanged }: DealDetailsDialogProps) {
+  const [deal, setDeal] = useState<DealDetails | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    title: '',
+    description: '',
+    value: '',
+    currency: 'USD',
+    stage: 'LEAD',
+    probability: '10',
+    expectedCloseDate: ''
+  })
+  const [activityForm, setActivityForm] = useState({
+    type: 'CALL',
+    title: '',
+    description: '',
+    duration: ''
+  })
+
+  const fetchDeal = useCallback(async () => {
+    if (!dealId) return
+    try {
+      const response = await fetch(`/api/deals/${dealId}`)
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load deal')
+        return
+      }
+      setDeal(data)
+      setForm({
+        title: data.title,
+        description: data.description || '',
+        value: data.value?.toString() ?? '',
+        currency: data.currency,
+        stage: data.stage,
+        probability: data.probability.toString(),
+        expectedCloseDate: data.expectedCloseDate ? data.expectedCloseDate.slice(0, 10) : ''
+      })
+    } catch (error) {
+      console.error('Error fetching deal:', error)
+      toast.error('Failed to load deal')
+    }
+  }, [dealId])
+
+  useEffect(() => {
+    setDeal(null)
+    fetchDeal()
+  }, [fetchDeal])
+
+  const getStageLabel = (stage: string) => stages.find(s => s.key === stage)?.label || stage
+
+  const handleSave = async () => {
+    if (!deal) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/deals/${deal.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description || null,
+          value: form.value === '' ? null : Number(form.value),
+          currency: form.currency,
+          stage: form.stage,
+          probability: Number(form.probability),
+          expectedCloseDate: form.expectedCloseDate || null
+        })
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update deal')
+        return
+      }
+      setDeal(data)
+      toast.success('Deal updated')
+      onDealChanged()
+    } catch (error) {
+      console.error('Error updating deal:', error)
+      toast.error('Failed to update deal')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deal || !confirm(`Delete "${deal.title}"? Its activities and history are deleted too.`)) return
+    try {
+      const response = await fetch(`/api/deals/${deal.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to delete deal')
+        return
+      }
+      toast.success('Deal deleted')
+      onOpenChange(false)
+      onDealChanged()
+    } catch (error) {
+      console.error('Error deleting deal:', error)
+      toast.error('Failed to delete deal')
+    }
+  }
+
+  const handleLogActivity = async () => {
+    if (!deal || !activityForm.title.trim()) return
+    try {
+      const response = await fetch(`/api/deals/${deal.id}/activities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: activityForm.type,
+          title: activityForm.title,
+          description: activityForm.description,
+          duration: activityForm.duration === '' ? null : Number(activityForm.duration)
+        })
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to log activity')
+        return
+      }
+      setDeal({ ...deal, activities: [data, ...deal.activities] })
+      setActivityForm({ type: activityForm.type, title: '', description: '', duration: '' })
+      onDealChanged()
+    } catch (error) {
+      console.error('Error logging activity:', error)
+      toast.error('Failed to log activity')
+    }
+  }
+
+  const handleDeleteActivity = async (activityId: string) => {
+    if (!deal || !confirm('Delete this activity?')) return
+    try {
+      const response = await fetch(`/api/deals/${deal.id}/activities/${activityId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to delete activity')
+        return
+      }
+      setDeal({ ...deal, activities: deal.activities.filter(a => a.id !== activityId) })
+      onDealChanged()
+    } catch (error) {
+      console.error('Error deleting activity:', error)
+      toast.error('Failed to delete activity')
+    }
+  }
+
+  return (
+    <Dialog open={!!dealId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{deal?.title || 'Deal'}</DialogTitle>
+        </DialogHeader>
+
+        {!deal ? (
+          <div className="py-8 text-center text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="deal-title">Title</Label>
+                <Input
+                  id="deal-title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Stage</Label>
+                <Select value={form.stage} onValueChange={(stage) => setForm({ ...form, stage })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map(stage => (
+                      <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deal-probability">Probability (%)</Label>
+                <Input
+                  id="deal-probability"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.probability}
+                  onChange={(e) => setForm({ ...form, probability: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deal-value">Value</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="deal-value"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  />
+                  <Input
+                    aria-label="Currency"
+                    className="w-24 uppercase"
+                    maxLength={3}
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deal-close-date">Expected Close Date</Label>
+                <Input
+                  id="deal-close-date"
+                  type="date"
+                  value={form.expectedCloseDate}
+                  onChange={(e) => setForm({ ...form, expectedCloseDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="deal-description">Description</Label>
+                <Textarea
+                  id="deal-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {deal.actualCloseDate && (
+              <p className="text-sm text-muted-foreground">
+                Closed on {new Date(deal.actualCloseDate).toLocaleDateString()}
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !form.title.trim()}>
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+
+            <Tabs defaultValue="activities">
+              <TabsList>
+                <TabsTrigger value="activities">Activities ({deal.activities.length})</TabsTrigger>
+                <TabsTrigger value="history">Stage History</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="activities" className="space-y-4 mt-4">
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                  <Select
+                    value={activityForm.type}
+                    onValueChange={(type) => setActivityForm({ ...activityForm, type })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ACTIVITY_TYPES.map(type => (
+                        <SelectItem key={type.key} value={type.key}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="sm:col-span-2"
+                    placeholder="What happened?"
+                    value={activityForm.title}
+                    onChange={(e) => setActivityForm({ ...activityForm, title: e.target.value })}
+                  />
+                  {TIMED_ACTIVITY_TYPES.includes(activityForm.type) && (
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Minutes"
+                      value={activityForm.duration}
+                      onChange={(e) => setActivityForm({ ...activityForm, duration: e.target.value })}
+                    />
+                  )}
+                  <Textarea
+                    className="sm:col-span-4"
+                    placeholder="Notes (optional)"
+                    value={activityForm.description}
+                    onChange={(e) => setActivityForm({ ...activityForm, description: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleLogActivity} disabled={!activityForm.title.trim()}>
+                    Log Activity
+                  </Button>
+                </div>
+
+                {deal.activities.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No activities logged yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {deal.activities.map(activity => (
+                      <div key={activity.id} className="flex items-start justify-between gap-2 border rounded-lg p-3">
+                        <div className="space-y-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">
+                              {ACTIVITY_TYPES.find(t => t.key === activity.type)?.label || activity.type}
+                            </Badge>
+                            <span className="text-sm font-medium break-words">{activity.title}</span>
+                          </div>
+                          {activity.description && (
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{activity.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            {activity.user.name} · {formatDistanceToNow(new Date(activity.date), { addSuffix: true })}
+                            {activity.duration ? (
+                              <>
+                                {' · '}
+                                <Clock className="h-3 w-3" />
+                                {activity.duration} min
+                              </>
+                            ) : null}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                          onClick={() => handleDeleteActivity(activity.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="history" className="space-y-2 mt-4">
+                {deal.stageHistory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No stage changes recorded</p>
+                ) : (
+                  deal.stageHistory.map(change => (
+                    <div key={change.id} className="flex items-center justify-between gap-2 border rounded-lg p-3 text-sm">
+                      <div className="flex items-center gap-2">
+                        {change.fromStage ? (
+                          <>
+                            <span>{getStageLabel(change.fromStage)}</span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Created as</span>
+                        )}
+                        <span className="font-medium">{getStageLabel(change.toStage)}</span>
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {change.changedBy.name} · {new Date(change.changedAt).toLocaleString()}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
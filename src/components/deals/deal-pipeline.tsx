@@ -19,6 +19,7 @@ import {
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { cn } from '@/lib/utils'
+import { DealDetailsDialog } from './deal-details-dialog'
 
 interface Deal {
   id: string
@@ -58,6 +59,22 @@ interface Deal {
   }
 }
 
+interface DealForecast {
+  baseCurrency: string
+  unconvertedCurrencies: string[]
+  totals: {
+    dealCount: number
+    pipelineValue: number
+    weightedValue: number
+  }
+  months: {
+    month: string
+    dealCount: number
+    pipelineValue: number
+    weightedValue: number
+  }[]
+}
+
 interface DealPipelineProps {
   onCreateDeal?: () => void
 }
@@ -75,6 +92,8 @@ const DEAL_STAGES = [
 export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
   const [deals, setDeals] = useState<Deal[]>([])
   const [loading, setLoading] = useState(true)
+  const [selectedDealId, setSelectedDealId] = useState<string | null>(null)
+  const [forecast, setForecast] = useState<DealForecast | null>(null)
   const [stats, setStats] = useState({
     totalDeals: 0,
     totalValue: 0,
@@ -85,8 +104,25 @@ export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
 
   useEffect(() => {
     fetchDeals()
+    fetchForecast()
   }, [])
 
+  const fetchForecast = async () => {
+    try {
+      const response = await fetch('/api/deals/forecast')
+      if (response.ok) {
+        setForecast(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching deal forecast:', error)
+    }
+  }
+
+  const handleDealChanged = () => {
+    fetchDeals()
+    fetchForecast()
+  }
+
   const fetchDeals = async () => {
     try {
       const response = await fetch('/api/deals')
@@ -134,6 +170,11 @@ export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
     }).format(amount)
   }
 
+  const formatMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number)
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -206,6 +247,37 @@ export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
         </Card>
       </div>
 
+      {/* Weighted Forecast */}
+      {forecast && forecast.months.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Weighted Forecast</CardTitle>
+            <span className="text-sm text-muted-foreground">
+              {formatCurrency(forecast.totals.weightedValue, forecast.baseCurrency)} of{' '}
+              {formatCurrency(forecast.totals.pipelineValue, forecast.baseCurrency)} open pipeline
+            </span>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+              {forecast.months.map((month) => (
+                <div key={month.month} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{formatMonth(month.month)}</p>
+                  <p className="text-lg font-semibold">{formatCurrency(month.weightedValue, forecast.baseCurrency)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {month.dealCount} {month.dealCount === 1 ? 'deal' : 'deals'}
+                  </p>
+                </div>
+              ))}
+            </div>
+            {forecast.unconvertedCurrencies.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Deals in {forecast.unconvertedCurrencies.join(', ')} are not included because no exchange rate is configured.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pipeline Board */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -248,7 +320,11 @@ export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
                     
                     <div className="space-y-2 min-h-[200px]">
                       {stageDeals.map((deal) => (
-                        <Card key={deal.id} className="p-3 hover:shadow-md transition-shadow cursor-pointer">
+                        <Card
+                          key={deal.id}
+                          className="p-3 hover:shadow-md transition-shadow cursor-pointer"
+                          onClick={() => setSelectedDealId(deal.id)}
+                        >
                           <div className="space-y-2">
                             <div className="flex items-start justify-between">
                               <h4 className="font-medium text-sm line-clamp-2">{deal.title}</h4>
@@ -308,6 +384,13 @@ export function DealPipeline({ onCreateDeal }: DealPipelineProps) {
           )}
         </CardContent>
       </Card>
+
+      <DealDetailsDialog
+        dealId={selectedDealId}
+        stages={DEAL_STAGES}
+        onOpenChange={(open) => !open && setSelectedDealId(null)}
+        onDealChanged={handleDealChanged}
+      />
     </div>
   )
 }
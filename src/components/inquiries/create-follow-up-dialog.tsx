@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { EMPTY_RECURRENCE, RecurrenceFields, toRecurrencePayload } from '@/components/tasks/recurrence-fields'
+
+const followUpSchema = z.object({
+  purpose: z.enum(['CALLBACK', 'SEND_SYLLABUS', 'FEE_DISCUSSION', 'CAMPUS_TOUR']),
+  dueAt: z.string().min(1, 'Due date is required'),
+  notes: z.string().optional(),
+})
+
+type FollowUpFormData = z.infer<typeof followUpSchema>
+
+interface Inquiry {
+  id: string
+  fullName: string
+}
+
+interface CreateFollowUpDialogProps {
+  inquiry: Inquiry
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+export function CreateFollowUpDialog({ inquiry, open, onOpenChange, onSuccess }: CreateFollowUpDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [recurrence, setRecurrence] = useState(EMPTY_RECURRENCE)
+
+  const form = useForm<FollowUpFormData>({
+    resolver: zodResolver(followUpSchema),
+    defaultValues: { purpose: 'CALLBACK' },
+  })
+
+  const onSubmit = async (data: FollowUpFormData) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/inquiries/${inquiry.id}/tasks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          purpose: data.purpose,
+          dueAt: new Date(data.dueAt).toISOString(),
+          notes: data.notes || undefined,
+          recurrence: toRecurrencePayload(recurrence),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create follow-up')
+      }
+
+      toast.success('Follow-up created successfully')
+      form.reset()
+      setRecurrence(EMPTY_RECURRENCE)
+      onSuccess()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create follow-up')
+      console.error('Error creating follow-up:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Follow-up - {inquiry.fullName}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="purpose">Purpose *</Label>
+            <Select
+              defaultValue="CALLBACK"
+              onValueChange={(value) => form.setValue('purpose', value as FollowUpFormData['purpose'])}
+            >
+              <SelectTrigger id="purpose">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="CALLBACK">Callback</SelectItem>
+                <SelectItem value="SEND_SYLLABUS">Send Syllabus</SelectItem>
+                <SelectItem value="FEE_DISCUSSION">Fee Discussion</SelectItem>
+                <SelectItem value="CAMPUS_TOUR">Campus Tour</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dueAt">Due *</Label>
+            <Input id="dueAt" type="datetime-local" {...form.register('dueAt')} />
+            {form.formState.errors.dueAt && (
+              <p className="text-sm text-red-600">{form.formState.errors.dueAt.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              {...form.register('notes')}
+              placeholder="What should be covered?"
+              rows={3}
+            />
+          </div>
+
+          <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Creating...' : 'Create Follow-up'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
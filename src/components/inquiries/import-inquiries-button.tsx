@@ -0,0 +1,28 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Upload } from 'lucide-react'
+import { ImportInquiriesDialog } from './import-inquiries-dialog'
+
+export function ImportInquiriesButton() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setIsDialogOpen(true)}
+        className="shadow-sm"
+        title="Import inquiries from a CSV or Excel file"
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        Import
+      </Button>
+      <ImportInquiriesDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </>
+  )
+}
@@ -0,0 +1,391 @@
+'use client'
+
+import { ChangeEvent, useMemo, useState } from 'react'
+import * as XLSX from 'xlsx'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { safeJsonParse } from '@/lib/utils'
+import {
+  applyColumnMapping,
+  DuplicateStrategy,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRowResult,
+  ImportRowStatus,
+  ImportSummary,
+  MAX_IMPORT_ROWS,
+} from '@/lib/inquiry-import'
+
+interface ImportInquiriesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+const NOT_MAPPED = '__none__'
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+}
+
+const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  skip: 'Skip - keep the existing inquiry',
+  merge: 'Merge - only fill in empty fields',
+  overwrite: 'Overwrite - replace with file values',
+}
+
+export function ImportInquiriesDialog({ open, onOpenChange }: ImportInquiriesDialogProps) {
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rawRows, setRawRows] = useState<Record<string, unknown>[]>([])
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({})
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip')
+  const [results, setResults] = useState<ImportRowResult[]>([])
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const missingRequiredFields = useMemo(
+    () => IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]),
+    [mapping]
+  )
+
+  const resetState = () => {
+    setStep('upload')
+    setFileName('')
+    setHeaders([])
+    setRawRows([])
+    setMapping({})
+    setDuplicateStrategy('skip')
+    setResults([])
+    setSummary(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      const importedAny = step === 'done' && summary && (summary.created > 0 || summary.updated > 0)
+      resetState()
+      if (importedAny) {
+        // Refresh the inquiries table (same approach as the new inquiry dialog)
+        window.location.reload()
+      }
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      const buffer = await file.arrayBuffer()
+      const workbook = XLSX.read(buffer, { type: 'array' })
+      const sheet = workbook.Sheets[workbook.SheetNames[0]]
+      if (!sheet) {
+        toast.error('The file does not contain any sheets')
+        return
+      }
+
+      const headerRow = (XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || [])
+        .map(header => String(header ?? '').trim())
+        .filter(Boolean)
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false })
+
+      if (headerRow.length === 0 || rows.length === 0) {
+        toast.error('The file is empty or has no header row')
+        return
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        toast.error(`A single import can contain at most ${MAX_IMPORT_ROWS} rows (file has ${rows.length})`)
+        return
+      }
+
+      setFileName(file.name)
+      setHeaders(headerRow)
+      setRawRows(rows)
+      setMapping(guessColumnMapping(headerRow))
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      toast.error('Could not read the file. Please upload a valid CSV or XLSX file.')
+    } finally {
+      event.target.value = ''
+    }
+  }
+
+  const submitRows = async (dryRun: boolean) => {
+    setIsLoading(true)
+    try {
+      const rows = rawRows.map(row => applyColumnMapping(row, mapping))
+      const response = await fetch('/api/inquiries/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rows, duplicateStrategy, dryRun }),
+      })
+
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed')
+      }
+
+      setResults(data.results)
+      setSummary(data.summary)
+      setStep(dryRun ? 'preview' : 'done')
+
+      if (!dryRun) {
+        toast.success(`Import finished: ${data.summary.created} created, ${data.summary.updated} updated`)
+      }
+    } catch (error) {
+      console.error('Error importing inquiries:', error)
+      toast.error(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const downloadReport = () => {
+    const reportRows = results.map(result => ({
+      Row: result.rowNumber,
+      Status: result.status,
+      'Full Name': result.fullName || '',
+      Phone: result.phone || '',
+      'Inquiry ID': result.seekerId || '',
+      Message: result.message || '',
+      Errors: result.errors.join('; '),
+    }))
+    const worksheet = XLSX.utils.json_to_sheet(reportRows)
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Import Results')
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'inquiries'
+    XLSX.writeFile(workbook, `${baseName}-import-report-${new Date().toISOString().split('T')[0]}.xlsx`)
+  }
+
+  const previewCounts = useMemo(() => ({
+    valid: results.filter(r => r.status === 'valid').length,
+    duplicate: results.filter(r => r.status === 'duplicate').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    error: results.filter(r => r.status === 'error').length,
+  }), [results])
+
+  const renderResultsTable = () => (
+    <div className="max-h-80 overflow-auto border rounded-md">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Row</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Phone</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map(result => (
+            <TableRow key={result.rowNumber}>
+              <TableCell>{result.rowNumber}</TableCell>
+              <TableCell>{result.fullName || '-'}</TableCell>
+              <TableCell>{result.phone || '-'}</TableCell>
+              <TableCell>
+                <Badge className={STATUS_STYLES[result.status]}>{result.status}</Badge>
+              </TableCell>
+              <TableCell className="text-xs">
+                {result.errors.length > 0 ? (
+                  <span className="text-red-600">{result.errors.join('; ')}</span>
+                ) : (
+                  <span className="text-gray-600">{result.message}</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Inquiries</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file of leads, map its columns and review the rows before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-lg p-10 cursor-pointer hover:border-primary hover:bg-gray-50">
+              <Upload className="h-8 w-8 text-gray-400" />
+              <span className="text-sm font-medium">Click to choose a .csv, .xlsx or .xls file</span>
+              <span className="text-xs text-gray-500">The first row must contain column headers. Up to {MAX_IMPORT_ROWS} rows.</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </label>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>{fileName} - {rawRows.length} rows</span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label} {field.required && '*'}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] || NOT_MAPPED}
+                    onValueChange={(value) => setMapping(prev => ({
+                      ...prev,
+                      [field.key]: value === NOT_MAPPED ? undefined : value,
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {mapping.preferredPrograms && (
+              <p className="text-xs text-gray-500">
+                Preferred programs must match existing program names. Separate multiple programs with commas or semicolons.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>When the phone number already exists</Label>
+              <Select value={duplicateStrategy} onValueChange={(value) => setDuplicateStrategy(value as DuplicateStrategy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                    <SelectItem key={strategy} value={strategy}>{DUPLICATE_STRATEGY_LABELS[strategy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {missingRequiredFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map the required fields: {missingRequiredFields.map(field => field.label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={resetState}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                disabled={isLoading || missingRequiredFields.length > 0}
+                onClick={() => submitRows(true)}
+              >
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview Import
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className={STATUS_STYLES.valid}>{previewCounts.valid} new</Badge>
+              <Badge className={STATUS_STYLES.duplicate}>{previewCounts.duplicate} duplicates ({duplicateStrategy})</Badge>
+              <Badge className={STATUS_STYLES.skipped}>{previewCounts.skipped} skipped</Badge>
+              <Badge className={STATUS_STYLES.error}>{previewCounts.error} with errors</Badge>
+            </div>
+
+            {renderResultsTable()}
+
+            <p className="text-xs text-gray-500">
+              Rows with errors will not be imported. Fix them in the file and import again, or continue with the valid rows.
+            </p>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setStep('map')}>
+                Back to Mapping
+              </Button>
+              <Button
+                type="button"
+                disabled={isLoading || (previewCounts.valid === 0 && (previewCounts.duplicate === 0 || duplicateStrategy === 'skip'))}
+                onClick={() => submitRows(false)}
+              >
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import Rows
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && summary && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="rounded-md border p-3 text-center">
+                <div className="text-2xl font-semibold text-green-700">{summary.created}</div>
+                <div className="text-xs text-gray-600">Created</div>
+              </div>
+              <div className="rounded-md border p-3 text-center">
+                <div className="text-2xl font-semibold text-blue-700">{summary.updated}</div>
+                <div className="text-xs text-gray-600">Updated</div>
+              </div>
+              <div className="rounded-md border p-3 text-center">
+                <div className="text-2xl font-semibold text-gray-700">{summary.skipped}</div>
+                <div className="text-xs text-gray-600">Skipped</div>
+              </div>
+              <div className="rounded-md border p-3 text-center">
+                <div className="text-2xl font-semibold text-red-700">{summary.failed}</div>
+                <div className="text-xs text-gray-600">Failed</div>
+              </div>
+            </div>
+
+            {renderResultsTable()}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={downloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
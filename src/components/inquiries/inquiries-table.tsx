@@ -9,9 +9,11 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Eye, Phone, MessageSquare, Mail, User, Loader2, Pencil, Trash2 } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Eye, Phone, MessageSquare, Mail, User, Loader2, Pencil, Trash2, UserCog } from 'lucide-react'
 import { InquiryViewDialog } from './inquiry-view-dialog'
 import { EditInquiryDialog } from './edit-inquiry-dialog'
+import { ReassignInquiriesDialog } from './reassign-inquiries-dialog'
 import { InquirySearchFilter } from './inquiry-search-filter'
 import { safeJsonParse } from '@/lib/utils'
 import { usePermissions } from '@/hooks/use-permissions'
@@ -69,6 +71,13 @@ interface Inquiry {
   createdBy?: {
     name: string
   }
+  assignments?: {
+    assignedAt: string
+    coordinator: {
+      id: string
+      name: string
+    }
+  }[]
 }
 
 export function InquiriesTable() {
@@ -79,6 +88,9 @@ export function InquiriesTable() {
   const [loading, setLoading] = React.useState(true)
   const [selectedInquiry, setSelectedInquiry] = React.useState<Inquiry | null>(null)
   const [editingInquiry, setEditingInquiry] = React.useState<Inquiry | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // Inquiries being reassigned - a single row or the bulk selection
+  const [reassigning, setReassigning] = useState<Inquiry[] | null>(null)
   const [page, setPage] = useState(1)
   const [hasMore, setHasMore] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
@@ -321,6 +333,29 @@ export function InquiriesTable() {
     return defaultColors[source] || 'bg-gray-100 text-gray-800'
   }
 
+  const canReassign = hasPermission('UPDATE_SEEKER')
+
+  // Newest assignment first (see GET /api/inquiries)
+  const getAssigneeName = (inquiry: Inquiry) => inquiry.assignments?.[0]?.coordinator.name
+
+  const allSelected = filteredInquiries.length > 0 && filteredInquiries.every(inquiry => selectedIds.has(inquiry.id))
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(filteredInquiries.map(inquiry => inquiry.id)))
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
   if (loading) {
     return (
       <Card className="shadow-sm">
@@ -348,9 +383,25 @@ export function InquiriesTable() {
         <CardHeader className="bg-gray-50/50 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg font-semibold text-gray-900">All Inquiries</CardTitle>
-            <Badge variant="secondary" className="text-xs font-medium">
-              {filteredInquiries.length} {filteredInquiries.length === 1 ? 'inquiry' : 'inquiries'}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {canReassign && selectedIds.size > 0 && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => setReassigning(filteredInquiries.filter(inquiry => selectedIds.has(inquiry.id)))}
+                  >
+                    <UserCog className="h-4 w-4 mr-1" />
+                    Reassign {selectedIds.size}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                    Clear
+                  </Button>
+                </>
+              )}
+              <Badge variant="secondary" className="text-xs font-medium">
+                {filteredInquiries.length} {filteredInquiries.length === 1 ? 'inquiry' : 'inquiries'}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="p-0">
@@ -370,7 +421,18 @@ export function InquiriesTable() {
               <Table className="w-full" containerClassName="overflow-x-visible">
                 <TableHeader className="sticky top-0 bg-white z-30 shadow-sm">
                   <TableRow className="hover:bg-gray-50/50">
-                    <TableHead className="font-semibold text-gray-900 min-w-[150px] sticky left-0 bg-white z-50 border-r shadow-[2px_0_4px_rgba(0,0,0,0.05)]">Name</TableHead>
+                    <TableHead className="font-semibold text-gray-900 min-w-[150px] sticky left-0 bg-white z-50 border-r shadow-[2px_0_4px_rgba(0,0,0,0.05)]">
+                      <div className="flex items-center gap-2">
+                        {canReassign && (
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={toggleSelectAll}
+                            aria-label="Select all inquiries"
+                          />
+                        )}
+                        Name
+                      </div>
+                    </TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[120px]">Phone</TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[130px]">WhatsApp</TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[180px]">Email</TableHead>
@@ -387,6 +449,7 @@ export function InquiriesTable() {
                     <TableHead className="font-semibold text-gray-900 min-w-[120px]">Stage</TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[120px]">Source</TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[100px]">Created</TableHead>
+                    <TableHead className="font-semibold text-gray-900 min-w-[140px]">Assigned To</TableHead>
                     <TableHead className="font-semibold text-gray-900 min-w-[200px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -398,7 +461,16 @@ export function InquiriesTable() {
                           className={`absolute left-0 inset-y-0 w-2 rounded-r ${getNameIndicatorColor(inquiry)}`}
                           aria-hidden="true"
                         />
-                        {inquiry.fullName}
+                        <div className="flex items-center gap-2">
+                          {canReassign && (
+                            <Checkbox
+                              checked={selectedIds.has(inquiry.id)}
+                              onCheckedChange={() => toggleSelected(inquiry.id)}
+                              aria-label={`Select ${inquiry.fullName}`}
+                            />
+                          )}
+                          <span className="truncate">{inquiry.fullName}</span>
+                        </div>
                       </TableCell>
                       <TableCell className="text-gray-700 whitespace-nowrap">{inquiry.phone}</TableCell>
                       <TableCell className="whitespace-nowrap">
@@ -546,6 +618,9 @@ export function InquiriesTable() {
                       <TableCell className="text-gray-700 text-sm whitespace-nowrap">
                         {new Date(inquiry.createdAt).toLocaleDateString()}
                       </TableCell>
+                      <TableCell className="text-gray-700 whitespace-nowrap">
+                        {getAssigneeName(inquiry) || <span className="text-gray-400">Unassigned</span>}
+                      </TableCell>
                       <TableCell className="min-w-[200px]">
                         <div className="flex items-center space-x-1">
                           <Button
@@ -568,6 +643,17 @@ export function InquiriesTable() {
                               <Pencil className="h-4 w-4" />
                             </Button>
                           )}
+                          {canReassign && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0 hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+                              onClick={() => setReassigning([inquiry])}
+                              title="Reassign"
+                            >
+                              <UserCog className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm"
@@ -671,6 +757,17 @@ export function InquiriesTable() {
                           <Pencil className="h-4 w-4" />
                         </Button>
                       )}
+                      {canReassign && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 hover:bg-indigo-50 hover:text-indigo-600"
+                          onClick={() => setReassigning([inquiry])}
+                          title="Reassign"
+                        >
+                          <UserCog className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button 
                         variant="ghost" 
                         size="sm"
@@ -808,6 +905,7 @@ export function InquiriesTable() {
 
                   <div className="text-xs text-gray-500">
                     Created: {new Date(inquiry.createdAt).toLocaleDateString()}
+                    {getAssigneeName(inquiry) && <> · Assigned to {getAssigneeName(inquiry)}</>}
                   </div>
                 </div>
               </Card>
@@ -846,6 +944,20 @@ export function InquiriesTable() {
           }}
         />
       )}
+
+      {reassigning && (
+        <ReassignInquiriesDialog
+          seekerIds={reassigning.map(inquiry => inquiry.id)}
+          currentCoordinatorId={reassigning.length === 1 ? reassigning[0].assignments?.[0]?.coordinator.id : undefined}
+          open={!!reassigning}
+          onOpenChange={() => setReassigning(null)}
+          onSuccess={() => {
+            setReassigning(null)
+            setSelectedIds(new Set())
+            fetchInitialData()
+          }}
+        />
+      )}
     </>
   )
 }
@@ -7,8 +7,11 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { Phone, MessageSquare, Mail, Calendar, User, MapPin, Clock, Sparkles, HelpCircle, FileText } from 'lucide-react'
+import { Phone, MessageSquare, Mail, Calendar, User, MapPin, Clock, Sparkles, HelpCircle, FileText, Repeat } from 'lucide-react'
 import { LogInteractionDialog } from '@/components/inquiries/log-interaction-dialog'
+import { CreateFollowUpDialog } from '@/components/inquiries/create-follow-up-dialog'
+import { RecurrenceSummary, describeRecurrence } from '@/components/tasks/recurrence-fields'
+import { RecurrenceSeriesDialog } from '@/components/tasks/recurrence-series-dialog'
 
 interface Inquiry {
   id: string
@@ -78,6 +81,22 @@ interface FollowUpTask {
   user: {
     name: string
   }
+  recurrence?: RecurrenceSummary | null
+}
+
+interface ChannelSuppression {
+  channel: 'EMAIL' | 'WHATSAPP' | 'CALL'
+  suppressed: boolean
+  sourceLabel: string | null
+  reason: string | null
+  createdAt: string | null
+  createdBy: string | null
+}
+
+const SUPPRESSION_CHANNEL_LABELS: Record<ChannelSuppression['channel'], string> = {
+  EMAIL: 'Email',
+  WHATSAPP: 'WhatsApp',
+  CALL: 'Calls',
 }
 
 interface InquiryViewDialogProps {
@@ -100,6 +119,10 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
   const [loading, setLoading] = useState(false)
   const [loadingQA, setLoadingQA] = useState(false)
   const [showLogInteraction, setShowLogInteraction] = useState(false)
+  const [showCreateFollowUp, setShowCreateFollowUp] = useState(false)
+  const [seriesId, setSeriesId] = useState<string | null>(null)
+  const [suppressions, setSuppressions] = useState<ChannelSuppression[]>([])
+  const [updatingChannel, setUpdatingChannel] = useState<string | null>(null)
 
   const latestCallDurationMinutes = (() => {
     const call = interactions.find(
@@ -116,9 +139,10 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
   const fetchInquiryDetails = async () => {
     setLoading(true)
     try {
-      const [interactionsRes, tasksRes] = await Promise.all([
+      const [interactionsRes, tasksRes, suppressionsRes] = await Promise.all([
         fetch(`/api/inquiries/${inquiry.id}/interactions`),
-        fetch(`/api/inquiries/${inquiry.id}/tasks`)
+        fetch(`/api/inquiries/${inquiry.id}/tasks`),
+        fetch(`/api/inquiries/${inquiry.id}/suppressions`)
       ])
 
       if (interactionsRes.ok) {
@@ -130,6 +154,11 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
         const tasksData = await tasksRes.json()
         setFollowUpTasks(tasksData)
       }
+
+      if (suppressionsRes.ok) {
+        const suppressionsData = await suppressionsRes.json()
+        setSuppressions(suppressionsData)
+      }
     } catch (error) {
       console.error('Error fetching inquiry details:', error)
     } finally {
@@ -137,6 +166,35 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
     }
   }
 
+  const toggleSuppression = async (suppression: ChannelSuppression) => {
+    const label = SUPPRESSION_CHANNEL_LABELS[suppression.channel]
+    const confirmMessage = suppression.suppressed
+      ? `Allow ${label.toLowerCase()} contact with ${inquiry.fullName} again? Only do this if they have opted back in.`
+      : `Opt ${inquiry.fullName} out of ${label.toLowerCase()}? They will be skipped by bulk sends.`
+    if (!confirm(confirmMessage)) return
+
+    setUpdatingChannel(suppression.channel)
+    try {
+      const response = suppression.suppressed
+        ? await fetch(`/api/inquiries/${inquiry.id}/suppressions?channel=${suppression.channel}`, { method: 'DELETE' })
+        : await fetch(`/api/inquiries/${inquiry.id}/suppressions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ channels: [suppression.channel] }),
+        })
+      const data = await response.json()
+      if (response.ok) {
+        setSuppressions(data)
+      } else {
+        alert(data.error || 'Failed to update contact preferences')
+      }
+    } catch (error) {
+      console.error('Error updating contact preferences:', error)
+    } finally {
+      setUpdatingChannel(null)
+    }
+  }
+
   const [programDetails, setProgramDetails] = useState<Array<{
     id: string
     name: string
@@ -342,6 +400,39 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
                         <Badge variant="outline" className="text-xs text-gray-500">Not Given</Badge>
                       )}
                     </div>
+                    {suppressions.length > 0 && (
+                      <div className="space-y-2">
+                        <span className="text-xs sm:text-sm text-gray-600">Contact Preferences:</span>
+                        {suppressions.map((suppression) => (
+                          <div key={suppression.channel} className="flex items-center justify-between gap-2 flex-wrap">
+                            <div className="flex items-center space-x-2 flex-wrap gap-1">
+                              <span className="text-xs sm:text-sm w-20">{SUPPRESSION_CHANNEL_LABELS[suppression.channel]}</span>
+                              {suppression.suppressed ? (
+                                <Badge className="bg-red-100 text-red-800 border-red-200 text-xs">Opted Out</Badge>
+                              ) : (
+                                <Badge className="bg-green-50 text-green-700 border-green-200 text-xs">Allowed</Badge>
+                              )}
+                              {suppression.suppressed && suppression.sourceLabel && (
+                                <span className="text-xs text-gray-500" title={suppression.reason || undefined}>
+                                  {suppression.sourceLabel}
+                                  {suppression.createdAt && ` on ${new Date(suppression.createdAt).toLocaleDateString()}`}
+                                  {suppression.createdBy && ` by ${suppression.createdBy}`}
+                                </span>
+                              )}
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 text-xs"
+                              disabled={updatingChannel === suppression.channel}
+                              onClick={() => toggleSuppression(suppression)}
+                            >
+                              {suppression.suppressed ? 'Allow' : 'Opt Out'}
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {inquiry.preferredStatus && (
                       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-2">
                         <span className="text-xs sm:text-sm text-gray-600">Preferred Status:</span>
@@ -636,7 +727,7 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
                     </p>
                   )}
                 </div>
-                <Button className="w-full sm:w-auto mt-2 sm:mt-0 shadow-sm">
+                <Button className="w-full sm:w-auto mt-2 sm:mt-0 shadow-sm" onClick={() => setShowCreateFollowUp(true)}>
                   Create Task
                 </Button>
               </div>
@@ -700,6 +791,16 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
                                         Manual
                                       </Badge>
                                     )}
+                                    {task.recurrence && (
+                                      <button
+                                        type="button"
+                                        className="mt-1.5 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                                        onClick={() => setSeriesId(task.recurrence!.id)}
+                                      >
+                                        <Repeat className="h-3 w-3" />
+                                        {describeRecurrence(task.recurrence)}
+                                      </button>
+                                    )}
                                   </TableCell>
                                   <TableCell>
                                     <Badge variant="outline" className="text-xs font-medium">
@@ -770,6 +871,16 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
                                       Manual
                                     </Badge>
                                   )}
+                                  {task.recurrence && (
+                                    <button
+                                      type="button"
+                                      className="mt-1.5 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                                      onClick={() => setSeriesId(task.recurrence!.id)}
+                                    >
+                                      <Repeat className="h-3 w-3" />
+                                      {describeRecurrence(task.recurrence)}
+                                    </button>
+                                  )}
                                 </div>
                                 <Badge className={`${getTaskStatusColor(task.status)} text-xs font-medium shadow-sm`}>
                                   {task.status}
@@ -840,6 +951,22 @@ export function InquiryViewDialog({ inquiry, open, onOpenChange }: InquiryViewDi
           }}
         />
       )}
+
+      <CreateFollowUpDialog
+        inquiry={inquiry}
+        open={showCreateFollowUp}
+        onOpenChange={setShowCreateFollowUp}
+        onSuccess={() => {
+          fetchInquiryDetails()
+          setShowCreateFollowUp(false)
+        }}
+      />
+
+      <RecurrenceSeriesDialog
+        recurrenceId={seriesId}
+        onOpenChange={(open) => !open && setSeriesId(null)}
+        onSeriesChanged={fetchInquiryDetails}
+      />
     </>
   )
 }
@@ -0,0 +1,123 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { safeJsonParse } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface ReassignInquiriesDialogProps {
+  seekerIds: string[]
+  // Pre-selects the current coordinator when reassigning a single inquiry
+  currentCoordinatorId?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+interface Coordinator {
+  id: string
+  name: string
+  email: string
+}
+
+export function ReassignInquiriesDialog({
+  seekerIds,
+  currentCoordinatorId,
+  open,
+  onOpenChange,
+  onSuccess,
+}: ReassignInquiriesDialogProps) {
+  const [coordinators, setCoordinators] = useState<Coordinator[]>([])
+  const [coordinatorId, setCoordinatorId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    setCoordinatorId(currentCoordinatorId || '')
+    const fetchCoordinators = async () => {
+      try {
+        const response = await fetch('/api/users/basic')
+        if (response.ok) {
+          setCoordinators(await safeJsonParse(response))
+        }
+      } catch (error) {
+        console.error('Error fetching coordinators:', error)
+      }
+    }
+    fetchCoordinators()
+  }, [open, currentCoordinatorId])
+
+  const handleReassign = async () => {
+    if (!coordinatorId) return
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/inquiries/assign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seekerIds, coordinatorId }),
+      })
+      const data = await safeJsonParse(response)
+      if (response.ok) {
+        toast.success(
+          `${data.reassigned} ${data.reassigned === 1 ? 'inquiry' : 'inquiries'} assigned to ${data.coordinator.name}`
+        )
+        onSuccess()
+      } else {
+        toast.error(data.error || 'Failed to reassign inquiries')
+      }
+    } catch (error) {
+      console.error('Error reassigning inquiries:', error)
+      toast.error('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reassign {seekerIds.length === 1 ? 'Inquiry' : `${seekerIds.length} Inquiries`}</DialogTitle>
+          <DialogDescription>
+            The new coordinator is notified and takes over any open follow-up tasks.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="reassign-coordinator">Coordinator</Label>
+          <Select value={coordinatorId} onValueChange={setCoordinatorId}>
+            <SelectTrigger id="reassign-coordinator" className="mt-2">
+              <SelectValue placeholder="Select a coordinator" />
+            </SelectTrigger>
+            <SelectContent>
+              {coordinators.map(coordinator => (
+                <SelectItem key={coordinator.id} value={coordinator.id}>
+                  {coordinator.name} ({coordinator.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleReassign} disabled={saving || !coordinatorId}>
+            {saving ? 'Reassigning...' : 'Reassign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,7 +3,6 @@
 import { Sidebar } from './sidebar'
 import { HeaderSettings } from './header-settings'
 import { NotificationPanel } from '@/components/notifications/notification-panel'
-import { useMeetingReminderService } from '@/services/meeting-reminder-service'
 import { ClientOnly } from '@/components/ui/client-only'
 import { useState } from 'react'
 import { Menu } from 'lucide-react'
@@ -11,12 +10,6 @@ import { Button } from '@/components/ui/button'
 import { useTheme } from '@/lib/theme-provider'
 import { cn } from '@/lib/utils'
 
-// Component to initialize meeting reminder service
-function MeetingReminderService() {
-  useMeetingReminderService()
-  return null
-}
-
 interface DashboardLayoutProps {
   children: React.ReactNode
 }
@@ -27,10 +20,6 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   return (
     <div className="flex h-screen bg-background">
-      {/* Initialize meeting reminder service only on client side */}
-      <ClientOnly>
-        <MeetingReminderService />
-      </ClientOnly>
       {/* Mobile sidebar */}
       <div className={`fixed inset-0 z-50 lg:hidden ${sidebarOpen ? 'block' : 'hidden'}`}>
         <div className="fixed inset-0 bg-black/50" onClick={() => setSidebarOpen(false)} />
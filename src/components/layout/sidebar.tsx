@@ -28,7 +28,9 @@ import {
   ChevronRight,
   FileText,
   BookOpen,
-  Sparkles
+  Sparkles,
+  Building2,
+  CalendarClock
 } from 'lucide-react'
 import { NotificationBell } from '@/components/notifications/notification-bell'
 import { Button } from '@/components/ui/button'
@@ -80,6 +82,12 @@ const navigation: NavigationItem[] = [
     icon: FolderOpen,
     permissions: ['READ_PROJECT']
   },
+  { 
+    name: 'Clients', 
+    href: '/clients', 
+    icon: Building2,
+    permissions: ['READ_CLIENT']
+  },
   { 
     name: 'Notebooks', 
     href: '/notebooks', 
@@ -98,6 +106,12 @@ const navigation: NavigationItem[] = [
     icon: FileText,
     permissions: ['READ_CAMPAIGN', 'CREATE_CAMPAIGN']
   },
+  { 
+    name: 'Content Calendar', 
+    href: '/posts/calendar', 
+    icon: CalendarClock,
+    permissions: ['READ_CAMPAIGN', 'CREATE_CAMPAIGN']
+  },
   { 
     name: 'Trash Bin', 
     href: '/trash', 
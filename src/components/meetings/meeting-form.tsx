@@ -7,12 +7,14 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
-import { CalendarIcon, Clock, MapPin, User, FileText } from 'lucide-react'
+import { CalendarIcon, Clock, MapPin, User, FileText, Bell } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
 import { useNotification } from '@/hooks/use-notification'
+import { MEETING_REMINDER_OPTIONS, getMeetingReminderOffsets, DEFAULT_MEETING_REMINDER_OFFSETS } from '@/lib/meeting-reminders'
 
 interface Meeting {
   id: string
@@ -30,6 +32,7 @@ interface Meeting {
   meetingPassword?: string
   agenda?: string
   attendees?: string
+  reminderOffsets?: string | null
 }
 
 interface User {
@@ -61,9 +64,9 @@ export function MeetingForm({ meeting, users, onSubmit, onClose }: MeetingFormPr
     meetingId: '',
     meetingPassword: '',
     agenda: '',
-    attendees: '',
-    reminderMinutes: '15'
+    attendees: ''
   })
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(DEFAULT_MEETING_REMINDER_OFFSETS)
 
   const [startDate, setStartDate] = useState<Date>()
   const [endDate, setEndDate] = useState<Date>()
@@ -90,9 +93,9 @@ export function MeetingForm({ meeting, users, onSubmit, onClose }: MeetingFormPr
         meetingId: meeting.meetingId || '',
         meetingPassword: meeting.meetingPassword || '',
         agenda: meeting.agenda || '',
-        attendees: meeting.attendees || '',
-        reminderMinutes: '15'
+        attendees: meeting.attendees || ''
       })
+      setReminderOffsets(getMeetingReminderOffsets(meeting.reminderOffsets))
       
       setStartDate(start)
       setEndDate(end)
@@ -101,6 +104,13 @@ export function MeetingForm({ meeting, users, onSubmit, onClose }: MeetingFormPr
     }
   }, [meeting])
 
+  const toggleReminderOffset = (offset: number, checked: boolean) => {
+    setReminderOffsets(prev => checked
+      ? Array.from(new Set([...prev, offset])).sort((a, b) => b - a)
+      : prev.filter(value => value !== offset)
+    )
+  }
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     if (errors[field]) {
@@ -236,7 +246,7 @@ export function MeetingForm({ meeting, users, onSubmit, onClose }: MeetingFormPr
     }
 
     // Ensure we have properly formatted datetime strings
-    const submitData = { ...formData }
+    const submitData = { ...formData, reminderOffsets }
     
     if (startDate && startTime) {
       const [hours, minutes] = startTime.split(':')
@@ -542,23 +552,27 @@ export function MeetingForm({ meeting, users, onSubmit, onClose }: MeetingFormPr
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="reminderMinutes">Reminder</Label>
-            <Select
-              value={formData.reminderMinutes}
-              onValueChange={(value) => handleInputChange('reminderMinutes', value)}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select reminder time" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="5">5 minutes before</SelectItem>
-                <SelectItem value="15">15 minutes before</SelectItem>
-                <SelectItem value="30">30 minutes before</SelectItem>
-                <SelectItem value="60">1 hour before</SelectItem>
-                <SelectItem value="1440">1 day before</SelectItem>
-                <SelectItem value="0">No reminder</SelectItem>
-              </SelectContent>
-            </Select>
+            <Label>Reminders</Label>
+            <div className="flex items-start space-x-2">
+              <Bell className="h-4 w-4 text-muted-foreground mt-1" />
+              <div className="grid grid-cols-2 gap-2 flex-1">
+                {MEETING_REMINDER_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`reminder-${option.value}`}
+                      checked={reminderOffsets.includes(option.value)}
+                      onCheckedChange={(checked) => toggleReminderOffset(option.value, checked as boolean)}
+                    />
+                    <Label htmlFor={`reminder-${option.value}`} className="font-normal">
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Reminders are sent as notifications and by email to the organizer and attendees
+            </p>
           </div>
 
           <div className="space-y-2">
@@ -9,6 +9,7 @@ import { Switch } from '@/components/ui/switch'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   ArrowLeft, 
   Save,
@@ -21,6 +22,7 @@ import {
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
+import { NOTE_REMINDER_RECURRENCES } from '@/lib/note-reminders'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -43,6 +45,8 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
   const [hasReminder, setHasReminder] = useState(false)
   const [reminderDate, setReminderDate] = useState<Date>()
   const [reminderTime, setReminderTime] = useState('')
+  const [reminderRecurrence, setReminderRecurrence] = useState('NONE')
+  const [reminderEmail, setReminderEmail] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const spaceSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -62,6 +66,8 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
         setIcon(data.icon || '')
         setIsFavorite(data.isFavorite || false)
         setHasReminder(data.hasReminder || false)
+        setReminderRecurrence(data.reminderRecurrence || 'NONE')
+        setReminderEmail(data.reminderEmail || false)
         
         if (data.reminderDate) {
           const reminder = new Date(data.reminderDate)
@@ -81,6 +87,24 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
     
     setSaving(true)
     try {
+      const updatedReminderDate = hasReminder && reminderDate ? (() => {
+        const [hours, minutes] = reminderTime ? reminderTime.split(':').map(Number) : [9, 0]
+        const dateTime = new Date(reminderDate)
+        dateTime.setHours(hours || 9, minutes || 0, 0, 0)
+        return dateTime.toISOString()
+      })() : null
+      const updatedRecurrence = hasReminder && reminderRecurrence !== 'NONE' ? reminderRecurrence : null
+      const updatedReminderEmail = hasReminder && reminderEmail
+
+      // Only send reminder fields that changed, so a save doesn't re-arm a reminder
+      // (recurring reminders move their date forward on the server after each delivery)
+      const reminderChanged =
+        hasReminder !== !!note.hasReminder ||
+        (updatedReminderDate ? new Date(updatedReminderDate).getTime() : null) !==
+          (note.reminderDate ? new Date(note.reminderDate).getTime() : null) ||
+        updatedRecurrence !== (note.reminderRecurrence || null) ||
+        updatedReminderEmail !== !!note.reminderEmail
+
       const response = await fetch(`/api/notes/${noteId}`, {
         method: 'PUT',
         headers: {
@@ -91,13 +115,12 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
           content,
           icon,
           isFavorite,
-          hasReminder,
-          reminderDate: hasReminder && reminderDate ? (() => {
-            const [hours, minutes] = reminderTime ? reminderTime.split(':').map(Number) : [9, 0]
-            const dateTime = new Date(reminderDate)
-            dateTime.setHours(hours || 9, minutes || 0, 0, 0)
-            return dateTime.toISOString()
-          })() : null
+          ...(reminderChanged && {
+            hasReminder,
+            reminderDate: updatedReminderDate,
+            reminderRecurrence: updatedRecurrence,
+            reminderEmail: updatedReminderEmail
+          })
         })
       })
 
@@ -114,13 +137,6 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
           }, 2000)
         }
         // Update note state to reflect saved changes
-        const updatedReminderDate = hasReminder && reminderDate ? (() => {
-          const [hours, minutes] = reminderTime ? reminderTime.split(':').map(Number) : [9, 0]
-          const dateTime = new Date(reminderDate)
-          dateTime.setHours(hours || 9, minutes || 0, 0, 0)
-          return dateTime.toISOString()
-        })() : null
-        
         setNote((prev: any) => ({ 
           ...prev, 
           title, 
@@ -128,7 +144,9 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
           icon, 
           isFavorite,
           hasReminder,
-          reminderDate: updatedReminderDate
+          reminderDate: updatedReminderDate,
+          reminderRecurrence: updatedRecurrence,
+          reminderEmail: updatedReminderEmail
         }))
       } else {
         alert('Failed to save note')
@@ -139,7 +157,7 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
     } finally {
       setSaving(false)
     }
-  }, [noteId, title, content, icon, isFavorite, hasReminder, reminderDate, reminderTime, saving, loading, note])
+  }, [noteId, title, content, icon, isFavorite, hasReminder, reminderDate, reminderTime, reminderRecurrence, reminderEmail, saving, loading, note])
 
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this note?')) {
@@ -374,9 +392,43 @@ export function NoteEditor({ notebookId, noteId }: NoteEditorProps) {
               </div>
             </div>
             
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-sm">Repeat</Label>
+                <Select
+                  value={reminderRecurrence}
+                  onValueChange={setReminderRecurrence}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">Does not repeat</SelectItem>
+                    {NOTE_REMINDER_RECURRENCES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="editor-reminderEmail" className="text-sm">Email me</Label>
+                <div className="flex items-center h-10">
+                  <Switch
+                    id="editor-reminderEmail"
+                    checked={reminderEmail}
+                    onCheckedChange={setReminderEmail}
+                  />
+                </div>
+              </div>
+            </div>
+
             {reminderDate && (
               <p className="text-xs text-muted-foreground pl-1">
                 Reminder set for {format(reminderDate, "PPP")} at {reminderTime || '09:00'}
+                {reminderRecurrence !== 'NONE' && `, repeating ${reminderRecurrence === 'DAILY' ? 'daily' : 'weekly'}`}
               </p>
             )}
           </div>
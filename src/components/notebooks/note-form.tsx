@@ -8,9 +8,11 @@ import { RichTextEditor } from '@/components/ui/rich-text-editor'
 import { Switch } from '@/components/ui/switch'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { CalendarIcon, Clock, Bell } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
+import { NOTE_REMINDER_RECURRENCES } from '@/lib/note-reminders'
 
 interface NoteFormProps {
   note?: any
@@ -26,6 +28,8 @@ export function NoteForm({ note, onSave, onCancel, loading }: NoteFormProps) {
   const [hasReminder, setHasReminder] = useState(false)
   const [reminderDate, setReminderDate] = useState<Date>()
   const [reminderTime, setReminderTime] = useState('')
+  const [reminderRecurrence, setReminderRecurrence] = useState('NONE')
+  const [reminderEmail, setReminderEmail] = useState(false)
 
   useEffect(() => {
     if (note) {
@@ -33,6 +37,8 @@ export function NoteForm({ note, onSave, onCancel, loading }: NoteFormProps) {
       setContent(note.content || '')
       setIcon(note.icon || '')
       setHasReminder(note.hasReminder || false)
+      setReminderRecurrence(note.reminderRecurrence || 'NONE')
+      setReminderEmail(note.reminderEmail || false)
       
       if (note.reminderDate) {
         const reminder = new Date(note.reminderDate)
@@ -57,7 +63,9 @@ export function NoteForm({ note, onSave, onCancel, loading }: NoteFormProps) {
       content,
       icon,
       hasReminder,
-      reminderDate: reminderDateTime
+      reminderDate: reminderDateTime,
+      reminderRecurrence: hasReminder && reminderRecurrence !== 'NONE' ? reminderRecurrence : null,
+      reminderEmail: hasReminder && reminderEmail
     })
   }
 
@@ -178,9 +186,43 @@ export function NoteForm({ note, onSave, onCancel, loading }: NoteFormProps) {
               </div>
             </div>
             
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-sm">Repeat</Label>
+                <Select
+                  value={reminderRecurrence}
+                  onValueChange={setReminderRecurrence}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="NONE">Does not repeat</SelectItem>
+                    {NOTE_REMINDER_RECURRENCES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reminderEmail" className="text-sm">Email me</Label>
+                <div className="flex items-center h-10">
+                  <Switch
+                    id="reminderEmail"
+                    checked={reminderEmail}
+                    onCheckedChange={setReminderEmail}
+                  />
+                </div>
+              </div>
+            </div>
+
             {reminderDate && (
               <p className="text-xs text-muted-foreground pl-1">
                 Reminder set for {format(reminderDate, "PPP")} at {reminderTime || '09:00'}
+                {reminderRecurrence !== 'NONE' && `, repeating ${reminderRecurrence === 'DAILY' ? 'daily' : 'weekly'}`}
               </p>
             )}
           </div>
@@ -2,9 +2,23 @@
 
 import { useState, useEffect } from 'react'
 import { formatDistanceToNow } from 'date-fns'
-import { Bell, CheckCheck, Eye, FileText } from 'lucide-react'
+import { Bell, CheckCheck, Eye, FileText, AlarmClock, Repeat, StickyNote, UserMinus, UserPlus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  NOTE_REMINDER_RECURRENCES,
+  NOTE_SNOOZE_OPTIONS,
+  NoteReminderRecurrence,
+  NoteSnoozeOption,
+  getSnoozeUntil,
+} from '@/lib/note-reminders'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 
@@ -20,6 +34,22 @@ interface Notification {
     caption: string
     status: string
   }
+  meeting?: {
+    id: string
+    title: string
+    startTime: string
+  }
+  note?: {
+    id: string
+    title: string
+    notebookId: string | null
+    hasReminder: boolean
+    reminderRecurrence: string | null
+  }
+  project?: {
+    id: string
+    name: string
+  }
 }
 
 interface NotificationListProps {
@@ -93,6 +123,69 @@ export function NotificationList({ onNotificationRead }: NotificationListProps)
     // Navigate to related post if exists
     if (notification.post?.id) {
       router.push(`/posts?postId=${notification.post.id}`)
+    } else if (notification.meeting?.id) {
+      router.push('/meetings')
+    } else if (notification.note?.id) {
+      router.push(notification.note.notebookId
+        ? `/notebooks/${notification.note.notebookId}/notes/${notification.note.id}`
+        : '/notebooks')
+    } else if (notification.type === 'PROJECT_MEMBER_ADDED' && notification.project?.id) {
+      router.push(`/projects?project=${notification.project.id}`)
+    }
+  }
+
+  const handleSnooze = async (notification: Notification, option: NoteSnoozeOption) => {
+    if (!notification.note) return
+
+    try {
+      const response = await fetch(`/api/notes/${notification.note.id}/snooze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ until: getSnoozeUntil(option).toISOString() }),
+      })
+
+      if (response.ok) {
+        if (!notification.read) {
+          await handleMarkAsRead(notification.id)
+        }
+        const label = NOTE_SNOOZE_OPTIONS.find(o => o.value === option)?.label
+        toast.success(`Reminder snoozed for ${label?.toLowerCase()}`)
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to snooze reminder')
+      }
+    } catch (error) {
+      console.error('Error snoozing reminder:', error)
+      toast.error('Failed to snooze reminder')
+    }
+  }
+
+  const handleSetRecurrence = async (notification: Notification, recurrence: NoteReminderRecurrence | null) => {
+    if (!notification.note) return
+
+    try {
+      const response = await fetch(`/api/notes/${notification.note.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reminderRecurrence: recurrence }),
+      })
+
+      if (response.ok) {
+        setNotifications(prev =>
+          prev.map(n => (n.note?.id === notification.note!.id
+            ? { ...n, note: { ...n.note!, reminderRecurrence: recurrence } }
+            : n))
+        )
+        toast.success(recurrence
+          ? `Reminder will repeat ${recurrence === 'DAILY' ? 'daily' : 'weekly'}`
+          : 'Reminder will no longer repeat')
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update reminder')
+      }
+    } catch (error) {
+      console.error('Error updating reminder recurrence:', error)
+      toast.error('Failed to update reminder')
     }
   }
 
@@ -105,6 +198,12 @@ export function NotificationList({ onNotificationRead }: NotificationListProps)
         return <CheckCheck className="w-4 h-4 text-green-500" />
       case 'POST_REJECTED':
         return <Eye className="w-4 h-4 text-red-500" />
+      case 'REMINDER':
+        return <AlarmClock className="w-4 h-4 text-orange-500" />
+      case 'PROJECT_MEMBER_ADDED':
+        return <UserPlus className="w-4 h-4 text-green-500" />
+      case 'PROJECT_MEMBER_REMOVED':
+        return <UserMinus className="w-4 h-4 text-red-500" />
       default:
         return <FileText className="w-4 h-4 text-blue-500" />
     }
@@ -172,6 +271,65 @@ export function NotificationList({ onNotificationRead }: NotificationListProps)
                         addSuffix: true,
                       })}
                     </p>
+                    {notification.note && (
+                      <div
+                        className="flex items-center gap-1 mt-2"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" className="h-7 text-xs">
+                              <AlarmClock className="w-3 h-3 mr-1" />
+                              Snooze
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="start">
+                            {NOTE_SNOOZE_OPTIONS.map(option => (
+                              <DropdownMenuItem
+                                key={option.value}
+                                onClick={() => handleSnooze(notification, option.value)}
+                              >
+                                {option.label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" className="h-7 text-xs">
+                              <Repeat className="w-3 h-3 mr-1" />
+                              {notification.note.reminderRecurrence === 'DAILY'
+                                ? 'Daily'
+                                : notification.note.reminderRecurrence === 'WEEKLY'
+                                  ? 'Weekly'
+                                  : 'Repeat'}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="start">
+                            {NOTE_REMINDER_RECURRENCES.map(option => (
+                              <DropdownMenuItem
+                                key={option.value}
+                                onClick={() => handleSetRecurrence(notification, option.value)}
+                              >
+                                {option.label}
+                              </DropdownMenuItem>
+                            ))}
+                            {notification.note.reminderRecurrence && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => handleSetRecurrence(notification, null)}>
+                                  Don&apos;t repeat
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        <StickyNote className="w-3 h-3 text-muted-foreground ml-1" />
+                        <span className="text-xs text-muted-foreground truncate">
+                          {notification.note.title}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
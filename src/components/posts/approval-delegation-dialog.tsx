@@ -0,0 +1,259 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Plane, Trash2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { useAuth } from '@/hooks/use-auth'
+import { safeJsonParse } from '@/lib/utils'
+
+interface DelegationUser {
+  id: string
+  name: string
+  email: string
+}
+
+interface Delegation {
+  id: string
+  startsAt: string
+  endsAt: string
+  reason: string | null
+  user: DelegationUser
+  delegate: DelegationUser
+}
+
+interface ApprovalDelegationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onDelegationsChanged?: () => void
+}
+
+const emptyForm = {
+  delegateId: '',
+  startsAt: '',
+  endsAt: '',
+  reason: '',
+}
+
+export function ApprovalDelegationDialog({ open, onOpenChange, onDelegationsChanged }: ApprovalDelegationDialogProps) {
+  const { user } = useAuth()
+  const [users, setUsers] = useState<DelegationUser[]>([])
+  const [given, setGiven] = useState<Delegation[]>([])
+  const [taken, setTaken] = useState<Delegation[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const fetchDelegations = async () => {
+    try {
+      const response = await fetch('/api/approval-delegations')
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load delegations')
+        return
+      }
+      setGiven(data.given)
+      setTaken(data.taken)
+    } catch (error) {
+      console.error('Error fetching approval delegations:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    fetchDelegations()
+
+    const fetchUsers = async () => {
+      try {
+        const response = await fetch('/api/users/basic')
+        if (response.ok) setUsers(await response.json())
+      } catch (error) {
+        console.error('Error fetching users:', error)
+      }
+    }
+    fetchUsers()
+  }, [open])
+
+  const handleCreate = async () => {
+    if (!form.delegateId || !form.startsAt || !form.endsAt) {
+      toast.error('Choose a delegate and when you are away')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/approval-delegations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          delegateId: form.delegateId,
+          startsAt: new Date(form.startsAt).toISOString(),
+          endsAt: new Date(form.endsAt).toISOString(),
+          reason: form.reason || undefined,
+        }),
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to set up delegation')
+        return
+      }
+      toast.success('Out-of-office delegation saved')
+      setForm(emptyForm)
+      fetchDelegations()
+      onDelegationsChanged?.()
+    } catch (error) {
+      console.error('Error creating approval delegation:', error)
+      toast.error('Failed to set up delegation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (delegation: Delegation) => {
+    if (!confirm(`Stop ${delegation.delegate.name} approving posts for you? Decisions already made stand.`)) return
+
+    try {
+      const response = await fetch(`/api/approval-delegations/${delegation.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to remove delegation')
+        return
+      }
+      toast.success('Delegation removed')
+      fetchDelegations()
+      onDelegationsChanged?.()
+    } catch (error) {
+      console.error('Error deleting approval delegation:', error)
+      toast.error('Failed to remove delegation')
+    }
+  }
+
+  const isActive = (delegation: Delegation) => new Date(delegation.startsAt) <= new Date()
+
+  const describePeriod = (delegation: Delegation) =>
+    `${format(new Date(delegation.startsAt), 'MMM dd, HH:mm')} – ${format(new Date(delegation.endsAt), 'MMM dd, HH:mm')}`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Plane className="h-5 w-5" />
+            Out of Office
+          </DialogTitle>
+          <DialogDescription>
+            While you are away, your delegate can approve or reject posts waiting on you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="delegate">Delegate</Label>
+              <Select value={form.delegateId} onValueChange={(value) => setForm({ ...form, delegateId: value })}>
+                <SelectTrigger id="delegate">
+                  <SelectValue placeholder="Who covers for you?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.filter(u => u.id !== user?.id).map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name} ({u.email})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="delegation-start">From</Label>
+                <Input
+                  id="delegation-start"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegation-end">Until</Label>
+                <Input
+                  id="delegation-end"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegation-reason">Reason</Label>
+              <Input
+                id="delegation-reason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g. Annual leave"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleCreate} disabled={saving}>
+                {saving ? 'Saving...' : 'Add Delegation'}
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Covering for me</h4>
+            {given.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No delegations set up</p>
+            ) : (
+              <div className="divide-y border rounded-lg">
+                {given.map(delegation => (
+                  <div key={delegation.id} className="flex items-center justify-between gap-3 p-2.5 text-sm">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{delegation.delegate.name}</span>
+                        {isActive(delegation) && <Badge variant="secondary" className="text-xs">Active</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {describePeriod(delegation)}{delegation.reason && ` · ${delegation.reason}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(delegation)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {taken.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">I am covering for</h4>
+              <div className="divide-y border rounded-lg">
+                {taken.map(delegation => (
+                  <div key={delegation.id} className="p-2.5 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{delegation.user.name}</span>
+                      {isActive(delegation) && <Badge variant="secondary" className="text-xs">Active</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {describePeriod(delegation)}{delegation.reason && ` · ${delegation.reason}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -13,6 +13,8 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { CheckCircle, XCircle } from 'lucide-react'
+import { CaptionDiff } from './caption-diff'
+import { describeRevisionChanges, fetchPostRevisionHistory, PostRevisionHistory } from './post-history-dialog'
 
 interface ApprovalDialogProps {
   open: boolean
@@ -20,6 +22,7 @@ interface ApprovalDialogProps {
   type: 'approve' | 'reject'
   onConfirm: (comment: string) => void
   loading?: boolean
+  postId?: string | null // When set, shows what changed since the post was last reviewed
 }
 
 export function ApprovalDialog({
@@ -28,8 +31,32 @@ export function ApprovalDialog({
   type,
   onConfirm,
   loading = false,
+  postId,
 }: ApprovalDialogProps) {
   const [comment, setComment] = useState('')
+  const [history, setHistory] = useState<PostRevisionHistory | null>(null)
+
+  useEffect(() => {
+    setHistory(null)
+    if (!open || !postId) return
+
+    const load = async () => {
+      try {
+        setHistory(await fetchPostRevisionHistory(postId))
+      } catch (error) {
+        console.error('Error fetching post history:', error)
+      }
+    }
+    load()
+  }, [open, postId])
+
+  const reviewed = history?.lastReviewedVersion != null
+    ? history.revisions.find(r => r.version === history.lastReviewedVersion)
+    : undefined
+  const current = history?.revisions.find(r => r.version === history.version)
+  const previousComments = history && reviewed
+    ? history.reviews.filter(r => r.version === reviewed.version && r.comment)
+    : []
 
   const handleSubmit = () => {
     if (type === 'reject' && !comment.trim()) {
@@ -46,7 +73,7 @@ export function ApprovalDialog({
 
   return (
     <Dialog open={open} onOpenChange={handleCancel}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className={reviewed && current ? 'sm:max-w-[600px] max-h-[90vh] overflow-y-auto' : 'sm:max-w-[500px]'}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             {type === 'approve' ? (
@@ -69,6 +96,25 @@ export function ApprovalDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {reviewed && current && (
+            <div className="space-y-2">
+              <Label>Changes since v{reviewed.version} was reviewed</Label>
+              <div className="rounded-md border p-3 space-y-2">
+                <CaptionDiff before={reviewed.caption} after={current.caption} />
+                {describeRevisionChanges(reviewed, current).length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {describeRevisionChanges(reviewed, current).join(' • ')}
+                  </p>
+                )}
+              </div>
+              {previousComments.map((review) => (
+                <p key={review.id} className="text-xs text-muted-foreground">
+                  <span className="font-medium">{review.approver.name} on v{review.version}:</span> "{review.comment}"
+                </p>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="comment">
               Comment {type === 'reject' && <span className="text-red-500">*</span>}
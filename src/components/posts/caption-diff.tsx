@@ -0,0 +1,32 @@
+'use client'
+
+import { useMemo } from 'react'
+import { diffWords } from '@/lib/text-diff'
+
+interface CaptionDiffProps {
+  before: string
+  after: string
+  className?: string
+}
+
+export function CaptionDiff({ before, after, className = '' }: CaptionDiffProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after])
+
+  return (
+    <p className={`text-sm whitespace-pre-wrap ${className}`}>
+      {parts.map((part, index) =>
+        part.type === 'added' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline dark:bg-green-900 dark:text-green-100">
+            {part.text}
+          </ins>
+        ) : part.type === 'removed' ? (
+          <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100">
+            {part.text}
+          </del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  )
+}
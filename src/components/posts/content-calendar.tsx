@@ -0,0 +1,451 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  DndContext,
+  DragEndEvent,
+  Modifier,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core'
+import { CSS } from '@dnd-kit/utilities'
+import { addMonths, differenceInCalendarDays, eachDayOfInterval, endOfMonth, format, isWeekend, startOfDay, startOfMonth } from 'date-fns'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react'
+import { toast } from 'sonner'
+import { useAuth } from '@/hooks/use-auth'
+import { cn, safeJsonParse } from '@/lib/utils'
+import { findOverlappingSpend, shiftPostDates, SpendPost } from '@/lib/content-calendar'
+
+interface CalendarPost {
+  id: string
+  caption: string
+  status: string
+  budget: number | null
+  startDate: string
+  endDate: string
+  platforms: string[]
+  campaignId: string | null
+  program: { id: string; name: string; campus: string } | null
+  createdBy: { id: string; name: string; email: string }
+}
+
+interface CalendarCampaign {
+  id: string
+  name: string
+  type: string
+  status: string
+  budget: number | null
+  startDate: string
+  endDate: string | null
+  color: string | null
+}
+
+type CalendarRow =
+  | { kind: 'campaign'; campaign: CalendarCampaign }
+  | { kind: 'post'; post: CalendarPost; color: string }
+
+const DAY_WIDTH = 32
+const ROW_HEIGHT = 40
+const LABEL_WIDTH = 240
+const BAR_HEIGHT = 22
+const DEFAULT_COLOR = '#6b7280' // gray, for campaigns without a type colour and posts without a campaign
+const ALL = 'ALL'
+const NO_CAMPAIGN = 'NONE'
+
+// Only drafts and rejected posts can be moved, by their creator; approvers review the dates too
+const RESCHEDULABLE_STATUSES = ['DRAFT', 'REJECTED']
+
+// Bars only move sideways, a whole day at a time
+const snapToDays: Modifier = ({ transform }) => ({
+  ...transform,
+  x: Math.round(transform.x / DAY_WIDTH) * DAY_WIDTH,
+  y: 0,
+})
+
+const formatBudget = (amount: number) => `$${amount.toLocaleString()}`
+
+interface PostBarProps {
+  post: CalendarPost
+  color: string
+  left: number
+  width: number
+  disabled: boolean
+  overBudget: boolean
+}
+
+function PostBar({ post, color, left, width, disabled, overBudget }: PostBarProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: post.id, disabled })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      title={`${post.caption}${post.budget ? ` · ${formatBudget(post.budget)}` : ''}`}
+      className={cn(
+        'absolute rounded text-[11px] leading-[22px] text-white px-1.5 truncate shadow-sm',
+        disabled ? 'cursor-default' : 'cursor-grab',
+        post.status !== 'APPROVED' && post.status !== 'SCHEDULED' && post.status !== 'PUBLISHED' && 'opacity-75',
+        overBudget && 'ring-2 ring-red-500',
+        isDragging && 'opacity-90 ring-2 ring-primary z-10'
+      )}
+      style={{
+        left,
+        width,
+        top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+        height: BAR_HEIGHT,
+        backgroundColor: color,
+        transform: CSS.Translate.toString(transform),
+      }}
+    >
+      {width >= DAY_WIDTH * 2 && post.caption}
+    </div>
+  )
+}
+
+export function ContentCalendar() {
+  const { user } = useAuth()
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [posts, setPosts] = useState<CalendarPost[]>([])
+  const [campaigns, setCampaigns] = useState<CalendarCampaign[]>([])
+  const [budgetPosts, setBudgetPosts] = useState<SpendPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [programFilter, setProgramFilter] = useState(ALL)
+  const [campaignFilter, setCampaignFilter] = useState(ALL)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  )
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        startDate: month.toISOString(),
+        endDate: endOfMonth(month).toISOString(),
+      })
+      const response = await fetch(`/api/posts/calendar?${params}`)
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        setError(result.error || 'Failed to load content calendar')
+        return
+      }
+      setPosts(result.posts)
+      setCampaigns(result.campaigns)
+      setBudgetPosts(result.budgetPosts)
+      setError(null)
+    } catch (error) {
+      console.error('Error fetching content calendar:', error)
+      setError('Failed to load content calendar')
+    } finally {
+      setLoading(false)
+    }
+  }, [month])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchCalendar()
+  }, [fetchCalendar])
+
+  const days = useMemo(() => eachDayOfInterval({ start: month, end: endOfMonth(month) }), [month])
+
+  // Budgets are checked across every post in the campaigns, including other users' posts and whatever
+  // the filters show. Dates of the posts shown here win, so moves count before the calendar is refetched.
+  const withBudgetPosts = useCallback((shownPosts: CalendarPost[]): SpendPost[] => {
+    const shownIds = new Set(shownPosts.map(post => post.id))
+    return [...shownPosts, ...budgetPosts.filter(post => !shownIds.has(post.id))]
+  }, [budgetPosts])
+
+  const warnings = useMemo(
+    () => findOverlappingSpend(withBudgetPosts(posts), campaigns).filter(w => w.to >= month && w.from <= endOfMonth(month)),
+    [posts, campaigns, month, withBudgetPosts]
+  )
+  const overBudgetPostIds = useMemo(() => new Set(warnings.flatMap(w => w.postIds)), [warnings])
+
+  const programs = useMemo(() => {
+    const byId = new Map<string, NonNullable<CalendarPost['program']>>()
+    for (const post of posts) {
+      if (post.program) byId.set(post.program.id, post.program)
+    }
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }, [posts])
+
+  // Each campaign's window followed by its posts, then posts outside any campaign
+  const rows = useMemo(() => {
+    const visiblePosts = posts.filter(post =>
+      (programFilter === ALL || post.program?.id === programFilter) &&
+      (campaignFilter === ALL || (campaignFilter === NO_CAMPAIGN ? !post.campaignId : post.campaignId === campaignFilter))
+    )
+
+    const result: CalendarRow[] = []
+    for (const campaign of campaigns) {
+      if (campaignFilter !== ALL && campaignFilter !== campaign.id) continue
+      const campaignPosts = visiblePosts.filter(post => post.campaignId === campaign.id)
+      if (programFilter !== ALL && campaignPosts.length === 0) continue
+
+      result.push({ kind: 'campaign', campaign })
+      for (const post of campaignPosts) {
+        result.push({ kind: 'post', post, color: campaign.color || DEFAULT_COLOR })
+      }
+    }
+    for (const post of visiblePosts) {
+      if (!post.campaignId) result.push({ kind: 'post', post, color: DEFAULT_COLOR })
+    }
+    return result
+  }, [posts, campaigns, programFilter, campaignFilter])
+
+  const canReschedule = (post: CalendarPost) =>
+    post.createdBy.id === user?.id && RESCHEDULABLE_STATUSES.includes(post.status)
+
+  const handleDragEnd = async ({ active, delta }: DragEndEvent) => {
+    const shift = Math.round(delta.x / DAY_WIDTH)
+    const post = posts.find(p => p.id === active.id)
+    if (!post || shift === 0) return
+
+    const dates = shiftPostDates(post, shift)
+    const movedPosts = posts.map(p => p.id === post.id ? { ...p, ...dates } : p)
+    setPosts(movedPosts)
+
+    try {
+      const response = await fetch(`/api/posts/${post.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(dates),
+      })
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to reschedule post')
+        fetchCalendar()
+        return
+      }
+
+      const overlap = findOverlappingSpend(withBudgetPosts(movedPosts), campaigns).find(w => w.postIds.includes(post.id))
+      if (overlap) {
+        toast.warning(
+          `Rescheduled, but it now overlaps other ${overlap.campaignName} posts: ${formatBudget(overlap.peakSpend)} against a ${formatBudget(overlap.campaignBudget)} budget`
+        )
+      } else {
+        toast.success(`Post moved to ${format(new Date(dates.startDate), 'MMM dd')} - ${format(new Date(dates.endDate), 'MMM dd')}`)
+      }
+    } catch (error) {
+      console.error('Error rescheduling post:', error)
+      toast.error('Failed to reschedule post')
+      fetchCalendar()
+    }
+  }
+
+  const first = days[0]
+  const chartWidth = days.length * DAY_WIDTH
+  const chartHeight = rows.length * ROW_HEIGHT
+  const dayOffset = (date: Date) => differenceInCalendarDays(startOfDay(date), first) * DAY_WIDTH
+  const todayOffset = dayOffset(new Date())
+
+  // Clip a run window to the month; null when it falls outside it
+  const getBarSpan = (start: string, end: string | null) => {
+    const left = Math.max(dayOffset(new Date(start)), 0)
+    const right = end ? Math.min(dayOffset(new Date(end)) + DAY_WIDTH, chartWidth) : chartWidth
+    return right > left ? { left, width: right - left } : null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setMonth(prev => addMonths(prev, -1))} aria-label="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(prev => addMonths(prev, 1))} aria-label="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold ml-2">{format(month, 'MMMM yyyy')}</h2>
+        </div>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="calendar-program" className="text-xs">Program</Label>
+            <Select value={programFilter} onValueChange={setProgramFilter}>
+              <SelectTrigger id="calendar-program" className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All programs</SelectItem>
+                {programs.map(program => (
+                  <SelectItem key={program.id} value={program.id}>{program.name} - {program.campus}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calendar-campaign" className="text-xs">Campaign</Label>
+            <Select value={campaignFilter} onValueChange={setCampaignFilter}>
+              <SelectTrigger id="calendar-campaign" className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All campaigns</SelectItem>
+                <SelectItem value={NO_CAMPAIGN}>No campaign</SelectItem>
+                {campaigns.map(campaign => (
+                  <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Overlapping spend</AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1">
+              {warnings.map(warning => (
+                <li key={`${warning.campaignId}-${warning.from.toISOString()}`}>
+                  {warning.campaignName}: {warning.postIds.length} posts run together {format(warning.from, 'MMM dd')} - {format(warning.to, 'MMM dd')},
+                  committing up to {formatBudget(warning.peakSpend)} of a {formatBudget(warning.campaignBudget)} budget
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading ? (
+        <div className="h-[240px] animate-pulse bg-gray-100 rounded" />
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No posts or campaigns this month.</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Drag one of your draft or rejected posts to reschedule it. Posts outlined in red share a campaign budget with posts running at the same time.
+          </p>
+          <div className="border rounded-lg overflow-auto max-h-[70vh]">
+            <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+              {/* Header */}
+              <div className="flex sticky top-0 z-20 bg-background border-b">
+                <div className="sticky left-0 z-30 bg-background border-r flex-shrink-0 px-3 py-2 text-xs font-medium" style={{ width: LABEL_WIDTH }}>
+                  Campaign / Post
+                </div>
+                {days.map(day => (
+                  <div
+                    key={day.toISOString()}
+                    className={cn('flex-shrink-0 text-center border-r py-1', isWeekend(day) && 'bg-muted/50')}
+                    style={{ width: DAY_WIDTH }}
+                  >
+                    <div className="text-[10px] text-muted-foreground">{format(day, 'EEEEE')}</div>
+                    <div className="text-[11px]">{format(day, 'd')}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex">
+                {/* Names */}
+                <div className="sticky left-0 z-10 bg-background border-r flex-shrink-0" style={{ width: LABEL_WIDTH }}>
+                  {rows.map(row => row.kind === 'campaign' ? (
+                    <div key={`campaign-${row.campaign.id}`} className="flex items-center gap-2 px-3 border-b bg-muted/30" style={{ height: ROW_HEIGHT }}>
+                      <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: row.campaign.color || DEFAULT_COLOR }} />
+                      <div className="min-w-0">
+                        <div className="text-xs font-semibold truncate">{row.campaign.name}</div>
+                        <div className="text-[10px] text-muted-foreground truncate">
+                          {row.campaign.type}
+                          {row.campaign.budget ? ` · ${formatBudget(row.campaign.budget)} budget` : ''}
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={row.post.id} className="flex flex-col justify-center pl-7 pr-3 border-b" style={{ height: ROW_HEIGHT }}>
+                      <span className="text-xs font-medium truncate">{row.post.caption}</span>
+                      <span className="text-[10px] text-muted-foreground truncate">
+                        {row.post.status.replace(/_/g, ' ')}
+                        {row.post.budget ? ` · ${formatBudget(row.post.budget)}` : ''}
+                        {row.post.program && ` · ${row.post.program.name}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Bars */}
+                <DndContext sensors={sensors} modifiers={[snapToDays]} onDragEnd={handleDragEnd}>
+                  <div className="relative flex-shrink-0" style={{ width: chartWidth, height: chartHeight }}>
+                    {days.map(day => isWeekend(day) && (
+                      <div
+                        key={day.toISOString()}
+                        className="absolute top-0 bottom-0 bg-muted/50"
+                        style={{ left: dayOffset(day), width: DAY_WIDTH }}
+                      />
+                    ))}
+                    {todayOffset >= 0 && todayOffset < chartWidth && (
+                      <div className="absolute top-0 bottom-0 w-px bg-red-400" style={{ left: todayOffset + DAY_WIDTH / 2 }} />
+                    )}
+
+                    {rows.map((row, index) => {
+                      if (row.kind === 'campaign') {
+                        const span = getBarSpan(row.campaign.startDate, row.campaign.endDate)
+                        return (
+                          <div
+                            key={`campaign-${row.campaign.id}`}
+                            className="absolute left-0 right-0 border-b bg-muted/30"
+                            style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                          >
+                            {span && (
+                              <div
+                                className="absolute rounded opacity-30"
+                                title={`${row.campaign.name} runs ${format(new Date(row.campaign.startDate), 'MMM dd')}${row.campaign.endDate ? ` - ${format(new Date(row.campaign.endDate), 'MMM dd')}` : ' with no end date'}`}
+                                style={{
+                                  left: span.left,
+                                  width: span.width,
+                                  top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                                  height: BAR_HEIGHT,
+                                  backgroundColor: row.campaign.color || DEFAULT_COLOR,
+                                }}
+                              />
+                            )}
+                          </div>
+                        )
+                      }
+
+                      const span = getBarSpan(row.post.startDate, row.post.endDate)
+                      return (
+                        <div
+                          key={row.post.id}
+                          className="absolute left-0 right-0 border-b"
+                          style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                        >
+                          {span && (
+                            <PostBar
+                              post={row.post}
+                              color={row.color}
+                              left={span.left}
+                              width={span.width}
+                              disabled={!canReschedule(row.post)}
+                              overBudget={overBudgetPostIds.has(row.post.id)}
+                            />
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </DndContext>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -28,6 +28,23 @@ interface User {
   email: string
 }
 
+interface ApprovalWorkflow {
+  id: string
+  name: string
+  description: string | null
+  isActive: boolean
+  stages: Array<{ id: string; name: string; requiredApprovals: number }>
+}
+
+// Select has no empty value, so this stands in for "no workflow, pick approvers by hand"
+const MANUAL = 'manual'
+
+const PLATFORMS = [
+  { key: 'FACEBOOK', label: 'Facebook' },
+  { key: 'INSTAGRAM', label: 'Instagram' },
+  { key: 'LINKEDIN', label: 'LinkedIn' },
+]
+
 interface NewPostDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -39,6 +56,7 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
   const [programs, setPrograms] = useState<Program[]>([])
   const [campaigns, setCampaigns] = useState<Campaign[]>([])
   const [users, setUsers] = useState<User[]>([])
+  const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([])
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     caption: '',
@@ -48,7 +66,9 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
     endDate: '',
     programId: '',
     campaignId: '',
+    workflowId: MANUAL,
     approvers: [] as string[],
+    platforms: [] as string[],
   })
 
   useEffect(() => {
@@ -56,6 +76,7 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
       fetchPrograms()
       fetchCampaigns()
       fetchUsers()
+      fetchWorkflows()
     }
   }, [open])
 
@@ -95,6 +116,18 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
     }
   }
 
+  const fetchWorkflows = async () => {
+    try {
+      const response = await fetch('/api/approval-workflows')
+      if (response.ok) {
+        const data: ApprovalWorkflow[] = await response.json()
+        setWorkflows(data.filter(w => w.isActive))
+      }
+    } catch (error) {
+      console.error('Error fetching approval workflows:', error)
+    }
+  }
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -186,18 +219,25 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
       return
     }
 
-    if (formData.approvers.length === 0) {
+    const useWorkflow = formData.workflowId !== MANUAL
+
+    if (!useWorkflow && formData.approvers.length === 0) {
       toast.error('Please add at least one approver')
       return
     }
 
     // Check for duplicate approvers
     const uniqueApprovers = new Set(formData.approvers)
-    if (uniqueApprovers.size !== formData.approvers.length) {
+    if (!useWorkflow && uniqueApprovers.size !== formData.approvers.length) {
       toast.error('Duplicate approvers are not allowed')
       return
     }
 
+    if (formData.platforms.includes('INSTAGRAM') && !formData.imageUrl) {
+      toast.error('Instagram posts need an image')
+      return
+    }
+
     setLoading(true)
 
     try {
@@ -214,7 +254,8 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
           endDate: formData.endDate,
           programId: formData.programId || null,
           campaignId: formData.campaignId || null,
-          approvers: formData.approvers,
+          ...(useWorkflow ? { workflowId: formData.workflowId } : { approvers: formData.approvers }),
+          platforms: formData.platforms,
         }),
       })
 
@@ -230,7 +271,9 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
           endDate: '',
           programId: '',
           campaignId: '',
+          workflowId: MANUAL,
           approvers: [],
+          platforms: [],
         })
         setImagePreview(null)
       } else {
@@ -245,6 +288,8 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
     }
   }
 
+  const selectedWorkflow = workflows.find(w => w.id === formData.workflowId)
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -318,6 +363,36 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
               )}
             </div>
 
+            {/* Platforms */}
+            <div className="space-y-2">
+              <Label className="text-base font-medium">Publish To</Label>
+              <div className="flex flex-wrap gap-2">
+                {PLATFORMS.map((platform) => {
+                  const selected = formData.platforms.includes(platform.key)
+                  return (
+                    <Button
+                      key={platform.key}
+                      type="button"
+                      variant={selected ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        platforms: selected
+                          ? prev.platforms.filter(p => p !== platform.key)
+                          : [...prev.platforms, platform.key],
+                      }))}
+                    >
+                      {platform.label}
+                    </Button>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Once fully approved, the post is published to these platforms on its start date.
+                Leave empty to publish it yourself. Instagram needs an image.
+              </p>
+            </div>
+
             {/* Program & Campaign Selection */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -407,64 +482,109 @@ export function NewPostDialog({ open, onOpenChange, onPostCreated }: NewPostDial
                 <Label className="text-base font-medium">
                   Approval Chain <span className="text-red-500">*</span>
                 </Label>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setFormData(prev => ({ ...prev, approvers: [...prev.approvers, ''] }))}
-                  disabled={formData.approvers.length >= 5}
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Approver
-                </Button>
+                {formData.workflowId === MANUAL && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ ...prev, approvers: [...prev.approvers, ''] }))}
+                    disabled={formData.approvers.length >= 5}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Approver
+                  </Button>
+                )}
               </div>
 
-              <p className="text-xs text-muted-foreground">
-                Add approvers in order. Each must approve before the next can review.
-              </p>
-
-              <div className="space-y-3">
-                {formData.approvers.map((approverId, index) => (
-                  <div key={index} className="flex items-center gap-3">
-                    <div className="flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-bold">
-                      {index + 1}
+              <Select
+                value={formData.workflowId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, workflowId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MANUAL}>Pick approvers myself</SelectItem>
+                  {workflows.map((workflow) => (
+                    <SelectItem key={workflow.id} value={workflow.id}>
+                      {workflow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {formData.workflowId !== MANUAL ? (
+                <div className="space-y-2">
+                  {selectedWorkflow?.description && (
+                    <p className="text-xs text-muted-foreground">{selectedWorkflow.description}</p>
+                  )}
+                  {selectedWorkflow?.stages.map((stage, index) => (
+                    <div key={stage.id} className="flex items-center gap-3">
+                      <div className="flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-bold">
+                        {index + 1}
+                      </div>
+                      <span className="text-sm">{stage.name}</span>
+                      {stage.requiredApprovals > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          {stage.requiredApprovals} approvals needed
+                        </span>
+                      )}
                     </div>
-                    <Select
-                      value={approverId}
-                      onValueChange={(value) => handleApproverChange(index, value)}
-                    >
-                      <SelectTrigger className="flex-1">
-                        <SelectValue placeholder={`Select ${index === 0 ? 'first' : index === 1 ? 'second' : `${index + 1}th`} approver`} />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {users
-                          .filter(u => !formData.approvers.includes(u.id) || u.id === approverId)
-                          .map((user) => (
-                            <SelectItem key={user.id} value={user.id}>
-                              {user.name} ({user.email})
-                            </SelectItem>
-                          ))}
-                      </SelectContent>
-                    </Select>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemoveApprover(index)}
-                    >
-                      <Trash2 className="w-4 h-4 text-red-500" />
-                    </Button>
-                  </div>
-                ))}
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Approvers are filled in from the workflow when you submit.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Add approvers in order. Each must approve before the next can review.
+                  </p>
+
+                  <div className="space-y-3">
+                    {formData.approvers.map((approverId, index) => (
+                      <div key={index} className="flex items-center gap-3">
+                        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-bold">
+                          {index + 1}
+                        </div>
+                        <Select
+                          value={approverId}
+                          onValueChange={(value) => handleApproverChange(index, value)}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder={`Select ${index === 0 ? 'first' : index === 1 ? 'second' : `${index + 1}th`} approver`} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {users
+                              .filter(u => !formData.approvers.includes(u.id) || u.id === approverId)
+                              .map((user) => (
+                                <SelectItem key={user.id} value={user.id}>
+                                  {user.name} ({user.email})
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveApprover(index)}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
 
-                {formData.approvers.length === 0 && (
-                  <div className="text-center py-8 border-2 border-dashed rounded-lg">
-                    <p className="text-sm text-muted-foreground">
-                      No approvers added yet. Click "Add Approver" to begin.
-                    </p>
+                    {formData.approvers.length === 0 && (
+                      <div className="text-center py-8 border-2 border-dashed rounded-lg">
+                        <p className="text-sm text-muted-foreground">
+                          No approvers added yet. Click "Add Approver" to begin.
+                        </p>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
+                </>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { CheckCircle, History, MessageSquare, XCircle } from 'lucide-react'
+import { format } from 'date-fns'
+import { safeJsonParse } from '@/lib/utils'
+import { CaptionDiff } from './caption-diff'
+
+interface RevisionUser {
+  id: string
+  name: string
+  email: string
+}
+
+export interface PostRevision {
+  id: string
+  version: number
+  caption: string
+  imageUrl: string | null
+  budget: number | null
+  startDate: string
+  endDate: string
+  platforms: string[]
+  createdAt: string
+  createdBy: RevisionUser
+}
+
+export interface PostReview {
+  id: string
+  version: number
+  stageName: string
+  status: string
+  comment: string | null
+  createdAt: string
+  approver: RevisionUser
+  decidedBy: RevisionUser | null
+}
+
+export interface PostRevisionHistory {
+  version: number
+  lastReviewedVersion: number | null
+  revisions: PostRevision[]
+  reviews: PostReview[]
+  comments: Array<{
+    id: string
+    version: number
+    comment: string
+    createdAt: string
+    user: { id: string; name: string }
+  }>
+}
+
+export async function fetchPostRevisionHistory(postId: string): Promise<PostRevisionHistory | null> {
+  const response = await fetch(`/api/posts/${postId}/revisions`)
+  const data = await safeJsonParse(response)
+  if (!response.ok) {
+    toast.error(data.error || 'Failed to load post history')
+    return null
+  }
+  return data
+}
+
+/**
+ * What changed in a revision's schedule, image or platforms, besides the caption
+ */
+export function describeRevisionChanges(previous: PostRevision, revision: PostRevision) {
+  const changes: string[] = []
+  if (previous.imageUrl !== revision.imageUrl) changes.push('Image changed')
+  if (previous.budget !== revision.budget) {
+    changes.push(`Budget ${previous.budget ?? 'none'} → ${revision.budget ?? 'none'}`)
+  }
+  if (previous.startDate !== revision.startDate || previous.endDate !== revision.endDate) {
+    changes.push(`Dates ${format(new Date(revision.startDate), 'MMM dd')} - ${format(new Date(revision.endDate), 'MMM dd, yyyy')}`)
+  }
+  if ([...previous.platforms].sort().join() !== [...revision.platforms].sort().join()) {
+    changes.push(`Platforms ${revision.platforms.join(', ') || 'none'}`)
+  }
+  return changes
+}
+
+interface PostHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  postId: string | null
+}
+
+export function PostHistoryDialog({ open, onOpenChange, postId }: PostHistoryDialogProps) {
+  const [history, setHistory] = useState<PostRevisionHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open || !postId) return
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        setHistory(await fetchPostRevisionHistory(postId))
+      } catch (error) {
+        console.error('Error fetching post history:', error)
+        toast.error('Failed to load post history')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [open, postId])
+
+  // Newest version first
+  const revisions = history ? [...history.revisions].reverse() : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Post History
+          </DialogTitle>
+          <DialogDescription>
+            Each version of the post with what changed and the feedback it received.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !history ? (
+          <p className="text-center py-8 text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <div className="space-y-4">
+            {revisions.map((revision) => {
+              const previous = history.revisions.find(r => r.version === revision.version - 1)
+              const reviews = history.reviews.filter(r => r.version === revision.version)
+              const comments = history.comments.filter(c => c.version === revision.version)
+              const changes = previous ? describeRevisionChanges(previous, revision) : []
+
+              return (
+                <div key={revision.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">v{revision.version}</Badge>
+                      {revision.version === history.version && <Badge variant="secondary">Current</Badge>}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {previous ? 'Edited' : 'Created'} by {revision.createdBy.name} • {format(new Date(revision.createdAt), 'MMM dd, yyyy HH:mm')}
+                    </span>
+                  </div>
+
+                  {previous ? (
+                    <CaptionDiff before={previous.caption} after={revision.caption} />
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{revision.caption}</p>
+                  )}
+
+                  {changes.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{changes.join(' • ')}</p>
+                  )}
+
+                  {(reviews.length > 0 || comments.length > 0) && (
+                    <div className="space-y-1.5 pt-1">
+                      {reviews.map((review) => (
+                        <div key={review.id} className="text-xs">
+                          <div className="flex items-center gap-1.5">
+                            {review.status === 'APPROVED' ? (
+                              <CheckCircle className="w-3 h-3 text-green-600" />
+                            ) : (
+                              <XCircle className="w-3 h-3 text-red-600" />
+                            )}
+                            <span className="font-medium">{review.approver.name}</span>
+                            {review.decidedBy && (
+                              <span className="text-muted-foreground">(by {review.decidedBy.name} as delegate)</span>
+                            )}
+                            <span className="text-muted-foreground">
+                              {review.status === 'APPROVED' ? 'approved' : 'rejected'} at {review.stageName} • {format(new Date(review.createdAt), 'MMM dd, HH:mm')}
+                            </span>
+                          </div>
+                          {review.comment && (
+                            <p className="ml-4 pl-3 border-l-2 border-gray-200 dark:border-gray-700 text-muted-foreground italic">
+                              "{review.comment}"
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      {comments.map((comment) => (
+                        <div key={comment.id} className="flex items-start gap-1.5 text-xs">
+                          <MessageSquare className="w-3 h-3 mt-0.5 text-muted-foreground" />
+                          <span>
+                            <span className="font-medium">{comment.user.name}</span>
+                            <span className="text-muted-foreground"> • {format(new Date(comment.createdAt), 'MMM dd, HH:mm')}: </span>
+                            {comment.comment}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
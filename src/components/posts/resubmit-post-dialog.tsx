@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { RotateCcw } from 'lucide-react'
+import { safeJsonParse } from '@/lib/utils'
+import { CaptionDiff } from './caption-diff'
+
+interface ResubmitPostDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  post: {
+    id: string
+    caption: string
+    approvals?: Array<{ id: string; status: string; comment: string | null; approver: { name: string } }>
+  } | null
+  onResubmitted?: () => void
+}
+
+export function ResubmitPostDialog({ open, onOpenChange, post, onResubmitted }: ResubmitPostDialogProps) {
+  const [caption, setCaption] = useState('')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open && post) {
+      setCaption(post.caption)
+      setNote('')
+    }
+  }, [open, post])
+
+  const rejections = (post?.approvals || []).filter(a => a.status === 'REJECTED')
+
+  const handleSubmit = async () => {
+    if (!post || !caption.trim()) return
+
+    setSaving(true)
+    try {
+      // Save the edit first so the resubmitted version is the one approvers see
+      if (caption.trim() !== post.caption) {
+        const response = await fetch(`/api/posts/${post.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ caption: caption.trim() }),
+        })
+        if (!response.ok) {
+          const data = await safeJsonParse(response)
+          toast.error(data.error || 'Failed to save changes')
+          return
+        }
+      }
+
+      const response = await fetch(`/api/posts/${post.id}/resubmit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: note.trim() || undefined }),
+      })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to resubmit post')
+        return
+      }
+
+      toast.success('Post resubmitted for approval')
+      onOpenChange(false)
+      onResubmitted?.()
+    } catch (error) {
+      console.error('Error resubmitting post:', error)
+      toast.error('Failed to resubmit post')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5" />
+            Edit & Resubmit
+          </DialogTitle>
+          <DialogDescription>
+            Address the feedback and send the post back through its approval chain from the first stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        {post && (
+          <div className="space-y-4 py-2">
+            {rejections.length > 0 && (
+              <div className="space-y-1.5 rounded-md bg-red-50 p-3 dark:bg-red-950">
+                <p className="text-xs font-medium text-red-800 dark:text-red-200">Feedback</p>
+                {rejections.map((rejection) => (
+                  <p key={rejection.id} className="text-xs text-red-800 dark:text-red-200">
+                    <span className="font-medium">{rejection.approver.name}:</span> {rejection.comment || 'No comment'}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="resubmit-caption">Caption</Label>
+              <Textarea
+                id="resubmit-caption"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                rows={6}
+              />
+            </div>
+
+            {caption.trim() !== post.caption && (
+              <div className="space-y-2">
+                <Label>Changes</Label>
+                <div className="rounded-md border p-3">
+                  <CaptionDiff before={post.caption} after={caption.trim()} />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="resubmit-note">Note to approvers</Label>
+              <Textarea
+                id="resubmit-note"
+                placeholder="Optional: explain what you changed..."
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={saving || !caption.trim()}>
+            {saving ? 'Resubmitting...' : 'Resubmit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
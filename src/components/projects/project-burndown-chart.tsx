@@ -0,0 +1,101 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts'
+import { safeJsonParse } from '@/lib/utils'
+
+interface BurndownData {
+  unit: 'tasks' | 'hours'
+  total: number
+  interval: 'day' | 'week'
+  points: Array<{
+    date: string
+    remaining: number | null
+    ideal: number | null
+  }>
+}
+
+interface ProjectBurndownChartProps {
+  projectId: string
+}
+
+export function ProjectBurndownChart({ projectId }: ProjectBurndownChartProps) {
+  const [data, setData] = useState<BurndownData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchBurndown = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/burndown`)
+        const result = await safeJsonParse(response)
+        if (!response.ok) {
+          setError(result.error || 'Failed to load burndown')
+          return
+        }
+        setData(result)
+      } catch (error) {
+        console.error('Error fetching burndown:', error)
+        setError('Failed to load burndown')
+      }
+    }
+    fetchBurndown()
+  }, [projectId])
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (!data) {
+    return <div className="h-[240px] animate-pulse bg-gray-100 rounded" />
+  }
+
+  if (data.total === 0) {
+    return <p className="text-sm text-muted-foreground">No tasks yet, so there is nothing to burn down.</p>
+  }
+
+  const unitLabel = data.unit === 'hours' ? 'Estimated hours' : 'Tasks'
+
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-2">
+        {unitLabel} remaining per {data.interval}
+        {!data.points.some(p => p.ideal !== null) && ' · set an end date to see the ideal line'}
+      </p>
+      <ResponsiveContainer width="100%" height={240}>
+        <LineChart data={data.points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} />
+          <YAxis tick={{ fontSize: 11 }} allowDecimals={data.unit === 'hours'} />
+          <Tooltip />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="remaining"
+            name="Remaining"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            dot={false}
+            connectNulls={false}
+          />
+          <Line
+            type="linear"
+            dataKey="ideal"
+            name="Ideal"
+            stroke="#9ca3af"
+            strokeDasharray="5 5"
+            dot={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
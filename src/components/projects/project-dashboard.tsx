@@ -15,11 +15,17 @@ import {
   CheckCircle,
   AlertCircle,
   FolderOpen,
-  Target
+  Target,
+  Timer,
+  LineChart as LineChartIcon,
+  GanttChart
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { cn } from '@/lib/utils'
 import { useNotifications } from '@/contexts/notification-context'
+import { ProjectMembersDialog } from './project-members-dialog'
+import { ProjectBurndownChart } from './project-burndown-chart'
+import { ProjectTimelineDialog } from './project-timeline'
 
 export interface Project {
   id: string
@@ -31,6 +37,16 @@ export interface Project {
   endDate?: string
   budget?: number
   progress: number
+  health?: {
+    status: 'ON_TRACK' | 'AT_RISK' | 'LATE'
+    reasons: string[]
+    overdueTasks: number
+    loggedHours: number
+    estimatedHours: number
+    loggedCost: number | null
+    budgetUsedPercent: number | null
+    scheduleElapsedPercent: number | null
+  }
   color?: string
   createdAt: string
   createdBy: {
@@ -60,6 +76,9 @@ interface ProjectDashboardProps {
 export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
+  const [membersProject, setMembersProject] = useState<Project | null>(null)
+  const [burndownProjectId, setBurndownProjectId] = useState<string | null>(null)
+  const [timelineProject, setTimelineProject] = useState<Project | null>(null)
   const [stats, setStats] = useState({
     totalProjects: 0,
     activeProjects: 0,
@@ -158,6 +177,17 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
     }
   }
 
+  const getHealthBadge = (health: NonNullable<Project['health']>) => {
+    switch (health.status) {
+      case 'LATE':
+        return { label: 'Late', className: 'bg-red-100 text-red-800', icon: AlertCircle }
+      case 'AT_RISK':
+        return { label: 'At Risk', className: 'bg-yellow-100 text-yellow-800', icon: AlertCircle }
+      default:
+        return { label: 'On Track', className: 'bg-green-100 text-green-800', icon: CheckCircle }
+    }
+  }
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -273,6 +303,16 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
                         <Badge className={getPriorityColor(project.priority)}>
                           {project.priority}
                         </Badge>
+                        {project.health && (() => {
+                          const badge = getHealthBadge(project.health)
+                          const Icon = badge.icon
+                          return (
+                            <Badge className={badge.className} title={project.health.reasons.join('\n') || undefined}>
+                              <Icon className="h-3 w-3 mr-1" />
+                              {badge.label}
+                            </Badge>
+                          )
+                        })()}
                       </div>
                       
                       {project.description && (
@@ -280,10 +320,14 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
                       )}
                       
                       <div className="flex items-center gap-6 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-foreground hover:underline"
+                          onClick={() => setMembersProject(project)}
+                        >
                           <Users className="h-4 w-4" />
-                          {project.members.length} members
-                        </div>
+                          {project.members.length + 1} members
+                        </button>
                         <div className="flex items-center gap-1">
                           <CheckCircle className="h-4 w-4" />
                           {project._count.tasks} tasks
@@ -298,11 +342,26 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
                             ${project.budget.toLocaleString()}
                           </div>
                         )}
+                        {project.health && project.health.loggedHours > 0 && (
+                          <div className="flex items-center gap-1">
+                            <Timer className="h-4 w-4" />
+                            {project.health.loggedHours}h logged
+                            {project.health.budgetUsedPercent !== null && ` (${project.health.budgetUsedPercent}% of budget)`}
+                          </div>
+                        )}
                         <div className="flex items-center gap-1">
                           <Clock className="h-4 w-4" />
                           {formatDistanceToNow(new Date(project.createdAt), { addSuffix: true })}
                         </div>
                       </div>
+
+                      {project.health && project.health.reasons.length > 0 && (
+                        <ul className="mt-2 text-xs text-muted-foreground list-disc list-inside">
+                          {project.health.reasons.map(reason => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      )}
                       
                       {/* Progress Bar */}
                       <div className="mt-3">
@@ -317,6 +376,26 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
                           />
                         </div>
                       </div>
+
+                      {burndownProjectId === project.id && (
+                        <div className="mt-4">
+                          <ProjectBurndownChart projectId={project.id} />
+                        </div>
+                      )}
+                    </div>
+                    <div className="ml-4 flex flex-col items-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBurndownProjectId(burndownProjectId === project.id ? null : project.id)}
+                      >
+                        <LineChartIcon className="h-4 w-4 mr-2" />
+                        {burndownProjectId === project.id ? 'Hide Burndown' : 'Burndown'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setTimelineProject(project)}>
+                        <GanttChart className="h-4 w-4 mr-2" />
+                        Timeline
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -325,6 +404,18 @@ export function ProjectDashboard({ onCreateProject }: ProjectDashboardProps) {
           )}
         </CardContent>
       </Card>
+
+      <ProjectMembersDialog
+        project={membersProject}
+        onOpenChange={(open) => !open && setMembersProject(null)}
+        onMembersChanged={fetchProjects}
+      />
+
+      <ProjectTimelineDialog
+        project={timelineProject}
+        onOpenChange={(open) => !open && setTimelineProject(null)}
+        onScheduleChanged={fetchProjects}
+      />
     </div>
   )
 }
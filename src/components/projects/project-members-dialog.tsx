@@ -0,0 +1,274 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Trash2, UserPlus } from 'lucide-react'
+import { toast } from 'sonner'
+import { safeJsonParse } from '@/lib/utils'
+import { usePermissions } from '@/hooks/use-permissions'
+
+type ProjectRole = 'OWNER' | 'MANAGER' | 'MEMBER' | 'VIEWER'
+
+interface ProjectMemberItem {
+  id: string
+  role: ProjectRole
+  joinedAt: string
+  user: {
+    id: string
+    name: string
+    email: string
+  }
+}
+
+interface BasicUser {
+  id: string
+  name: string
+  email: string
+}
+
+interface ProjectMembersDialogProps {
+  project: {
+    id: string
+    name: string
+    createdBy: BasicUser
+  } | null
+  onOpenChange: (open: boolean) => void
+  onMembersChanged: () => void
+}
+
+const PROJECT_ROLES: { key: ProjectRole; label: string; description: string }[] = [
+  { key: 'OWNER', label: 'Owner', description: 'Full control, including owners and managers' },
+  { key: 'MANAGER', label: 'Manager', description: 'Edit project and budget, manage members' },
+  { key: 'MEMBER', label: 'Member', description: 'Create and edit tasks' },
+  { key: 'VIEWER', label: 'Viewer', description: 'Read only' }
+]
+
+// Mirrors canAssignProjectRole in src/lib/project-access.ts
+const canAssignRole = (actorRole: ProjectRole | null, role: ProjectRole) => {
+  if (actorRole === 'OWNER') return true
+  return actorRole === 'MANAGER' && (role === 'MEMBER' || role === 'VIEWER')
+}
+
+export function ProjectMembersDialog({ project, onOpenChange, onMembersChanged }: ProjectMembersDialogProps) {
+  const { hasPermission } = usePermissions()
+  const [members, setMembers] = useState<ProjectMemberItem[]>([])
+  const [currentUserRole, setCurrentUserRole] = useState<ProjectRole | null>(null)
+  const [users, setUsers] = useState<BasicUser[]>([])
+  const [newUserId, setNewUserId] = useState('')
+  const [newRole, setNewRole] = useState<ProjectRole>('MEMBER')
+  const [loading, setLoading] = useState(false)
+
+  const projectId = project?.id
+  const canManage = hasPermission('MANAGE_PROJECT_MEMBERS') &&
+    (currentUserRole === 'OWNER' || currentUserRole === 'MANAGER')
+
+  const fetchMembers = useCallback(async () => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`)
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load members')
+        return
+      }
+      setMembers(data.members)
+      setCurrentUserRole(data.currentUserRole)
+    } catch (error) {
+      console.error('Error fetching project members:', error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    setMembers([])
+    setCurrentUserRole(null)
+    fetchMembers()
+  }, [fetchMembers])
+
+  useEffect(() => {
+    if (!canManage || users.length > 0) return
+    const fetchUsers = async () => {
+      try {
+        const response = await fetch('/api/users/basic')
+        if (response.ok) {
+          setUsers(await safeJsonParse(response))
+        }
+      } catch (error) {
+        console.error('Error fetching users:', error)
+      }
+    }
+    fetchUsers()
+  }, [canManage, users.length])
+
+  const availableUsers = users.filter(u =>
+    u.id !== project?.createdBy.id && !members.some(m => m.user.id === u.id)
+  )
+
+  const handleAdd = async () => {
+    if (!projectId || !newUserId) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: newUserId, role: newRole })
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add member')
+        return
+      }
+      setMembers(prev => [...prev, data])
+      setNewUserId('')
+      toast.success(`${data.user.name} added to the project`)
+      onMembersChanged()
+    } catch (error) {
+      console.error('Error adding member:', error)
+      toast.error('Failed to add member')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRoleChange = async (member: ProjectMemberItem, role: ProjectRole) => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${member.user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to change role')
+        return
+      }
+      setMembers(prev => prev.map(m => m.id === member.id ? data : m))
+      onMembersChanged()
+    } catch (error) {
+      console.error('Error changing member role:', error)
+      toast.error('Failed to change role')
+    }
+  }
+
+  const handleRemove = async (member: ProjectMemberItem) => {
+    if (!projectId || !confirm(`Remove ${member.user.name} from ${project?.name}?`)) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${member.user.id}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to remove member')
+        return
+      }
+      setMembers(prev => prev.filter(m => m.id !== member.id))
+      toast.success(`${member.user.name} removed from the project`)
+      onMembersChanged()
+    } catch (error) {
+      console.error('Error removing member:', error)
+      toast.error('Failed to remove member')
+    }
+  }
+
+  const getRoleLabel = (role: ProjectRole) => PROJECT_ROLES.find(r => r.key === role)?.label || role
+
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{project?.name} Members</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {canManage && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={newUserId} onValueChange={setNewUserId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableUsers.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name} ({u.email})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newRole} onValueChange={(role) => setNewRole(role as ProjectRole)}>
+                <SelectTrigger className="sm:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_ROLES.filter(r => canAssignRole(currentUserRole, r.key)).map(r => (
+                    <SelectItem key={r.key} value={r.key}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!newUserId || loading}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          )}
+
+          <div className="divide-y border rounded-lg">
+            {project && (
+              <div className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{project.createdBy.name}</p>
+                  <p className="text-xs text-muted-foreground">{project.createdBy.email} · Creator</p>
+                </div>
+                <Badge variant="secondary">Owner</Badge>
+              </div>
+            )}
+            {members.map(member => {
+              const editable = canManage && canAssignRole(currentUserRole, member.role)
+              return (
+                <div key={member.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{member.user.name}</p>
+                    <p className="text-xs text-muted-foreground">{member.user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {editable ? (
+                      <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role as ProjectRole)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROJECT_ROLES.filter(r => canAssignRole(currentUserRole, r.key)).map(r => (
+                            <SelectItem key={r.key} value={r.key}>{r.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{getRoleLabel(member.role)}</Badge>
+                    )}
+                    {editable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        onClick={() => handleRemove(member)}
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-muted-foreground">
+            {PROJECT_ROLES.map(r => (
+              <p key={r.key}><span className="font-medium text-foreground">{r.label}:</span> {r.description}</p>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
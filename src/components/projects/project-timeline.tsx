@@ -0,0 +1,365 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  DndContext,
+  DragEndEvent,
+  Modifier,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core'
+import { CSS } from '@dnd-kit/utilities'
+import { addDays, differenceInCalendarDays, format, isWeekend, startOfDay } from 'date-fns'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { GanttChart } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn, safeJsonParse } from '@/lib/utils'
+
+interface TimelineTask {
+  id: string
+  title: string
+  status: string
+  priority: string
+  startDate: string | null
+  dueDate: string | null
+  assignedTo: { id: string; name: string } | null
+}
+
+interface TimelineData {
+  project: { id: string; name: string; startDate: string | null; endDate: string | null }
+  tasks: TimelineTask[]
+  dependencies: Array<{ taskId: string; dependsOnId: string }>
+  canEdit: boolean
+}
+
+const DAY_WIDTH = 32
+const ROW_HEIGHT = 40
+const LABEL_WIDTH = 220
+const BAR_HEIGHT = 22
+
+const STATUS_BAR_COLORS: Record<string, string> = {
+  DONE: 'bg-green-500',
+  COMPLETED: 'bg-green-500',
+  IN_PROGRESS: 'bg-blue-500',
+  ON_HOLD: 'bg-amber-500',
+}
+
+// Bars only move sideways, a whole day at a time
+const snapToDays: Modifier = ({ transform }) => ({
+  ...transform,
+  x: Math.round(transform.x / DAY_WIDTH) * DAY_WIDTH,
+  y: 0,
+})
+
+// A task with only one of its dates is drawn as a single day
+function getTaskSpan(task: Pick<TimelineTask, 'startDate' | 'dueDate'>) {
+  const start = task.startDate ?? task.dueDate
+  const end = task.dueDate ?? task.startDate
+  if (!start || !end) return null
+  return { start: startOfDay(new Date(start)), end: startOfDay(new Date(end)) }
+}
+
+interface TaskBarProps {
+  task: TimelineTask
+  left: number
+  width: number
+  disabled: boolean
+}
+
+function TaskBar({ task, left, width, disabled }: TaskBarProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: task.id, disabled })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      title={`${task.title}${task.assignedTo ? ` · ${task.assignedTo.name}` : ''}`}
+      className={cn(
+        'absolute rounded text-[11px] leading-[22px] text-white px-1.5 truncate shadow-sm',
+        STATUS_BAR_COLORS[task.status] ?? 'bg-gray-400',
+        disabled ? 'cursor-default' : 'cursor-grab',
+        isDragging && 'opacity-80 ring-2 ring-primary z-10'
+      )}
+      style={{
+        left,
+        width,
+        top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+        height: BAR_HEIGHT,
+        transform: CSS.Translate.toString(transform),
+      }}
+    >
+      {width >= DAY_WIDTH * 2 && task.title}
+    </div>
+  )
+}
+
+interface ProjectTimelineProps {
+  projectId: string
+  onScheduleChanged?: () => void
+}
+
+export function ProjectTimeline({ projectId, onScheduleChanged }: ProjectTimelineProps) {
+  const [data, setData] = useState<TimelineData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    })
+  )
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/timeline`)
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        setError(result.error || 'Failed to load timeline')
+        return
+      }
+      setData(result)
+    } catch (error) {
+      console.error('Error fetching timeline:', error)
+      setError('Failed to load timeline')
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchTimeline()
+  }, [fetchTimeline])
+
+  // Visible range: every scheduled task and the project's own dates, with a few days either side
+  const range = useMemo(() => {
+    if (!data) return null
+    const dates: Date[] = []
+    for (const task of data.tasks) {
+      const span = getTaskSpan(task)
+      if (span) dates.push(span.start, span.end)
+    }
+    if (data.project.startDate) dates.push(startOfDay(new Date(data.project.startDate)))
+    if (data.project.endDate) dates.push(startOfDay(new Date(data.project.endDate)))
+    if (dates.length === 0) dates.push(startOfDay(new Date()))
+
+    const first = addDays(new Date(Math.min(...dates.map(d => d.getTime()))), -3)
+    const last = addDays(new Date(Math.max(...dates.map(d => d.getTime()))), 7)
+    const days = Array.from({ length: differenceInCalendarDays(last, first) + 1 }, (_, i) => addDays(first, i))
+    return { first, days }
+  }, [data])
+
+  const handleDragEnd = async ({ active, delta }: DragEndEvent) => {
+    if (!data) return
+    const days = Math.round(delta.x / DAY_WIDTH)
+    const task = data.tasks.find(t => t.id === active.id)
+    if (!task || days === 0) return
+
+    const shift = (date: string | null) => date ? addDays(new Date(date), days).toISOString() : null
+    const startDate = shift(task.startDate)
+    const dueDate = shift(task.dueDate)
+
+    // Move the bar straight away; the server's answer includes any dependents it pushed back
+    setData(prev => prev && {
+      ...prev,
+      tasks: prev.tasks.map(t => t.id === task.id ? { ...t, startDate, dueDate } : t),
+    })
+
+    try {
+      const response = await fetch(`/api/tasks/enhanced/${task.id}/schedule`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, dueDate }),
+      })
+      const result = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to reschedule task')
+        fetchTimeline()
+        return
+      }
+
+      const updated = new Map<string, Pick<TimelineTask, 'startDate' | 'dueDate'>>(
+        result.tasks.map((t: TimelineTask) => [t.id, t])
+      )
+      setData(prev => prev && {
+        ...prev,
+        tasks: prev.tasks.map(t => {
+          const dates = updated.get(t.id)
+          return dates ? { ...t, startDate: dates.startDate, dueDate: dates.dueDate } : t
+        }),
+      })
+
+      const moved = updated.size - 1
+      toast.success(moved > 0
+        ? `Rescheduled, and moved ${moved} dependent task${moved === 1 ? '' : 's'}`
+        : 'Task rescheduled')
+      onScheduleChanged?.()
+    } catch (error) {
+      console.error('Error rescheduling task:', error)
+      toast.error('Failed to reschedule task')
+      fetchTimeline()
+    }
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (!data || !range) {
+    return <div className="h-[240px] animate-pulse bg-gray-100 rounded" />
+  }
+
+  if (data.tasks.length === 0) {
+    return <p className="text-sm text-muted-foreground">This project has no tasks yet.</p>
+  }
+
+  const rowIndex = new Map(data.tasks.map((task, index) => [task.id, index]))
+  const dayOffset = (date: Date) => differenceInCalendarDays(date, range.first) * DAY_WIDTH
+  const chartWidth = range.days.length * DAY_WIDTH
+  const chartHeight = data.tasks.length * ROW_HEIGHT
+  const todayOffset = dayOffset(startOfDay(new Date()))
+
+  // Finish-to-start connectors from the end of each blocker to the start of the task waiting on it
+  const connectors = data.dependencies.flatMap(({ taskId, dependsOnId }) => {
+    const task = data.tasks.find(t => t.id === taskId)
+    const blocker = data.tasks.find(t => t.id === dependsOnId)
+    const taskSpan = task && getTaskSpan(task)
+    const blockerSpan = blocker && getTaskSpan(blocker)
+    if (!taskSpan || !blockerSpan) return []
+
+    const x1 = dayOffset(blockerSpan.end) + DAY_WIDTH
+    const y1 = rowIndex.get(dependsOnId)! * ROW_HEIGHT + ROW_HEIGHT / 2
+    const x2 = dayOffset(taskSpan.start)
+    const y2 = rowIndex.get(taskId)! * ROW_HEIGHT + ROW_HEIGHT / 2
+    return [{
+      key: `${dependsOnId}-${taskId}`,
+      path: `M ${x1} ${y1} h 6 V ${y2} H ${x2}`,
+      conflict: taskSpan.start < blockerSpan.end,
+    }]
+  })
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {data.canEdit
+          ? 'Drag a bar to reschedule it. Tasks that depend on it move back if they would start before it is due.'
+          : 'You can view this timeline but not reschedule its tasks.'}
+      </p>
+      <div className="border rounded-lg overflow-auto max-h-[65vh]">
+        <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+          {/* Header */}
+          <div className="flex sticky top-0 z-20 bg-background border-b">
+            <div className="sticky left-0 z-30 bg-background border-r flex-shrink-0 px-3 py-2 text-xs font-medium" style={{ width: LABEL_WIDTH }}>
+              Task
+            </div>
+            {range.days.map(day => (
+              <div
+                key={day.toISOString()}
+                className={cn('flex-shrink-0 text-center border-r py-1', isWeekend(day) && 'bg-muted/50')}
+                style={{ width: DAY_WIDTH }}
+              >
+                <div className="text-[10px] text-muted-foreground h-3">
+                  {(day.getDate() === 1 || day.getTime() === range.first.getTime()) && format(day, 'MMM')}
+                </div>
+                <div className="text-[11px]">{format(day, 'd')}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex">
+            {/* Task names */}
+            <div className="sticky left-0 z-10 bg-background border-r flex-shrink-0" style={{ width: LABEL_WIDTH }}>
+              {data.tasks.map(task => (
+                <div key={task.id} className="flex flex-col justify-center px-3 border-b" style={{ height: ROW_HEIGHT }}>
+                  <span className="text-xs font-medium truncate">{task.title}</span>
+                  <span className="text-[10px] text-muted-foreground truncate">
+                    {task.status.replace(/_/g, ' ')}
+                    {task.assignedTo && ` · ${task.assignedTo.name}`}
+                    {!getTaskSpan(task) && ' · not scheduled'}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Bars */}
+            <DndContext sensors={sensors} modifiers={[snapToDays]} onDragEnd={handleDragEnd}>
+              <div className="relative flex-shrink-0" style={{ width: chartWidth, height: chartHeight }}>
+                {range.days.map(day => isWeekend(day) && (
+                  <div
+                    key={day.toISOString()}
+                    className="absolute top-0 bottom-0 bg-muted/50"
+                    style={{ left: dayOffset(day), width: DAY_WIDTH }}
+                  />
+                ))}
+                {todayOffset >= 0 && todayOffset < chartWidth && (
+                  <div className="absolute top-0 bottom-0 w-px bg-red-400" style={{ left: todayOffset + DAY_WIDTH / 2 }} />
+                )}
+
+                <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={chartHeight}>
+                  <defs>
+                    <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                      <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+                    </marker>
+                  </defs>
+                  {connectors.map(connector => (
+                    <path
+                      key={connector.key}
+                      d={connector.path}
+                      fill="none"
+                      strokeWidth={1.5}
+                      markerEnd="url(#timeline-arrow)"
+                      className={connector.conflict ? 'text-red-500 stroke-red-500' : 'text-gray-400 stroke-gray-400'}
+                    />
+                  ))}
+                </svg>
+
+                {data.tasks.map((task, index) => {
+                  const span = getTaskSpan(task)
+                  return (
+                    <div
+                      key={task.id}
+                      className="absolute left-0 right-0 border-b"
+                      style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    >
+                      {span && (
+                        <TaskBar
+                          task={task}
+                          left={dayOffset(span.start)}
+                          width={(differenceInCalendarDays(span.end, span.start) + 1) * DAY_WIDTH}
+                          disabled={!data.canEdit}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </DndContext>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface ProjectTimelineDialogProps {
+  project: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+  onScheduleChanged?: () => void
+}
+
+export function ProjectTimelineDialog({ project, onOpenChange, onScheduleChanged }: ProjectTimelineDialogProps) {
+  return (
+    <Dialog open={!!project} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GanttChart className="h-5 w-5" />
+            Timeline - {project?.name}
+          </DialogTitle>
+        </DialogHeader>
+        {project && <ProjectTimeline projectId={project.id} onScheduleChanged={onScheduleChanged} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
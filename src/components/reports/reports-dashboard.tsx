@@ -10,6 +10,7 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { safeJsonParse } from '@/lib/utils'
+import { SlaReport } from './sla-report'
 import { 
   BarChart, 
   Bar, 
@@ -243,7 +244,7 @@ export function ReportsDashboard() {
       </div>
 
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 h-auto">
+        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 h-auto">
           <TabsTrigger value="overview" className="text-xs sm:text-sm py-2 sm:py-2.5">
             <Activity className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
             <span className="hidden sm:inline">Overview</span>
@@ -269,6 +270,11 @@ export function ReportsDashboard() {
             <span className="hidden sm:inline">Trends</span>
             <span className="sm:hidden">Trends</span>
           </TabsTrigger>
+          <TabsTrigger value="sla" className="text-xs sm:text-sm py-2 sm:py-2.5">
+            <Clock className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
+            <span className="hidden sm:inline">Follow-up SLA</span>
+            <span className="sm:hidden">SLA</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -885,6 +891,11 @@ export function ReportsDashboard() {
             </Card>
           </div>
       </TabsContent>
+
+        {/* Follow-up SLA Tab */}
+        <TabsContent value="sla" className="mt-4 sm:mt-6">
+          <SlaReport />
+        </TabsContent>
     </Tabs>
 
       {/* Details Dialog */}
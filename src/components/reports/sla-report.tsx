@@ -0,0 +1,231 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { safeJsonParse } from '@/lib/utils'
+import { Loader2, Timer, CheckCircle } from 'lucide-react'
+
+interface SlaReportData {
+  summary: {
+    inquiries: number
+    contacted: number
+    averageHoursToFirstContact: number | null
+    medianHoursToFirstContact: number | null
+    followUpsDue: number
+    onTimeRate: number | null
+  }
+  firstContact: {
+    seekerId: string
+    fullName: string
+    createdAt: string
+    firstContactAt: string | null
+    hoursToFirstContact: number | null
+    coordinator: { id: string; name: string }
+  }[]
+  coordinators: {
+    id: string
+    name: string
+    email: string
+    due: number
+    completedOnTime: number
+    completedLate: number
+    notCompleted: number
+    onTimeRate: number
+  }[]
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return '-'
+  if (hours < 48) return `${hours}h`
+  return `${Math.round((hours / 24) * 10) / 10}d`
+}
+
+function getRateColor(rate: number) {
+  if (rate >= 90) return 'bg-green-100 text-green-800'
+  if (rate >= 70) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+export function SlaReport() {
+  const [days, setDays] = useState('30')
+  const [data, setData] = useState<SlaReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/reports/sla?days=${days}`)
+      if (response.ok) {
+        setData(await safeJsonParse(response))
+      }
+    } catch (error) {
+      console.error('Error fetching SLA report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Follow-ups count towards the on-time rate once they are due.
+        </p>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading || !data ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+            <Card className="shadow-sm border-gray-200">
+              <CardContent className="p-4">
+                <p className="text-xs font-medium text-gray-600 mb-1">Avg. Time to First Contact</p>
+                <p className="text-xl sm:text-2xl font-bold text-gray-900">{formatHours(data.summary.averageHoursToFirstContact)}</p>
+              </CardContent>
+            </Card>
+            <Card className="shadow-sm border-gray-200">
+              <CardContent className="p-4">
+                <p className="text-xs font-medium text-gray-600 mb-1">Median Time to First Contact</p>
+                <p className="text-xl sm:text-2xl font-bold text-gray-900">{formatHours(data.summary.medianHoursToFirstContact)}</p>
+              </CardContent>
+            </Card>
+            <Card className="shadow-sm border-gray-200">
+              <CardContent className="p-4">
+                <p className="text-xs font-medium text-gray-600 mb-1">Not Yet Contacted</p>
+                <p className="text-xl sm:text-2xl font-bold text-gray-900">
+                  {data.summary.inquiries - data.summary.contacted}
+                  <span className="text-sm font-normal text-gray-500"> / {data.summary.inquiries}</span>
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="shadow-sm border-gray-200">
+              <CardContent className="p-4">
+                <p className="text-xs font-medium text-gray-600 mb-1">Follow-ups On Time</p>
+                <p className="text-xl sm:text-2xl font-bold text-gray-900">
+                  {data.summary.onTimeRate === null ? '-' : `${data.summary.onTimeRate}%`}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-sm border-gray-200">
+            <CardHeader className="bg-gray-50/50 border-b border-gray-200 pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 sm:h-5 sm:w-5 text-green-600" />
+                Follow-ups Completed On Time
+              </CardTitle>
+              <CardDescription className="text-xs sm:text-sm mt-1">
+                {data.summary.followUpsDue} follow-ups due in this period
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {data.coordinators.length > 0 ? (
+                <div className="rounded-md border border-gray-200 overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="hover:bg-gray-50/50">
+                        <TableHead className="font-semibold text-gray-900">Coordinator</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-center">Due</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-center">On Time</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-center">Late</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-center">Not Completed</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-center">On-Time Rate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.coordinators.map(coordinator => (
+                        <TableRow key={coordinator.id}>
+                          <TableCell>
+                            <p className="font-medium text-gray-900">{coordinator.name}</p>
+                            <p className="text-xs text-gray-500">{coordinator.email}</p>
+                          </TableCell>
+                          <TableCell className="text-center">{coordinator.due}</TableCell>
+                          <TableCell className="text-center">{coordinator.completedOnTime}</TableCell>
+                          <TableCell className="text-center">{coordinator.completedLate}</TableCell>
+                          <TableCell className="text-center">{coordinator.notCompleted}</TableCell>
+                          <TableCell className="text-center">
+                            <Badge className={`${getRateColor(coordinator.onTimeRate)} text-xs font-medium`}>
+                              {coordinator.onTimeRate}%
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-8">No follow-ups were due in this period</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm border-gray-200">
+            <CardHeader className="bg-gray-50/50 border-b border-gray-200 pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Timer className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
+                Time to First Contact
+              </CardTitle>
+              <CardDescription className="text-xs sm:text-sm mt-1">
+                From inquiry creation to the first recorded interaction
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {data.firstContact.length > 0 ? (
+                <div className="rounded-md border border-gray-200 overflow-x-auto max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="hover:bg-gray-50/50">
+                        <TableHead className="font-semibold text-gray-900">Inquiry</TableHead>
+                        <TableHead className="font-semibold text-gray-900">Coordinator</TableHead>
+                        <TableHead className="font-semibold text-gray-900">Created</TableHead>
+                        <TableHead className="font-semibold text-gray-900">First Contact</TableHead>
+                        <TableHead className="font-semibold text-gray-900 text-right">Time</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.firstContact.map(row => (
+                        <TableRow key={row.seekerId}>
+                          <TableCell className="font-medium text-gray-900">{row.fullName}</TableCell>
+                          <TableCell className="text-gray-700">{row.coordinator.name}</TableCell>
+                          <TableCell className="text-gray-700 text-sm whitespace-nowrap">
+                            {new Date(row.createdAt).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-gray-700 text-sm whitespace-nowrap">
+                            {row.firstContactAt ? new Date(row.firstContactAt).toLocaleString() : <span className="text-gray-400">Not contacted</span>}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">{formatHours(row.hoursToFirstContact)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-8">No inquiries were created in this period</p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
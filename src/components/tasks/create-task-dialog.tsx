@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { toast } from 'sonner'
 import { Plus } from 'lucide-react'
+import { EMPTY_RECURRENCE, RecurrenceFields, toRecurrencePayload } from './recurrence-fields'
 
 interface User {
   id: string
@@ -34,6 +35,7 @@ export function CreateTaskDialog({ onTaskCreated }: CreateTaskDialogProps) {
     dueDate: '',
     assignedToId: 'unassigned',
   })
+  const [recurrence, setRecurrence] = useState(EMPTY_RECURRENCE)
 
   useEffect(() => {
     if (open) {
@@ -55,6 +57,10 @@ export function CreateTaskDialog({ onTaskCreated }: CreateTaskDialogProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (recurrence.repeat !== 'NONE' && !formData.dueDate) {
+      toast.error('Set a due date for a repeating task')
+      return
+    }
     setLoading(true)
 
     try {
@@ -70,6 +76,7 @@ export function CreateTaskDialog({ onTaskCreated }: CreateTaskDialogProps) {
           priority: formData.priority,
           dueDate: formData.dueDate || undefined,
           assignedToId: formData.assignedToId === 'unassigned' ? undefined : formData.assignedToId,
+          recurrence: toRecurrencePayload(recurrence),
         }),
       })
 
@@ -84,6 +91,7 @@ export function CreateTaskDialog({ onTaskCreated }: CreateTaskDialogProps) {
           dueDate: '',
           assignedToId: 'unassigned',
         })
+        setRecurrence(EMPTY_RECURRENCE)
         onTaskCreated()
       } else {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
@@ -243,6 +251,16 @@ export function CreateTaskDialog({ onTaskCreated }: CreateTaskDialogProps) {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Recurrence Card */}
+            <Card className="border shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base sm:text-lg font-semibold">Recurrence</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+              </CardContent>
+            </Card>
           </div>
 
           {/* Sticky Footer */}
@@ -8,6 +8,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { TaskSearchFilter } from './task-search-filter'
 import { CreateTaskDialog } from './create-task-dialog'
+import { TaskWorkPanel } from './task-work-panel'
+import { RecurrenceSummary, describeRecurrence } from './recurrence-fields'
+import { RecurrenceSeriesDialog } from './recurrence-series-dialog'
 import { 
   CheckCircle, 
   Clock, 
@@ -19,7 +22,8 @@ import {
   CheckSquare,
   History,
   MoreHorizontal,
-  Eye
+  Eye,
+  Repeat
 } from 'lucide-react'
 import {
   DndContext,
@@ -65,6 +69,7 @@ interface FollowUpTask {
       name: string
     }
   }[]
+  recurrence?: RecurrenceSummary | null
   type?: 'followup'
 }
 
@@ -86,6 +91,7 @@ interface RegularTask {
     name: string
     email: string
   }
+  recurrence?: RecurrenceSummary | null
   type?: 'regular'
 }
 
@@ -339,6 +345,12 @@ function SortableTaskCard({ task, onViewDetails, onViewHistory }: {
                 >
                   {task.priority}
                 </Badge>
+                {task.recurrence && (
+                  <Badge variant="outline" className="text-xs px-2 py-0.5 font-medium" title={describeRecurrence(task.recurrence)}>
+                    <Repeat className="h-3 w-3 mr-1" />
+                    Repeats
+                  </Badge>
+                )}
               </div>
               {task.dueDate && (
                 <div className="flex items-center space-x-1.5 text-xs text-gray-600 bg-gray-50 px-2 py-1 rounded-md">
@@ -359,6 +371,12 @@ function SortableTaskCard({ task, onViewDetails, onViewHistory }: {
                 >
                   {'purpose' in task ? task.purpose.replace('_', ' ') : 'Task'}
                 </Badge>
+                {task.recurrence && (
+                  <Badge variant="outline" className="text-xs px-2 py-0.5 font-medium" title={describeRecurrence(task.recurrence)}>
+                    <Repeat className="h-3 w-3 mr-1" />
+                    Repeats
+                  </Badge>
+                )}
               </div>
               <div className="flex items-center space-x-1.5 text-xs text-gray-600 bg-gray-50 px-2 py-1 rounded-md">
                 <Calendar className="h-3.5 w-3.5 flex-shrink-0 text-gray-500" />
@@ -383,6 +401,7 @@ export function KanbanBoard() {
   const [historyOpen, setHistoryOpen] = useState(false)
   const [historyTask, setHistoryTask] = useState<TaskItem | null>(null)
   const [activeTask, setActiveTask] = useState<TaskItem | null>(null)
+  const [seriesId, setSeriesId] = useState<string | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -441,7 +460,7 @@ export function KanbanBoard() {
     setFilteredTasks(tasks)
   }
 
-  const updateTaskStatus = async (taskId: string, newStatus: string, taskType?: string) => {
+  const updateTaskStatus = async (taskId: string, newStatus: string, taskType?: string, ignoreBlockers = false) => {
     try {
       let response
       if (taskType === 'regular') {
@@ -451,8 +470,21 @@ export function KanbanBoard() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ status: newStatus }),
+          body: JSON.stringify({ status: newStatus, ignoreBlockers }),
         })
+
+        // Starting a task that is still waiting on others needs confirming
+        if (response.status === 409) {
+          const data = await response.json().catch(() => ({}))
+          const blockers: Array<{ title: string }> = data.blockers || []
+          if (blockers.length > 0 && confirm(
+            `${data.error}:\n\n${blockers.map(b => `• ${b.title}`).join('\n')}\n\nStart it anyway?`
+          )) {
+            return updateTaskStatus(taskId, newStatus, taskType, true)
+          }
+          await fetchTasks()
+          return
+        }
       } else {
         // Update FollowUpTask via regular API
         response = await fetch(`/api/tasks/${taskId}`, {
@@ -771,6 +803,8 @@ export function KanbanBoard() {
                     </Card>
                   )}
                   
+                  <TaskWorkPanel taskId={selectedTask.id} />
+                  
                   <Card className="w-full overflow-hidden">
                     <CardHeader>
                       <CardTitle className="text-base sm:text-lg">Change Status</CardTitle>
@@ -870,11 +904,38 @@ export function KanbanBoard() {
                   </Card>
                 </>
               )}
+
+              {selectedTask.recurrence && (
+                <Card className="w-full overflow-hidden">
+                  <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Repeat className="h-4 w-4 text-gray-500" />
+                      <span>{describeRecurrence(selectedTask.recurrence)}</span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSeriesId(selectedTask.recurrence!.id)
+                        setSelectedTask(null)
+                      }}
+                    >
+                      Edit Series
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      <RecurrenceSeriesDialog
+        recurrenceId={seriesId}
+        onOpenChange={(open) => !open && setSeriesId(null)}
+        onSeriesChanged={fetchTasks}
+      />
+
       {/* Action History Dialog */}
       <Dialog open={historyOpen} onOpenChange={(open) => {
         setHistoryOpen(open)
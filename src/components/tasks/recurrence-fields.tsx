@@ -0,0 +1,238 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+
+// Series details returned with tasks and follow-ups by the API
+export interface RecurrenceSummary {
+  id: string
+  frequency: 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'MONTHLY'
+  interval: number
+  daysOfWeek: number[]
+  until: string | null
+  maxOccurrences: number | null
+  occurrenceCount: number
+  isActive: boolean
+}
+
+// "Every N days" is DAILY with an interval; NONE means the task doesn't repeat
+export type RepeatOption = 'NONE' | 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'MONTHLY' | 'EVERY_N_DAYS'
+
+export interface RecurrenceFormValue {
+  repeat: RepeatOption
+  interval: number
+  daysOfWeek: number[]
+  ends: 'NEVER' | 'ON_DATE' | 'AFTER'
+  until: string
+  count: number
+}
+
+export const EMPTY_RECURRENCE: RecurrenceFormValue = {
+  repeat: 'NONE',
+  interval: 1,
+  daysOfWeek: [],
+  ends: 'NEVER',
+  until: '',
+  count: 10,
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Request body for the recurrence of a new task, or undefined when it doesn't repeat
+ */
+export function toRecurrencePayload(value: RecurrenceFormValue) {
+  if (value.repeat === 'NONE') return undefined
+  return {
+    frequency: value.repeat === 'EVERY_N_DAYS' ? 'DAILY' : value.repeat,
+    interval: value.repeat === 'WEEKDAYS' || value.repeat === 'DAILY' ? 1 : value.interval,
+    daysOfWeek: value.repeat === 'WEEKLY' ? value.daysOfWeek : [],
+    until: value.ends === 'ON_DATE' && value.until ? value.until : null,
+    maxOccurrences: value.ends === 'AFTER' ? value.count : null,
+  }
+}
+
+// until is stored as the end of that day, so read the date back in local time rather than UTC
+function toDateInputValue(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function fromRecurrence(recurrence: RecurrenceSummary): RecurrenceFormValue {
+  const repeat: RepeatOption = recurrence.frequency === 'DAILY' && recurrence.interval > 1
+    ? 'EVERY_N_DAYS'
+    : recurrence.frequency
+  return {
+    repeat,
+    interval: recurrence.interval,
+    daysOfWeek: recurrence.daysOfWeek,
+    ends: recurrence.until ? 'ON_DATE' : recurrence.maxOccurrences ? 'AFTER' : 'NEVER',
+    until: recurrence.until ? toDateInputValue(new Date(recurrence.until)) : '',
+    count: recurrence.maxOccurrences ?? EMPTY_RECURRENCE.count,
+  }
+}
+
+/**
+ * Short description such as "Weekly on Mon, Thu · 3 of 10"
+ */
+export function describeRecurrence(recurrence: RecurrenceSummary) {
+  let text: string
+  switch (recurrence.frequency) {
+    case 'DAILY':
+      text = recurrence.interval > 1 ? `Every ${recurrence.interval} days` : 'Daily'
+      break
+    case 'WEEKDAYS':
+      text = 'Every weekday'
+      break
+    case 'WEEKLY': {
+      const days = recurrence.daysOfWeek.map(day => WEEKDAYS[day]).join(', ')
+      text = recurrence.interval > 1 ? `Every ${recurrence.interval} weeks` : 'Weekly'
+      if (days) text += ` on ${days}`
+      break
+    }
+    case 'MONTHLY':
+      text = recurrence.interval > 1 ? `Every ${recurrence.interval} months` : 'Monthly'
+      break
+  }
+
+  if (!recurrence.isActive) return `${text} · ended`
+  if (recurrence.maxOccurrences) return `${text} · ${recurrence.occurrenceCount} of ${recurrence.maxOccurrences}`
+  if (recurrence.until) return `${text} · until ${new Date(recurrence.until).toLocaleDateString()}`
+  return text
+}
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormValue
+  onChange: (value: RecurrenceFormValue) => void
+  allowNone?: boolean
+}
+
+export function RecurrenceFields({ value, onChange, allowNone = true }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceFormValue>) => onChange({ ...value, ...changes })
+
+  const toggleDay = (day: number) => {
+    update({
+      daysOfWeek: value.daysOfWeek.includes(day)
+        ? value.daysOfWeek.filter(d => d !== day)
+        : [...value.daysOfWeek, day].sort()
+    })
+  }
+
+  const intervalUnit = value.repeat === 'WEEKLY' ? 'week(s)' : value.repeat === 'MONTHLY' ? 'month(s)' : 'day(s)'
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs sm:text-sm font-medium">Repeat</Label>
+          <Select
+            value={value.repeat}
+            onValueChange={(repeat) => update({
+              repeat: repeat as RepeatOption,
+              interval: repeat === 'EVERY_N_DAYS' ? Math.max(2, value.interval) : value.interval
+            })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {allowNone && <SelectItem value="NONE">Does not repeat</SelectItem>}
+              <SelectItem value="DAILY">Daily</SelectItem>
+              <SelectItem value="WEEKDAYS">Every weekday (Mon–Fri)</SelectItem>
+              <SelectItem value="WEEKLY">Weekly</SelectItem>
+              <SelectItem value="MONTHLY">Monthly</SelectItem>
+              <SelectItem value="EVERY_N_DAYS">Every N days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(value.repeat === 'WEEKLY' || value.repeat === 'MONTHLY' || value.repeat === 'EVERY_N_DAYS') && (
+          <div className="space-y-1.5">
+            <Label className="text-xs sm:text-sm font-medium">Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={value.repeat === 'EVERY_N_DAYS' ? 2 : 1}
+                max={365}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">{intervalUnit}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {value.repeat === 'WEEKLY' && (
+        <div className="space-y-1.5">
+          <Label className="text-xs sm:text-sm font-medium">On</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={cn(
+                  'px-2.5 py-1 rounded-md border text-xs font-medium transition-colors',
+                  value.daysOfWeek.includes(day)
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background hover:bg-muted'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Leave empty to repeat on the due date&apos;s weekday.</p>
+        </div>
+      )}
+
+      {value.repeat !== 'NONE' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs sm:text-sm font-medium">Ends</Label>
+            <Select value={value.ends} onValueChange={(ends) => update({ ends: ends as RecurrenceFormValue['ends'] })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NEVER">Never</SelectItem>
+                <SelectItem value="ON_DATE">On a date</SelectItem>
+                <SelectItem value="AFTER">After a number of times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {value.ends === 'ON_DATE' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs sm:text-sm font-medium">Until</Label>
+              <Input type="date" value={value.until} onChange={(e) => update({ until: e.target.value })} />
+            </div>
+          )}
+
+          {value.ends === 'AFTER' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs sm:text-sm font-medium">Occurrences</Label>
+              <Input
+                type="number"
+                min={1}
+                max={500}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value.repeat !== 'NONE' && (
+        <p className="text-xs text-muted-foreground">
+          The next occurrence is created when this one is completed.
+        </p>
+      )}
+    </div>
+  )
+}
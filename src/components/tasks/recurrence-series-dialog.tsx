@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { toast } from 'sonner'
+import { Repeat, XCircle } from 'lucide-react'
+import { safeJsonParse } from '@/lib/utils'
+import {
+  RecurrenceFields,
+  RecurrenceFormValue,
+  RecurrenceSummary,
+  describeRecurrence,
+  fromRecurrence,
+  toRecurrencePayload
+} from './recurrence-fields'
+
+interface RecurrenceSeries extends RecurrenceSummary {
+  cancelledAt: string | null
+  tasks: Array<{ id: string; title: string; status: string; dueDate: string | null }>
+  followUpTasks: Array<{ id: string; purpose: string; status: string; dueAt: string }>
+}
+
+interface RecurrenceSeriesDialogProps {
+  recurrenceId: string | null
+  onOpenChange: (open: boolean) => void
+  onSeriesChanged: () => void
+}
+
+export function RecurrenceSeriesDialog({ recurrenceId, onOpenChange, onSeriesChanged }: RecurrenceSeriesDialogProps) {
+  const [series, setSeries] = useState<RecurrenceSeries | null>(null)
+  const [rule, setRule] = useState<RecurrenceFormValue | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setSeries(null)
+    setRule(null)
+    if (!recurrenceId) return
+
+    const fetchSeries = async () => {
+      try {
+        const response = await fetch(`/api/recurrences/${recurrenceId}`)
+        const data = await safeJsonParse(response)
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to load series')
+          return
+        }
+        setSeries(data)
+        setRule(fromRecurrence(data))
+      } catch (error) {
+        console.error('Error fetching recurring series:', error)
+      }
+    }
+    fetchSeries()
+  }, [recurrenceId])
+
+  const handleSave = async () => {
+    if (!recurrenceId || !rule) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/recurrences/${recurrenceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRecurrencePayload(rule))
+      })
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update series')
+        return
+      }
+      setSeries(data)
+      toast.success('Series updated')
+      onSeriesChanged()
+    } catch (error) {
+      console.error('Error updating recurring series:', error)
+      toast.error('Failed to update series')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancelSeries = async () => {
+    if (!recurrenceId) return
+    if (!confirm('Stop this series? Open occurrences are cancelled; completed ones are kept.')) return
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/recurrences/${recurrenceId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await safeJsonParse(response)
+        toast.error(data.error || 'Failed to cancel series')
+        return
+      }
+      toast.success('Series cancelled')
+      onSeriesChanged()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error cancelling recurring series:', error)
+      toast.error('Failed to cancel series')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const occurrences = series
+    ? [
+      ...series.tasks.map(t => ({ id: t.id, label: t.title, status: t.status, due: t.dueDate })),
+      ...series.followUpTasks.map(t => ({ id: t.id, label: t.purpose.replace(/_/g, ' '), status: t.status, due: t.dueAt }))
+    ]
+    : []
+
+  return (
+    <Dialog open={!!recurrenceId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Recurring Series
+          </DialogTitle>
+        </DialogHeader>
+
+        {!series || !rule ? (
+          <div className="h-40 animate-pulse bg-gray-100 rounded" />
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{describeRecurrence(series)}</Badge>
+              {series.cancelledAt && <Badge className="bg-red-100 text-red-800">Cancelled</Badge>}
+            </div>
+
+            {!series.cancelledAt && (
+              <>
+                <RecurrenceFields value={rule} onChange={setRule} allowNone={false} />
+                <p className="text-xs text-muted-foreground">
+                  Changes apply from the next occurrence; the open one keeps its due date.
+                </p>
+              </>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Occurrences</h4>
+              <div className="divide-y border rounded-lg max-h-60 overflow-y-auto">
+                {occurrences.map(occurrence => (
+                  <div key={occurrence.id} className="flex items-center justify-between gap-3 p-2.5 text-sm">
+                    <span className="truncate">{occurrence.label}</span>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="text-xs text-muted-foreground">
+                        {occurrence.due ? new Date(occurrence.due).toLocaleString() : 'No due date'}
+                      </span>
+                      <Badge variant="secondary" className="text-xs">{occurrence.status.replace(/_/g, ' ')}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {!series.cancelledAt && (
+              <div className="flex flex-col-reverse sm:flex-row justify-between gap-2 pt-2 border-t">
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={handleCancelSeries}
+                  disabled={saving}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Series
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
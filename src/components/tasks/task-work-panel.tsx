@@ -0,0 +1,543 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAuth } from '@/hooks/use-auth'
+import { safeJsonParse } from '@/lib/utils'
+import { toast } from 'sonner'
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckSquare,
+  Clock,
+  GitBranch,
+  MessageSquare,
+  Paperclip,
+  Play,
+  Square,
+  Trash2,
+  Upload,
+} from 'lucide-react'
+
+interface ChecklistItem {
+  id: string
+  title: string
+  completed: boolean
+  order: number
+}
+
+interface TaskCommentItem {
+  id: string
+  content: string
+  createdAt: string
+  updatedAt: string
+  author: { id: string; name: string }
+}
+
+interface TaskAttachmentItem {
+  id: string
+  originalName: string
+  fileSize: number
+  mimeType: string
+  url: string
+  uploadedAt: string
+  uploadedBy: { id: string; name: string }
+}
+
+interface TimeEntryItem {
+  id: string
+  description: string | null
+  startTime: string
+  endTime: string | null
+  duration: number | null
+  user: { id: string; name: string }
+}
+
+interface DependencyTaskItem {
+  id: string
+  title: string
+  status: string
+  startDate: string | null
+  dueDate: string | null
+}
+
+interface TaskWorkPanelProps {
+  taskId: string
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`
+}
+
+function formatElapsed(startTime: string, now: number) {
+  const seconds = Math.max(0, Math.floor((now - new Date(startTime).getTime()) / 1000))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function TaskWorkPanel({ taskId }: TaskWorkPanelProps) {
+  const { user } = useAuth()
+  const baseUrl = `/api/tasks/enhanced/${taskId}`
+
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([])
+  const [newItemTitle, setNewItemTitle] = useState('')
+  const [comments, setComments] = useState<TaskCommentItem[]>([])
+  const [newComment, setNewComment] = useState('')
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null)
+  const [editingCommentText, setEditingCommentText] = useState('')
+  const [attachments, setAttachments] = useState<TaskAttachmentItem[]>([])
+  const [uploading, setUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [timeEntries, setTimeEntries] = useState<TimeEntryItem[]>([])
+  const [actualHours, setActualHours] = useState<number | null>(null)
+  const [estimatedHours, setEstimatedHours] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [blockedBy, setBlockedBy] = useState<DependencyTaskItem[]>([])
+  const [blocking, setBlocking] = useState<DependencyTaskItem[]>([])
+  const [projectId, setProjectId] = useState<string | null>(null)
+  const [projectTasks, setProjectTasks] = useState<DependencyTaskItem[]>([])
+  const [newBlockerId, setNewBlockerId] = useState('')
+
+  const runningEntry = timeEntries.find(entry => !entry.endTime && entry.user.id === user?.id)
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [checklistRes, commentsRes, attachmentsRes, timeRes, dependenciesRes] = await Promise.all([
+        fetch(`${baseUrl}/checklists`),
+        fetch(`${baseUrl}/comments`),
+        fetch(`${baseUrl}/attachments`),
+        fetch(`${baseUrl}/time-entries`),
+        fetch(`${baseUrl}/dependencies`),
+      ])
+
+      if (checklistRes.ok) setChecklist(await safeJsonParse(checklistRes))
+      if (commentsRes.ok) setComments(await safeJsonParse(commentsRes))
+      if (attachmentsRes.ok) setAttachments(await safeJsonParse(attachmentsRes))
+      if (timeRes.ok) {
+        const data = await safeJsonParse(timeRes)
+        setTimeEntries(data.timeEntries || [])
+        setActualHours(data.actualHours ?? null)
+        setEstimatedHours(data.estimatedHours ?? null)
+      }
+      if (dependenciesRes.ok) {
+        const data = await safeJsonParse(dependenciesRes)
+        setBlockedBy(data.blockedBy || [])
+        setBlocking(data.blocking || [])
+        setProjectId(data.projectId)
+        // Only tasks of the same project can be picked as blockers
+        if (data.projectId) {
+          const timelineRes = await fetch(`/api/projects/${data.projectId}/timeline`)
+          if (timelineRes.ok) setProjectTasks((await safeJsonParse(timelineRes)).tasks || [])
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching task details:', error)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    fetchAll()
+  }, [fetchAll])
+
+  // Tick the running timer display
+  useEffect(() => {
+    if (!runningEntry) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [runningEntry])
+
+  // Shared request helper: shows the API error as a toast and returns null on failure
+  const request = async (url: string, init: RequestInit, failureMessage: string) => {
+    try {
+      const response = await fetch(url, init)
+      const data = await safeJsonParse(response)
+      if (!response.ok) {
+        toast.error(data.error || failureMessage)
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error(failureMessage, error)
+      toast.error(failureMessage)
+      return null
+    }
+  }
+
+  const jsonInit = (method: string, body?: unknown): RequestInit => ({
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+
+  // Checklist
+  const handleAddItem = async () => {
+    if (!newItemTitle.trim()) return
+    const item = await request(`${baseUrl}/checklists`, jsonInit('POST', { title: newItemTitle }), 'Failed to add checklist item')
+    if (item) {
+      setChecklist(prev => [...prev, item])
+      setNewItemTitle('')
+    }
+  }
+
+  const handleToggleItem = async (item: ChecklistItem) => {
+    setChecklist(prev => prev.map(i => i.id === item.id ? { ...i, completed: !item.completed } : i))
+    const updated = await request(`${baseUrl}/checklists/${item.id}`, jsonInit('PATCH', { completed: !item.completed }), 'Failed to update checklist item')
+    if (!updated) fetchAll()
+  }
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    const result = await request(`${baseUrl}/checklists/${item.id}`, { method: 'DELETE' }, 'Failed to delete checklist item')
+    if (result) setChecklist(prev => prev.filter(i => i.id !== item.id))
+  }
+
+  const handleMoveItem = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= checklist.length) return
+
+    const reordered = [...checklist]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setChecklist(reordered)
+
+    const items = await request(`${baseUrl}/checklists`, jsonInit('PUT', { itemIds: reordered.map(i => i.id) }), 'Failed to reorder checklist')
+    if (items) {
+      setChecklist(items)
+    } else {
+      fetchAll()
+    }
+  }
+
+  // Comments
+  const handleAddComment = async () => {
+    if (!newComment.trim()) return
+    const comment = await request(`${baseUrl}/comments`, jsonInit('POST', { content: newComment }), 'Failed to add comment')
+    if (comment) {
+      setComments(prev => [comment, ...prev])
+      setNewComment('')
+    }
+  }
+
+  const handleSaveComment = async (commentId: string) => {
+    const comment = await request(`${baseUrl}/comments/${commentId}`, jsonInit('PATCH', { content: editingCommentText }), 'Failed to update comment')
+    if (comment) {
+      setComments(prev => prev.map(c => c.id === commentId ? comment : c))
+      setEditingCommentId(null)
+    }
+  }
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return
+    const result = await request(`${baseUrl}/comments/${commentId}`, { method: 'DELETE' }, 'Failed to delete comment')
+    if (result) setComments(prev => prev.filter(c => c.id !== commentId))
+  }
+
+  // Attachments
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setUploading(true)
+    const formData = new FormData()
+    formData.append('file', file)
+    const attachment = await request(`${baseUrl}/attachments`, { method: 'POST', body: formData }, 'Failed to upload attachment')
+    if (attachment) setAttachments(prev => [attachment, ...prev])
+    setUploading(false)
+  }
+
+  const handleDeleteAttachment = async (attachment: TaskAttachmentItem) => {
+    if (!confirm(`Delete ${attachment.originalName}?`)) return
+    const result = await request(`${baseUrl}/attachments/${attachment.id}`, { method: 'DELETE' }, 'Failed to delete attachment')
+    if (result) setAttachments(prev => prev.filter(a => a.id !== attachment.id))
+  }
+
+  // Time tracking
+  const handleStartTimer = async () => {
+    const entry = await request(`${baseUrl}/time-entries/start`, jsonInit('POST', {}), 'Failed to start timer')
+    if (entry) {
+      setNow(Date.now())
+      setTimeEntries(prev => [entry, ...prev])
+    }
+  }
+
+  const handleStopTimer = async () => {
+    const result = await request(`${baseUrl}/time-entries/stop`, jsonInit('POST'), 'Failed to stop timer')
+    if (result) {
+      setTimeEntries(prev => prev.map(e => e.id === result.timeEntry.id ? result.timeEntry : e))
+      setActualHours(result.actualHours)
+    }
+  }
+
+  const handleDeleteTimeEntry = async (entry: TimeEntryItem) => {
+    if (!confirm('Delete this time entry?')) return
+    const result = await request(`${baseUrl}/time-entries/${entry.id}`, { method: 'DELETE' }, 'Failed to delete time entry')
+    if (result) {
+      setTimeEntries(prev => prev.filter(e => e.id !== entry.id))
+      setActualHours(result.actualHours)
+    }
+  }
+
+  // Dependencies
+  const handleAddBlocker = async () => {
+    if (!newBlockerId) return
+    const result = await request(`${baseUrl}/dependencies`, jsonInit('POST', { dependsOnId: newBlockerId }), 'Failed to add dependency')
+    if (result) {
+      setBlockedBy(prev => [...prev, result.dependsOn])
+      setNewBlockerId('')
+      if (result.rescheduled.length > 0) {
+        toast.info(`Moved ${result.rescheduled.length} task${result.rescheduled.length === 1 ? '' : 's'} to start after the blocker is due`)
+      }
+    }
+  }
+
+  const handleRemoveBlocker = async (blocker: DependencyTaskItem) => {
+    const result = await request(`${baseUrl}/dependencies/${blocker.id}`, { method: 'DELETE' }, 'Failed to remove dependency')
+    if (result) setBlockedBy(prev => prev.filter(t => t.id !== blocker.id))
+  }
+
+  const completedCount = checklist.filter(item => item.completed).length
+  const blockerOptions = projectTasks.filter(t =>
+    t.id !== taskId && !blockedBy.some(b => b.id === t.id) && !blocking.some(b => b.id === t.id)
+  )
+
+  return (
+    <Card className="w-full overflow-hidden">
+      <CardContent className="pt-6">
+        <Tabs defaultValue="checklist">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="checklist" className="text-xs sm:text-sm">
+              <CheckSquare className="h-4 w-4 mr-1.5" />
+              Checklist {checklist.length > 0 && `(${completedCount}/${checklist.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="comments" className="text-xs sm:text-sm">
+              <MessageSquare className="h-4 w-4 mr-1.5" />
+              Comments {comments.length > 0 && `(${comments.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="attachments" className="text-xs sm:text-sm">
+              <Paperclip className="h-4 w-4 mr-1.5" />
+              Files {attachments.length > 0 && `(${attachments.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="time" className="text-xs sm:text-sm">
+              <Clock className="h-4 w-4 mr-1.5" />
+              Time
+            </TabsTrigger>
+            <TabsTrigger value="dependencies" className="text-xs sm:text-sm">
+              <GitBranch className="h-4 w-4 mr-1.5" />
+              Depends {blockedBy.length > 0 && `(${blockedBy.length})`}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="checklist" className="space-y-3 mt-4">
+            {checklist.map((item, index) => (
+              <div key={item.id} className="flex items-center gap-2 group">
+                <Checkbox checked={item.completed} onCheckedChange={() => handleToggleItem(item)} />
+                <span className={`flex-1 text-sm break-words ${item.completed ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                  {item.title}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleMoveItem(index, -1)} disabled={index === 0} title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleMoveItem(index, 1)} disabled={index === checklist.length - 1} title="Move down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700" onClick={() => handleDeleteItem(item)} title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                value={newItemTitle}
+                onChange={(e) => setNewItemTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+                placeholder="Add an item"
+              />
+              <Button onClick={handleAddItem} disabled={!newItemTitle.trim()}>Add</Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="comments" className="space-y-3 mt-4">
+            <div className="space-y-2">
+              <Textarea
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                placeholder="Write a comment..."
+                className="min-h-[80px]"
+              />
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleAddComment} disabled={!newComment.trim()}>Comment</Button>
+              </div>
+            </div>
+            {comments.map(comment => (
+              <div key={comment.id} className="border rounded-lg p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900">{comment.author.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(comment.createdAt).toLocaleString()}
+                    {comment.updatedAt !== comment.createdAt && ' (edited)'}
+                  </p>
+                </div>
+                {editingCommentId === comment.id ? (
+                  <div className="space-y-2">
+                    <Textarea value={editingCommentText} onChange={(e) => setEditingCommentText(e.target.value)} />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditingCommentId(null)}>Cancel</Button>
+                      <Button size="sm" onClick={() => handleSaveComment(comment.id)} disabled={!editingCommentText.trim()}>Save</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{comment.content}</p>
+                )}
+                {comment.author.id === user?.id && editingCommentId !== comment.id && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => {
+                        setEditingCommentId(comment.id)
+                        setEditingCommentText(comment.content)
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs text-red-600" onClick={() => handleDeleteComment(comment.id)}>
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="attachments" className="space-y-3 mt-4">
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload File'}
+            </Button>
+            {attachments.length === 0 && <p className="text-sm text-gray-500">No files attached</p>}
+            {attachments.map(attachment => (
+              <div key={attachment.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                <div className="min-w-0">
+                  <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline break-all">
+                    {attachment.originalName}
+                  </a>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(attachment.fileSize)} · {attachment.uploadedBy.name} · {new Date(attachment.uploadedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700" onClick={() => handleDeleteAttachment(attachment)} title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="time" className="space-y-3 mt-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm text-gray-700">
+                <span className="font-medium">{actualHours ?? 0}h</span> logged
+                {estimatedHours !== null && <span className="text-gray-500"> of {estimatedHours}h estimated</span>}
+              </div>
+              {runningEntry ? (
+                <Button size="sm" variant="destructive" onClick={handleStopTimer}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop {formatElapsed(runningEntry.startTime, now)}
+                </Button>
+              ) : (
+                <Button size="sm" onClick={handleStartTimer}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Start Timer
+                </Button>
+              )}
+            </div>
+            {timeEntries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {entry.user.name} · {entry.duration !== null ? formatMinutes(entry.duration) : 'Running'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.startTime).toLocaleString()}
+                    {entry.endTime && ` – ${new Date(entry.endTime).toLocaleTimeString()}`}
+                    {entry.description && ` · ${entry.description}`}
+                  </p>
+                </div>
+                {entry.user.id === user?.id && entry.endTime && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700" onClick={() => handleDeleteTimeEntry(entry)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="dependencies" className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Waiting on</p>
+              {blockedBy.length === 0 && <p className="text-sm text-gray-500">This task can start any time.</p>}
+              {blockedBy.map(blocker => (
+                <div key={blocker.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{blocker.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {blocker.status.replace(/_/g, ' ')}
+                      {blocker.dueDate && ` · due ${new Date(blocker.dueDate).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700" onClick={() => handleRemoveBlocker(blocker)} title="Remove">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {projectId ? (
+                <div className="flex gap-2">
+                  <Select value={newBlockerId} onValueChange={setNewBlockerId}>
+                    <SelectTrigger className="flex-1 min-w-0">
+                      <SelectValue placeholder="Add a task this one waits on" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {blockerOptions.map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleAddBlocker} disabled={!newBlockerId}>Add</Button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">Only tasks in a project can have dependencies.</p>
+              )}
+            </div>
+
+            {blocking.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">Blocking</p>
+                {blocking.map(task => (
+                  <div key={task.id} className="border rounded-lg p-3">
+                    <p className="text-sm text-gray-900 truncate">{task.title}</p>
+                    <p className="text-xs text-gray-500">{task.status.replace(/_/g, ' ')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
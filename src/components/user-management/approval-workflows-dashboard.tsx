@@ -0,0 +1,541 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Plus, Edit, Trash2, GitBranch, ArrowUp, ArrowDown } from 'lucide-react'
+
+type UserRole = 'ADMINISTRATOR' | 'ADMIN' | 'DEVELOPER' | 'COORDINATOR' | 'VIEWER'
+
+interface WorkflowStage {
+  id: string
+  order: number
+  name: string
+  approverUserIds: string[]
+  approverRole: UserRole | null
+  approverCustomRoleId: string | null
+  approverCustomRole: { id: string; name: string } | null
+  requiredApprovals: number
+  escalateAfterHours: number | null
+  escalateToId: string | null
+  escalateTo: { id: string; name: string; email: string } | null
+}
+
+interface ApprovalWorkflow {
+  id: string
+  name: string
+  description: string | null
+  isActive: boolean
+  stages: WorkflowStage[]
+  _count: { posts: number }
+}
+
+interface User {
+  id: string
+  name: string
+  email: string
+}
+
+interface Role {
+  id: string
+  name: string
+}
+
+const USER_ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'ADMINISTRATOR', label: 'Administrators' },
+  { value: 'ADMIN', label: 'Admins' },
+  { value: 'DEVELOPER', label: 'Developers' },
+  { value: 'COORDINATOR', label: 'Coordinators' },
+  { value: 'VIEWER', label: 'Viewers' },
+]
+
+// Select has no empty value, so "none" stands in for an unset role or escalation user
+const NONE = 'none'
+
+interface StageForm {
+  name: string
+  approverUserIds: string[]
+  approverRole: string
+  approverCustomRoleId: string
+  requiredApprovals: string
+  escalateAfterHours: string
+  escalateToId: string
+}
+
+const emptyStage = (index: number): StageForm => ({
+  name: `Stage ${index + 1}`,
+  approverUserIds: [],
+  approverRole: NONE,
+  approverCustomRoleId: NONE,
+  requiredApprovals: '1',
+  escalateAfterHours: '',
+  escalateToId: NONE,
+})
+
+const emptyForm = {
+  name: '',
+  description: '',
+  isActive: true,
+  stages: [emptyStage(0)],
+}
+
+export function ApprovalWorkflowsDashboard() {
+  const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingWorkflow, setEditingWorkflow] = useState<ApprovalWorkflow | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      const [workflowsRes, usersRes, rolesRes] = await Promise.all([
+        fetch('/api/approval-workflows'),
+        fetch('/api/users/basic'),
+        fetch('/api/roles')
+      ])
+
+      if (workflowsRes.ok) setWorkflows(await workflowsRes.json())
+      if (usersRes.ok) setUsers(await usersRes.json())
+      if (rolesRes.ok) setRoles(await rolesRes.json())
+    } catch (error) {
+      console.error('Error fetching approval workflows:', error)
+      toast.error('Failed to fetch approval workflows')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingWorkflow(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (workflow: ApprovalWorkflow) => {
+    setEditingWorkflow(workflow)
+    setForm({
+      name: workflow.name,
+      description: workflow.description || '',
+      isActive: workflow.isActive,
+      stages: workflow.stages.map(stage => ({
+        name: stage.name,
+        approverUserIds: stage.approverUserIds,
+        approverRole: stage.approverRole || NONE,
+        approverCustomRoleId: stage.approverCustomRoleId || NONE,
+        requiredApprovals: String(stage.requiredApprovals),
+        escalateAfterHours: stage.escalateAfterHours ? String(stage.escalateAfterHours) : '',
+        escalateToId: stage.escalateToId || NONE,
+      })),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    setForm(prev => ({
+      ...prev,
+      stages: prev.stages.map((stage, i) => i === index ? { ...stage, ...changes } : stage)
+    }))
+  }
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    setForm(prev => {
+      const stages = [...prev.stages]
+      const [stage] = stages.splice(index, 1)
+      stages.splice(index + direction, 0, stage)
+      return { ...prev, stages }
+    })
+  }
+
+  const toggleStageApprover = (index: number, userId: string) => {
+    const stage = form.stages[index]
+    updateStage(index, {
+      approverUserIds: stage.approverUserIds.includes(userId)
+        ? stage.approverUserIds.filter(id => id !== userId)
+        : [...stage.approverUserIds, userId]
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Workflow name is required')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch(editingWorkflow ? `/api/approval-workflows/${editingWorkflow.id}` : '/api/approval-workflows', {
+        method: editingWorkflow ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description,
+          isActive: form.isActive,
+          stages: form.stages.map(stage => ({
+            name: stage.name,
+            approverUserIds: stage.approverUserIds,
+            approverRole: stage.approverRole === NONE ? null : stage.approverRole,
+            approverCustomRoleId: stage.approverCustomRoleId === NONE ? null : stage.approverCustomRoleId,
+            requiredApprovals: parseInt(stage.requiredApprovals, 10) || 1,
+            escalateAfterHours: stage.escalateAfterHours ? parseInt(stage.escalateAfterHours, 10) : null,
+            escalateToId: stage.escalateToId === NONE || !stage.escalateAfterHours ? null : stage.escalateToId,
+          }))
+        })
+      })
+
+      if (response.ok) {
+        toast.success(editingWorkflow ? 'Approval workflow updated' : 'Approval workflow created')
+        setIsDialogOpen(false)
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to save approval workflow')
+      }
+    } catch (error) {
+      console.error('Error saving approval workflow:', error)
+      toast.error('Failed to save approval workflow')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (workflow: ApprovalWorkflow) => {
+    try {
+      const response = await fetch(`/api/approval-workflows/${workflow.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !workflow.isActive })
+      })
+
+      if (response.ok) {
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update approval workflow')
+      }
+    } catch (error) {
+      console.error('Error updating approval workflow:', error)
+      toast.error('Failed to update approval workflow')
+    }
+  }
+
+  const handleDelete = async (workflow: ApprovalWorkflow) => {
+    if (!confirm(`Delete the approval workflow "${workflow.name}"? Posts already using it keep their approval chain.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/approval-workflows/${workflow.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        toast.success('Approval workflow deleted')
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to delete approval workflow')
+      }
+    } catch (error) {
+      console.error('Error deleting approval workflow:', error)
+      toast.error('Failed to delete approval workflow')
+    }
+  }
+
+  const describeApprovers = (stage: WorkflowStage) => {
+    const approvers = [
+      ...stage.approverUserIds.map(id => users.find(u => u.id === id)?.name || 'Unknown user'),
+      stage.approverRole && USER_ROLE_OPTIONS.find(option => option.value === stage.approverRole)?.label,
+      stage.approverCustomRole && `Role: ${stage.approverCustomRole.name}`,
+    ].filter(Boolean)
+    return approvers.join(', ')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Post Approval Workflows
+              </CardTitle>
+              <p className="text-sm text-gray-600 mt-1">
+                Stages run in order. Everyone in a stage reviews at the same time, and the stage passes once
+                its required number of approvals is reached.
+              </p>
+            </div>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Workflow
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {workflows.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No approval workflows yet</p>
+          )}
+          {workflows.map(workflow => (
+            <div key={workflow.id} className="border rounded-lg p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{workflow.name}</span>
+                  <Badge variant={workflow.isActive ? 'default' : 'secondary'}>
+                    {workflow.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+                {workflow.description && <p className="text-sm text-gray-600">{workflow.description}</p>}
+                <ol className="text-sm text-gray-600 space-y-0.5">
+                  {workflow.stages.map(stage => (
+                    <li key={stage.id}>
+                      {stage.order}. <span className="font-medium">{stage.name}</span>
+                      {' — '}{stage.requiredApprovals} of {describeApprovers(stage)}
+                      {stage.escalateAfterHours && (
+                        <span className="text-xs text-gray-500">
+                          {' '}· escalates after {stage.escalateAfterHours}h{stage.escalateTo && ` to ${stage.escalateTo.name}`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-gray-500">
+                  {workflow._count.posts} {workflow._count.posts === 1 ? 'post' : 'posts'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Switch checked={workflow.isActive} onCheckedChange={() => handleToggleActive(workflow)} />
+                <Button variant="ghost" size="sm" onClick={() => openEditDialog(workflow)} title="Edit">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(workflow)}
+                  className="text-red-600 hover:text-red-700"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingWorkflow ? 'Edit Approval Workflow' : 'New Approval Workflow'}</DialogTitle>
+            <DialogDescription>
+              Approvers chosen by role are looked up when a post is submitted; the post&apos;s creator never
+              approves their own post. Changes don&apos;t affect posts already in review.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="workflow-name">Name</Label>
+              <Input
+                id="workflow-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Program campaign"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="workflow-description">Description</Label>
+              <Textarea
+                id="workflow-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+                className="mt-2"
+              />
+            </div>
+
+            {form.stages.map((stage, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="flex items-center justify-center w-7 h-7 rounded-full bg-primary text-primary-foreground text-sm font-bold flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <Input
+                    value={stage.name}
+                    onChange={(e) => updateStage(index, { name: e.target.value })}
+                    placeholder="Stage name"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={index === 0} title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === form.stages.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm(prev => ({ ...prev, stages: prev.stages.filter((_, i) => i !== index) }))}
+                    disabled={form.stages.length === 1}
+                    className="text-red-600 hover:text-red-700"
+                    title="Remove stage"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="text-xs">Everyone with role</Label>
+                    <Select value={stage.approverRole} onValueChange={(value) => updateStage(index, { approverRole: value })}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No role</SelectItem>
+                        {USER_ROLE_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">Everyone with custom role</Label>
+                    <Select
+                      value={stage.approverCustomRoleId}
+                      onValueChange={(value) => updateStage(index, { approverCustomRoleId: value })}
+                    >
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No custom role</SelectItem>
+                        {roles.map(role => (
+                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-xs">And these people</Label>
+                  <div className="mt-1 border rounded-md p-3 max-h-36 overflow-y-auto space-y-2">
+                    {users.map(user => (
+                      <div key={user.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`stage-${index}-user-${user.id}`}
+                          checked={stage.approverUserIds.includes(user.id)}
+                          onCheckedChange={() => toggleStageApprover(index, user.id)}
+                        />
+                        <Label htmlFor={`stage-${index}-user-${user.id}`} className="text-sm font-normal">
+                          {user.name} ({user.email})
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label className="text-xs">Approvals required</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={stage.requiredApprovals}
+                      onChange={(e) => updateStage(index, { requiredApprovals: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Escalate after (hours)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={stage.escalateAfterHours}
+                      onChange={(e) => updateStage(index, { escalateAfterHours: e.target.value })}
+                      placeholder="Never"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Escalate to</Label>
+                    <Select
+                      value={stage.escalateToId}
+                      onValueChange={(value) => updateStage(index, { escalateToId: value })}
+                      disabled={!stage.escalateAfterHours}
+                    >
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Remind approvers only</SelectItem>
+                        {users.map(user => (
+                          <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              onClick={() => setForm(prev => ({ ...prev, stages: [...prev.stages, emptyStage(prev.stages.length)] }))}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stage
+            </Button>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="workflow-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="workflow-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editingWorkflow ? 'Save Changes' : 'Create Workflow'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,459 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Plus, Edit, Trash2, Shuffle } from 'lucide-react'
+
+type AssignmentStrategy = 'ROUND_ROBIN' | 'LEAST_OPEN_FOLLOW_UPS' | 'FIXED_OWNER'
+
+interface AssignmentRule {
+  id: string
+  name: string
+  priority: number
+  isActive: boolean
+  programId: string | null
+  campus: string | null
+  marketingSource: string | null
+  city: string | null
+  strategy: AssignmentStrategy
+  fixedOwnerId: string | null
+  program: { id: string; name: string } | null
+  fixedOwner: { id: string; name: string; email: string } | null
+  members: { user: { id: string; name: string; email: string; isActive: boolean } }[]
+  _count: { assignments: number }
+}
+
+interface User {
+  id: string
+  name: string
+  email: string
+}
+
+interface Program {
+  id: string
+  name: string
+  campus: string
+}
+
+// Keep in sync with ASSIGNMENT_STRATEGY_LABELS in src/lib/inquiry-assignment.ts
+const STRATEGY_OPTIONS: { value: AssignmentStrategy; label: string; description: string }[] = [
+  { value: 'ROUND_ROBIN', label: 'Round-robin', description: 'Rotate through the coordinators in order' },
+  { value: 'LEAST_OPEN_FOLLOW_UPS', label: 'Fewest open follow-ups', description: 'Pick the coordinator with the lightest workload' },
+  { value: 'FIXED_OWNER', label: 'Fixed owner', description: 'Always assign to one person' },
+]
+
+// Select has no empty value, so "any" stands in for an unset condition
+const ANY = 'any'
+
+const emptyForm = {
+  name: '',
+  priority: '0',
+  isActive: true,
+  programId: ANY,
+  campus: '',
+  marketingSource: '',
+  city: '',
+  strategy: 'ROUND_ROBIN' as AssignmentStrategy,
+  fixedOwnerId: '',
+  memberIds: [] as string[],
+}
+
+export function AssignmentRulesDashboard() {
+  const [rules, setRules] = useState<AssignmentRule[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [programs, setPrograms] = useState<Program[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      const [rulesRes, usersRes, programsRes] = await Promise.all([
+        fetch('/api/assignment-rules'),
+        fetch('/api/users/basic'),
+        fetch('/api/programs')
+      ])
+
+      if (rulesRes.ok) setRules(await rulesRes.json())
+      if (usersRes.ok) setUsers(await usersRes.json())
+      if (programsRes.ok) setPrograms(await programsRes.json())
+    } catch (error) {
+      console.error('Error fetching assignment rules:', error)
+      toast.error('Failed to fetch assignment rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingRule(null)
+    setForm(emptyForm)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (rule: AssignmentRule) => {
+    setEditingRule(rule)
+    setForm({
+      name: rule.name,
+      priority: String(rule.priority),
+      isActive: rule.isActive,
+      programId: rule.programId || ANY,
+      campus: rule.campus || '',
+      marketingSource: rule.marketingSource || '',
+      city: rule.city || '',
+      strategy: rule.strategy,
+      fixedOwnerId: rule.fixedOwnerId || '',
+      memberIds: rule.members.map(m => m.user.id),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const toggleMember = (userId: string) => {
+    setForm(prev => ({
+      ...prev,
+      memberIds: prev.memberIds.includes(userId)
+        ? prev.memberIds.filter(id => id !== userId)
+        : [...prev.memberIds, userId]
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Rule name is required')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch(editingRule ? `/api/assignment-rules/${editingRule.id}` : '/api/assignment-rules', {
+        method: editingRule ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          priority: parseInt(form.priority, 10) || 0,
+          isActive: form.isActive,
+          programId: form.programId === ANY ? null : form.programId,
+          campus: form.campus,
+          marketingSource: form.marketingSource,
+          city: form.city,
+          strategy: form.strategy,
+          fixedOwnerId: form.fixedOwnerId || null,
+          memberIds: form.memberIds
+        })
+      })
+
+      if (response.ok) {
+        toast.success(editingRule ? 'Assignment rule updated' : 'Assignment rule created')
+        setIsDialogOpen(false)
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to save assignment rule')
+      }
+    } catch (error) {
+      console.error('Error saving assignment rule:', error)
+      toast.error('Failed to save assignment rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: AssignmentRule) => {
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !rule.isActive })
+      })
+
+      if (response.ok) {
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update assignment rule')
+      }
+    } catch (error) {
+      console.error('Error updating assignment rule:', error)
+      toast.error('Failed to update assignment rule')
+    }
+  }
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    if (!confirm(`Delete the assignment rule "${rule.name}"? Inquiries it already assigned keep their coordinator.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        toast.success('Assignment rule deleted')
+        fetchData()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to delete assignment rule')
+      }
+    } catch (error) {
+      console.error('Error deleting assignment rule:', error)
+      toast.error('Failed to delete assignment rule')
+    }
+  }
+
+  const describeConditions = (rule: AssignmentRule) => {
+    const conditions = [
+      rule.program && `Program: ${rule.program.name}`,
+      rule.campus && `Campus: ${rule.campus}`,
+      rule.marketingSource && `Source: ${rule.marketingSource}`,
+      rule.city && `City: ${rule.city}`,
+    ].filter(Boolean)
+    return conditions.length > 0 ? conditions.join(' · ') : 'All new inquiries'
+  }
+
+  const describeAssignees = (rule: AssignmentRule) => {
+    if (rule.strategy === 'FIXED_OWNER') return rule.fixedOwner?.name || 'No owner'
+    return rule.members.map(m => m.user.name).join(', ') || 'No coordinators'
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Shuffle className="h-5 w-5" />
+                Lead Assignment Rules
+              </CardTitle>
+              <p className="text-sm text-gray-600 mt-1">
+                New and imported inquiries go to the first active rule that matches, lowest priority number first.
+                Inquiries no rule matches stay with the person who added them.
+              </p>
+            </div>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No assignment rules yet</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="border rounded-lg p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">#{rule.priority}</Badge>
+                  <span className="font-medium text-gray-900">{rule.name}</span>
+                  <Badge variant={rule.isActive ? 'default' : 'secondary'}>
+                    {rule.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-600">{describeConditions(rule)}</p>
+                <p className="text-sm text-gray-600">
+                  {STRATEGY_OPTIONS.find(option => option.value === rule.strategy)?.label}: {describeAssignees(rule)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {rule._count.assignments} {rule._count.assignments === 1 ? 'inquiry' : 'inquiries'} assigned
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Switch checked={rule.isActive} onCheckedChange={() => handleToggleActive(rule)} />
+                <Button variant="ghost" size="sm" onClick={() => openEditDialog(rule)} title="Edit">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(rule)}
+                  className="text-red-600 hover:text-red-700"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Assignment Rule' : 'New Assignment Rule'}</DialogTitle>
+            <DialogDescription>
+              Leave a condition empty to match any value. Text conditions ignore case.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-program">Program</Label>
+                <Select value={form.programId} onValueChange={(value) => setForm({ ...form, programId: value })}>
+                  <SelectTrigger id="rule-program" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any program</SelectItem>
+                    {programs.map(program => (
+                      <SelectItem key={program.id} value={program.id}>{program.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="rule-campus">Campus</Label>
+                <Input
+                  id="rule-campus"
+                  value={form.campus}
+                  onChange={(e) => setForm({ ...form, campus: e.target.value })}
+                  placeholder="Any campus"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-source">Marketing source</Label>
+                <Input
+                  id="rule-source"
+                  value={form.marketingSource}
+                  onChange={(e) => setForm({ ...form, marketingSource: e.target.value })}
+                  placeholder="Any source"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-city">City</Label>
+                <Input
+                  id="rule-city"
+                  value={form.city}
+                  onChange={(e) => setForm({ ...form, city: e.target.value })}
+                  placeholder="Any city"
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="rule-strategy">Strategy</Label>
+              <Select
+                value={form.strategy}
+                onValueChange={(value) => setForm({ ...form, strategy: value as AssignmentStrategy })}
+              >
+                <SelectTrigger id="rule-strategy" className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRATEGY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {STRATEGY_OPTIONS.find(option => option.value === form.strategy)?.description}
+              </p>
+            </div>
+
+            {form.strategy === 'FIXED_OWNER' ? (
+              <div>
+                <Label htmlFor="rule-owner">Owner</Label>
+                <Select value={form.fixedOwnerId} onValueChange={(value) => setForm({ ...form, fixedOwnerId: value })}>
+                  <SelectTrigger id="rule-owner" className="mt-2">
+                    <SelectValue placeholder="Select an owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>{user.name} ({user.email})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label>Coordinators</Label>
+                <div className="mt-2 border rounded-md p-3 max-h-48 overflow-y-auto space-y-2">
+                  {users.map(user => (
+                    <div key={user.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`rule-member-${user.id}`}
+                        checked={form.memberIds.includes(user.id)}
+                        onCheckedChange={() => toggleMember(user.id)}
+                      />
+                      <Label htmlFor={`rule-member-${user.id}`} className="text-sm font-normal">
+                        {user.name} ({user.email})
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="rule-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="rule-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editingRule ? 'Save Changes' : 'Create Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
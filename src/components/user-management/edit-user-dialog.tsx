@@ -15,6 +15,7 @@ interface User {
   email: string
   role: string
   isActive: boolean
+  managerId?: string | null
   userRoles: Array<{
     id: string
     role: {
@@ -30,6 +31,15 @@ interface Role {
   description: string | null
 }
 
+interface ManagerOption {
+  id: string
+  name: string
+  email: string
+}
+
+// Select has no empty value, so "none" stands in for "no manager"
+const NO_MANAGER = 'none'
+
 interface EditUserDialogProps {
   user: User
   open: boolean
@@ -40,11 +50,13 @@ interface EditUserDialogProps {
 export function EditUserDialog({ user, open, onOpenChange, onUserUpdated }: EditUserDialogProps) {
   const [loading, setLoading] = useState(false)
   const [roles, setRoles] = useState<Role[]>([])
+  const [managers, setManagers] = useState<ManagerOption[]>([])
   const [formData, setFormData] = useState({
     name: user.name,
     email: user.email,
     role: user.role,
     isActive: user.isActive,
+    managerId: user.managerId || NO_MANAGER,
     selectedRoles: user.userRoles.map(ur => ur.role.id),
   })
   const [showPasswordFields, setShowPasswordFields] = useState(false)
@@ -56,6 +68,7 @@ export function EditUserDialog({ user, open, onOpenChange, onUserUpdated }: Edit
   useEffect(() => {
     if (open) {
       fetchRoles()
+      fetchManagers()
     }
   }, [open])
 
@@ -73,6 +86,18 @@ export function EditUserDialog({ user, open, onOpenChange, onUserUpdated }: Edit
     }
   }
 
+  const fetchManagers = async () => {
+    try {
+      const response = await fetch('/api/users/basic')
+      if (response.ok) {
+        const data: ManagerOption[] = await response.json()
+        setManagers(data.filter(option => option.id !== user.id))
+      }
+    } catch (error) {
+      console.error('Error fetching managers:', error)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -99,6 +124,7 @@ export function EditUserDialog({ user, open, onOpenChange, onUserUpdated }: Edit
         },
         body: JSON.stringify({
           ...formData,
+          managerId: formData.managerId === NO_MANAGER ? null : formData.managerId,
           ...(showPasswordFields && { password: passwordData.newPassword }),
         }),
       })
@@ -304,6 +330,27 @@ export function EditUserDialog({ user, open, onOpenChange, onUserUpdated }: Edit
                     {formData.isActive ? 'User can access the system' : 'User cannot access the system'}
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manager" className="text-base font-medium">
+                    Manager
+                  </Label>
+                  <Select value={formData.managerId} onValueChange={(value) => setFormData(prev => ({ ...prev, managerId: value }))}>
+                    <SelectTrigger id="manager" className="h-11">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                      {managers.map(manager => (
+                        <SelectItem key={manager.id} value={manager.id}>
+                          {manager.name} ({manager.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Notified when this user's follow-ups stay overdue
+                  </p>
+                </div>
               </div>
             </div>
 
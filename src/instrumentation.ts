@@ -0,0 +1,9 @@
+// Next.js instrumentation hook - runs once when the server starts
+export async function register() {
+  // Background jobs only run in the Node.js runtime (not Edge) and can be disabled
+  // when an external cron calls POST /api/jobs/run instead
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.ENABLE_JOB_RUNNER !== 'false') {
+    const { startJobRunner } = await import('@/lib/jobs')
+    startJobRunner()
+  }
+}
@@ -202,3 +202,19 @@ export async function logProfileUpdate(userId: string, request: NextRequest, cha
     }
   })
 }
+
+export async function logPermissionDenied(userId: string, request: NextRequest, permission: string) {
+  return logUserActivity({
+    userId,
+    activityType: 'PERMISSION_DENIED',
+    request,
+    isSuccessful: false,
+    failureReason: `Missing permission ${permission}`,
+    metadata: {
+      permission,
+      method: request.method,
+      path: request.nextUrl.pathname,
+      deniedAt: new Date().toISOString()
+    }
+  })
+}
@@ -1,12 +1,18 @@
 import { prisma } from '@/lib/prisma'
 import jwt from 'jsonwebtoken'
 import bcrypt from 'bcryptjs'
-import { UserRole } from '@prisma/client'
+import { Permission, UserRole } from '@prisma/client'
 import { cookies as nextCookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { getSecuritySettings, getNumberSetting, isMaintenanceModeEnabled, SECURITY_SETTING_DEFAULTS } from '@/lib/system-settings'
+import { logPermissionDenied, logSessionTimeout } from '@/lib/activity-logger'
+import { getEffectivePermissions } from '@/lib/user-permissions'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 const JWT_EXPIRES_IN = '7d'
 
+const MAINTENANCE_ERROR = 'The system is under maintenance. Only administrators can use it right now.'
+
 export interface User {
   id: string
   name: string
@@ -17,15 +23,35 @@ export interface User {
 
 export interface AuthUser extends User {
   token: string
+  sessionId?: string
+}
+
+export interface TokenPayload {
+  id: string
+  email: string
+  role: string
+  sid?: string // UserSession id (tokens issued before session tracking don't have one)
+  iat?: number
 }
 
+export type LoginFailureReason = 'INVALID_CREDENTIALS' | 'ACCOUNT_LOCKED' | 'MAINTENANCE_MODE'
+
+export interface LoginResult {
+  user: AuthUser | null
+  error?: LoginFailureReason
+}
+
+// Only bump lastActivityAt once per minute to avoid a DB write on every request
+const SESSION_ACTIVITY_UPDATE_INTERVAL_MS = 60 * 1000
+
 // Generate JWT token
-export function generateToken(user: User): string {
+export function generateToken(user: User, sessionId?: string): string {
   return jwt.sign(
     { 
       id: user.id, 
       email: user.email, 
-      role: user.role 
+      role: user.role,
+      ...(sessionId && { sid: sessionId }),
     },
     JWT_SECRET,
     { expiresIn: JWT_EXPIRES_IN }
@@ -33,9 +59,9 @@ export function generateToken(user: User): string {
 }
 
 // Verify JWT token
-export function verifyToken(token: string): { id: string; email: string; role: string } | null {
+export function verifyToken(token: string): TokenPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as { id: string; email: string; role: string }
+    return jwt.verify(token, JWT_SECRET) as TokenPayload
   } catch {
     return null
   }
@@ -56,8 +82,83 @@ export function isAdminRole(role: string): boolean {
   return role === 'ADMIN' || role === 'ADMINISTRATOR' || role === 'DEVELOPER'
 }
 
+// Validate a new password against PASSWORD_MIN_LENGTH. Returns an error message or null.
+export async function validatePassword(password: string): Promise<string | null> {
+  const minLength = await getNumberSetting('PASSWORD_MIN_LENGTH', SECURITY_SETTING_DEFAULTS.PASSWORD_MIN_LENGTH)
+
+  if (!password || password.length < minLength) {
+    return `Password must be at least ${minLength} characters long`
+  }
+
+  return null
+}
+
+// Check the token's session against SESSION_TIMEOUT_MINUTES.
+// Returns false (and records the timeout) when the session has been idle too long or was ended.
+async function checkSessionActivity(
+  decoded: TokenPayload,
+  request?: Request
+): Promise<boolean> {
+  const timeoutMinutes = await getNumberSetting(
+    'SESSION_TIMEOUT_MINUTES',
+    SECURITY_SETTING_DEFAULTS.SESSION_TIMEOUT_MINUTES
+  )
+  const timeoutMs = timeoutMinutes * 60 * 1000
+  const now = Date.now()
+
+  // Legacy tokens without a session: fall back to the token issue time
+  if (!decoded.sid) {
+    return timeoutMs <= 0 || !decoded.iat || now - decoded.iat * 1000 <= timeoutMs
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: decoded.sid }
+  })
+
+  if (!session || session.userId !== decoded.id || session.endedAt) {
+    return false
+  }
+
+  const idleMs = now - session.lastActivityAt.getTime()
+
+  if (timeoutMs > 0 && idleMs > timeoutMs) {
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { endedAt: new Date(), endReason: 'TIMEOUT' }
+    })
+
+    if (request) {
+      await logSessionTimeout(decoded.id, request as NextRequest, session.id)
+    }
+
+    return false
+  }
+
+  if (idleMs > SESSION_ACTIVITY_UPDATE_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { lastActivityAt: new Date() }
+    })
+  }
+
+  return true
+}
+
+// End the session behind a token (used on logout)
+export async function endSession(token: string, reason: 'LOGOUT' | 'TIMEOUT' = 'LOGOUT') {
+  const decoded = verifyToken(token)
+  if (!decoded?.sid) {
+    return
+  }
+
+  await prisma.userSession.updateMany({
+    where: { id: decoded.sid, endedAt: null },
+    data: { endedAt: new Date(), endReason: reason }
+  })
+}
+
 // Get current user from token
-export async function getCurrentUser(token?: string): Promise<User | null> {
+export async function getCurrentUser(token?: string, request?: Request): Promise<User | null> {
   if (!token) {
     // No token means no authenticated user - return null
     return null
@@ -85,6 +186,16 @@ export async function getCurrentUser(token?: string): Promise<User | null> {
     return null
   }
 
+  const sessionActive = await checkSessionActivity(decoded, request)
+  if (!sessionActive) {
+    return null
+  }
+
+  // While MAINTENANCE_MODE is on, only admins can use the API (the middleware only covers pages)
+  if (!isAdminRole(user.role) && await isMaintenanceModeEnabled()) {
+    return null
+  }
+
   return {
     id: user.id,
     name: user.name,
@@ -94,8 +205,8 @@ export async function getCurrentUser(token?: string): Promise<User | null> {
   }
 }
 
-// Require authentication
-export async function requireAuth(request?: Request | any): Promise<User> {
+// Get the user behind the request's auth token, or null when not authenticated
+async function getRequestUser(request?: Request | any): Promise<User | null> {
   let token: string | undefined
   
   if (request) {
@@ -136,10 +247,21 @@ export async function requireAuth(request?: Request | any): Promise<User> {
 
   // If we have a token, try to verify it
   if (token) {
-    const user = await getCurrentUser(token)
-    if (user) {
-      return user
-    }
+    return getCurrentUser(token, request)
+  }
+
+  return null
+}
+
+// Require authentication
+export async function requireAuth(request?: Request | any): Promise<User> {
+  const user = await getRequestUser(request)
+  if (user) {
+    return user
+  }
+
+  if (await isMaintenanceModeEnabled()) {
+    throw new Error(MAINTENANCE_ERROR)
   }
   
   // No valid authentication found - throw error
@@ -157,8 +279,62 @@ export async function requireRole(role: string, request?: Request): Promise<User
   return user
 }
 
+// Check whether a user holds a permission. Admin roles hold every permission.
+export async function userHasPermission(user: User, permission: Permission): Promise<boolean> {
+  if (isAdminRole(user.role)) {
+    return true
+  }
+
+  const permissions = await getEffectivePermissions(user.id, user.role)
+  return permissions.has(permission)
+}
+
+// Check a permission for an authenticated user. Returns a 403 response (and logs the attempt)
+// when the user lacks it, or null when the request may proceed.
+export async function checkPermission(
+  user: User,
+  permission: Permission,
+  request: NextRequest
+): Promise<NextResponse | null> {
+  if (await userHasPermission(user, permission)) {
+    return null
+  }
+
+  console.warn(`Permission denied: ${user.email} lacks ${permission} for ${request.method} ${request.nextUrl.pathname}`)
+  await logPermissionDenied(user.id, request, permission)
+
+  return NextResponse.json(
+    { error: 'Access denied. You do not have permission to perform this action.', permission },
+    { status: 403 }
+  )
+}
+
+// Require authentication and a permission.
+// Returns the user, or a 401/403 response that the route should return as is.
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<User | NextResponse> {
+  const user = await getRequestUser(request)
+  if (!user) {
+    if (await isMaintenanceModeEnabled()) {
+      return NextResponse.json(
+        { error: MAINTENANCE_ERROR },
+        { status: 503 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  return (await checkPermission(user, permission, request)) || user
+}
+
 // Login function
-export async function login(email: string, password: string): Promise<AuthUser | null> {
+// Enforces MAX_LOGIN_ATTEMPTS / ACCOUNT_LOCKOUT_MINUTES and blocks non-admins during MAINTENANCE_MODE
+export async function login(email: string, password: string): Promise<LoginResult> {
   const user = await prisma.user.findUnique({
     where: {
       email: email
@@ -166,32 +342,74 @@ export async function login(email: string, password: string): Promise<AuthUser |
   })
 
   if (!user || !user.isActive) {
-    return null
+    return { user: null, error: 'INVALID_CREDENTIALS' }
+  }
+
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    return { user: null, error: 'ACCOUNT_LOCKED' }
   }
 
+  const settings = await getSecuritySettings()
+
   // For development, we'll skip password check if no password is set
   if (user.password) {
     const isValidPassword = await comparePassword(password, user.password)
     if (!isValidPassword) {
-      return null
+      // Count in the database, so parallel guesses each add an attempt rather than all writing the same count
+      const { failedLoginAttempts } = await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true }
+      })
+
+      // A MAX_LOGIN_ATTEMPTS of 0 disables lockout
+      if (settings.maxLoginAttempts > 0 && failedLoginAttempts >= settings.maxLoginAttempts) {
+        const lockedUntil = new Date(Date.now() + settings.accountLockoutMinutes * 60 * 1000)
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { failedLoginAttempts: 0, lockedUntil }
+        })
+        return { user: null, error: 'ACCOUNT_LOCKED' }
+      }
+
+      return { user: null, error: 'INVALID_CREDENTIALS' }
     }
   }
 
+  if (settings.maintenanceMode && !isAdminRole(user.role)) {
+    return { user: null, error: 'MAINTENANCE_MODE' }
+  }
+
+  // Successful login resets the failed attempt counter
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null }
+    })
+  }
+
+  const session = await prisma.userSession.create({
+    data: { userId: user.id }
+  })
+
   const token = generateToken({
     id: user.id,
     name: user.name,
     email: user.email,
     role: user.role,
     isActive: user.isActive
-  })
+  }, session.id)
 
   return {
-    id: user.id,
-    name: user.name,
-    email: user.email,
-    role: user.role,
-    isActive: user.isActive,
-    token
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      isActive: user.isActive,
+      token,
+      sessionId: session.id
+    }
   }
 }
 
@@ -212,6 +430,11 @@ export async function register(userData: {
     return null
   }
 
+  const passwordError = await validatePassword(userData.password)
+  if (passwordError) {
+    throw new Error(passwordError)
+  }
+
   const hashedPassword = await hashPassword(userData.password)
 
   const user = await prisma.user.create({
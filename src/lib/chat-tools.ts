@@ -0,0 +1,397 @@
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai'
+import { FollowUpStatus, Prisma, SeekerStage } from '@prisma/client'
+import { format } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, User, userHasPermission } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+
+// Read-only CRM lookups the AI assistant can call (server only). Each tool applies the same
+// permission and data isolation rules as the matching API route, for the user who is chatting,
+// and returns the records it used as citations so the chat can show where an answer came from.
+
+export interface ChatCitation {
+  kind: 'inquiries' | 'program' | 'program-qa' | 'meeting' | 'follow-up'
+  id: string
+  label: string
+  href: string
+}
+
+interface ChatToolResult {
+  response: object
+  citations: ChatCitation[]
+}
+
+const MAX_RESULTS = 20
+const CLOSED_FOLLOW_UP_STATUSES: FollowUpStatus[] = ['DONE', 'COMPLETED']
+
+export const chatFunctionDeclarations: FunctionDeclaration[] = [
+  {
+    name: 'count_inquiries',
+    description: 'Count inquiries (prospective students), optionally filtered by stage, marketing source and the date they came in, and optionally grouped by stage or marketing source.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        stage: {
+          type: SchemaType.STRING,
+          format: 'enum',
+          enum: Object.values(SeekerStage),
+          description: 'Only count inquiries at this pipeline stage',
+        },
+        marketingSource: {
+          type: SchemaType.STRING,
+          description: 'Only count inquiries from this marketing source, e.g. Facebook, Instagram, Walk-in',
+        },
+        from: {
+          type: SchemaType.STRING,
+          description: 'Only count inquiries received on or after this date (YYYY-MM-DD)',
+        },
+        to: {
+          type: SchemaType.STRING,
+          description: 'Only count inquiries received on or before this date (YYYY-MM-DD)',
+        },
+        groupBy: {
+          type: SchemaType.STRING,
+          format: 'enum',
+          enum: ['stage', 'marketingSource'],
+          description: 'Break the count down by stage or by marketing source',
+        },
+      },
+    },
+  },
+  {
+    name: 'find_programs',
+    description: 'Look up study programs by name, level or campus, including their next intake date.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        query: {
+          type: SchemaType.STRING,
+          description: 'Part of the program name, level or campus, e.g. "BSc" or "Computing"',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_program_answers',
+    description: 'Get the approved questions and answers for a program (fees, entry requirements, duration and so on). Use find_programs first to get the program id.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        programId: {
+          type: SchemaType.STRING,
+          description: 'The id of the program, from find_programs',
+        },
+        query: {
+          type: SchemaType.STRING,
+          description: 'Only return questions or answers mentioning this text',
+        },
+      },
+      required: ['programId'],
+    },
+  },
+  {
+    name: 'get_upcoming_meetings',
+    description: 'List upcoming meetings the user can see, soonest first.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        days: {
+          type: SchemaType.INTEGER,
+          description: 'How many days ahead to look (default 7, at most 60)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_my_open_follow_ups',
+    description: "List the user's own follow-ups that are not done yet, including overdue ones, soonest due first.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        dueWithinDays: {
+          type: SchemaType.INTEGER,
+          description: 'Only include follow-ups due within this many days from now (overdue ones are always included)',
+        },
+      },
+    },
+  },
+]
+
+function parseDateArg(value: unknown, endOfDay = false) {
+  if (typeof value !== 'string' || !value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return undefined
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCHours(23, 59, 59, 999)
+  return date
+}
+
+function clampDays(value: unknown, fallback: number) {
+  const days = typeof value === 'number' ? Math.round(value) : fallback
+  return Math.min(Math.max(days, 1), 60)
+}
+
+// Program descriptions are rich text; the model only needs the words
+function toPlainText(html: string | null, maxLength = 500) {
+  if (!html) return null
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text
+}
+
+async function countInquiries(args: Record<string, unknown>, user: User): Promise<ChatToolResult> {
+  if (!(await userHasPermission(user, 'READ_INQUIRY'))) {
+    return { response: { error: 'The user does not have permission to view inquiries' }, citations: [] }
+  }
+
+  const from = parseDateArg(args.from)
+  const to = parseDateArg(args.to, true)
+  const stage = typeof args.stage === 'string' && args.stage in SeekerStage ? args.stage as SeekerStage : undefined
+  const marketingSource = typeof args.marketingSource === 'string' && args.marketingSource.trim()
+    ? args.marketingSource.trim()
+    : undefined
+
+  // Same scope as GET /api/inquiries: admins see every inquiry, others those they created or are assigned to
+  const where: Prisma.SeekerWhereInput = {
+    NOT: { isDeleted: true },
+    ...(!isAdminRole(user.role) && { OR: getSeekerAccessConditions(user.id) }),
+    ...(stage && { stage }),
+    ...(marketingSource && { marketingSource: { equals: marketingSource, mode: 'insensitive' } }),
+    ...((from || to) && { createdAt: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
+  }
+
+  const total = await prisma.seeker.count({ where })
+
+  let groups: Array<{ value: string; count: number }> | undefined
+  if (args.groupBy === 'stage') {
+    const rows = await prisma.seeker.groupBy({ by: ['stage'], where, _count: { _all: true } })
+    groups = rows.map(row => ({ value: row.stage, count: row._count._all }))
+  } else if (args.groupBy === 'marketingSource') {
+    const rows = await prisma.seeker.groupBy({ by: ['marketingSource'], where, _count: { _all: true } })
+    groups = rows.map(row => ({ value: row.marketingSource, count: row._count._all }))
+  }
+  groups?.sort((a, b) => b.count - a.count)
+
+  const filters = [
+    stage && `stage ${stage.replace(/_/g, ' ').toLowerCase()}`,
+    marketingSource && `source ${marketingSource}`,
+    from && `from ${format(from, 'MMM d, yyyy')}`,
+    to && `to ${format(to, 'MMM d, yyyy')}`,
+  ].filter(Boolean)
+
+  return {
+    response: {
+      total,
+      ...(groups && { groups }),
+      scope: isAdminRole(user.role) ? 'all inquiries' : 'inquiries the user created or is assigned to',
+    },
+    citations: [{
+      kind: 'inquiries',
+      id: JSON.stringify({ stage, marketingSource, from, to, groupBy: args.groupBy }),
+      label: `${total} inquir${total === 1 ? 'y' : 'ies'}${filters.length > 0 ? ` (${filters.join(', ')})` : ''}`,
+      href: '/inquiries',
+    }],
+  }
+}
+
+async function findPrograms(args: Record<string, unknown>, user: User): Promise<ChatToolResult> {
+  if (!(await userHasPermission(user, 'READ_PROGRAM'))) {
+    return { response: { error: 'The user does not have permission to view programs' }, citations: [] }
+  }
+
+  const query = typeof args.query === 'string' ? args.query.trim() : ''
+  const programs = await prisma.program.findMany({
+    where: query
+      ? {
+          OR: [
+            { name: { contains: query, mode: 'insensitive' } },
+            { level: { contains: query, mode: 'insensitive' } },
+            { campus: { contains: query, mode: 'insensitive' } },
+          ],
+        }
+      : undefined,
+    select: {
+      id: true,
+      name: true,
+      level: true,
+      campus: true,
+      nextIntakeDate: true,
+      description: true,
+      _count: { select: { qaItems: { where: { isActive: true } } } },
+    },
+    orderBy: { name: 'asc' },
+    take: MAX_RESULTS,
+  })
+
+  return {
+    response: {
+      programs: programs.map(program => ({
+        id: program.id,
+        name: program.name,
+        level: program.level,
+        campus: program.campus,
+        nextIntakeDate: program.nextIntakeDate ? format(program.nextIntakeDate, 'yyyy-MM-dd') : null,
+        description: toPlainText(program.description),
+        answeredQuestions: program._count.qaItems,
+      })),
+    },
+    citations: programs.map(program => ({
+      kind: 'program',
+      id: program.id,
+      label: `${program.name} (${program.campus})`,
+      href: '/programs',
+    })),
+  }
+}
+
+async function getProgramAnswers(args: Record<string, unknown>, user: User): Promise<ChatToolResult> {
+  if (!(await userHasPermission(user, 'READ_PROGRAM'))) {
+    return { response: { error: 'The user does not have permission to view programs' }, citations: [] }
+  }
+
+  const programId = typeof args.programId === 'string' ? args.programId : ''
+  const program = programId
+    ? await prisma.program.findUnique({ where: { id: programId }, select: { id: true, name: true } })
+    : null
+  if (!program) {
+    return { response: { error: 'Program not found. Use find_programs to get its id.' }, citations: [] }
+  }
+
+  const query = typeof args.query === 'string' ? args.query.trim() : ''
+  const qaItems = await prisma.programQA.findMany({
+    where: {
+      programId,
+      isActive: true,
+      ...(query && {
+        OR: [
+          { question: { contains: query, mode: 'insensitive' } },
+          { answer: { contains: query, mode: 'insensitive' } },
+        ],
+      }),
+    },
+    orderBy: { order: 'asc' },
+    take: MAX_RESULTS,
+  })
+
+  return {
+    response: {
+      program: program.name,
+      answers: qaItems.map(qa => ({ id: qa.id, question: qa.question, answer: toPlainText(qa.answer, 1000) })),
+    },
+    citations: qaItems.map(qa => ({
+      kind: 'program-qa',
+      id: qa.id,
+      label: `${program.name}: ${qa.question}`,
+      href: '/q-and-a',
+    })),
+  }
+}
+
+async function getUpcomingMeetings(args: Record<string, unknown>, user: User): Promise<ChatToolResult> {
+  const now = new Date()
+  const until = new Date(now.getTime() + clampDays(args.days, 7) * 24 * 60 * 60 * 1000)
+
+  // Same scope as GET /api/meetings: admins see every meeting, others those they created or are assigned to
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      startTime: { gte: now, lte: until },
+      status: { notIn: ['CANCELLED', 'COMPLETED'] },
+      ...(!isAdminRole(user.role) && {
+        OR: [{ createdById: user.id }, { assignedToId: user.id }],
+      }),
+    },
+    include: {
+      assignedTo: { select: { name: true } },
+      seeker: { select: { fullName: true } },
+    },
+    orderBy: { startTime: 'asc' },
+    take: MAX_RESULTS,
+  })
+
+  return {
+    response: {
+      meetings: meetings.map(meeting => ({
+        id: meeting.id,
+        title: meeting.title,
+        startTime: meeting.startTime.toISOString(),
+        endTime: meeting.endTime.toISOString(),
+        status: meeting.status,
+        meetingType: meeting.meetingType,
+        location: meeting.location,
+        assignedTo: meeting.assignedTo.name,
+        seeker: meeting.seeker?.fullName ?? null,
+      })),
+    },
+    citations: meetings.map(meeting => ({
+      kind: 'meeting',
+      id: meeting.id,
+      label: `${meeting.title} · ${format(meeting.startTime, 'MMM d, HH:mm')}`,
+      href: '/meetings',
+    })),
+  }
+}
+
+async function getMyOpenFollowUps(args: Record<string, unknown>, user: User): Promise<ChatToolResult> {
+  const now = new Date()
+  const dueBefore = args.dueWithinDays !== undefined
+    ? new Date(now.getTime() + clampDays(args.dueWithinDays, 7) * 24 * 60 * 60 * 1000)
+    : undefined
+
+  // Always the caller's own follow-ups, admins included
+  const followUps = await prisma.followUpTask.findMany({
+    where: {
+      assignedTo: user.id,
+      status: { notIn: CLOSED_FOLLOW_UP_STATUSES },
+      ...(dueBefore && { dueAt: { lte: dueBefore } }),
+    },
+    include: {
+      seeker: { select: { fullName: true } },
+    },
+    orderBy: { dueAt: 'asc' },
+    take: MAX_RESULTS,
+  })
+
+  return {
+    response: {
+      followUps: followUps.map(task => ({
+        id: task.id,
+        seeker: task.seeker.fullName,
+        purpose: task.purpose,
+        status: task.status,
+        dueAt: task.dueAt.toISOString(),
+        overdue: task.dueAt < now,
+        notes: task.notes,
+      })),
+    },
+    citations: followUps.map(task => ({
+      kind: 'follow-up',
+      id: task.id,
+      label: `Follow-up with ${task.seeker.fullName} · due ${format(task.dueAt, 'MMM d, HH:mm')}`,
+      href: '/tasks',
+    })),
+  }
+}
+
+const chatTools: Record<string, (args: Record<string, unknown>, user: User) => Promise<ChatToolResult>> = {
+  count_inquiries: countInquiries,
+  find_programs: findPrograms,
+  get_program_answers: getProgramAnswers,
+  get_upcoming_meetings: getUpcomingMeetings,
+  get_my_open_follow_ups: getMyOpenFollowUps,
+}
+
+/**
+ * Run a function the model asked for on behalf of the user. Failures are reported back to the
+ * model as an error response rather than thrown, so it can tell the user what it could not look up.
+ */
+export async function runChatTool(name: string, args: object | undefined, user: User): Promise<ChatToolResult> {
+  const tool = chatTools[name]
+  if (!tool) {
+    return { response: { error: `Unknown function ${name}` }, citations: [] }
+  }
+
+  try {
+    return await tool((args ?? {}) as Record<string, unknown>, user)
+  } catch (error) {
+    console.error(`Chat tool ${name} failed:`, error)
+    return { response: { error: 'The lookup failed' }, citations: [] }
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, type User } from '@/lib/auth'
+import { getDealAccessConditions } from '@/lib/deals'
+
+// Shared client helpers for the /api/clients routes (server only).
+
+export const CLIENT_SIZES = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1000+']
+
+/**
+ * Clients a non-admin user can see: ones they created, or that have a deal they can see
+ */
+export function getClientAccessConditions(userId: string): Prisma.ClientWhereInput[] {
+  return [
+    { createdById: userId },
+    { deals: { some: { OR: getDealAccessConditions(userId) } } },
+  ]
+}
+
+/**
+ * Load a client the user may see, or the 404/403 response to return instead
+ */
+export async function getClientForUser(clientId: string, user: User) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { id: true, createdById: true },
+  })
+
+  if (!client) {
+    return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+  }
+
+  if (!isAdminRole(user.role) && client.createdById !== user.id) {
+    const visible = await prisma.client.count({
+      where: { id: clientId, OR: getClientAccessConditions(user.id) },
+    })
+    if (visible === 0) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+  }
+
+  return client
+}
+
+/**
+ * Client.tags is stored as a JSON array string. Older rows may hold a comma-separated list.
+ */
+export function parseClientTags(tags: string | null): string[] {
+  if (!tags) return []
+  try {
+    const parsed = JSON.parse(tags)
+    if (Array.isArray(parsed)) {
+      return parsed.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '').map(tag => tag.trim())
+    }
+  } catch {
+    // Not JSON, fall through to comma-separated
+  }
+  return tags.split(',').map(tag => tag.trim()).filter(Boolean)
+}
+
+/**
+ * Normalize tags from a request body (array or comma-separated string) into the stored JSON form
+ */
+export function serializeClientTags(tags: unknown): string | null {
+  const list = Array.isArray(tags)
+    ? tags.filter((tag): tag is string => typeof tag === 'string')
+    : typeof tags === 'string'
+      ? tags.split(',')
+      : []
+  const unique = Array.from(new Set(list.map(tag => tag.trim()).filter(Boolean)))
+  return unique.length > 0 ? JSON.stringify(unique) : null
+}
+
+export function withParsedTags<T extends { tags: string | null }>(client: T) {
+  return { ...client, tags: parseClientTags(client.tags) }
+}
@@ -0,0 +1,159 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { SuppressionChannel, SuppressionSource } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAppBaseUrl } from '@/lib/system-settings'
+
+// Opt-out / do-not-contact handling (server only).
+// Suppressions are stored per seeker and channel; every outbound send path checks them.
+
+export const SUPPRESSION_CHANNELS: SuppressionChannel[] = ['EMAIL', 'WHATSAPP', 'CALL']
+
+export const SUPPRESSION_SOURCE_LABELS: Record<SuppressionSource, string> = {
+  UNSUBSCRIBE_LINK: 'Unsubscribed via email link',
+  STOP_REPLY: 'Replied STOP on WhatsApp',
+  DO_NOT_CONTACT: 'Marked Do Not Contact',
+  MANUAL: 'Opted out manually',
+}
+
+// Common carrier/WhatsApp opt-out and opt-in keywords (the whole message must match)
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'OPT OUT']
+const START_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE']
+
+export function getOptOutKeyword(text: string): 'STOP' | 'START' | null {
+  const normalized = text.trim().toUpperCase().replace(/[^A-Z ]/g, '').replace(/\s+/g, ' ').trim()
+  if (STOP_KEYWORDS.includes(normalized)) return 'STOP'
+  if (START_KEYWORDS.includes(normalized)) return 'START'
+  return null
+}
+
+/**
+ * Suppress the given seekers on the given channels. Existing suppressions are kept as they are.
+ * Returns the number of new suppressions.
+ */
+export async function suppressContacts({
+  seekerIds,
+  channels,
+  source,
+  reason,
+  createdById,
+}: {
+  seekerIds: string[]
+  channels: SuppressionChannel[]
+  source: SuppressionSource
+  reason?: string
+  createdById?: string
+}) {
+  if (seekerIds.length === 0 || channels.length === 0) return 0
+
+  const result = await prisma.contactSuppression.createMany({
+    data: seekerIds.flatMap(seekerId => channels.map(channel => ({
+      seekerId,
+      channel,
+      source,
+      reason,
+      createdById,
+    }))),
+    skipDuplicates: true,
+  })
+  return result.count
+}
+
+/**
+ * Lift suppressions. Pass sources to only lift those (e.g. a START reply only undoes a STOP reply).
+ */
+export async function liftSuppressions({
+  seekerIds,
+  channels,
+  sources,
+}: {
+  seekerIds: string[]
+  channels: SuppressionChannel[]
+  sources?: SuppressionSource[]
+}) {
+  if (seekerIds.length === 0 || channels.length === 0) return 0
+
+  const result = await prisma.contactSuppression.deleteMany({
+    where: {
+      seekerId: { in: seekerIds },
+      channel: { in: channels },
+      ...(sources && { source: { in: sources } }),
+    },
+  })
+  return result.count
+}
+
+/**
+ * Which of the given seekers are suppressed on a channel
+ */
+export async function getSuppressedSeekerIds(channel: SuppressionChannel, seekerIds: string[]): Promise<Set<string>> {
+  if (seekerIds.length === 0) return new Set()
+
+  const suppressions = await prisma.contactSuppression.findMany({
+    where: { channel, seekerId: { in: seekerIds } },
+    select: { seekerId: true },
+  })
+  return new Set(suppressions.map(s => s.seekerId))
+}
+
+export async function isSeekerSuppressed(seekerId: string, channel: SuppressionChannel) {
+  const suppression = await prisma.contactSuppression.findUnique({
+    where: { seekerId_channel: { seekerId, channel } },
+    select: { id: true },
+  })
+  return !!suppression
+}
+
+// ---------------------------------------------------------------------------
+// Email unsubscribe links
+// Tokens are an HMAC of the recipient address, so links need no database state
+// and every email can carry one regardless of how it was sent.
+// ---------------------------------------------------------------------------
+
+function getUnsubscribeSecret() {
+  return process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+}
+
+function signEmail(email: string) {
+  return createHmac('sha256', getUnsubscribeSecret()).update(email).digest('base64url')
+}
+
+export function createUnsubscribeToken(email: string) {
+  const normalized = email.trim().toLowerCase()
+  return `${Buffer.from(normalized).toString('base64url')}.${signEmail(normalized)}`
+}
+
+/**
+ * Returns the email address a token was issued for, or null if the token is invalid
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [encodedEmail, signature] = token.split('.')
+  if (!encodedEmail || !signature) return null
+
+  const email = Buffer.from(encodedEmail, 'base64url').toString()
+  const expected = Buffer.from(signEmail(email))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+  return email
+}
+
+export async function getUnsubscribeUrl(email: string) {
+  return `${await getAppBaseUrl()}/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(email))}`
+}
+
+/**
+ * Suppress email for every inquiry using this address. Returns the number of inquiries matched.
+ */
+export async function unsubscribeEmailAddress(email: string) {
+  const seekers = await prisma.seeker.findMany({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true },
+  })
+
+  await suppressContacts({
+    seekerIds: seekers.map(s => s.id),
+    channels: ['EMAIL'],
+    source: 'UNSUBSCRIBE_LINK',
+    reason: `Unsubscribed ${email}`,
+  })
+  return seekers.length
+}
@@ -0,0 +1,99 @@
+import { addDays, startOfDay } from 'date-fns'
+
+// Budget checks for the social media content calendar. Safe to use on both client and server.
+// Posts in the same campaign draw on that campaign's budget, so posts that run at the same time
+// must not commit more between them than the campaign has.
+
+export interface SpendPost {
+  id: string
+  budget: number | null
+  startDate: string | Date
+  endDate: string | Date
+  campaignId: string | null
+}
+
+export interface SpendCampaign {
+  id: string
+  name: string
+  budget: number | null
+}
+
+export interface OverlappingSpendWarning {
+  campaignId: string
+  campaignName: string
+  campaignBudget: number
+  peakSpend: number
+  from: Date // First day the posts overlap over budget
+  to: Date // Last day (inclusive)
+  postIds: string[]
+}
+
+/**
+ * Find the days on which posts sharing a campaign budget run together and their budgets add up
+ * to more than the campaign's. Consecutive days over budget are reported as one warning.
+ */
+export function findOverlappingSpend(posts: SpendPost[], campaigns: SpendCampaign[]): OverlappingSpendWarning[] {
+  const warnings: OverlappingSpendWarning[] = []
+
+  for (const campaign of campaigns) {
+    if (!campaign.budget || campaign.budget <= 0) continue
+
+    const spans = posts
+      .filter(post => post.campaignId === campaign.id && post.budget && post.budget > 0)
+      .map(post => ({
+        id: post.id,
+        budget: post.budget!,
+        start: startOfDay(new Date(post.startDate)),
+        end: addDays(startOfDay(new Date(post.endDate)), 1), // exclusive
+      }))
+    if (spans.length < 2) continue
+
+    // The set of running posts only changes where one starts or ends
+    const boundaries = Array.from(new Set(spans.flatMap(span => [span.start.getTime(), span.end.getTime()])))
+      .sort((a, b) => a - b)
+
+    let current: OverlappingSpendWarning | null = null
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const segmentStart = boundaries[i]
+      const running = spans.filter(span => span.start.getTime() <= segmentStart && span.end.getTime() > segmentStart)
+      const spend = running.reduce((sum, span) => sum + span.budget, 0)
+
+      if (running.length < 2 || spend <= campaign.budget) {
+        current = null
+        continue
+      }
+
+      const to = addDays(new Date(boundaries[i + 1]), -1)
+      if (current) {
+        current.to = to
+        current.peakSpend = Math.max(current.peakSpend, spend)
+        for (const span of running) {
+          if (!current.postIds.includes(span.id)) current.postIds.push(span.id)
+        }
+      } else {
+        current = {
+          campaignId: campaign.id,
+          campaignName: campaign.name,
+          campaignBudget: campaign.budget,
+          peakSpend: spend,
+          from: new Date(segmentStart),
+          to,
+          postIds: running.map(span => span.id),
+        }
+        warnings.push(current)
+      }
+    }
+  }
+
+  return warnings.sort((a, b) => a.from.getTime() - b.from.getTime())
+}
+
+/**
+ * Move a post's run window by whole days, keeping its length
+ */
+export function shiftPostDates(post: Pick<SpendPost, 'startDate' | 'endDate'>, days: number) {
+  return {
+    startDate: addDays(new Date(post.startDate), days).toISOString(),
+    endDate: addDays(new Date(post.endDate), days).toISOString(),
+  }
+}
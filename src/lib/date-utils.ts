@@ -54,3 +54,69 @@ export function isDateInRange(date: string | Date, startDate: string | Date, end
   
   return checkDate >= start
 }
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall-clock parts of an instant in the given IANA time zone
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+/**
+ * Convert a wall-clock "YYYY-MM-DDTHH:mm" value (as produced by datetime-local inputs)
+ * in the given time zone to a UTC Date. Returns null for malformed values.
+ */
+export function zonedDateTimeToUtc(value: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+
+  const [, year, month, day, hour, minute] = match.map(Number)
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute)
+  if (isNaN(wallClockAsUtc)) return null
+
+  // Second pass settles the offset when the first guess crosses a DST change
+  let utc = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone)
+  utc = wallClockAsUtc - getTimeZoneOffsetMs(new Date(utc), timeZone)
+  return new Date(utc)
+}
+
+/**
+ * Format an instant as a "YYYY-MM-DDTHH:mm" wall-clock value in the given time zone
+ */
+export function formatDateTimeInputInTimeZone(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`
+}
@@ -0,0 +1,230 @@
+import { NextResponse } from 'next/server'
+import { DealActivityType, DealStage, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, type User } from '@/lib/auth'
+import { getInstituteTimeZone, getSystemSetting } from '@/lib/system-settings'
+
+// Shared deal helpers for the /api/deals routes (server only).
+
+export const CLOSED_DEAL_STAGES: DealStage[] = ['WON', 'LOST']
+
+// Fallbacks match the values seeded by scripts/seed-system-settings.ts
+export const DEAL_FORECAST_DEFAULTS = {
+  DEAL_BASE_CURRENCY: 'USD',
+  // Value of one unit of each currency in the base currency
+  DEAL_EXCHANGE_RATES: {} as Record<string, number>,
+}
+
+export function isDealStage(value: unknown): value is DealStage {
+  return typeof value === 'string' && Object.values(DealStage).includes(value as DealStage)
+}
+
+export function isDealActivityType(value: unknown): value is DealActivityType {
+  return typeof value === 'string' && Object.values(DealActivityType).includes(value as DealActivityType)
+}
+
+/**
+ * Deals a non-admin user can see: ones they created, are assigned to, or that belong to one of their projects
+ */
+export function getDealAccessConditions(userId: string): Prisma.DealWhereInput[] {
+  return [
+    { createdById: userId },
+    { assignedToId: userId },
+    { project: { members: { some: { userId } } } },
+  ]
+}
+
+export const dealInclude = {
+  createdBy: {
+    select: { id: true, name: true, email: true }
+  },
+  assignedTo: {
+    select: { id: true, name: true, email: true }
+  },
+  project: {
+    select: { id: true, name: true, color: true }
+  },
+  client: true,
+  activities: {
+    include: {
+      user: {
+        select: { id: true, name: true, email: true }
+      }
+    },
+    orderBy: { date: 'desc' }
+  },
+  stageHistory: {
+    include: {
+      changedBy: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: { changedAt: 'desc' }
+  },
+  _count: {
+    select: {
+      activities: true
+    }
+  }
+} satisfies Prisma.DealInclude
+
+/**
+ * Load a deal the user may see, or the 404/403 response to return instead
+ */
+export async function getDealForUser(dealId: string, user: User) {
+  const deal = await prisma.deal.findUnique({
+    where: { id: dealId },
+    select: {
+      id: true,
+      stage: true,
+      createdById: true,
+      assignedToId: true,
+      projectId: true,
+      clientId: true,
+      actualCloseDate: true,
+      project: { select: { members: { select: { userId: true } } } },
+    },
+  })
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+  }
+
+  const hasAccess = isAdminRole(user.role) ||
+    deal.createdById === user.id ||
+    deal.assignedToId === user.id ||
+    !!deal.project?.members.some(m => m.userId === user.id)
+
+  if (!hasAccess) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  return deal
+}
+
+/**
+ * actualCloseDate after a stage change: set when a deal is won or lost, cleared when it is reopened
+ */
+export function getActualCloseDate(stage: DealStage, previous: Date | null, now = new Date()) {
+  if (CLOSED_DEAL_STAGES.includes(stage)) {
+    return previous ?? now
+  }
+  return null
+}
+
+/**
+ * Base currency and exchange rates used to convert deal values for the forecast
+ */
+export async function getDealCurrencySettings() {
+  const [baseCurrency, ratesValue] = await Promise.all([
+    getSystemSetting('DEAL_BASE_CURRENCY'),
+    getSystemSetting('DEAL_EXCHANGE_RATES'),
+  ])
+
+  const base = baseCurrency?.trim().toUpperCase() || DEAL_FORECAST_DEFAULTS.DEAL_BASE_CURRENCY
+  const rates: Record<string, number> = { ...DEAL_FORECAST_DEFAULTS.DEAL_EXCHANGE_RATES }
+
+  if (ratesValue) {
+    try {
+      const parsed = JSON.parse(ratesValue)
+      for (const [currency, rate] of Object.entries(parsed ?? {})) {
+        if (typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+          rates[currency.toUpperCase()] = rate
+        }
+      }
+    } catch (error) {
+      console.error('Invalid DEAL_EXCHANGE_RATES setting:', error)
+    }
+  }
+
+  rates[base] = 1
+  return { baseCurrency: base, rates }
+}
+
+function getMonthKey(date: Date, timeZone: string) {
+  // en-CA formats as YYYY-MM
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit' }).format(date)
+}
+
+/**
+ * Weighted pipeline forecast: value × probability of open deals, summed by month of expectedCloseDate
+ * and converted into the base currency. Currencies without a rate are reported but left out of totals.
+ */
+export async function getDealForecast(where: Prisma.DealWhereInput) {
+  const [deals, { baseCurrency, rates }, timeZone] = await Promise.all([
+    prisma.deal.findMany({
+      where: {
+        AND: [
+          where,
+          { stage: { notIn: CLOSED_DEAL_STAGES } },
+          { expectedCloseDate: { not: null } },
+          { value: { not: null } },
+        ],
+      },
+      select: { id: true, value: true, currency: true, probability: true, expectedCloseDate: true },
+    }),
+    getDealCurrencySettings(),
+    getInstituteTimeZone(),
+  ])
+
+  const months = new Map<string, {
+    month: string
+    dealCount: number
+    pipelineValue: number
+    weightedValue: number
+    byCurrency: Record<string, { pipelineValue: number; weightedValue: number }>
+  }>()
+  const unconvertedCurrencies = new Set<string>()
+
+  for (const deal of deals) {
+    const month = getMonthKey(deal.expectedCloseDate!, timeZone)
+    const currency = deal.currency.toUpperCase()
+    const value = deal.value!
+    const weighted = value * (Math.min(Math.max(deal.probability, 0), 100) / 100)
+
+    const bucket = months.get(month) ?? { month, dealCount: 0, pipelineValue: 0, weightedValue: 0, byCurrency: {} }
+    bucket.dealCount++
+
+    const native = bucket.byCurrency[currency] ?? { pipelineValue: 0, weightedValue: 0 }
+    native.pipelineValue += value
+    native.weightedValue += weighted
+    bucket.byCurrency[currency] = native
+
+    const rate = rates[currency]
+    if (rate) {
+      bucket.pipelineValue += value * rate
+      bucket.weightedValue += weighted * rate
+    } else {
+      unconvertedCurrencies.add(currency)
+    }
+
+    months.set(month, bucket)
+  }
+
+  const round = (amount: number) => Math.round(amount * 100) / 100
+  const forecast = Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(bucket => ({
+      ...bucket,
+      pipelineValue: round(bucket.pipelineValue),
+      weightedValue: round(bucket.weightedValue),
+      byCurrency: Object.fromEntries(
+        Object.entries(bucket.byCurrency).map(([currency, totals]) => [
+          currency,
+          { pipelineValue: round(totals.pipelineValue), weightedValue: round(totals.weightedValue) },
+        ])
+      ),
+    }))
+
+  return {
+    baseCurrency,
+    rates,
+    unconvertedCurrencies: Array.from(unconvertedCurrencies).sort(),
+    totals: {
+      dealCount: deals.length,
+      pipelineValue: round(forecast.reduce((sum, m) => sum + m.pipelineValue, 0)),
+      weightedValue: round(forecast.reduce((sum, m) => sum + m.weightedValue, 0)),
+    },
+    months: forecast,
+  }
+}
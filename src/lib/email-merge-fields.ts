@@ -0,0 +1,49 @@
+import { escapeHtml } from '@/lib/utils'
+
+// Merge fields for email subjects and bodies (shared by the client and the send queue).
+// Write {{field}} to insert a value, or {{field|text}} to choose the text used when the value is missing.
+
+export const EMAIL_MERGE_FIELDS = [
+  { key: 'fullName', label: 'Full name', fallback: 'there' },
+  { key: 'firstName', label: 'First name', fallback: 'there' },
+  { key: 'programName', label: 'Program', fallback: 'our programs' },
+  { key: 'nextIntakeDate', label: 'Next intake date', fallback: 'the next intake' },
+  { key: 'counselorName', label: 'Counselor', fallback: 'our admissions team' },
+] as const
+
+export type EmailMergeFieldKey = (typeof EMAIL_MERGE_FIELDS)[number]['key']
+
+export type EmailMergeValues = Partial<Record<EmailMergeFieldKey, string | null>>
+
+const MERGE_FIELD_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g
+
+function getMergeField(key: string) {
+  return EMAIL_MERGE_FIELDS.find(field => field.key === key)
+}
+
+export function hasMergeFields(text: string) {
+  return new RegExp(MERGE_FIELD_PATTERN.source).test(text)
+}
+
+/**
+ * Replace {{field}} placeholders. Missing values use the inline fallback, then the field's default.
+ * Unknown fields are left as typed. Set html when rendering into an HTML body so values are escaped.
+ */
+export function renderMergeFields(text: string, values: EmailMergeValues, { html = false }: { html?: boolean } = {}) {
+  const missingFields = new Set<string>()
+
+  const rendered = text.replace(MERGE_FIELD_PATTERN, (match, key: string, inlineFallback?: string) => {
+    const field = getMergeField(key)
+    if (!field) return match
+
+    const value = values[field.key]?.trim()
+    if (value) return html ? escapeHtml(value) : value
+
+    missingFields.add(field.key)
+    // Inline fallbacks are typed into the template, so they are already in the target format
+    if (inlineFallback !== undefined) return inlineFallback.trim()
+    return html ? escapeHtml(field.fallback) : field.fallback
+  })
+
+  return { text: rendered, missingFields: Array.from(missingFields) }
+}
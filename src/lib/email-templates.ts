@@ -0,0 +1,96 @@
+import { prisma } from '@/lib/prisma'
+import { getInstituteTimeZone } from '@/lib/system-settings'
+import { EmailMergeValues, renderMergeFields } from '@/lib/email-merge-fields'
+
+// Rendering of bulk emails and their merge values (server only)
+
+/**
+ * Merge values per seeker. The program is the first preferred program (or the legacy program interest);
+ * the counselor is the most recently assigned coordinator, or whoever created the inquiry.
+ */
+export async function getSeekerMergeValues(seekerIds: string[]) {
+  const values = new Map<string, EmailMergeValues>()
+  if (seekerIds.length === 0) return values
+
+  const [seekers, timeZone] = await Promise.all([
+    prisma.seeker.findMany({
+      where: { id: { in: seekerIds } },
+      select: {
+        id: true,
+        fullName: true,
+        programInterest: { select: { name: true, nextIntakeDate: true } },
+        preferredPrograms: {
+          select: { program: { select: { name: true, nextIntakeDate: true } } },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+        },
+        assignments: {
+          select: { coordinator: { select: { name: true } } },
+          orderBy: { assignedAt: 'desc' },
+          take: 1,
+        },
+        createdBy: { select: { name: true } },
+      },
+    }),
+    getInstituteTimeZone(),
+  ])
+
+  const formatIntakeDate = new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone })
+
+  for (const seeker of seekers) {
+    const program = seeker.preferredPrograms[0]?.program || seeker.programInterest
+    values.set(seeker.id, {
+      fullName: seeker.fullName,
+      firstName: seeker.fullName.trim().split(/\s+/)[0],
+      programName: program?.name,
+      nextIntakeDate: program?.nextIntakeDate ? formatIntakeDate.format(program.nextIntakeDate) : null,
+      counselorName: seeker.assignments[0]?.coordinator.name || seeker.createdBy?.name,
+    })
+  }
+
+  return values
+}
+
+// Bare URLs typed into a plain-text message become links (trailing punctuation is left out)
+function linkifyLine(line: string) {
+  return line.replace(/(^|[\s(])(https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)])/g, '$1<a href="$2">$2</a>')
+}
+
+/**
+ * Render a bulk email for one recipient: merge fields in the subject and body, then the email layout.
+ * Plain-text messages (from before rich-text bodies) keep the legacy {name} placeholder.
+ */
+export function renderEmail(
+  message: { subject: string; message: string; isHtml: boolean },
+  values: EmailMergeValues,
+) {
+  const subject = renderMergeFields(message.subject, values)
+  // The body always ends up as HTML, so values are escaped either way
+  const body = renderMergeFields(message.message, values, { html: true })
+  const content = message.isHtml
+    ? body.text
+    : body.text
+      .replace(/\{name\}/gi, values.fullName || 'there')
+      .split('\n')
+      .map(line => `<p>${linkifyLine(line)}</p>`)
+      .join('')
+
+  const html = `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        ${content}
+        <br/>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;"/>
+        <p style="font-size: 12px; color: #666;">
+          This email was sent via the CRM System
+        </p>
+      </body>
+    </html>
+  `
+
+  return {
+    subject: subject.text,
+    html,
+    missingFields: Array.from(new Set([...subject.missingFields, ...body.missingFields])),
+  }
+}
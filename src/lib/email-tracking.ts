@@ -0,0 +1,219 @@
+import { prisma } from '@/lib/prisma'
+import { getBooleanSetting } from '@/lib/system-settings'
+
+// Open and click tracking for bulk emails (server only).
+// Opens are recorded by a 1x1 pixel, clicks by sending links through a redirect.
+// Tracking URLs use the recipient id, so no token is needed to attribute an event.
+
+// Transparent 1x1 GIF
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+const TOP_LINKS_LIMIT = 5
+
+export async function isEmailTrackingEnabled() {
+  return getBooleanSetting('EMAIL_TRACKING_ENABLED', true)
+}
+
+function decodeHref(value: string) {
+  return value.replace(/&amp;/g, '&')
+}
+
+/**
+ * Absolute http(s) link targets in an HTML body, in order of first appearance
+ */
+export function extractLinkUrls(html: string) {
+  const urls = new Set<string>()
+  for (const match of html.matchAll(/href=["'](https?:\/\/[^"']+)["']/gi)) {
+    urls.add(decodeHref(match[1]))
+  }
+  return Array.from(urls)
+}
+
+/**
+ * Make sure every URL has an EmailLink row for the message. Returns url -> link id.
+ */
+export async function ensureEmailLinks(emailMessageId: string, urls: string[]) {
+  if (urls.length > 0) {
+    await prisma.emailLink.createMany({
+      data: urls.map(url => ({ emailMessageId, url })),
+      skipDuplicates: true,
+    })
+  }
+  const links = await prisma.emailLink.findMany({
+    where: { emailMessageId },
+    select: { id: true, url: true },
+  })
+  return new Map(links.map(link => [link.url, link.id]))
+}
+
+/**
+ * Route known links through the click redirect and add the open pixel
+ */
+export function addEmailTracking(
+  html: string,
+  { baseUrl, recipientId, linkIds }: { baseUrl: string; recipientId: string; linkIds: Map<string, string> },
+) {
+  const tracked = html.replace(/href=(["'])(https?:\/\/[^"']+)\1/gi, (match, quote: string, href: string) => {
+    const linkId = linkIds.get(decodeHref(href))
+    return linkId ? `href=${quote}${baseUrl}/api/email/track/click/${recipientId}/${linkId}${quote}` : match
+  })
+
+  const pixel = `<img src="${baseUrl}/api/email/track/open/${recipientId}" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`
+  return /<\/body>/i.test(tracked) ? tracked.replace(/<\/body>/i, `${pixel}</body>`) : `${tracked}${pixel}`
+}
+
+interface TrackingRequestInfo {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * Record an open. Returns false when the recipient does not exist.
+ */
+export async function recordEmailOpen(recipientId: string, info: TrackingRequestInfo) {
+  const recipient = await prisma.emailRecipient.findUnique({
+    where: { id: recipientId },
+    select: { id: true, openedAt: true },
+  })
+  if (!recipient) return false
+
+  const now = new Date()
+  await prisma.$transaction([
+    prisma.emailTrackingEvent.create({
+      data: {
+        type: 'OPEN',
+        recipientId,
+        ipAddress: info.ipAddress || undefined,
+        userAgent: info.userAgent || undefined,
+      },
+    }),
+    prisma.emailRecipient.update({
+      where: { id: recipientId },
+      data: {
+        openCount: { increment: 1 },
+        ...(!recipient.openedAt && { openedAt: now }),
+      },
+    }),
+  ])
+  return true
+}
+
+/**
+ * Record a click and return the link destination, or null when the link does not belong to
+ * the recipient's message (so the redirect can never be pointed somewhere arbitrary)
+ */
+export async function recordEmailClick(recipientId: string, linkId: string, info: TrackingRequestInfo) {
+  const [recipient, link] = await Promise.all([
+    prisma.emailRecipient.findUnique({
+      where: { id: recipientId },
+      select: { id: true, emailMessageId: true, openedAt: true, clickedAt: true },
+    }),
+    prisma.emailLink.findUnique({ where: { id: linkId } }),
+  ])
+  if (!recipient || !link || link.emailMessageId !== recipient.emailMessageId) return null
+
+  const now = new Date()
+  await prisma.$transaction([
+    prisma.emailTrackingEvent.create({
+      data: {
+        type: 'CLICK',
+        recipientId,
+        linkId,
+        ipAddress: info.ipAddress || undefined,
+        userAgent: info.userAgent || undefined,
+      },
+    }),
+    prisma.emailRecipient.update({
+      where: { id: recipientId },
+      data: {
+        clickCount: { increment: 1 },
+        ...(!recipient.clickedAt && { clickedAt: now }),
+        // A click means the email was opened even if the pixel was blocked
+        ...(!recipient.openedAt && { openedAt: now }),
+      },
+    }),
+  ])
+  return link.url
+}
+
+export interface EmailTrackingStats {
+  openedCount: number
+  clickedCount: number
+  openRate: number // Percent of sent emails
+  clickRate: number // Percent of sent emails
+  totalOpens: number
+  totalClicks: number
+  topLinks: Array<{ url: string; clicks: number; uniqueClicks: number }>
+}
+
+function toPercent(count: number, total: number) {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0
+}
+
+/**
+ * Open/click stats per email message. Rates are relative to sent emails.
+ */
+export async function getEmailTrackingStats(messages: Array<{ id: string; sentCount: number }>) {
+  const messageIds = messages.map(m => m.id)
+  const stats = new Map<string, EmailTrackingStats>()
+  if (messageIds.length === 0) return stats
+
+  const [recipientTotals, openedCounts, clickedCounts, links, linkClicks] = await Promise.all([
+    prisma.emailRecipient.groupBy({
+      by: ['emailMessageId'],
+      where: { emailMessageId: { in: messageIds } },
+      _sum: { openCount: true, clickCount: true },
+    }),
+    prisma.emailRecipient.groupBy({
+      by: ['emailMessageId'],
+      where: { emailMessageId: { in: messageIds }, openedAt: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.emailRecipient.groupBy({
+      by: ['emailMessageId'],
+      where: { emailMessageId: { in: messageIds }, clickedAt: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.emailLink.findMany({
+      where: { emailMessageId: { in: messageIds } },
+      select: { id: true, url: true, emailMessageId: true },
+    }),
+    prisma.emailTrackingEvent.groupBy({
+      by: ['linkId', 'recipientId'],
+      where: { type: 'CLICK', link: { emailMessageId: { in: messageIds } } },
+      _count: { _all: true },
+    }),
+  ])
+
+  for (const message of messages) {
+    const totals = recipientTotals.find(t => t.emailMessageId === message.id)
+    const openedCount = openedCounts.find(c => c.emailMessageId === message.id)?._count._all || 0
+    const clickedCount = clickedCounts.find(c => c.emailMessageId === message.id)?._count._all || 0
+
+    const topLinks = links
+      .filter(link => link.emailMessageId === message.id)
+      .map(link => {
+        const clicksByRecipient = linkClicks.filter(c => c.linkId === link.id)
+        return {
+          url: link.url,
+          clicks: clicksByRecipient.reduce((sum, c) => sum + c._count._all, 0),
+          uniqueClicks: clicksByRecipient.length,
+        }
+      })
+      .filter(link => link.clicks > 0)
+      .sort((a, b) => b.uniqueClicks - a.uniqueClicks || b.clicks - a.clicks)
+      .slice(0, TOP_LINKS_LIMIT)
+
+    stats.set(message.id, {
+      openedCount,
+      clickedCount,
+      openRate: toPercent(openedCount, message.sentCount),
+      clickRate: toPercent(clickedCount, message.sentCount),
+      totalOpens: totals?._sum.openCount || 0,
+      totalClicks: totals?._sum.clickCount || 0,
+      topLinks,
+    })
+  }
+
+  return stats
+}
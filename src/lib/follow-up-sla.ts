@@ -0,0 +1,179 @@
+import { FollowUpStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getNumberSetting } from '@/lib/system-settings'
+
+// Fallbacks when the SystemSettings keys are not configured
+export const FOLLOW_UP_SLA_DEFAULTS = {
+  // Minutes after a follow-up is due before its assignee is reminded
+  FOLLOW_UP_ASSIGNEE_GRACE_MINUTES: 60,
+  // Hours after a follow-up is due before the assignee's manager is notified
+  FOLLOW_UP_MANAGER_GRACE_HOURS: 24,
+} as const
+
+// Follow-ups that have not been started; these move to OVERDUE once past due
+export const OVERDUE_FROM_STATUSES: FollowUpStatus[] = ['OPEN', 'TODO']
+
+export const COMPLETED_FOLLOW_UP_STATUSES: FollowUpStatus[] = ['DONE', 'COMPLETED']
+
+export async function getFollowUpSlaSettings() {
+  const [assigneeGraceMinutes, managerGraceHours] = await Promise.all([
+    getNumberSetting('FOLLOW_UP_ASSIGNEE_GRACE_MINUTES', FOLLOW_UP_SLA_DEFAULTS.FOLLOW_UP_ASSIGNEE_GRACE_MINUTES),
+    getNumberSetting('FOLLOW_UP_MANAGER_GRACE_HOURS', FOLLOW_UP_SLA_DEFAULTS.FOLLOW_UP_MANAGER_GRACE_HOURS),
+  ])
+
+  return {
+    assigneeGraceMs: Math.max(0, assigneeGraceMinutes) * 60 * 1000,
+    managerGraceMs: Math.max(0, managerGraceHours) * 60 * 60 * 1000,
+  }
+}
+
+// Cap on inquiries listed individually in the time-to-first-contact report
+const FIRST_CONTACT_REPORT_LIMIT = 500
+
+const HOUR_MS = 60 * 60 * 1000
+
+function roundHours(ms: number) {
+  return Math.round((ms / HOUR_MS) * 10) / 10
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+interface SlaReportOptions {
+  from: Date
+  to: Date
+  // Conditions limiting inquiries to the ones the viewer can access (non-admins)
+  seekerAccess?: Prisma.SeekerWhereInput[]
+  // Limits the coordinator breakdown to one user (non-admins)
+  coordinatorId?: string
+}
+
+/**
+ * Follow-up SLA report for inquiries created / follow-ups due in [from, to]:
+ * time from inquiry to first recorded interaction, and the share of follow-ups
+ * each coordinator completed by their due time.
+ */
+export async function getFollowUpSlaReport({ from, to, seekerAccess, coordinatorId }: SlaReportOptions) {
+  const now = new Date()
+
+  const seekers = await prisma.seeker.findMany({
+    where: {
+      createdAt: { gte: from, lte: to },
+      NOT: { isDeleted: true },
+      ...(seekerAccess && { OR: seekerAccess }),
+    },
+    select: {
+      id: true,
+      fullName: true,
+      createdAt: true,
+      createdBy: { select: { id: true, name: true } },
+      assignments: {
+        select: { coordinator: { select: { id: true, name: true } } },
+        orderBy: { assignedAt: 'desc' },
+        take: 1,
+      },
+      interactions: {
+        select: { createdAt: true },
+        orderBy: { createdAt: 'asc' },
+        take: 1,
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: FIRST_CONTACT_REPORT_LIMIT,
+  })
+
+  const firstContact = seekers.map(seeker => {
+    const firstContactAt = seeker.interactions[0]?.createdAt ?? null
+    return {
+      seekerId: seeker.id,
+      fullName: seeker.fullName,
+      createdAt: seeker.createdAt,
+      firstContactAt,
+      hoursToFirstContact: firstContactAt ? roundHours(firstContactAt.getTime() - seeker.createdAt.getTime()) : null,
+      coordinator: seeker.assignments[0]?.coordinator ?? seeker.createdBy,
+    }
+  })
+
+  const contactedHours = firstContact
+    .map(row => row.hoursToFirstContact)
+    .filter((hours): hours is number => hours !== null)
+
+  // Only follow-ups that are already due count towards the on-time share
+  const dueBefore = to < now ? to : now
+  const tasks = await prisma.followUpTask.findMany({
+    where: {
+      dueAt: { gte: from, lte: dueBefore },
+      ...(coordinatorId && { assignedTo: coordinatorId }),
+    },
+    select: {
+      dueAt: true,
+      user: { select: { id: true, name: true, email: true } },
+      actionHistory: {
+        where: { toStatus: { in: COMPLETED_FOLLOW_UP_STATUSES } },
+        select: { actionAt: true },
+        orderBy: { actionAt: 'asc' },
+        take: 1,
+      },
+    },
+  })
+
+  const byCoordinator = new Map<string, {
+    id: string
+    name: string
+    email: string
+    due: number
+    completedOnTime: number
+    completedLate: number
+    notCompleted: number
+  }>()
+
+  for (const task of tasks) {
+    const row = byCoordinator.get(task.user.id) || {
+      ...task.user,
+      due: 0,
+      completedOnTime: 0,
+      completedLate: 0,
+      notCompleted: 0,
+    }
+    row.due++
+
+    const completedAt = task.actionHistory[0]?.actionAt
+    if (!completedAt) {
+      row.notCompleted++
+    } else if (completedAt <= task.dueAt) {
+      row.completedOnTime++
+    } else {
+      row.completedLate++
+    }
+    byCoordinator.set(task.user.id, row)
+  }
+
+  const coordinators = Array.from(byCoordinator.values())
+    .map(row => ({ ...row, onTimeRate: Math.round((row.completedOnTime / row.due) * 100) }))
+    .sort((a, b) => b.onTimeRate - a.onTimeRate || b.due - a.due)
+
+  const totalDue = tasks.length
+  const totalOnTime = coordinators.reduce((sum, row) => sum + row.completedOnTime, 0)
+  const averageHours = contactedHours.length > 0
+    ? contactedHours.reduce((sum, hours) => sum + hours, 0) / contactedHours.length
+    : null
+
+  return {
+    from,
+    to,
+    summary: {
+      inquiries: firstContact.length,
+      contacted: contactedHours.length,
+      averageHoursToFirstContact: averageHours === null ? null : Math.round(averageHours * 10) / 10,
+      medianHoursToFirstContact: median(contactedHours),
+      followUpsDue: totalDue,
+      onTimeRate: totalDue > 0 ? Math.round((totalOnTime / totalDue) * 100) : null,
+    },
+    firstContact,
+    coordinators,
+  }
+}
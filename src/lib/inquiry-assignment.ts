@@ -0,0 +1,270 @@
+import { AssignmentRule, AssignmentStrategy, FollowUpStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createNotification } from '@/lib/notification-service'
+
+// Inquiry ↔ coordinator assignment (server only).
+// New inquiries are assigned by the first matching AssignmentRule; coordinators can also be
+// assigned manually. Non-admins see inquiries they created or are assigned to.
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  ROUND_ROBIN: 'Round-robin',
+  LEAST_OPEN_FOLLOW_UPS: 'Fewest open follow-ups',
+  FIXED_OWNER: 'Fixed owner',
+}
+
+// Follow-up statuses that still count towards a coordinator's workload
+const OPEN_FOLLOW_UP_STATUSES: FollowUpStatus[] = ['OPEN', 'TODO', 'OVERDUE', 'IN_PROGRESS', 'ON_HOLD']
+
+// Round-robin claims retry when another request moved the rule's position first
+const ROUND_ROBIN_CLAIM_ATTEMPTS = 3
+
+/**
+ * Conditions limiting a seeker query to the inquiries a non-admin user can access
+ */
+export function getSeekerAccessConditions(userId: string): Prisma.SeekerWhereInput[] {
+  return [
+    { createdById: userId },
+    { assignments: { some: { coordinatorId: userId } } },
+  ]
+}
+
+// Shape returned by the assignment rule API
+export const assignmentRuleInclude = {
+  program: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  fixedOwner: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  members: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          isActive: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  _count: {
+    select: {
+      assignments: true,
+    },
+  },
+} satisfies Prisma.AssignmentRuleInclude
+
+export interface AssignmentRuleInput {
+  name?: string
+  priority?: number
+  isActive?: boolean
+  programId?: string | null
+  campus?: string | null
+  marketingSource?: string | null
+  city?: string | null
+  strategy?: string
+  fixedOwnerId?: string | null
+  memberIds?: string[]
+}
+
+/**
+ * Validate an assignment rule from the settings form. Returns an error message, or null when valid.
+ */
+export function validateAssignmentRuleInput(input: AssignmentRuleInput): string | null {
+  if (!input.name || !input.name.trim()) return 'Rule name is required'
+  if (!input.strategy || !(input.strategy in ASSIGNMENT_STRATEGY_LABELS)) return 'Invalid assignment strategy'
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) return 'Priority must be a whole number'
+
+  if (input.strategy === 'FIXED_OWNER') {
+    if (!input.fixedOwnerId) return 'Fixed owner is required for the fixed owner strategy'
+  } else if (!Array.isArray(input.memberIds) || input.memberIds.length === 0) {
+    return 'Select at least one coordinator for this rule'
+  }
+
+  return null
+}
+
+type RuleWithMembers = AssignmentRule & {
+  members: { userId: string; user: { isActive: boolean } }[]
+  fixedOwner: { id: string; isActive: boolean } | null
+}
+
+interface AssignmentCandidate {
+  programIds: Set<string>
+  campuses: Set<string>
+  marketingSource: string
+  city: string
+}
+
+function normalize(value: string | null | undefined) {
+  return (value || '').trim().toLowerCase()
+}
+
+function ruleMatches(rule: AssignmentRule, candidate: AssignmentCandidate) {
+  if (rule.programId && !candidate.programIds.has(rule.programId)) return false
+  if (rule.campus && !candidate.campuses.has(normalize(rule.campus))) return false
+  if (rule.marketingSource && normalize(rule.marketingSource) !== candidate.marketingSource) return false
+  if (rule.city && normalize(rule.city) !== candidate.city) return false
+  return true
+}
+
+async function pickRoundRobin(rule: RuleWithMembers, memberIds: string[]): Promise<string> {
+  let lastAssignedId = rule.lastAssignedId
+
+  for (let attempt = 0; attempt < ROUND_ROBIN_CLAIM_ATTEMPTS; attempt++) {
+    const nextId = memberIds[(memberIds.indexOf(lastAssignedId || '') + 1) % memberIds.length]
+
+    const claimed = await prisma.assignmentRule.updateMany({
+      where: { id: rule.id, lastAssignedId },
+      data: { lastAssignedId: nextId },
+    })
+    if (claimed.count > 0) return nextId
+
+    const current = await prisma.assignmentRule.findUnique({
+      where: { id: rule.id },
+      select: { lastAssignedId: true },
+    })
+    lastAssignedId = current?.lastAssignedId ?? null
+  }
+
+  // Heavy contention: fall back to the next member without claiming the position
+  return memberIds[(memberIds.indexOf(lastAssignedId || '') + 1) % memberIds.length]
+}
+
+async function pickLeastOpenFollowUps(memberIds: string[]): Promise<string> {
+  const counts = await prisma.followUpTask.groupBy({
+    by: ['assignedTo'],
+    where: { assignedTo: { in: memberIds }, status: { in: OPEN_FOLLOW_UP_STATUSES } },
+    _count: { _all: true },
+  })
+  const openCounts = new Map(counts.map(c => [c.assignedTo, c._count._all]))
+
+  // Ties go to the member listed first
+  return memberIds.reduce((best, id) =>
+    (openCounts.get(id) || 0) < (openCounts.get(best) || 0) ? id : best
+  )
+}
+
+async function pickCoordinator(rule: RuleWithMembers): Promise<string | null> {
+  if (rule.strategy === 'FIXED_OWNER') {
+    return rule.fixedOwner?.isActive ? rule.fixedOwner.id : null
+  }
+
+  const memberIds = rule.members.filter(m => m.user.isActive).map(m => m.userId)
+  if (memberIds.length === 0) return null
+
+  return rule.strategy === 'ROUND_ROBIN'
+    ? pickRoundRobin(rule, memberIds)
+    : pickLeastOpenFollowUps(memberIds)
+}
+
+async function notifyAssignee(coordinatorId: string, seekerNames: string[], actorId?: string) {
+  if (seekerNames.length === 0 || coordinatorId === actorId) return
+
+  try {
+    await createNotification({
+      userId: coordinatorId,
+      type: 'SYSTEM',
+      title: seekerNames.length === 1 ? 'New inquiry assigned to you' : `${seekerNames.length} inquiries assigned to you`,
+      message: seekerNames.length === 1
+        ? `${seekerNames[0]} has been assigned to you.`
+        : `${seekerNames.slice(0, 3).join(', ')}${seekerNames.length > 3 ? ` and ${seekerNames.length - 3} more` : ''} have been assigned to you.`,
+    })
+  } catch (error) {
+    console.error('Error notifying coordinator of assignment:', error)
+  }
+}
+
+/**
+ * Run the assignment rules for a new inquiry. Returns the assigned coordinator,
+ * or null when no active rule matched (the inquiry then stays with its creator).
+ */
+export async function autoAssignInquiry(seekerId: string, actorId?: string) {
+  const seeker = await prisma.seeker.findUnique({
+    where: { id: seekerId },
+    select: {
+      fullName: true,
+      city: true,
+      marketingSource: true,
+      programInterest: { select: { id: true, campus: true } },
+      preferredPrograms: { select: { program: { select: { id: true, campus: true } } } },
+    },
+  })
+  if (!seeker) return null
+
+  const programs = [
+    ...seeker.preferredPrograms.map(p => p.program),
+    ...(seeker.programInterest ? [seeker.programInterest] : []),
+  ]
+  const candidate: AssignmentCandidate = {
+    programIds: new Set(programs.map(p => p.id)),
+    campuses: new Set(programs.map(p => normalize(p.campus))),
+    marketingSource: normalize(seeker.marketingSource),
+    city: normalize(seeker.city),
+  }
+
+  const rules = await prisma.assignmentRule.findMany({
+    where: { isActive: true },
+    include: {
+      members: {
+        select: { userId: true, user: { select: { isActive: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      fixedOwner: { select: { id: true, isActive: true } },
+    },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, candidate)) continue
+
+    // A rule with nobody available falls through to the next matching rule
+    const coordinatorId = await pickCoordinator(rule)
+    if (!coordinatorId) continue
+
+    await prisma.assignment.create({
+      data: { seekerId, coordinatorId, ruleId: rule.id },
+    })
+    await notifyAssignee(coordinatorId, [seeker.fullName], actorId)
+
+    return { coordinatorId, ruleId: rule.id }
+  }
+
+  return null
+}
+
+/**
+ * Assign inquiries to a coordinator, replacing their current assignment.
+ * Follow-up tasks that are still open move to the new coordinator.
+ */
+export async function reassignInquiries(seekerIds: string[], coordinatorId: string, assignedById: string) {
+  if (seekerIds.length === 0) return 0
+
+  await prisma.$transaction([
+    prisma.assignment.deleteMany({ where: { seekerId: { in: seekerIds } } }),
+    prisma.assignment.createMany({
+      data: seekerIds.map(seekerId => ({ seekerId, coordinatorId, assignedById })),
+    }),
+    prisma.followUpTask.updateMany({
+      where: { seekerId: { in: seekerIds }, status: { in: OPEN_FOLLOW_UP_STATUSES } },
+      data: { assignedTo: coordinatorId },
+    }),
+  ])
+
+  const seekers = await prisma.seeker.findMany({
+    where: { id: { in: seekerIds } },
+    select: { fullName: true },
+  })
+  await notifyAssignee(coordinatorId, seekers.map(s => s.fullName), assignedById)
+
+  return seekerIds.length
+}
@@ -0,0 +1,71 @@
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Create the two automatic follow-up tasks (3 and 7 days out, 10 AM) for a new inquiry.
+ * Used by manual inquiry creation and bulk import.
+ */
+export async function createAutomaticFollowUpTasks(
+  seeker: { id: string; fullName: string; phone: string },
+  assignedTo: string,
+  actionBy: string = assignedTo
+) {
+  const now = new Date()
+
+  // First follow-up: 3 days from now
+  const firstDueDate = new Date(now)
+  firstDueDate.setDate(firstDueDate.getDate() + 3)
+  firstDueDate.setHours(10, 0, 0, 0) // Set to 10 AM
+
+  // Second follow-up: 7 days from now
+  const secondDueDate = new Date(now)
+  secondDueDate.setDate(secondDueDate.getDate() + 7)
+  secondDueDate.setHours(10, 0, 0, 0) // Set to 10 AM
+
+  // Create first follow-up task
+  const firstFollowUpTask = await prisma.followUpTask.create({
+    data: {
+      seekerId: seeker.id,
+      assignedTo,
+      dueAt: firstDueDate,
+      purpose: 'CALLBACK',
+      notes: `Automatic follow-up #1: Initial contact follow-up for inquiry - ${seeker.fullName} (${seeker.phone})`,
+      status: 'OPEN',
+    },
+  })
+
+  // Create second follow-up task
+  const secondFollowUpTask = await prisma.followUpTask.create({
+    data: {
+      seekerId: seeker.id,
+      assignedTo,
+      dueAt: secondDueDate,
+      purpose: 'CALLBACK',
+      notes: `Automatic follow-up #2: Secondary follow-up for inquiry - ${seeker.fullName} (${seeker.phone})`,
+      status: 'OPEN',
+    },
+  })
+
+  // Create initial action history entries
+  await Promise.all([
+    prisma.taskActionHistory.create({
+      data: {
+        taskId: firstFollowUpTask.id,
+        fromStatus: null,
+        toStatus: 'OPEN',
+        actionBy,
+        notes: 'Task created automatically from new inquiry - First follow-up (3 days)',
+      },
+    }),
+    prisma.taskActionHistory.create({
+      data: {
+        taskId: secondFollowUpTask.id,
+        fromStatus: null,
+        toStatus: 'OPEN',
+        actionBy,
+        notes: 'Task created automatically from new inquiry - Second follow-up (7 days)',
+      },
+    }),
+  ])
+
+  return { first: firstFollowUpTask, second: secondFollowUpTask }
+}
@@ -0,0 +1,170 @@
+// Shared helpers for bulk inquiry import (CSV/XLSX).
+// Used by the import dialog for column mapping/preview and by /api/inquiries/import
+// for server-side validation, so both sides agree on what a valid row is.
+
+export type ImportField =
+  | 'fullName'
+  | 'phone'
+  | 'email'
+  | 'city'
+  | 'marketingSource'
+  | 'preferredPrograms'
+  | 'whatsappNumber'
+  | 'description'
+
+export type DuplicateStrategy = 'skip' | 'merge' | 'overwrite'
+
+export type ImportRowStatus = 'valid' | 'duplicate' | 'created' | 'updated' | 'skipped' | 'error'
+
+// A row after column mapping: field -> raw cell value
+export type MappedImportRow = Partial<Record<ImportField, string>>
+
+export interface ImportRowResult {
+  rowNumber: number // 1-based row number in the spreadsheet (excluding header)
+  status: ImportRowStatus
+  fullName?: string
+  phone?: string
+  seekerId?: string
+  errors: string[]
+  message?: string
+}
+
+export interface ImportSummary {
+  total: number
+  created: number
+  updated: number
+  skipped: number
+  failed: number
+}
+
+export const IMPORT_FIELDS: Array<{
+  key: ImportField
+  label: string
+  required: boolean
+  aliases: string[]
+}> = [
+  { key: 'fullName', label: 'Full Name', required: true, aliases: ['full name', 'name', 'student name', 'fullname'] },
+  { key: 'phone', label: 'Phone', required: true, aliases: ['phone', 'phone number', 'mobile', 'contact number', 'telephone'] },
+  { key: 'email', label: 'Email', required: false, aliases: ['email', 'email address', 'e-mail'] },
+  { key: 'city', label: 'City / District', required: false, aliases: ['city', 'district', 'town', 'location'] },
+  { key: 'marketingSource', label: 'Marketing Source', required: true, aliases: ['marketing source', 'source', 'lead source', 'platform'] },
+  { key: 'preferredPrograms', label: 'Preferred Programs', required: false, aliases: ['preferred programs', 'programs', 'program', 'course', 'courses', 'program interest'] },
+  { key: 'whatsappNumber', label: 'WhatsApp Number', required: false, aliases: ['whatsapp', 'whatsapp number'] },
+  { key: 'description', label: 'Notes / Description', required: false, aliases: ['notes', 'description', 'comments', 'remarks'] },
+]
+
+export const MAX_IMPORT_ROWS = 1000
+
+const PHONE_PATTERN = /^\+?[0-9]{9,15}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Strip spaces, dashes, dots and parentheses so "077 123-4567" and "0771234567" match
+ */
+export function normalizePhone(value: string | undefined | null): string {
+  if (!value) return ''
+  return String(value).trim().replace(/[\s\-().]/g, '')
+}
+
+/**
+ * Split a preferred-programs cell ("BSc IT; HND Business") into program names
+ */
+export function splitProgramNames(value: string | undefined | null): string[] {
+  if (!value) return []
+  return String(value)
+    .split(/[;,|\n]/)
+    .map(name => name.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Suggest a column mapping from spreadsheet headers using field labels and aliases
+ */
+export function guessColumnMapping(headers: string[]): Partial<Record<ImportField, string>> {
+  const mapping: Partial<Record<ImportField, string>> = {}
+  const normalizedHeaders = headers.map(header => ({
+    header,
+    normalized: header.trim().toLowerCase().replace(/[_\s]+/g, ' '),
+  }))
+
+  for (const field of IMPORT_FIELDS) {
+    const match = normalizedHeaders.find(({ normalized }) =>
+      normalized === field.key.toLowerCase() ||
+      normalized === field.label.toLowerCase() ||
+      field.aliases.includes(normalized)
+    )
+    if (match) {
+      mapping[field.key] = match.header
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Apply a column mapping to a raw spreadsheet row
+ */
+export function applyColumnMapping(
+  row: Record<string, unknown>,
+  mapping: Partial<Record<ImportField, string>>
+): MappedImportRow {
+  const mapped: MappedImportRow = {}
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field.key]
+    if (!column) continue
+    const value = row[column]
+    if (value === undefined || value === null) continue
+    const text = String(value).trim()
+    if (text) mapped[field.key] = text
+  }
+  return mapped
+}
+
+/**
+ * Validate a mapped row. Returns a list of human readable errors (empty when valid).
+ */
+export function validateImportRow(row: MappedImportRow): string[] {
+  const errors: string[] = []
+
+  for (const field of IMPORT_FIELDS) {
+    if (field.required && !row[field.key]?.trim()) {
+      errors.push(`${field.label} is required`)
+    }
+  }
+
+  if (row.fullName && (row.fullName.length < 2 || row.fullName.length > 100)) {
+    errors.push('Full name must be between 2 and 100 characters')
+  }
+
+  if (row.phone && !PHONE_PATTERN.test(normalizePhone(row.phone))) {
+    errors.push('Phone number must contain 9 to 15 digits')
+  }
+
+  if (row.whatsappNumber && !PHONE_PATTERN.test(normalizePhone(row.whatsappNumber))) {
+    errors.push('WhatsApp number must contain 9 to 15 digits')
+  }
+
+  if (row.email && !EMAIL_PATTERN.test(row.email)) {
+    errors.push('Email address is not valid')
+  }
+
+  if (row.marketingSource && row.marketingSource.length > 100) {
+    errors.push('Marketing source must be less than 100 characters')
+  }
+
+  if (row.description && row.description.length > 1000) {
+    errors.push('Description must be less than 1000 characters')
+  }
+
+  return errors
+}
+
+export function summarizeImportResults(results: ImportRowResult[]): ImportSummary {
+  return {
+    total: results.length,
+    created: results.filter(r => r.status === 'created').length,
+    updated: results.filter(r => r.status === 'updated').length,
+    skipped: results.filter(r => r.status === 'skipped' || r.status === 'duplicate').length,
+    failed: results.filter(r => r.status === 'error').length,
+  }
+}
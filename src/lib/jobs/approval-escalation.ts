@@ -0,0 +1,79 @@
+import { prisma } from '@/lib/prisma'
+import { notifyApprovalEscalated } from '@/lib/notification-service'
+import { notifyStageApprovers } from '@/lib/post-approvals'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+
+// Cap per run so a large backlog (e.g. after downtime) doesn't block the runner
+const APPROVAL_ESCALATION_BATCH_SIZE = 100
+
+/**
+ * Escalate current post approval stages that have waited longer than their escalateAfterHours:
+ * the stage's escalation user (if any) joins it and can then approve or reject it alone, and the
+ * approvers still pending are reminded. Each stage is claimed with a conditional update on
+ * escalatedAt, so it is escalated once even with several runners.
+ */
+export async function processApprovalEscalation() {
+  const now = new Date()
+
+  const stages = await prisma.postApprovalStage.findMany({
+    where: {
+      startedAt: { not: null },
+      completedAt: null,
+      escalatedAt: null,
+      escalateAfterHours: { not: null },
+      post: { status: 'PENDING_APPROVAL' },
+    },
+    include: {
+      post: { select: { id: true, caption: true } },
+    },
+    orderBy: { startedAt: 'asc' },
+  })
+
+  // The deadline depends on each stage's own hours, so it is checked here rather than in the query
+  const dueStages = stages
+    .filter(stage => stage.startedAt!.getTime() + stage.escalateAfterHours! * 60 * 60 * 1000 <= now.getTime())
+    .slice(0, APPROVAL_ESCALATION_BATCH_SIZE)
+
+  let escalated = 0
+  for (const stage of dueStages) {
+    try {
+      const claimed = await prisma.$transaction(async (tx) => {
+        const claim = await tx.postApprovalStage.updateMany({
+          where: { id: stage.id, completedAt: null, escalatedAt: null },
+          data: { escalatedAt: now },
+        })
+        if (claim.count === 0) return false
+
+        if (stage.escalateToId) {
+          await tx.postApproval.createMany({
+            data: [{ postId: stage.postId, stageId: stage.id, approverId: stage.escalateToId, order: stage.order }],
+            skipDuplicates: true,
+          })
+        }
+        return true
+      })
+
+      if (!claimed) continue
+      escalated++
+
+      const hours = stage.escalateAfterHours!
+      if (stage.escalateToId) {
+        const escalateToId = stage.escalateToId
+        try {
+          await notifyApprovalEscalated(escalateToId, stage.post.id, stage.post.caption, stage.name, hours, true)
+          invalidateUnreadCountCache(escalateToId)
+        } catch (error) {
+          console.error('Error sending escalation notification:', error)
+        }
+      }
+
+      await notifyStageApprovers(stage.id, (userId) => userId === stage.escalateToId
+        ? Promise.resolve()
+        : notifyApprovalEscalated(userId, stage.post.id, stage.post.caption, stage.name, hours, false))
+    } catch (error) {
+      console.error(`Error escalating approval stage ${stage.id}:`, error)
+    }
+  }
+
+  return { escalated }
+}
@@ -0,0 +1,163 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { formatDateTime } from '@/lib/date-utils'
+import { getSystemUserId } from '@/lib/system-user'
+import { OVERDUE_FROM_STATUSES, getFollowUpSlaSettings } from '@/lib/follow-up-sla'
+
+// Cap per step and run so a large backlog (e.g. after downtime) doesn't block the runner
+const FOLLOW_UP_SLA_BATCH_SIZE = 200
+
+const slaTaskInclude = {
+  seeker: { select: { fullName: true } },
+  user: { select: { id: true, name: true, managerId: true } },
+} satisfies Prisma.FollowUpTaskInclude
+
+/**
+ * Mark follow-ups that are past due as OVERDUE, then remind the assignee and escalate to
+ * their manager once the configured grace periods have passed.
+ * Each step claims a task with a conditional update (in the same transaction as its history
+ * entry or notification), so transitions and notifications happen once even with several runners.
+ */
+export async function processFollowUpSla() {
+  const now = new Date()
+  const { assigneeGraceMs, managerGraceMs } = await getFollowUpSlaSettings()
+
+  const markedOverdue = await markOverdueTasks(now)
+
+  // Reminders for the assignee
+  const remindTasks = await prisma.followUpTask.findMany({
+    where: {
+      status: 'OVERDUE',
+      overdueNotifiedAt: null,
+      dueAt: { lte: new Date(now.getTime() - assigneeGraceMs) },
+    },
+    include: slaTaskInclude,
+    orderBy: { dueAt: 'asc' },
+    take: FOLLOW_UP_SLA_BATCH_SIZE,
+  })
+
+  let assigneesNotified = 0
+  for (const task of remindTasks) {
+    try {
+      const notified = await prisma.$transaction(async (tx) => {
+        const claim = await tx.followUpTask.updateMany({
+          where: { id: task.id, status: 'OVERDUE', overdueNotifiedAt: null },
+          data: { overdueNotifiedAt: now },
+        })
+        if (claim.count === 0) return false
+
+        await tx.notification.create({
+          data: {
+            userId: task.assignedTo,
+            type: 'REMINDER',
+            title: 'Follow-up overdue',
+            message: `Your follow-up with ${task.seeker.fullName} was due ${formatDateTime(task.dueAt)}.`,
+            read: false,
+          },
+        })
+        return true
+      })
+
+      if (!notified) continue
+      assigneesNotified++
+      invalidateUnreadCountCache(task.assignedTo)
+    } catch (error) {
+      console.error(`Error sending overdue reminder for follow-up ${task.id}:`, error)
+    }
+  }
+
+  // Escalations to the assignee's manager (assignees without a manager are not escalated)
+  const escalateTasks = await prisma.followUpTask.findMany({
+    where: {
+      status: 'OVERDUE',
+      escalatedAt: null,
+      dueAt: { lte: new Date(now.getTime() - managerGraceMs) },
+      user: { managerId: { not: null } },
+    },
+    include: slaTaskInclude,
+    orderBy: { dueAt: 'asc' },
+    take: FOLLOW_UP_SLA_BATCH_SIZE,
+  })
+
+  let escalated = 0
+  for (const task of escalateTasks) {
+    const managerId = task.user.managerId!
+    try {
+      const notified = await prisma.$transaction(async (tx) => {
+        const claim = await tx.followUpTask.updateMany({
+          where: { id: task.id, status: 'OVERDUE', escalatedAt: null },
+          data: { escalatedAt: now },
+        })
+        if (claim.count === 0) return false
+
+        await tx.notification.create({
+          data: {
+            userId: managerId,
+            type: 'SYSTEM',
+            title: 'Overdue follow-up escalated',
+            message: `${task.user.name}'s follow-up with ${task.seeker.fullName} was due ${formatDateTime(task.dueAt)} and is still open.`,
+            read: false,
+          },
+        })
+        return true
+      })
+
+      if (!notified) continue
+      escalated++
+      invalidateUnreadCountCache(managerId)
+    } catch (error) {
+      console.error(`Error escalating overdue follow-up ${task.id}:`, error)
+    }
+  }
+
+  return { markedOverdue, assigneesNotified, escalated }
+}
+
+async function markOverdueTasks(now: Date) {
+  const tasks = await prisma.followUpTask.findMany({
+    where: {
+      status: { in: OVERDUE_FROM_STATUSES },
+      dueAt: { lt: now },
+    },
+    select: { id: true, status: true },
+    orderBy: { dueAt: 'asc' },
+    take: FOLLOW_UP_SLA_BATCH_SIZE,
+  })
+
+  if (tasks.length === 0) return 0
+
+  const systemUserId = await getSystemUserId()
+  let marked = 0
+
+  for (const task of tasks) {
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        // Skip tasks whose status changed since we read them
+        const claim = await tx.followUpTask.updateMany({
+          where: { id: task.id, status: task.status },
+          data: { status: 'OVERDUE' },
+        })
+        if (claim.count === 0) return false
+
+        await tx.taskActionHistory.create({
+          data: {
+            taskId: task.id,
+            fromStatus: task.status,
+            toStatus: 'OVERDUE',
+            actionBy: systemUserId,
+            actionAt: now,
+            notes: 'Marked overdue automatically (past due date)',
+          },
+        })
+        return true
+      })
+
+      if (updated) marked++
+    } catch (error) {
+      console.error(`Error marking follow-up ${task.id} overdue:`, error)
+    }
+  }
+
+  return marked
+}
@@ -0,0 +1,46 @@
+import { registerJob } from './job-runner'
+import { processApprovalEscalation } from './approval-escalation'
+import { processFollowUpSla } from './follow-up-sla'
+import { processMeetingReminders } from './meeting-reminders'
+import { processNoteReminders } from './note-reminders'
+import { processSendQueue } from './send-queue'
+import { processSocialPublishing } from './social-publishing'
+
+export { runJob, runAllJobs, startJobRunner, stopJobRunner, getRegisteredJobs } from './job-runner'
+
+registerJob({
+  name: 'meeting-reminders',
+  intervalMs: 60 * 1000,
+  run: processMeetingReminders,
+})
+
+registerJob({
+  name: 'note-reminders',
+  intervalMs: 60 * 1000,
+  run: processNoteReminders,
+})
+
+// Short interval so queued campaigns start promptly; each run is time-boxed by the worker
+registerJob({
+  name: 'send-queue',
+  intervalMs: 5 * 1000,
+  run: processSendQueue,
+})
+
+registerJob({
+  name: 'follow-up-sla',
+  intervalMs: 5 * 60 * 1000,
+  run: processFollowUpSla,
+})
+
+registerJob({
+  name: 'social-publishing',
+  intervalMs: 60 * 1000,
+  run: processSocialPublishing,
+})
+
+registerJob({
+  name: 'approval-escalation',
+  intervalMs: 5 * 60 * 1000,
+  run: processApprovalEscalation,
+})
@@ -0,0 +1,111 @@
+// Lightweight in-process scheduler for background jobs (server only).
+// Jobs are registered in ./index.ts and started from src/instrumentation.ts.
+// They can also be triggered externally (e.g. by a cron service) via POST /api/jobs/run.
+
+export interface JobResult {
+  [key: string]: unknown
+}
+
+export interface JobDefinition {
+  name: string
+  intervalMs: number
+  run: () => Promise<JobResult | void>
+}
+
+export interface JobRunSummary {
+  name: string
+  success: boolean
+  startedAt: string
+  durationMs: number
+  result?: JobResult | void
+  error?: string
+}
+
+const jobs = new Map<string, JobDefinition>()
+const runningJobs = new Set<string>()
+const timers = new Map<string, ReturnType<typeof setInterval>>()
+
+export function registerJob(job: JobDefinition) {
+  jobs.set(job.name, job)
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return Array.from(jobs.values())
+}
+
+/**
+ * Run a single job by name. Overlapping runs of the same job are skipped.
+ */
+export async function runJob(name: string): Promise<JobRunSummary> {
+  const job = jobs.get(name)
+  const startedAt = new Date()
+
+  if (!job) {
+    return { name, success: false, startedAt: startedAt.toISOString(), durationMs: 0, error: 'Unknown job' }
+  }
+
+  if (runningJobs.has(name)) {
+    return { name, success: false, startedAt: startedAt.toISOString(), durationMs: 0, error: 'Job is already running' }
+  }
+
+  runningJobs.add(name)
+  try {
+    const result = await job.run()
+    return {
+      name,
+      success: true,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      result,
+    }
+  } catch (error) {
+    console.error(`Background job "${name}" failed:`, error)
+    return {
+      name,
+      success: false,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      error: error instanceof Error ? error.message : 'Job failed',
+    }
+  } finally {
+    runningJobs.delete(name)
+  }
+}
+
+/**
+ * Run every registered job once (sequentially)
+ */
+export async function runAllJobs(): Promise<JobRunSummary[]> {
+  const summaries: JobRunSummary[] = []
+  for (const job of jobs.values()) {
+    summaries.push(await runJob(job.name))
+  }
+  return summaries
+}
+
+/**
+ * Start interval timers for all registered jobs. Safe to call more than once.
+ */
+export function startJobRunner() {
+  for (const job of jobs.values()) {
+    if (timers.has(job.name)) continue
+
+    const timer = setInterval(() => {
+      void runJob(job.name)
+    }, job.intervalMs)
+    // Don't keep the process alive just for background jobs
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref()
+    }
+    timers.set(job.name, timer)
+  }
+
+  console.log(`Background job runner started (${jobs.size} job${jobs.size === 1 ? '' : 's'})`)
+}
+
+export function stopJobRunner() {
+  for (const timer of timers.values()) {
+    clearInterval(timer)
+  }
+  timers.clear()
+}
@@ -0,0 +1,199 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createNotifications } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { sendEmailViaSMTP } from '@/lib/smtp'
+import { getBooleanSetting } from '@/lib/system-settings'
+import { formatDateTime } from '@/lib/date-utils'
+import { escapeHtml } from '@/lib/utils'
+import {
+  MAX_MEETING_REMINDER_OFFSET,
+  formatReminderOffset,
+  getMeetingReminderOffsets,
+  parseAttendeeEmails,
+} from '@/lib/meeting-reminders'
+
+const MEETING_TYPE_LABELS: Record<string, string> = {
+  IN_PERSON: 'In person',
+  ZOOM: 'Zoom',
+  GOOGLE_MEET: 'Google Meet',
+  MICROSOFT_TEAMS: 'Microsoft Teams',
+  PHONE_CALL: 'Phone call',
+  OTHER: 'Other',
+}
+
+const meetingInclude = {
+  createdBy: { select: { id: true, name: true, email: true } },
+  assignedTo: { select: { id: true, name: true, email: true } },
+  reminders: { select: { offsetMinutes: true } },
+} satisfies Prisma.MeetingInclude
+
+type ReminderMeeting = Prisma.MeetingGetPayload<{ include: typeof meetingInclude }>
+
+function buildReminderEmail(meeting: ReminderMeeting, startsIn: string) {
+  const when = formatDateTime(meeting.startTime)
+  const details: Array<[string, string | null | undefined]> = [
+    ['When', when],
+    ['Type', MEETING_TYPE_LABELS[meeting.meetingType] || meeting.meetingType],
+    ['Location', meeting.location],
+    ['Meeting link', meeting.meetingLink],
+    ['Meeting ID', meeting.meetingId],
+    ['Password', meeting.meetingPassword],
+    ['Organizer', meeting.assignedTo.name],
+  ]
+
+  const html = `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <p>This is a reminder that <strong>${escapeHtml(meeting.title)}</strong> starts in ${startsIn}.</p>
+        <table style="border-collapse: collapse;">
+          ${details
+            .filter(([, value]) => value)
+            .map(([label, value]) => `<tr><td style="padding: 4px 12px 4px 0; color: #666;">${label}</td><td style="padding: 4px 0;">${escapeHtml(value!)}</td></tr>`)
+            .join('')}
+        </table>
+        ${meeting.agenda ? `<p><strong>Agenda</strong></p>${meeting.agenda.split('\n').map(line => `<p>${escapeHtml(line)}</p>`).join('')}` : ''}
+        <br/>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;"/>
+        <p style="font-size: 12px; color: #666;">
+          This email was sent via the CRM System
+        </p>
+      </body>
+    </html>
+  `
+
+  return {
+    subject: `Reminder: ${meeting.title} starts in ${startsIn}`,
+    html,
+  }
+}
+
+/**
+ * Claim a reminder offset for a meeting. Returns false when another run already processed it.
+ */
+async function claimReminder(meetingId: string, offsetMinutes: number): Promise<boolean> {
+  try {
+    await prisma.meetingReminder.create({
+      data: { meetingId, offsetMinutes },
+    })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+async function sendMeetingReminder(meeting: ReminderMeeting, offsetMinutes: number, emailEnabled: boolean) {
+  const minutesUntilStart = Math.max(1, Math.round((meeting.startTime.getTime() - Date.now()) / 60000))
+  const startsIn = formatReminderOffset(minutesUntilStart)
+
+  // In-app notifications for the organizer and the creator
+  const userIds = Array.from(new Set([meeting.assignedToId, meeting.createdById]))
+  await createNotifications(userIds.map(userId => ({
+    userId,
+    type: 'REMINDER' as const,
+    title: 'Meeting Reminder',
+    message: `Your meeting "${meeting.title}" starts in ${startsIn} (${formatDateTime(meeting.startTime)}).`,
+    meetingId: meeting.id,
+  })))
+  userIds.forEach(userId => invalidateUnreadCountCache(userId))
+
+  let emailsSent = 0
+  if (emailEnabled) {
+    const recipients = Array.from(new Set([
+      meeting.assignedTo.email.toLowerCase(),
+      meeting.createdBy.email.toLowerCase(),
+      ...parseAttendeeEmails(meeting.attendees),
+    ]))
+    const { subject, html } = buildReminderEmail(meeting, startsIn)
+
+    for (const to of recipients) {
+      const result = await sendEmailViaSMTP({ to, subject, html })
+      if (result.success) {
+        emailsSent++
+      } else {
+        console.error(`Failed to send meeting reminder for ${meeting.id} to ${to}:`, result.error)
+      }
+    }
+  }
+
+  await prisma.meetingReminder.update({
+    where: { meetingId_offsetMinutes: { meetingId: meeting.id, offsetMinutes } },
+    data: { emailsSent },
+  })
+
+  return emailsSent
+}
+
+/**
+ * Send due meeting reminders (in-app notification + email).
+ * Each offset is recorded in meeting_reminders before sending, so reminders are never duplicated
+ * across runs or server instances, and missed reminders are caught up on the next run.
+ */
+export async function processMeetingReminders() {
+  const now = new Date()
+  const horizon = new Date(now.getTime() + MAX_MEETING_REMINDER_OFFSET * 60000)
+
+  // Meetings that already started no longer need reminders
+  const expired = await prisma.meeting.updateMany({
+    where: {
+      reminderSent: false,
+      startTime: { lte: now },
+    },
+    data: { reminderSent: true },
+  })
+
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      status: 'SCHEDULED',
+      reminderSent: false,
+      startTime: { gt: now, lte: horizon },
+    },
+    include: meetingInclude,
+    orderBy: { startTime: 'asc' },
+  })
+
+  if (meetings.length === 0) {
+    return { checked: 0, sent: 0, emailsSent: 0, expired: expired.count }
+  }
+
+  const emailEnabled = await getBooleanSetting('EMAIL_NOTIFICATIONS_ENABLED', true)
+  let sent = 0
+  let emailsSent = 0
+
+  for (const meeting of meetings) {
+    try {
+      const offsets = getMeetingReminderOffsets(meeting.reminderOffsets)
+      const processed = new Set(meeting.reminders.map(r => r.offsetMinutes))
+      const minutesUntilStart = (meeting.startTime.getTime() - now.getTime()) / 60000
+
+      const due = offsets.filter(offset => !processed.has(offset) && minutesUntilStart <= offset)
+      const claimed: number[] = []
+      for (const offset of due) {
+        if (await claimReminder(meeting.id, offset)) {
+          claimed.push(offset)
+        }
+        processed.add(offset)
+      }
+
+      // When several offsets are due at once (e.g. after downtime) only the closest one is sent
+      if (claimed.length > 0) {
+        emailsSent += await sendMeetingReminder(meeting, Math.min(...claimed), emailEnabled)
+        sent++
+      }
+
+      if (offsets.every(offset => processed.has(offset))) {
+        await prisma.meeting.update({
+          where: { id: meeting.id },
+          data: { reminderSent: true },
+        })
+      }
+    } catch (error) {
+      console.error(`Error processing reminders for meeting ${meeting.id}:`, error)
+    }
+  }
+
+  return { checked: meetings.length, sent, emailsSent, expired: expired.count }
+}
@@ -0,0 +1,126 @@
+import { prisma } from '@/lib/prisma'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { sendEmailViaSMTP } from '@/lib/smtp'
+import { getBooleanSetting } from '@/lib/system-settings'
+import { formatDateTime } from '@/lib/date-utils'
+import { escapeHtml } from '@/lib/utils'
+import { getNextReminderOccurrence, isNoteReminderRecurrence } from '@/lib/note-reminders'
+
+// Cap per run so a large backlog (e.g. after downtime) doesn't block the runner
+const NOTE_REMINDER_BATCH_SIZE = 100
+
+function getContentExcerpt(content: string | null, maxLength = 300) {
+  if (!content) return ''
+  const text = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text
+}
+
+/**
+ * Deliver due note reminders as REMINDER notifications (and optionally email).
+ * A reminder is claimed and its notification created in one transaction, conditioned on the
+ * reminder state we read, so it is delivered exactly once even with several runners.
+ * One-off reminders are then marked reminderSent; recurring ones move to their next occurrence.
+ */
+export async function processNoteReminders() {
+  const now = new Date()
+
+  const notes = await prisma.note.findMany({
+    where: {
+      hasReminder: true,
+      reminderSent: false,
+      isArchived: false,
+      reminderDate: { not: null },
+      OR: [
+        { reminderSnoozedUntil: { lte: now } },
+        { reminderSnoozedUntil: null, reminderDate: { lte: now } },
+      ],
+    },
+    include: {
+      createdBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: { reminderDate: 'asc' },
+    take: NOTE_REMINDER_BATCH_SIZE,
+  })
+
+  if (notes.length === 0) {
+    return { checked: 0, sent: 0, emailsSent: 0 }
+  }
+
+  const emailEnabled = await getBooleanSetting('EMAIL_NOTIFICATIONS_ENABLED', true)
+  let sent = 0
+  let emailsSent = 0
+
+  for (const note of notes) {
+    try {
+      const recurrence = isNoteReminderRecurrence(note.reminderRecurrence) ? note.reminderRecurrence : null
+      const nextReminderDate = recurrence
+        ? getNextReminderOccurrence(note.reminderDate!, recurrence, now)
+        : note.reminderDate
+
+      const delivered = await prisma.$transaction(async (tx) => {
+        const claim = await tx.note.updateMany({
+          where: {
+            id: note.id,
+            reminderSent: false,
+            reminderDate: note.reminderDate,
+            reminderSnoozedUntil: note.reminderSnoozedUntil,
+          },
+          data: {
+            reminderSent: !recurrence,
+            reminderDate: nextReminderDate,
+            reminderSnoozedUntil: null,
+          },
+        })
+        if (claim.count === 0) return false
+
+        await tx.notification.create({
+          data: {
+            userId: note.createdById,
+            type: 'REMINDER',
+            title: 'Note Reminder',
+            message: `${note.icon ? `${note.icon} ` : ''}${note.title}`,
+            noteId: note.id,
+            read: false,
+          },
+        })
+        return true
+      })
+
+      if (!delivered) continue
+      sent++
+      invalidateUnreadCountCache(note.createdById)
+
+      if (note.reminderEmail && emailEnabled && note.createdBy.email) {
+        const excerpt = getContentExcerpt(note.content)
+        const result = await sendEmailViaSMTP({
+          to: note.createdBy.email,
+          subject: `Reminder: ${note.title}`,
+          html: `
+            <html>
+              <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+                <p>Hi ${escapeHtml(note.createdBy.name)},</p>
+                <p>This is your reminder for the note <strong>${escapeHtml(note.title)}</strong>.</p>
+                ${excerpt ? `<p style="color: #555;">${escapeHtml(excerpt)}</p>` : ''}
+                ${recurrence ? `<p style="font-size: 13px; color: #666;">Next reminder: ${formatDateTime(nextReminderDate!)}</p>` : ''}
+                <br/>
+                <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;"/>
+                <p style="font-size: 12px; color: #666;">
+                  This email was sent via the CRM System
+                </p>
+              </body>
+            </html>
+          `,
+        })
+        if (result.success) {
+          emailsSent++
+        } else {
+          console.error(`Failed to email note reminder ${note.id}:`, result.error)
+        }
+      }
+    } catch (error) {
+      console.error(`Error processing reminder for note ${note.id}:`, error)
+    }
+  }
+
+  return { checked: notes.length, sent, emailsSent }
+}
@@ -0,0 +1,582 @@
+import { Prisma, SendChannel, SendJob } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { createNotification } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { sendEmailViaSMTP } from '@/lib/smtp'
+import {
+  WhatsAppMedia,
+  WhatsAppProvider,
+  formatWhatsAppNumber,
+  getWhatsAppProvider,
+  isWhatsAppProviderName,
+} from '@/lib/whatsapp'
+import { isSeekerSuppressed } from '@/lib/contact-suppression'
+import { addEmailTracking, ensureEmailLinks, extractLinkUrls, isEmailTrackingEnabled } from '@/lib/email-tracking'
+import { getAppBaseUrl } from '@/lib/system-settings'
+import { getSeekerMergeValues, renderEmail } from '@/lib/email-templates'
+import { hasMergeFields } from '@/lib/email-merge-fields'
+import { getRetryDelayMs, getSendMaxAttempts, getSendRatePerMinute, isMediaOnlyLabel } from '@/lib/send-queue'
+
+const OPTED_OUT_ERROR = 'Recipient has opted out'
+
+// A run stops picking up recipients after this long so the next tick can start cleanly
+const SEND_QUEUE_RUN_BUDGET_MS = 25 * 1000
+// Worker lease on a job; renewed after every recipient. An expired lease means the worker died.
+const SEND_JOB_LEASE_MS = 2 * 60 * 1000
+
+// Earliest time the next message may go out, per channel (spaces sends to honour the rate limit)
+const nextSendAt: Record<SendChannel, number> = { EMAIL: 0, WHATSAPP: 0 }
+
+type SendOutcome = { success: boolean; error?: string; retryable?: boolean; providerMessageId?: string; phoneNumber?: string }
+
+interface JobSender {
+  sendNext(): Promise<boolean>
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Wait for the channel's next send slot. Returns false if the slot falls after the deadline.
+ */
+async function waitForSendSlot(channel: SendChannel, deadline: number) {
+  const waitMs = nextSendAt[channel] - Date.now()
+  if (Date.now() + Math.max(0, waitMs) > deadline) return false
+  if (waitMs > 0) await sleep(waitMs)
+
+  const ratePerMinute = await getSendRatePerMinute(channel)
+  nextSendAt[channel] = Date.now() + Math.ceil(60000 / ratePerMinute)
+  return true
+}
+
+/**
+ * Claim the oldest runnable job of a channel by taking its lease.
+ * The conditional updateMany makes the claim safe when several runners poll the queue.
+ */
+async function claimNextJob(channel: SendChannel, skipIds: string[]) {
+  const now = new Date()
+  const leaseFree = [{ lockedUntil: null }, { lockedUntil: { lt: now } }]
+
+  const candidates = await prisma.sendJob.findMany({
+    where: {
+      channel,
+      status: { in: ['QUEUED', 'RUNNING'] },
+      id: { notIn: skipIds },
+      OR: leaseFree,
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: 5,
+  })
+
+  for (const candidate of candidates) {
+    const claimed = await prisma.sendJob.updateMany({
+      where: { id: candidate.id, status: { in: ['QUEUED', 'RUNNING'] }, OR: leaseFree },
+      data: { status: 'RUNNING', lockedUntil: new Date(now.getTime() + SEND_JOB_LEASE_MS) },
+    })
+    if (claimed.count === 0) continue
+
+    const job = await prisma.sendJob.findUniqueOrThrow({ where: { id: candidate.id } })
+    if (!job.startedAt) {
+      return prisma.sendJob.update({ where: { id: job.id }, data: { startedAt: now } })
+    }
+    return job
+  }
+
+  return null
+}
+
+async function releaseJob(jobId: string, pause?: { lastError: string }) {
+  if (pause) {
+    await prisma.sendJob.updateMany({
+      where: { id: jobId, status: 'RUNNING' },
+      data: { status: 'PAUSED', lastError: pause.lastError },
+    })
+  }
+  // The job may have been paused or cancelled while we held the lease
+  await prisma.sendJob.update({
+    where: { id: jobId },
+    data: { lockedUntil: null },
+  })
+}
+
+async function completeJob(job: SendJob) {
+  const completed = await prisma.sendJob.updateMany({
+    where: { id: job.id, status: 'RUNNING' },
+    data: { status: 'COMPLETED', completedAt: new Date(), lockedUntil: null, mediaContent: null },
+  })
+  if (completed.count === 0) return
+
+  const final = await prisma.sendJob.findUniqueOrThrow({ where: { id: job.id } })
+  const channelLabel = job.channel === 'EMAIL' ? 'Email' : 'WhatsApp'
+  try {
+    await createNotification({
+      userId: job.createdById,
+      type: 'SYSTEM',
+      title: `${channelLabel} campaign finished`,
+      message: `${final.sentCount} of ${final.totalCount} messages sent${final.failedCount > 0 ? `, ${final.failedCount} failed` : ''}${final.skippedCount > 0 ? `, ${final.skippedCount} skipped (opted out)` : ''}.`,
+    })
+    invalidateUnreadCountCache(job.createdById)
+  } catch (error) {
+    console.error(`Error notifying about finished send job ${job.id}:`, error)
+  }
+}
+
+/**
+ * Record the result of one send attempt on the recipient, the job and the message.
+ * Transient failures stay PENDING with a backed-off nextAttemptAt until attempts run out.
+ */
+async function recordOutcome(
+  job: SendJob,
+  recipient: { id: string; attempts: number },
+  outcome: SendOutcome,
+  maxAttempts: number,
+) {
+  const now = new Date()
+  const willRetry = !outcome.success && outcome.retryable && recipient.attempts < maxAttempts
+  const isEmail = job.channel === 'EMAIL'
+
+  await prisma.$transaction(async (tx) => {
+    const data = outcome.success
+      ? { status: 'SENT' as const, sentAt: now, errorMessage: null, nextAttemptAt: null }
+      : willRetry
+        ? { errorMessage: outcome.error, nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(recipient.attempts)) }
+        : { status: 'FAILED' as const, errorMessage: outcome.error, nextAttemptAt: null }
+
+    // A cancel during the send has already counted the recipient
+    const current = isEmail
+      ? await tx.emailRecipient.findUnique({ where: { id: recipient.id }, select: { status: true } })
+      : await tx.whatsAppRecipient.findUnique({ where: { id: recipient.id }, select: { status: true } })
+    if (!current || current.status === 'CANCELLED') return
+
+    if (isEmail) {
+      await tx.emailRecipient.update({ where: { id: recipient.id }, data })
+    } else if (outcome.success) {
+      await tx.whatsAppRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          // A delivery webhook can arrive before we get here; keep the status it set
+          ...(current.status === 'PENDING' ? data : { sentAt: now, errorMessage: null, nextAttemptAt: null }),
+          providerMessageId: outcome.providerMessageId,
+          phoneNumber: outcome.phoneNumber,
+        },
+      })
+    } else {
+      await tx.whatsAppRecipient.update({ where: { id: recipient.id }, data })
+    }
+
+    if (willRetry) {
+      await tx.sendJob.update({ where: { id: job.id }, data: { lastError: outcome.error } })
+      return
+    }
+
+    await tx.sendJob.update({
+      where: { id: job.id },
+      data: {
+        processedCount: { increment: 1 },
+        sentCount: { increment: outcome.success ? 1 : 0 },
+        failedCount: { increment: outcome.success ? 0 : 1 },
+        ...(outcome.success ? {} : { lastError: outcome.error }),
+      },
+    })
+
+    const counts = {
+      sentCount: { increment: outcome.success ? 1 : 0 },
+      failedCount: { increment: outcome.success ? 0 : 1 },
+    }
+    if (isEmail) {
+      await tx.emailMessage.update({ where: { id: job.emailMessageId! }, data: counts })
+    } else {
+      await tx.whatsAppMessage.update({ where: { id: job.whatsappMessageId! }, data: counts })
+    }
+  })
+}
+
+/**
+ * Cancel a recipient who opted out after the send was queued. Like opt-outs found when the send
+ * was created, they are counted as skipped rather than as part of the total.
+ */
+async function skipSuppressedRecipient(job: SendJob, recipientId: string) {
+  await prisma.$transaction(async (tx) => {
+    const data = { status: 'CANCELLED' as const, errorMessage: OPTED_OUT_ERROR, nextAttemptAt: null }
+    const skipped = job.channel === 'EMAIL'
+      ? await tx.emailRecipient.updateMany({ where: { id: recipientId, status: 'PENDING' }, data })
+      : await tx.whatsAppRecipient.updateMany({ where: { id: recipientId, status: 'PENDING' }, data })
+    if (skipped.count === 0) return
+
+    await tx.sendJob.update({
+      where: { id: job.id },
+      data: { totalCount: { decrement: 1 }, skippedCount: { increment: 1 } },
+    })
+    if (job.channel === 'EMAIL') {
+      await tx.emailMessage.update({ where: { id: job.emailMessageId! }, data: { recipientCount: { decrement: 1 } } })
+    } else {
+      await tx.whatsAppMessage.update({ where: { id: job.whatsappMessageId! }, data: { recipientCount: { decrement: 1 } } })
+    }
+  })
+}
+
+async function createEmailSender(job: SendJob, maxAttempts: number): Promise<JobSender> {
+  const message = await prisma.emailMessage.findUniqueOrThrow({
+    where: { id: job.emailMessageId! },
+    include: { attachments: true },
+  })
+  const attachments = message.attachments.length > 0
+    ? message.attachments.map(att => ({
+      filename: att.filename,
+      content: att.content, // Already base64 encoded
+      contentType: att.mimeType,
+    }))
+    : undefined
+
+  const usesMergeFields = hasMergeFields(message.subject) || hasMergeFields(message.message)
+
+  // Links are registered once per message so clicks can be reported per link
+  const tracking = await isEmailTrackingEnabled()
+    ? {
+      baseUrl: await getAppBaseUrl(),
+      linkIds: await ensureEmailLinks(message.id, extractLinkUrls(renderEmail(message, {}).html)),
+    }
+    : null
+
+  return {
+    async sendNext() {
+      const now = new Date()
+      const recipient = await prisma.emailRecipient.findFirst({
+        where: {
+          emailMessageId: message.id,
+          status: 'PENDING',
+          OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+        },
+        include: { seeker: { select: { fullName: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+      if (!recipient) return false
+
+      if (await isSeekerSuppressed(recipient.seekerId, 'EMAIL')) {
+        await skipSuppressedRecipient(job, recipient.id)
+        return true
+      }
+
+      // Count the attempt before sending; if the worker dies mid-send the lease-length
+      // nextAttemptAt lets the recipient be retried instead of stuck
+      const attempts = recipient.attempts + 1
+      await prisma.emailRecipient.update({
+        where: { id: recipient.id },
+        data: { attempts, nextAttemptAt: new Date(now.getTime() + SEND_JOB_LEASE_MS) },
+      })
+
+      const mergeValues = usesMergeFields
+        ? (await getSeekerMergeValues([recipient.seekerId])).get(recipient.seekerId) || {}
+        : { fullName: recipient.seeker.fullName }
+      const { subject, html } = renderEmail(message, mergeValues)
+      let outcome: SendOutcome
+      try {
+        outcome = await sendEmailViaSMTP({
+          to: recipient.email,
+          subject,
+          html: tracking ? addEmailTracking(html, { ...tracking, recipientId: recipient.id }) : html,
+          attachments,
+        })
+      } catch (error) {
+        outcome = { success: false, error: error instanceof Error ? error.message : 'Unknown error', retryable: true }
+      }
+
+      await recordOutcome(job, { id: recipient.id, attempts }, outcome, maxAttempts)
+      return true
+    },
+  }
+}
+
+async function createWhatsAppSender(job: SendJob, maxAttempts: number): Promise<JobSender> {
+  const message = await prisma.whatsAppMessage.findUniqueOrThrow({
+    where: { id: job.whatsappMessageId! },
+  })
+  // Throws when the provider's credentials are missing; the caller pauses the job
+  const provider: WhatsAppProvider = await getWhatsAppProvider(
+    isWhatsAppProviderName(message.provider) ? message.provider : undefined
+  )
+  const media: WhatsAppMedia | null = job.mediaContent
+    ? {
+      base64: job.mediaContent,
+      mimeType: message.mediaType || 'application/octet-stream',
+      filename: message.mediaFilename || 'media',
+    }
+    : null
+  const text = isMediaOnlyLabel(message.message, message.mediaFilename) ? '' : message.message
+
+  const interactionNotes = media
+    ? `Bulk WhatsApp message with media sent via campaign. Media: ${media.filename}${text ? `, Message: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"` : ''}`
+    : `Bulk WhatsApp message sent via campaign. Message: "${text.substring(0, 100)}${text.length > 100 ? '...' : ''}"`
+
+  return {
+    async sendNext() {
+      const now = new Date()
+      const recipient = await prisma.whatsAppRecipient.findFirst({
+        where: {
+          whatsappMessageId: message.id,
+          status: 'PENDING',
+          OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+        },
+        orderBy: { createdAt: 'asc' },
+      })
+      if (!recipient) return false
+
+      if (await isSeekerSuppressed(recipient.seekerId, 'WHATSAPP')) {
+        await skipSuppressedRecipient(job, recipient.id)
+        return true
+      }
+
+      const attempts = recipient.attempts + 1
+      await prisma.whatsAppRecipient.update({
+        where: { id: recipient.id },
+        data: { attempts, nextAttemptAt: new Date(now.getTime() + SEND_JOB_LEASE_MS) },
+      })
+
+      const formattedPhone = formatWhatsAppNumber(recipient.phoneNumber)
+      let outcome: SendOutcome
+      try {
+        const result = media
+          ? await provider.sendMedia({
+            to: formattedPhone,
+            media,
+            caption: text.trim() ? text.trim() : undefined,
+            referenceId: recipient.id,
+          })
+          : await provider.sendText({
+            to: formattedPhone,
+            body: text,
+            referenceId: recipient.id,
+          })
+        outcome = { ...result, phoneNumber: formattedPhone }
+      } catch (error) {
+        outcome = { success: false, error: error instanceof Error ? error.message : 'Unknown error', retryable: true }
+      }
+
+      await recordOutcome(job, { id: recipient.id, attempts }, outcome, maxAttempts)
+
+      if (outcome.success) {
+        try {
+          await prisma.interaction.create({
+            data: {
+              seekerId: recipient.seekerId,
+              userId: job.createdById,
+              channel: 'WHATSAPP',
+              outcome: 'CONNECTED_INTERESTED', // Default outcome for sent messages
+              notes: interactionNotes,
+            },
+          })
+        } catch (error) {
+          console.error(`Error logging WhatsApp interaction for recipient ${recipient.id}:`, error)
+        }
+      }
+      return true
+    },
+  }
+}
+
+/**
+ * Work one job until the deadline, a pause/cancel, or until no recipient is due.
+ */
+async function processJob(job: SendJob, deadline: number) {
+  const maxAttempts = await getSendMaxAttempts()
+  let sender: JobSender
+  try {
+    sender = job.channel === 'EMAIL'
+      ? await createEmailSender(job, maxAttempts)
+      : await createWhatsAppSender(job, maxAttempts)
+  } catch (error) {
+    console.error(`Error preparing send job ${job.id}:`, error)
+    await releaseJob(job.id, {
+      lastError: error instanceof Error ? error.message : 'Failed to prepare send job',
+    })
+    return 0
+  }
+
+  let attempted = 0
+  while (Date.now() < deadline) {
+    const current = await prisma.sendJob.findUnique({ where: { id: job.id }, select: { status: true } })
+    if (!current || current.status !== 'RUNNING') break
+
+    if (!(await waitForSendSlot(job.channel, deadline))) break
+
+    if (!(await sender.sendNext())) {
+      // Nothing due - either everything is done or the rest is waiting for a retry
+      const pending = job.channel === 'EMAIL'
+        ? await prisma.emailRecipient.count({ where: { emailMessageId: job.emailMessageId!, status: 'PENDING' } })
+        : await prisma.whatsAppRecipient.count({ where: { whatsappMessageId: job.whatsappMessageId!, status: 'PENDING' } })
+      if (pending === 0) {
+        await completeJob(job)
+      }
+      // The unused slot can go to the next recipient
+      nextSendAt[job.channel] = Date.now()
+      break
+    }
+
+    attempted++
+    await prisma.sendJob.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: { lockedUntil: new Date(Date.now() + SEND_JOB_LEASE_MS) },
+    })
+  }
+
+  await releaseJob(job.id)
+  return attempted
+}
+
+async function processChannel(channel: SendChannel, deadline: number) {
+  const seenJobIds: string[] = []
+  let attempted = 0
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob(channel, seenJobIds)
+    if (!job) break
+    seenJobIds.push(job.id)
+
+    try {
+      attempted += await processJob(job, deadline)
+    } catch (error) {
+      console.error(`Error processing send job ${job.id}:`, error)
+      await releaseJob(job.id).catch(() => {})
+    }
+  }
+
+  return { jobs: seenJobIds.length, attempted }
+}
+
+/**
+ * Mark PENDING recipients that are no longer eligible as CANCELLED and drop them from the counts.
+ * Runs when a scheduled send starts, since inquiries can change between scheduling and sending.
+ * Recipients who opted out meanwhile are counted as skipped.
+ */
+async function excludeIneligibleRecipients(tx: Prisma.TransactionClient, job: SendJob) {
+  const excludedIdsByReason = new Map<string, string[]>()
+  const exclude = (id: string, reason: string) => {
+    excludedIdsByReason.set(reason, [...(excludedIdsByReason.get(reason) || []), id])
+  }
+  const getSuppressedIds = async (seekerIds: string[]) => {
+    const suppressions = await tx.contactSuppression.findMany({
+      where: { channel: job.channel, seekerId: { in: seekerIds } },
+      select: { seekerId: true },
+    })
+    return new Set(suppressions.map(s => s.seekerId))
+  }
+
+  if (job.channel === 'EMAIL') {
+    const recipients = await tx.emailRecipient.findMany({
+      where: { emailMessageId: job.emailMessageId!, status: 'PENDING' },
+      include: { seeker: { select: { isDeleted: true, email: true } } },
+    })
+    const suppressedIds = await getSuppressedIds(recipients.map(r => r.seekerId))
+    for (const recipient of recipients) {
+      if (recipient.seeker.isDeleted) {
+        exclude(recipient.id, 'Inquiry was deleted before the scheduled send')
+      } else if (suppressedIds.has(recipient.seekerId)) {
+        exclude(recipient.id, OPTED_OUT_ERROR)
+      } else if (!recipient.seeker.email) {
+        exclude(recipient.id, 'Inquiry no longer has an email address')
+      } else if (recipient.seeker.email !== recipient.email) {
+        await tx.emailRecipient.update({
+          where: { id: recipient.id },
+          data: { email: recipient.seeker.email },
+        })
+      }
+    }
+    for (const [reason, ids] of excludedIdsByReason) {
+      await tx.emailRecipient.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'CANCELLED', errorMessage: reason },
+      })
+    }
+  } else {
+    const recipients = await tx.whatsAppRecipient.findMany({
+      where: { whatsappMessageId: job.whatsappMessageId!, status: 'PENDING' },
+      include: { seeker: { select: { isDeleted: true, whatsapp: true, whatsappNumber: true, phone: true } } },
+    })
+    const suppressedIds = await getSuppressedIds(recipients.map(r => r.seekerId))
+    for (const recipient of recipients) {
+      const phoneNumber = recipient.seeker.whatsappNumber || recipient.seeker.phone
+      if (recipient.seeker.isDeleted) {
+        exclude(recipient.id, 'Inquiry was deleted before the scheduled send')
+      } else if (suppressedIds.has(recipient.seekerId)) {
+        exclude(recipient.id, OPTED_OUT_ERROR)
+      } else if (!recipient.seeker.whatsapp) {
+        exclude(recipient.id, 'Inquiry is no longer marked as WhatsApp-enabled')
+      } else if (phoneNumber && phoneNumber !== recipient.phoneNumber) {
+        await tx.whatsAppRecipient.update({
+          where: { id: recipient.id },
+          data: { phoneNumber },
+        })
+      }
+    }
+    for (const [reason, ids] of excludedIdsByReason) {
+      await tx.whatsAppRecipient.updateMany({
+        where: { id: { in: ids } },
+        data: { status: 'CANCELLED', errorMessage: reason },
+      })
+    }
+  }
+
+  const excluded = Array.from(excludedIdsByReason.values()).reduce((sum, ids) => sum + ids.length, 0)
+  const suppressed = excludedIdsByReason.get(OPTED_OUT_ERROR)?.length || 0
+  return { excluded, suppressed }
+}
+
+/**
+ * Move scheduled sends whose time has come into the queue, re-checking their recipients first
+ */
+async function activateScheduledSends() {
+  const now = new Date()
+  const due = await prisma.sendJob.findMany({
+    where: { status: 'SCHEDULED', scheduledAt: { lte: now } },
+    orderBy: { scheduledAt: 'asc' },
+  })
+
+  let activated = 0
+  for (const job of due) {
+    try {
+      const started = await prisma.$transaction(async (tx) => {
+        // Conditional update so an edit or cancel made meanwhile wins
+        const claimed = await tx.sendJob.updateMany({
+          where: { id: job.id, status: 'SCHEDULED', scheduledAt: { lte: now } },
+          data: { status: 'QUEUED' },
+        })
+        if (claimed.count === 0) return false
+
+        const { excluded, suppressed } = await excludeIneligibleRecipients(tx, job)
+        await tx.sendJob.update({
+          where: { id: job.id },
+          data: { totalCount: { decrement: excluded }, skippedCount: { increment: suppressed } },
+        })
+        const messageData = { sentAt: now, recipientCount: { decrement: excluded } }
+        if (job.emailMessageId) {
+          await tx.emailMessage.update({ where: { id: job.emailMessageId }, data: messageData })
+        } else if (job.whatsappMessageId) {
+          await tx.whatsAppMessage.update({ where: { id: job.whatsappMessageId }, data: messageData })
+        }
+        return true
+      }, { timeout: 30000 })
+      if (started) activated++
+    } catch (error) {
+      console.error(`Error starting scheduled send ${job.id}:`, error)
+    }
+  }
+
+  return activated
+}
+
+/**
+ * Start scheduled sends that are due, then work through queued bulk email/WhatsApp sends,
+ * one recipient at a time, within each channel's rate limit. Channels run side by side; each run is bounded by a time budget
+ * and picks up where the previous one stopped, so sends survive restarts.
+ */
+export async function processSendQueue() {
+  const deadline = Date.now() + SEND_QUEUE_RUN_BUDGET_MS
+  const scheduledStarted = await activateScheduledSends()
+  const [email, whatsapp] = await Promise.all([
+    processChannel('EMAIL', deadline),
+    processChannel('WHATSAPP', deadline),
+  ])
+  return { scheduledStarted, email, whatsapp }
+}
@@ -0,0 +1,178 @@
+import { PostPublication } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { notifyPostPublished, notifyPostPublishFailed } from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { SOCIAL_PLATFORM_LABELS, SocialPublishResult, getSocialPublisher } from '@/lib/social-publishing'
+import { getPublicImageUrl, getPublishMaxAttempts } from '@/lib/post-publishing'
+import { getRetryDelayMs } from '@/lib/send-queue'
+
+// Cap per run so a backlog (e.g. after downtime) doesn't block the runner
+const SOCIAL_PUBLISHING_BATCH_SIZE = 20
+// Worker lease on a publication while it is being published. Publishers time out their platform
+// requests (PUBLISH_REQUEST_TIMEOUT_MS) so a publish cannot outlive it.
+const PUBLICATION_LEASE_MS = 5 * 60 * 1000
+
+/**
+ * Take the lease on a due publication and count the attempt. Returns null when another runner got it first.
+ */
+async function claimPublication(publicationId: string, now: Date) {
+  const claimed = await prisma.postPublication.updateMany({
+    where: {
+      id: publicationId,
+      status: 'QUEUED',
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      lockedUntil: new Date(now.getTime() + PUBLICATION_LEASE_MS),
+      attempts: { increment: 1 },
+    },
+  })
+  if (claimed.count === 0) return null
+
+  return prisma.postPublication.findUniqueOrThrow({
+    where: { id: publicationId },
+    include: {
+      post: { select: { id: true, caption: true, imageUrl: true, createdById: true } },
+    },
+  })
+}
+
+async function notifyCreator(userId: string, notify: () => Promise<unknown>) {
+  try {
+    await notify()
+    invalidateUnreadCountCache(userId)
+  } catch (error) {
+    console.error('Error sending publishing notification:', error)
+  }
+}
+
+/**
+ * Mark the post PUBLISHED once every platform is, and tell its creator
+ */
+async function completePostIfPublished(post: { id: string; caption: string; createdById: string }) {
+  const publications = await prisma.postPublication.findMany({
+    where: { postId: post.id },
+    select: { platform: true, status: true },
+  })
+  if (publications.some(p => p.status !== 'PUBLISHED')) return
+
+  // Conditional so only one runner completes (and notifies about) the post
+  const completed = await prisma.socialMediaPost.updateMany({
+    where: { id: post.id, status: 'SCHEDULED' },
+    data: { status: 'PUBLISHED', publishedAt: new Date() },
+  })
+  if (completed.count === 0) return
+
+  await notifyCreator(post.createdById, () => notifyPostPublished(
+    post.createdById,
+    post.id,
+    post.caption,
+    publications.map(p => SOCIAL_PLATFORM_LABELS[p.platform])
+  ))
+}
+
+/**
+ * Record a failed attempt: transient errors are retried with backoff until attempts run out,
+ * then the publication is FAILED and the creator is told
+ */
+async function recordFailure(
+  publication: PostPublication & { post: { id: string; caption: string; createdById: string } },
+  result: SocialPublishResult,
+  maxAttempts: number
+) {
+  const error = result.error || 'Unknown error'
+  const willRetry = result.retryable && publication.attempts < maxAttempts
+
+  await prisma.postPublication.update({
+    where: { id: publication.id },
+    data: willRetry
+      ? { lastError: error, lockedUntil: null, nextAttemptAt: new Date(Date.now() + getRetryDelayMs(publication.attempts)) }
+      : { status: 'FAILED', lastError: error, lockedUntil: null },
+  })
+
+  if (!willRetry) {
+    const { post } = publication
+    await notifyCreator(post.createdById, () => notifyPostPublishFailed(
+      post.createdById,
+      post.id,
+      post.caption,
+      SOCIAL_PLATFORM_LABELS[publication.platform],
+      publication.attempts,
+      error
+    ))
+  }
+}
+
+/**
+ * Publish scheduled posts whose time has come, one platform at a time.
+ * Only posts still SCHEDULED are picked up, so a post taken back in the meantime is left alone.
+ */
+export async function processSocialPublishing() {
+  const now = new Date()
+
+  const due = await prisma.postPublication.findMany({
+    where: {
+      status: 'QUEUED',
+      nextAttemptAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      post: { status: 'SCHEDULED' },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: SOCIAL_PUBLISHING_BATCH_SIZE,
+  })
+
+  if (due.length === 0) {
+    return { checked: 0, published: 0, retrying: 0, failed: 0 }
+  }
+
+  const maxAttempts = await getPublishMaxAttempts()
+  let published = 0
+  let retrying = 0
+  let failed = 0
+
+  for (const { id } of due) {
+    try {
+      const publication = await claimPublication(id, now)
+      if (!publication) continue
+
+      let result: SocialPublishResult
+      try {
+        const publisher = await getSocialPublisher(publication.platform)
+        result = await publisher.publish({
+          postId: publication.post.id,
+          platform: publication.platform,
+          caption: publication.post.caption,
+          imageUrl: await getPublicImageUrl(publication.post.imageUrl),
+        })
+      } catch (error) {
+        // Usually missing credentials, which an admin can still fix before attempts run out
+        result = { success: false, error: error instanceof Error ? error.message : 'Publishing failed', retryable: true }
+      }
+
+      if (result.success) {
+        await prisma.postPublication.update({
+          where: { id },
+          data: {
+            status: 'PUBLISHED',
+            externalId: result.externalId ?? null,
+            externalUrl: result.externalUrl ?? null,
+            publishedAt: new Date(),
+            lastError: null,
+            lockedUntil: null,
+          },
+        })
+        published++
+        await completePostIfPublished(publication.post)
+      } else {
+        await recordFailure(publication, result, maxAttempts)
+        if (result.retryable && publication.attempts < maxAttempts) retrying++
+        else failed++
+      }
+    } catch (error) {
+      console.error(`Error publishing post publication ${id}:`, error)
+    }
+  }
+
+  return { checked: due.length, published, retrying, failed }
+}
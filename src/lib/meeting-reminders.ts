@@ -0,0 +1,92 @@
+// Shared helpers for meeting reminder offsets and attendee lists.
+// Safe to import from client components (no server-only dependencies).
+
+// Used when a meeting has no reminderOffsets of its own
+export const DEFAULT_MEETING_REMINDER_OFFSETS = [60, 15]
+
+// Reminders further out than this are ignored (7 days)
+export const MAX_MEETING_REMINDER_OFFSET = 7 * 24 * 60
+
+export const MEETING_REMINDER_OPTIONS = [
+  { value: 5, label: '5 minutes before' },
+  { value: 15, label: '15 minutes before' },
+  { value: 30, label: '30 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 120, label: '2 hours before' },
+  { value: 1440, label: '1 day before' },
+  { value: 10080, label: '1 week before' },
+]
+
+/**
+ * Normalize reminder offsets (minutes before start) into a sorted, de-duplicated list.
+ * Accepts an array or a JSON string; invalid entries are dropped.
+ */
+export function normalizeReminderOffsets(value: unknown): number[] {
+  let raw: unknown = value
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value)
+    } catch {
+      return []
+    }
+  }
+  if (!Array.isArray(raw)) return []
+
+  const offsets = raw
+    .map(item => Number(item))
+    .filter(item => Number.isInteger(item) && item > 0 && item <= MAX_MEETING_REMINDER_OFFSET)
+
+  return Array.from(new Set(offsets)).sort((a, b) => b - a)
+}
+
+/**
+ * Get the reminder offsets stored on a meeting, falling back to the defaults when none are set
+ */
+export function getMeetingReminderOffsets(reminderOffsets: string | null | undefined): number[] {
+  if (reminderOffsets === null || reminderOffsets === undefined || reminderOffsets === '') {
+    return DEFAULT_MEETING_REMINDER_OFFSETS
+  }
+  return normalizeReminderOffsets(reminderOffsets)
+}
+
+/**
+ * Parse the meeting attendees field. Supports a JSON array of emails
+ * as well as the comma/newline separated text entered in the meeting form.
+ */
+export function parseAttendeeEmails(attendees: string | null | undefined): string[] {
+  if (!attendees) return []
+
+  let entries: string[] = []
+  const trimmed = attendees.trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (Array.isArray(parsed)) {
+        entries = parsed.map(item => String(item))
+      }
+    } catch {
+      entries = []
+    }
+  }
+  if (entries.length === 0) {
+    entries = trimmed.split(/[\n,;]+/)
+  }
+
+  const emails = entries
+    .map(entry => entry.trim().toLowerCase())
+    .filter(entry => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry))
+
+  return Array.from(new Set(emails))
+}
+
+export function formatReminderOffset(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440
+    return `${days} day${days === 1 ? '' : 's'}`
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60
+    return `${hours} hour${hours === 1 ? '' : 's'}`
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
@@ -0,0 +1,59 @@
+// Shared helpers for note reminders (snooze + recurrence).
+// Safe to import from client components (no server-only dependencies).
+
+export type NoteReminderRecurrence = 'DAILY' | 'WEEKLY'
+
+export const NOTE_REMINDER_RECURRENCES: Array<{ value: NoteReminderRecurrence; label: string }> = [
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+]
+
+export type NoteSnoozeOption = '10m' | '1h' | 'tomorrow'
+
+export const NOTE_SNOOZE_OPTIONS: Array<{ value: NoteSnoozeOption; label: string }> = [
+  { value: '10m', label: '10 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: 'tomorrow', label: 'Tomorrow (9:00 AM)' },
+]
+
+// Snoozing further out than this is rejected by the API (30 days)
+export const MAX_NOTE_SNOOZE_MS = 30 * 24 * 60 * 60 * 1000
+
+export function isNoteReminderRecurrence(value: unknown): value is NoteReminderRecurrence {
+  return value === 'DAILY' || value === 'WEEKLY'
+}
+
+/**
+ * Resolve a snooze option to a point in time. "Tomorrow" uses the caller's local time zone,
+ * so this is computed in the browser and sent to the API as an ISO timestamp.
+ */
+export function getSnoozeUntil(option: NoteSnoozeOption, now: Date = new Date()): Date {
+  switch (option) {
+    case '10m':
+      return new Date(now.getTime() + 10 * 60 * 1000)
+    case '1h':
+      return new Date(now.getTime() + 60 * 60 * 1000)
+    case 'tomorrow': {
+      const tomorrow = new Date(now)
+      tomorrow.setDate(tomorrow.getDate() + 1)
+      tomorrow.setHours(9, 0, 0, 0)
+      return tomorrow
+    }
+  }
+}
+
+/**
+ * Get the first occurrence of a recurring reminder that is strictly after `after`
+ */
+export function getNextReminderOccurrence(
+  reminderDate: Date,
+  recurrence: NoteReminderRecurrence,
+  after: Date = new Date()
+): Date {
+  const next = new Date(reminderDate)
+  const stepDays = recurrence === 'WEEKLY' ? 7 : 1
+  while (next.getTime() <= after.getTime()) {
+    next.setDate(next.getDate() + stepDays)
+  }
+  return next
+}
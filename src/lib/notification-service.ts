@@ -7,6 +7,11 @@ export type NotificationType =
   | 'POST_FULLY_APPROVED'
   | 'SYSTEM'
   | 'REMINDER'
+  | 'PROJECT_MEMBER_ADDED'
+  | 'PROJECT_MEMBER_REMOVED'
+  | 'POST_PUBLISHED'
+  | 'POST_PUBLISH_FAILED'
+  | 'POST_APPROVAL_ESCALATED'
 
 interface CreateNotificationParams {
   userId: string
@@ -14,6 +19,9 @@ interface CreateNotificationParams {
   title: string
   message: string
   postId?: string
+  meetingId?: string
+  noteId?: string
+  projectId?: string
 }
 
 /**
@@ -25,6 +33,9 @@ export async function createNotification({
   title,
   message,
   postId,
+  meetingId,
+  noteId,
+  projectId,
 }: CreateNotificationParams) {
   try {
     return await prisma.notification.create({
@@ -34,6 +45,9 @@ export async function createNotification({
         title,
         message,
         postId,
+        meetingId,
+        noteId,
+        projectId,
         read: false,
       },
     })
@@ -55,6 +69,9 @@ export async function createNotifications(notifications: CreateNotificationParam
         title: n.title,
         message: n.message,
         postId: n.postId,
+        meetingId: n.meetingId,
+        noteId: n.noteId,
+        projectId: n.projectId,
         read: false,
       })),
     })
@@ -83,19 +100,63 @@ export async function notifyApprovalRequest(
 }
 
 /**
- * Notify next approver after previous approval
+ * Notify approvers that a rejected post was revised and needs their approval again
+ */
+export async function notifyPostResubmitted(
+  approverId: string,
+  postId: string,
+  postCaption: string,
+  creatorName: string,
+  version: number
+) {
+  return createNotification({
+    userId: approverId,
+    type: 'POST_APPROVAL_REQUEST',
+    title: 'Revised Post Resubmitted',
+    message: `${creatorName} revised a post (version ${version}) and resubmitted it for approval: "${postCaption.substring(0, 50)}${postCaption.length > 50 ? '...' : ''}"`,
+    postId,
+  })
+}
+
+/**
+ * Notify the approvers of the next stage after the previous stage was approved
  */
 export async function notifyNextApprover(
   approverId: string,
   postId: string,
   postCaption: string,
-  previousApproverName: string
+  previousApproverName: string,
+  stageName?: string
 ) {
   return createNotification({
     userId: approverId,
     type: 'POST_APPROVAL_REQUEST',
     title: 'Post Ready for Your Approval',
-    message: `${previousApproverName} approved a post. Now it's your turn: "${postCaption.substring(0, 50)}${postCaption.length > 50 ? '...' : ''}"`,
+    message: `${previousApproverName} approved a post. Now it's your turn${stageName ? ` (${stageName})` : ''}: "${postCaption.substring(0, 50)}${postCaption.length > 50 ? '...' : ''}"`,
+    postId,
+  })
+}
+
+/**
+ * Notify that an approval stage waited too long: its escalation user can now decide it alone,
+ * and its pending approvers are reminded
+ */
+export async function notifyApprovalEscalated(
+  userId: string,
+  postId: string,
+  postCaption: string,
+  stageName: string,
+  hoursWaiting: number,
+  escalatedToUser: boolean
+) {
+  const caption = `"${postCaption.substring(0, 50)}${postCaption.length > 50 ? '...' : ''}"`
+  return createNotification({
+    userId,
+    type: 'POST_APPROVAL_ESCALATED',
+    title: escalatedToUser ? 'Post Approval Escalated to You' : 'Post Approval Overdue',
+    message: escalatedToUser
+      ? `"${stageName}" has waited over ${hoursWaiting} hours for approval. You can now approve or reject it: ${caption}`
+      : `"${stageName}" has waited over ${hoursWaiting} hours for your approval. Please review it: ${caption}`,
     postId,
   })
 }
@@ -154,6 +215,81 @@ export async function notifyPostRejected(
   })
 }
 
+/**
+ * Notify creator that their post is live on every platform
+ */
+export async function notifyPostPublished(
+  creatorId: string,
+  postId: string,
+  postCaption: string,
+  platformLabels: string[]
+) {
+  return createNotification({
+    userId: creatorId,
+    type: 'POST_PUBLISHED',
+    title: 'Post Published',
+    message: `Your post is live on ${platformLabels.join(', ')}: "${postCaption.substring(0, 50)}${postCaption.length > 50 ? '...' : ''}"`,
+    postId,
+  })
+}
+
+/**
+ * Notify creator that publishing their post to a platform failed for good
+ */
+export async function notifyPostPublishFailed(
+  creatorId: string,
+  postId: string,
+  postCaption: string,
+  platformLabel: string,
+  attempts: number,
+  error: string
+) {
+  return createNotification({
+    userId: creatorId,
+    type: 'POST_PUBLISH_FAILED',
+    title: `${platformLabel} Publishing Failed`,
+    message: `Your post "${postCaption.substring(0, 30)}..." could not be published to ${platformLabel} after ${attempts} attempt${attempts === 1 ? '' : 's'}. Error: ${error}`,
+    postId,
+  })
+}
+
+/**
+ * Notify a user that they were added to a project
+ */
+export async function notifyProjectMemberAdded(
+  userId: string,
+  projectId: string,
+  projectName: string,
+  roleLabel: string,
+  actorName: string
+) {
+  return createNotification({
+    userId,
+    type: 'PROJECT_MEMBER_ADDED',
+    title: 'Added to Project',
+    message: `${actorName} added you to "${projectName}" as ${roleLabel}`,
+    projectId,
+  })
+}
+
+/**
+ * Notify a user that they were removed from a project
+ */
+export async function notifyProjectMemberRemoved(
+  userId: string,
+  projectId: string,
+  projectName: string,
+  actorName: string
+) {
+  return createNotification({
+    userId,
+    type: 'PROJECT_MEMBER_REMOVED',
+    title: 'Removed from Project',
+    message: `${actorName} removed you from "${projectName}"`,
+    projectId,
+  })
+}
+
 /**
  * Mark notification as read
  */
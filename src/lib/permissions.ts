@@ -63,11 +63,18 @@ export const DEFAULT_ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'DELETE_ADMINISTRATOR', 'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   ADMIN: [
@@ -76,11 +83,18 @@ export const DEFAULT_ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   DEVELOPER: [
@@ -89,27 +103,42 @@ export const DEFAULT_ROLE_PERMISSIONS = {
     'CREATE_ROLE', 'READ_ROLE', 'UPDATE_ROLE', 'DELETE_ROLE', 'MANAGE_ROLE_PERMISSIONS',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'CREATE_PROGRAM', 'READ_PROGRAM', 'UPDATE_PROGRAM', 'DELETE_PROGRAM',
     'CREATE_CAMPAIGN', 'READ_CAMPAIGN', 'UPDATE_CAMPAIGN', 'DELETE_CAMPAIGN', 'MANAGE_CAMPAIGN_ANALYTICS',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
     'READ_REPORTS', 'EXPORT_REPORTS', 'VIEW_ANALYTICS',
     'READ_SETTINGS', 'UPDATE_SETTINGS', 'MANAGE_SYSTEM_CONFIG',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING',
     'DELETE_ADMINISTRATOR', 'MANAGE_ALL_USERS', 'SYSTEM_ADMINISTRATION'
   ],
   COORDINATOR: [
-    // Limited to inquiries, tasks, and basic user management
-    'READ_USER', 'UPDATE_USER',
+    // Limited to inquiries, tasks, and viewing users
+    'READ_USER',
     'CREATE_SEEKER', 'READ_SEEKER', 'UPDATE_SEEKER', 'DELETE_SEEKER',
     'CREATE_TASK', 'READ_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ASSIGN_TASK',
+    'MANAGE_TASK_CHECKLISTS', 'MANAGE_TASK_ATTACHMENTS', 'MANAGE_TASK_COMMENTS', 'MANAGE_TASK_TIME_ENTRIES', 'CREATE_SUBTASKS',
     'READ_PROGRAM',
     'READ_CAMPAIGN',
     'CREATE_INQUIRY', 'READ_INQUIRY', 'UPDATE_INQUIRY', 'DELETE_INQUIRY', 'MANAGE_INQUIRY_INTERACTIONS',
-    'READ_REPORTS', 'VIEW_ANALYTICS'
+    'READ_REPORTS', 'VIEW_ANALYTICS',
+    'CREATE_PROJECT', 'READ_PROJECT', 'UPDATE_PROJECT', 'DELETE_PROJECT', 'MANAGE_PROJECT_MEMBERS',
+    'CREATE_DEAL', 'READ_DEAL', 'UPDATE_DEAL', 'DELETE_DEAL', 'MANAGE_DEAL_ACTIVITIES',
+    'CREATE_CLIENT', 'READ_CLIENT', 'UPDATE_CLIENT', 'DELETE_CLIENT',
+    'CREATE_NOTEBOOK', 'READ_NOTEBOOK', 'UPDATE_NOTEBOOK', 'DELETE_NOTEBOOK',
+    'CREATE_NOTE', 'READ_NOTE', 'UPDATE_NOTE', 'DELETE_NOTE',
+    'CREATE_MEETING', 'READ_MEETING', 'UPDATE_MEETING', 'DELETE_MEETING'
   ],
   VIEWER: [
     // Read-only access
     'READ_USER', 'READ_SEEKER', 'READ_TASK', 'READ_PROGRAM', 'READ_CAMPAIGN', 
-    'READ_INQUIRY', 'READ_REPORTS', 'VIEW_ANALYTICS'
+    'READ_INQUIRY', 'READ_REPORTS', 'VIEW_ANALYTICS',
+    'READ_PROJECT', 'READ_DEAL', 'READ_CLIENT', 'READ_NOTEBOOK', 'READ_NOTE', 'READ_MEETING'
   ]
 } as const
 
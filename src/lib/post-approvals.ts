@@ -0,0 +1,587 @@
+import { NextResponse } from 'next/server'
+import { Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { User } from '@/lib/auth'
+import {
+  notifyNextApprover,
+  notifyPostApproved,
+  notifyPostFullyApproved,
+  notifyPostRejected
+} from '@/lib/notification-service'
+import { invalidateUnreadCountCache } from '@/lib/notifications/unread-count-cache'
+import { queuePostForPublishing } from '@/lib/post-publishing'
+
+// Approval chains of social media posts (server only). Each post gets its own PostApprovalStages, copied
+// from an ApprovalWorkflow template or made from approvers picked by hand (one stage each). Stages run
+// in order; the approvers of the current stage review in parallel and the stage passes once its quorum
+// (requiredApprovals) approves, or fails once too few approvers are left to reach it. Out-of-office
+// delegates may decide for an approver, and the approval-escalation job (src/lib/jobs/approval-escalation.ts)
+// hands stages that wait too long to their escalation user.
+
+export const MAX_APPROVAL_STAGES = 10
+const MAX_ESCALATE_AFTER_HOURS = 24 * 30
+
+const approvalUserSelect = { id: true, name: true, email: true } as const
+
+// Included with posts so the approval chain can be shown stage by stage
+export const approvalStagesInclude = {
+  include: {
+    escalateTo: { select: approvalUserSelect },
+    approvals: {
+      include: {
+        approver: { select: approvalUserSelect },
+        decidedBy: { select: approvalUserSelect },
+      },
+      orderBy: { createdAt: 'asc' },
+    },
+  },
+  orderBy: { order: 'asc' },
+} as const
+
+export const approvalWorkflowInclude = {
+  stages: {
+    include: {
+      approverCustomRole: { select: { id: true, name: true } },
+      escalateTo: { select: approvalUserSelect },
+    },
+    orderBy: { order: 'asc' },
+  },
+  createdBy: { select: approvalUserSelect },
+  _count: { select: { posts: true } },
+} as const
+
+export interface WorkflowStageInput {
+  name: string
+  approverUserIds: string[]
+  approverRole: UserRole | null
+  approverCustomRoleId: string | null
+  requiredApprovals: number
+  escalateAfterHours: number | null
+  escalateToId: string | null
+}
+
+// A stage ready to be copied onto a post, with its approvers resolved
+export interface PlannedApprovalStage {
+  name: string
+  approverIds: string[]
+  requiredApprovals: number
+  escalateAfterHours: number | null
+  escalateToId: string | null
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && Object.values(UserRole).includes(value as UserRole)
+}
+
+/**
+ * Validate the stages of a workflow template from a request body, in the order they run
+ */
+export function parseWorkflowStages(input: any): { stages: WorkflowStageInput[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'A workflow needs at least one stage' }
+  }
+  if (input.length > MAX_APPROVAL_STAGES) {
+    return { error: `A workflow can have at most ${MAX_APPROVAL_STAGES} stages` }
+  }
+
+  const stages: WorkflowStageInput[] = []
+  for (const [index, stage] of input.entries()) {
+    const label = `Stage ${index + 1}`
+    if (!stage || typeof stage !== 'object') {
+      return { error: `${label} must be an object` }
+    }
+
+    const {
+      name,
+      approverUserIds = [],
+      approverRole = null,
+      approverCustomRoleId = null,
+      requiredApprovals = 1,
+      escalateAfterHours = null,
+      escalateToId = null,
+    } = stage
+
+    if (!Array.isArray(approverUserIds) || approverUserIds.some(id => typeof id !== 'string' || !id)) {
+      return { error: `${label}: approverUserIds must be a list of user IDs` }
+    }
+    if (approverRole !== null && !isUserRole(approverRole)) {
+      return { error: `${label}: approverRole must be one of ${Object.values(UserRole).join(', ')}` }
+    }
+    if (approverCustomRoleId !== null && typeof approverCustomRoleId !== 'string') {
+      return { error: `${label}: approverCustomRoleId must be a role ID` }
+    }
+
+    const userIds = Array.from(new Set<string>(approverUserIds))
+    const resolvedByRole = !!approverRole || !!approverCustomRoleId
+    if (userIds.length === 0 && !resolvedByRole) {
+      return { error: `${label} needs approvers: pick users, a role, or both` }
+    }
+
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1) {
+      return { error: `${label}: the number of approvals required must be a whole number of at least 1` }
+    }
+    // Role members are only known when a post is created, so only a list of users can be checked here
+    if (!resolvedByRole && requiredApprovals > userIds.length) {
+      return { error: `${label} requires ${requiredApprovals} approvals but has only ${userIds.length} approver(s)` }
+    }
+
+    if (escalateAfterHours !== null && (!Number.isInteger(escalateAfterHours) || escalateAfterHours < 1 || escalateAfterHours > MAX_ESCALATE_AFTER_HOURS)) {
+      return { error: `${label}: escalate after must be from 1 to ${MAX_ESCALATE_AFTER_HOURS} hours` }
+    }
+    if (escalateToId !== null && typeof escalateToId !== 'string') {
+      return { error: `${label}: escalateToId must be a user ID` }
+    }
+    if (escalateToId && escalateAfterHours === null) {
+      return { error: `${label}: set how many hours to wait before escalating` }
+    }
+
+    stages.push({
+      name: typeof name === 'string' && name.trim() ? name.trim() : label,
+      approverUserIds: userIds,
+      approverRole,
+      approverCustomRoleId: approverCustomRoleId || null,
+      requiredApprovals,
+      escalateAfterHours,
+      escalateToId: escalateToId || null,
+    })
+  }
+
+  return { stages }
+}
+
+/**
+ * Check that the users and custom roles the stages refer to exist. Returns an error message or null.
+ */
+export async function validateWorkflowStageReferences(stages: WorkflowStageInput[]): Promise<string | null> {
+  const userIds = Array.from(new Set(stages.flatMap(stage => [
+    ...stage.approverUserIds,
+    ...(stage.escalateToId ? [stage.escalateToId] : []),
+  ])))
+  const roleIds = Array.from(new Set(stages.flatMap(stage => stage.approverCustomRoleId ? [stage.approverCustomRoleId] : [])))
+
+  const [activeUsers, roles] = await Promise.all([
+    prisma.user.count({ where: { id: { in: userIds }, isActive: true } }),
+    prisma.role.count({ where: { id: { in: roleIds } } }),
+  ])
+
+  if (activeUsers !== userIds.length) return 'Approvers and escalation users must be active users'
+  if (roles !== roleIds.length) return 'Approver role not found'
+  return null
+}
+
+/**
+ * Active users who approve a workflow stage for a post: the named users plus everyone with the stage's
+ * role or custom role. The post's creator never approves their own post.
+ */
+async function resolveStageApprovers(
+  stage: { approverUserIds: string[]; approverRole: UserRole | null; approverCustomRoleId: string | null },
+  creatorId: string
+) {
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      id: { not: creatorId },
+      OR: [
+        { id: { in: stage.approverUserIds } },
+        ...(stage.approverRole ? [{ role: stage.approverRole }] : []),
+        ...(stage.approverCustomRoleId ? [{ userRoles: { some: { roleId: stage.approverCustomRoleId } } }] : []),
+      ],
+    },
+    select: { id: true },
+    orderBy: { name: 'asc' },
+  })
+  return users.map(u => u.id)
+}
+
+/**
+ * Resolve an active workflow template into stages for a new post
+ */
+export async function planWorkflowStages(workflowId: string, creatorId: string): Promise<{ stages: PlannedApprovalStage[] } | { error: string }> {
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: { stages: { orderBy: { order: 'asc' } } },
+  })
+  if (!workflow || !workflow.isActive) {
+    return { error: 'Approval workflow not found' }
+  }
+
+  const stages: PlannedApprovalStage[] = []
+  for (const stage of workflow.stages) {
+    const approverIds = await resolveStageApprovers(stage, creatorId)
+    if (approverIds.length < stage.requiredApprovals) {
+      return {
+        error: `"${stage.name}" needs ${stage.requiredApprovals} approval(s) but only ${approverIds.length} active approver(s) can review this post`,
+      }
+    }
+    stages.push({
+      name: stage.name,
+      approverIds,
+      requiredApprovals: stage.requiredApprovals,
+      escalateAfterHours: stage.escalateAfterHours,
+      // Escalating to the creator would let them decide their own post alone
+      escalateToId: stage.escalateToId === creatorId ? null : stage.escalateToId,
+    })
+  }
+
+  if (stages.length === 0) {
+    return { error: 'Approval workflow has no stages' }
+  }
+  return { stages }
+}
+
+/**
+ * Approvers picked by hand review one after another, as a stage each
+ */
+export function planManualStages(approverIds: string[]): PlannedApprovalStage[] {
+  return approverIds.map((approverId, index) => ({
+    name: `Approver ${index + 1}`,
+    approverIds: [approverId],
+    requiredApprovals: 1,
+    escalateAfterHours: null,
+    escalateToId: null,
+  }))
+}
+
+/**
+ * Copy the planned stages onto a new post and start the first one
+ */
+export async function createPostApprovalStages(tx: Prisma.TransactionClient, postId: string, stages: PlannedApprovalStage[]) {
+  const now = new Date()
+  for (const [index, stage] of stages.entries()) {
+    await tx.postApprovalStage.create({
+      data: {
+        postId,
+        order: index + 1,
+        name: stage.name,
+        requiredApprovals: stage.requiredApprovals,
+        escalateAfterHours: stage.escalateAfterHours,
+        escalateToId: stage.escalateToId,
+        startedAt: index === 0 ? now : null,
+        approvals: {
+          create: stage.approverIds.map(approverId => ({ postId, approverId, order: index + 1 })),
+        },
+      },
+    })
+  }
+}
+
+/**
+ * Users covering for any of the given approvers right now
+ */
+export async function getActiveDelegateIds(userIds: string[], now = new Date()) {
+  if (userIds.length === 0) return []
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: { userId: { in: userIds }, startsAt: { lte: now }, endsAt: { gt: now } },
+    select: { delegateId: true },
+  })
+  return Array.from(new Set(delegations.map(d => d.delegateId)))
+}
+
+/**
+ * Users the given user is covering for right now
+ */
+export async function getActiveDelegatorIds(delegateId: string, now = new Date()) {
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: { delegateId, startsAt: { lte: now }, endsAt: { gt: now } },
+    select: { userId: true },
+  })
+  return Array.from(new Set(delegations.map(d => d.userId)))
+}
+
+/**
+ * Whether the user may view a post as one of its approvers or as an approver's active delegate
+ */
+export async function isPostReviewer(approverIds: string[], userId: string) {
+  if (approverIds.includes(userId)) return true
+  const delegatorIds = await getActiveDelegatorIds(userId)
+  return delegatorIds.some(id => approverIds.includes(id))
+}
+
+/**
+ * Notify the pending approvers of a stage that has just started, and whoever is covering for them
+ */
+export async function notifyStageApprovers(
+  stageId: string,
+  notify: (userId: string) => Promise<unknown>
+) {
+  const pending = await prisma.postApproval.findMany({
+    where: { stageId, status: 'PENDING' },
+    select: { approverId: true },
+  })
+  const approverIds = pending.map(a => a.approverId)
+  const recipients = Array.from(new Set([...approverIds, ...await getActiveDelegateIds(approverIds)]))
+
+  for (const userId of recipients) {
+    try {
+      await notify(userId)
+      invalidateUnreadCountCache(userId)
+    } catch (error) {
+      console.error('Error sending notification:', error)
+    }
+  }
+}
+
+/**
+ * Notify the approvers of a post's first stage, e.g. with the approval request for a new post
+ */
+export async function notifyFirstStageApprovers(postId: string, notify: (userId: string) => Promise<unknown>) {
+  const firstStage = await prisma.postApprovalStage.findFirst({
+    where: { postId },
+    orderBy: { order: 'asc' },
+    select: { id: true },
+  })
+  if (!firstStage) return
+  await notifyStageApprovers(firstStage.id, notify)
+}
+
+async function loadPostForDecision(postId: string) {
+  return prisma.socialMediaPost.findUnique({
+    where: { id: postId },
+    select: {
+      id: true,
+      caption: true,
+      status: true,
+      version: true,
+      createdById: true,
+      approvalStages: {
+        include: { approvals: true },
+        orderBy: { order: 'asc' },
+      },
+    },
+  })
+}
+
+type PostForDecision = NonNullable<Awaited<ReturnType<typeof loadPostForDecision>>>
+type StageForDecision = PostForDecision['approvalStages'][number]
+
+/**
+ * Find the pending approval of the post's current stage the user may decide - their own, or that of an
+ * approver they are covering for - or the error response to return instead
+ */
+export async function getActionableApproval(postId: string, user: User) {
+  const post = await loadPostForDecision(postId)
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+  }
+
+  // Not even while covering for an approver or as the stage's escalation user
+  if (post.createdById === user.id) {
+    return NextResponse.json(
+      { error: 'You cannot approve or reject your own post' },
+      { status: 403 }
+    )
+  }
+
+  const delegatorIds = await getActiveDelegatorIds(user.id)
+  const actingFor = [user.id, ...delegatorIds]
+  const allApprovals = post.approvalStages.flatMap(stage => stage.approvals)
+
+  if (!allApprovals.some(a => actingFor.includes(a.approverId))) {
+    return NextResponse.json(
+      { error: 'You are not an approver for this post' },
+      { status: 403 }
+    )
+  }
+
+  if (post.status !== 'PENDING_APPROVAL') {
+    return NextResponse.json(
+      { error: 'This post is no longer awaiting approval' },
+      { status: 400 }
+    )
+  }
+
+  const stage = post.approvalStages.find(s => s.startedAt && !s.completedAt)
+  const candidates = stage?.approvals.filter(a => a.status === 'PENDING' && actingFor.includes(a.approverId)) ?? []
+  // Decide as yourself first, and for someone else only when you have no approval of your own
+  const approval = candidates.find(a => a.approverId === user.id) ?? candidates[0]
+
+  if (!stage || !approval) {
+    const laterStagePending = allApprovals.some(a =>
+      a.status === 'PENDING' && actingFor.includes(a.approverId) && (!stage || a.order > stage.order)
+    )
+    return NextResponse.json(
+      { error: laterStagePending ? 'Previous stages must be approved first' : 'You have already processed this approval' },
+      { status: 400 }
+    )
+  }
+
+  return { post, stage, approval }
+}
+
+type ActionableApproval = Exclude<Awaited<ReturnType<typeof getActionableApproval>>, NextResponse>
+
+// Once a stage has been escalated, its escalation user decides it alone
+function isDecisive(stage: StageForDecision, approverId: string) {
+  return !!stage.escalatedAt && stage.escalateToId === approverId
+}
+
+async function notifySafely(userId: string, notify: () => Promise<unknown>) {
+  try {
+    await notify()
+    invalidateUnreadCountCache(userId)
+  } catch (error) {
+    console.error('Error sending notification:', error)
+  }
+}
+
+/**
+ * Record an approval or rejection, then settle the stage: start the next stage (or approve the post)
+ * once the quorum is reached, or reject the post once the quorum can no longer be reached.
+ * Returns false when the approval was decided concurrently by someone else.
+ */
+export async function recordApprovalDecision(
+  { post, stage, approval }: ActionableApproval,
+  user: User,
+  decision: 'APPROVED' | 'REJECTED',
+  comment: string | null
+) {
+  const now = new Date()
+  const decidedById = approval.approverId === user.id ? null : user.id
+  const decided = await prisma.$transaction(async (tx) => {
+    const claim = await tx.postApproval.updateMany({
+      where: { id: approval.id, status: 'PENDING' },
+      data: { status: decision, comment, approvedAt: now, decidedById },
+    })
+    if (claim.count === 0) return false
+
+    // Kept when the approvals are reset for a resubmission
+    await tx.postReview.create({
+      data: {
+        postId: post.id,
+        version: post.version,
+        approverId: approval.approverId,
+        decidedById,
+        stageName: stage.name,
+        status: decision,
+        comment,
+      },
+    })
+    return true
+  })
+  if (!decided) return false
+
+  const deciderName = user.name || user.email
+  const approvals = await prisma.postApproval.findMany({
+    where: { stageId: stage.id },
+    select: { status: true },
+  })
+  const approved = approvals.filter(a => a.status === 'APPROVED').length
+  const pending = approvals.filter(a => a.status === 'PENDING').length
+  const decisive = isDecisive(stage, approval.approverId)
+
+  if (decision === 'REJECTED') {
+    if (!decisive && approved + pending >= stage.requiredApprovals) return true
+
+    // Conditional so only one decision settles the stage
+    const failed = await prisma.postApprovalStage.updateMany({
+      where: { id: stage.id, completedAt: null },
+      data: { completedAt: now },
+    })
+    if (failed.count === 0) return true
+
+    await prisma.$transaction([
+      prisma.postApproval.updateMany({
+        where: { postId: post.id, status: 'PENDING' },
+        data: { status: 'SKIPPED' },
+      }),
+      prisma.socialMediaPost.update({
+        where: { id: post.id },
+        data: { status: 'REJECTED' },
+      }),
+    ])
+
+    await notifySafely(post.createdById, () => notifyPostRejected(
+      post.createdById,
+      post.id,
+      post.caption,
+      deciderName,
+      comment || ''
+    ))
+    return true
+  }
+
+  if (!decisive && approved < stage.requiredApprovals) {
+    await notifySafely(post.createdById, () => notifyPostApproved(post.createdById, post.id, post.caption, deciderName))
+    return true
+  }
+
+  const completed = await prisma.postApprovalStage.updateMany({
+    where: { id: stage.id, completedAt: null },
+    data: { completedAt: now },
+  })
+  if (completed.count === 0) return true
+
+  // The rest of the stage's approvers are no longer needed
+  await prisma.postApproval.updateMany({
+    where: { stageId: stage.id, status: 'PENDING' },
+    data: { status: 'SKIPPED' },
+  })
+
+  const nextStage = post.approvalStages.find(s => s.order > stage.order)
+  if (nextStage) {
+    await prisma.postApprovalStage.update({
+      where: { id: nextStage.id },
+      data: { startedAt: now },
+    })
+    await notifyStageApprovers(nextStage.id, (userId) => notifyNextApprover(
+      userId,
+      post.id,
+      post.caption,
+      deciderName,
+      nextStage.name
+    ))
+    await notifySafely(post.createdById, () => notifyPostApproved(post.createdById, post.id, post.caption, deciderName))
+    return true
+  }
+
+  const postApproved = await prisma.socialMediaPost.updateMany({
+    where: { id: post.id, status: 'PENDING_APPROVAL' },
+    data: { status: 'APPROVED' },
+  })
+  if (postApproved.count === 0) return true
+
+  // Hand it to the publishing job for its start date (SCHEDULED when it has platforms)
+  await queuePostForPublishing(post.id)
+
+  await notifySafely(post.createdById, () => notifyPostFullyApproved(post.createdById, post.id, post.caption))
+  return true
+}
+
+/**
+ * Start a rejected post's approval chain over from its first stage: every approval is pending again and
+ * approvers added by escalation are removed. Earlier decisions stay in the post's review history.
+ * Returns false when the post is no longer rejected.
+ */
+export async function restartApprovals(postId: string) {
+  const now = new Date()
+  return prisma.$transaction(async (tx) => {
+    const reopened = await tx.socialMediaPost.updateMany({
+      where: { id: postId, status: 'REJECTED' },
+      data: { status: 'PENDING_APPROVAL' },
+    })
+    if (reopened.count === 0) return false
+
+    const stages = await tx.postApprovalStage.findMany({
+      where: { postId },
+      orderBy: { order: 'asc' },
+    })
+
+    for (const [index, stage] of stages.entries()) {
+      if (stage.escalatedAt && stage.escalateToId) {
+        await tx.postApproval.deleteMany({
+          where: { stageId: stage.id, approverId: stage.escalateToId, createdAt: { gte: stage.escalatedAt } },
+        })
+      }
+      await tx.postApprovalStage.update({
+        where: { id: stage.id },
+        data: { startedAt: index === 0 ? now : null, escalatedAt: null, completedAt: null },
+      })
+    }
+
+    await tx.postApproval.updateMany({
+      where: { postId },
+      data: { status: 'PENDING', comment: null, approvedAt: null, decidedById: null },
+    })
+    return true
+  })
+}
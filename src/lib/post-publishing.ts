@@ -0,0 +1,77 @@
+import { prisma } from '@/lib/prisma'
+import { getAppBaseUrl, getNumberSetting } from '@/lib/system-settings'
+
+// Publishing approved social media posts (server only). Approval queues one PostPublication per
+// platform of the post for its startDate; the social-publishing job (src/lib/jobs/social-publishing.ts)
+// pushes them through the platform publishers, and the post becomes PUBLISHED once every platform is.
+
+// Fallbacks when the SystemSettings keys are not configured
+export const POST_PUBLISHING_DEFAULTS = {
+  SOCIAL_PUBLISH_MAX_ATTEMPTS: 5,
+} as const
+
+export const publicationSelect = {
+  id: true,
+  platform: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  externalUrl: true,
+  publishedAt: true,
+} as const
+
+export async function getPublishMaxAttempts(): Promise<number> {
+  const attempts = await getNumberSetting('SOCIAL_PUBLISH_MAX_ATTEMPTS', POST_PUBLISHING_DEFAULTS.SOCIAL_PUBLISH_MAX_ATTEMPTS)
+  return attempts > 0 ? Math.floor(attempts) : 1
+}
+
+/**
+ * Platforms need an absolute URL to fetch the image from; uploads stored locally are relative paths
+ */
+export async function getPublicImageUrl(imageUrl: string | null) {
+  if (!imageUrl) return null
+  if (/^https?:\/\//i.test(imageUrl)) return imageUrl
+  return `${await getAppBaseUrl()}${imageUrl.startsWith('/') ? '' : '/'}${imageUrl}`
+}
+
+/**
+ * Queue a fully approved post for publishing on each of its platforms at its start date and mark it
+ * SCHEDULED. Posts without platforms stay APPROVED. Returns the number of platforms queued.
+ */
+export async function queuePostForPublishing(postId: string) {
+  const post = await prisma.socialMediaPost.findUniqueOrThrow({
+    where: { id: postId },
+    select: { id: true, platforms: true, startDate: true },
+  })
+  if (post.platforms.length === 0) return 0
+
+  await prisma.$transaction([
+    prisma.postPublication.createMany({
+      data: post.platforms.map(platform => ({ postId, platform, nextAttemptAt: post.startDate })),
+      skipDuplicates: true,
+    }),
+    prisma.socialMediaPost.update({
+      where: { id: postId },
+      data: { status: 'SCHEDULED' },
+    }),
+  ])
+  return post.platforms.length
+}
+
+/**
+ * Queue the platforms that gave up again, to be tried straight away with a fresh set of attempts
+ */
+export async function retryFailedPublications(postId: string) {
+  const [retried] = await prisma.$transaction([
+    prisma.postPublication.updateMany({
+      where: { postId, status: 'FAILED' },
+      data: { status: 'QUEUED', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    }),
+    prisma.socialMediaPost.update({
+      where: { id: postId },
+      data: { status: 'SCHEDULED' },
+    }),
+  ])
+  return retried.count
+}
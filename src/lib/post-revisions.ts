@@ -0,0 +1,93 @@
+import { Prisma, SocialMediaPost } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// Versions of a social media post's content (server only). A post starts at version 1 and every edit
+// that changes its content adds a PostRevision with the next version, so earlier captions and images
+// stay available for diffs. Approvals and comments are pinned to the version they were made on.
+
+const revisionUserSelect = { id: true, name: true, email: true } as const
+
+export const revisionSelect = {
+  id: true,
+  version: true,
+  caption: true,
+  imageUrl: true,
+  budget: true,
+  startDate: true,
+  endDate: true,
+  platforms: true,
+  createdAt: true,
+  createdBy: { select: revisionUserSelect },
+} as const
+
+export const reviewInclude = {
+  approver: { select: revisionUserSelect },
+  decidedBy: { select: revisionUserSelect },
+} as const
+
+type PostContent = Pick<SocialMediaPost, 'caption' | 'imageUrl' | 'budget' | 'startDate' | 'endDate' | 'platforms'>
+
+export function hasContentChanged(before: PostContent, after: PostContent) {
+  return before.caption !== after.caption ||
+    before.imageUrl !== after.imageUrl ||
+    before.budget !== after.budget ||
+    before.startDate.getTime() !== after.startDate.getTime() ||
+    before.endDate.getTime() !== after.endDate.getTime() ||
+    [...before.platforms].sort().join() !== [...after.platforms].sort().join()
+}
+
+/**
+ * Store the post's content as a revision at its current version (used when the post is created)
+ */
+export async function snapshotPostRevision(
+  tx: Prisma.TransactionClient,
+  post: PostContent & { id: string; version: number },
+  userId: string
+) {
+  return tx.postRevision.create({
+    data: {
+      postId: post.id,
+      version: post.version,
+      caption: post.caption,
+      imageUrl: post.imageUrl,
+      budget: post.budget,
+      startDate: post.startDate,
+      endDate: post.endDate,
+      platforms: post.platforms,
+      createdById: userId,
+    },
+  })
+}
+
+/**
+ * Move an edited post to its next version and store the new content as that revision
+ */
+export async function recordPostRevision(tx: Prisma.TransactionClient, postId: string, userId: string) {
+  const post = await tx.socialMediaPost.update({
+    where: { id: postId },
+    data: { version: { increment: 1 } },
+  })
+  return snapshotPostRevision(tx, post, userId)
+}
+
+/**
+ * The most recent earlier version the user reviewed (themselves or as a delegate), or else the most
+ * recent earlier version anyone reviewed - what "changed since the last review" compares against
+ */
+export async function getLastReviewedVersion(postId: string, currentVersion: number, userIds: string[]) {
+  const earlier = { postId, version: { lt: currentVersion } }
+
+  const own = await prisma.postReview.findFirst({
+    where: { ...earlier, OR: [{ approverId: { in: userIds } }, { decidedById: { in: userIds } }] },
+    orderBy: [{ version: 'desc' }, { createdAt: 'desc' }],
+    select: { version: true },
+  })
+  if (own) return own.version
+
+  const any = await prisma.postReview.findFirst({
+    where: earlier,
+    orderBy: [{ version: 'desc' }, { createdAt: 'desc' }],
+    select: { version: true },
+  })
+  return any?.version ?? null
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { ProjectMemberRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, type User } from '@/lib/auth'
+
+// Project-scoped roles (server only). A user's role on a project decides what they can change there;
+// the system permission (UPDATE_PROJECT, MANAGE_PROJECT_MEMBERS, ...) is still required on top.
+
+export const PROJECT_ROLE_LABELS: Record<ProjectMemberRole, string> = {
+  OWNER: 'Owner',
+  MANAGER: 'Manager',
+  MEMBER: 'Member',
+  VIEWER: 'Viewer',
+}
+
+// Roles that can edit the project itself (details and budget) and manage its members
+export const PROJECT_MANAGER_ROLES: ProjectMemberRole[] = ['OWNER', 'MANAGER']
+
+// Roles that can create and edit the project's tasks
+export const PROJECT_TASK_EDITOR_ROLES: ProjectMemberRole[] = ['OWNER', 'MANAGER', 'MEMBER']
+
+export function isProjectMemberRole(value: unknown): value is ProjectMemberRole {
+  return typeof value === 'string' && Object.values(ProjectMemberRole).includes(value as ProjectMemberRole)
+}
+
+/**
+ * The user's role on a project: admins and the creator are owners, members have their stored role
+ */
+export function getProjectRole(
+  project: { createdById: string; members: { userId: string; role: ProjectMemberRole }[] },
+  user: Pick<User, 'id' | 'role'>
+): ProjectMemberRole | null {
+  if (isAdminRole(user.role) || project.createdById === user.id) return 'OWNER'
+  return project.members.find(m => m.userId === user.id)?.role ?? null
+}
+
+/**
+ * Only owners can hand out or take away the OWNER and MANAGER roles
+ */
+export function canAssignProjectRole(actorRole: ProjectMemberRole, role: ProjectMemberRole) {
+  if (actorRole === 'OWNER') return true
+  return actorRole === 'MANAGER' && (role === 'MEMBER' || role === 'VIEWER')
+}
+
+/**
+ * Load a project the user belongs to together with their role on it,
+ * or the 404/403 response to return instead. Pass allowedRoles to require one of them.
+ */
+export async function getProjectForUser(projectId: string, user: User, allowedRoles?: ProjectMemberRole[]) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      name: true,
+      createdById: true,
+      members: { select: { userId: true, role: true } },
+    },
+  })
+
+  if (!project) {
+    return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+  }
+
+  const role = getProjectRole(project, user)
+  if (!role) {
+    return NextResponse.json({ error: 'Project not found or access denied' }, { status: 404 })
+  }
+
+  if (allowedRoles && !allowedRoles.includes(role)) {
+    return NextResponse.json(
+      { error: `This requires the ${allowedRoles.map(r => PROJECT_ROLE_LABELS[r]).join(' or ')} role on the project` },
+      { status: 403 }
+    )
+  }
+
+  return { project, role }
+}
@@ -0,0 +1,258 @@
+import { ProjectStatus, TaskStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getBooleanSetting, getInstituteTimeZone, getNumberSetting } from '@/lib/system-settings'
+
+// Project progress, health and burndown derived from the project's tasks (server only).
+// Cancelled tasks are left out; DONE and COMPLETED count as finished.
+
+export const COMPLETED_TASK_STATUSES: TaskStatus[] = ['DONE', 'COMPLETED']
+
+// Fallbacks match the values seeded by scripts/seed-system-settings.ts
+export const PROJECT_HEALTH_DEFAULTS = {
+  PROJECT_PROGRESS_WEIGHT_BY_HOURS: false,
+  // Cost of one logged hour, used to compare logged time against the budget (0 turns the check off)
+  PROJECT_HOURLY_COST: 50,
+  // Percentage points that schedule or budget use may run ahead of progress before a project is at risk
+  PROJECT_HEALTH_AT_RISK_MARGIN: 15,
+}
+
+export type ProjectHealthStatus = 'ON_TRACK' | 'AT_RISK' | 'LATE'
+
+const CLOSED_PROJECT_STATUSES: ProjectStatus[] = ['COMPLETED', 'CANCELLED']
+
+// Longer projects are charted week by week to keep the series small
+const MAX_DAILY_BURNDOWN_POINTS = 120
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const progressTaskSelect = {
+  id: true,
+  projectId: true,
+  status: true,
+  dueDate: true,
+  estimatedHours: true,
+  actualHours: true,
+  completedAt: true,
+  createdAt: true,
+} as const
+
+type ProgressTask = {
+  status: TaskStatus
+  dueDate: Date | null
+  estimatedHours: number | null
+  actualHours: number | null
+  completedAt: Date | null
+  createdAt: Date
+}
+
+type ProgressProject = {
+  status: ProjectStatus
+  startDate: Date | null
+  endDate: Date | null
+  budget: number | null
+  createdAt: Date
+}
+
+export function isTaskCompleted(status: TaskStatus) {
+  return COMPLETED_TASK_STATUSES.includes(status)
+}
+
+/**
+ * completedAt for a status change: stamped when a task is finished, kept while it stays finished, cleared when reopened
+ */
+export function getTaskCompletedAt(status: TaskStatus, previous?: { status: TaskStatus; completedAt: Date | null }) {
+  if (!isTaskCompleted(status)) return null
+  if (previous && isTaskCompleted(previous.status) && previous.completedAt) return previous.completedAt
+  return new Date()
+}
+
+export async function getProjectProgressSettings() {
+  const [weightByHours, hourlyCost, atRiskMargin] = await Promise.all([
+    getBooleanSetting('PROJECT_PROGRESS_WEIGHT_BY_HOURS', PROJECT_HEALTH_DEFAULTS.PROJECT_PROGRESS_WEIGHT_BY_HOURS),
+    getNumberSetting('PROJECT_HOURLY_COST', PROJECT_HEALTH_DEFAULTS.PROJECT_HOURLY_COST),
+    getNumberSetting('PROJECT_HEALTH_AT_RISK_MARGIN', PROJECT_HEALTH_DEFAULTS.PROJECT_HEALTH_AT_RISK_MARGIN),
+  ])
+  return { weightByHours, hourlyCost: Math.max(hourlyCost, 0), atRiskMargin: Math.max(atRiskMargin, 0) }
+}
+
+type ProjectProgressSettings = Awaited<ReturnType<typeof getProjectProgressSettings>>
+
+/**
+ * Weight of each task: 1 each, or its estimatedHours when weighting by hours.
+ * Unestimated tasks count as the average estimate so they still move the bar.
+ */
+function getTaskWeights<T extends ProgressTask>(tasks: T[], weightByHours: boolean) {
+  if (!weightByHours) return tasks.map(task => ({ task, weight: 1 }))
+
+  const estimates = tasks.map(t => t.estimatedHours).filter((h): h is number => h !== null && h > 0)
+  const fallback = estimates.length > 0 ? estimates.reduce((sum, h) => sum + h, 0) / estimates.length : 1
+  return tasks.map(task => ({
+    task,
+    weight: task.estimatedHours && task.estimatedHours > 0 ? task.estimatedHours : fallback,
+  }))
+}
+
+function calculateProgress(tasks: ProgressTask[], weightByHours: boolean) {
+  const weights = getTaskWeights(tasks.filter(t => t.status !== 'CANCELLED'), weightByHours)
+  const total = weights.reduce((sum, w) => sum + w.weight, 0)
+  if (total === 0) return 0
+
+  const done = weights.filter(w => isTaskCompleted(w.task.status)).reduce((sum, w) => sum + w.weight, 0)
+  return Math.round((done / total) * 100)
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function calculateHealth(project: ProgressProject, tasks: ProgressTask[], settings: ProjectProgressSettings, now: Date) {
+  const activeTasks = tasks.filter(t => t.status !== 'CANCELLED')
+  const progress = calculateProgress(activeTasks, settings.weightByHours)
+  const overdueTasks = activeTasks.filter(t => !isTaskCompleted(t.status) && t.dueDate && t.dueDate < now).length
+  const loggedHours = round(tasks.reduce((sum, t) => sum + (t.actualHours || 0), 0))
+  const estimatedHours = round(activeTasks.reduce((sum, t) => sum + (t.estimatedHours || 0), 0))
+
+  const loggedCost = settings.hourlyCost > 0 ? round(loggedHours * settings.hourlyCost) : null
+  const budgetUsedPercent = loggedCost !== null && project.budget && project.budget > 0
+    ? Math.round((loggedCost / project.budget) * 100)
+    : null
+
+  const start = project.startDate ?? project.createdAt
+  const scheduleElapsedPercent = project.endDate && project.endDate > start
+    ? Math.min(100, Math.max(0, Math.round(((now.getTime() - start.getTime()) / (project.endDate.getTime() - start.getTime())) * 100)))
+    : null
+
+  const late: string[] = []
+  const atRisk: string[] = []
+
+  if (!CLOSED_PROJECT_STATUSES.includes(project.status)) {
+    if (project.endDate && project.endDate < now && progress < 100) {
+      late.push('End date has passed with work still open')
+    }
+    if (budgetUsedPercent !== null && budgetUsedPercent > 100) {
+      late.push(`Logged time has used ${budgetUsedPercent}% of the budget`)
+    }
+    if (overdueTasks > 0) {
+      atRisk.push(`${overdueTasks} overdue task${overdueTasks === 1 ? '' : 's'}`)
+    }
+    if (scheduleElapsedPercent !== null && scheduleElapsedPercent - progress > settings.atRiskMargin) {
+      atRisk.push(`${scheduleElapsedPercent}% of the schedule used for ${progress}% progress`)
+    }
+    if (budgetUsedPercent !== null && budgetUsedPercent <= 100 && budgetUsedPercent - progress > settings.atRiskMargin) {
+      atRisk.push(`${budgetUsedPercent}% of the budget used for ${progress}% progress`)
+    }
+    if (estimatedHours > 0 && loggedHours > estimatedHours) {
+      atRisk.push(`${loggedHours}h logged against ${estimatedHours}h estimated`)
+    }
+  }
+
+  const status: ProjectHealthStatus = late.length > 0 ? 'LATE' : atRisk.length > 0 ? 'AT_RISK' : 'ON_TRACK'
+
+  return {
+    progress,
+    health: {
+      status,
+      reasons: [...late, ...atRisk],
+      overdueTasks,
+      loggedHours,
+      estimatedHours,
+      loggedCost,
+      budgetUsedPercent,
+      scheduleElapsedPercent,
+    },
+  }
+}
+
+/**
+ * Progress and health of several projects with one task query, keyed by project id
+ */
+export async function getProjectsProgress<P extends ProgressProject & { id: string }>(projects: P[]) {
+  const [tasks, settings] = await Promise.all([
+    prisma.task.findMany({
+      where: { projectId: { in: projects.map(p => p.id) } },
+      select: progressTaskSelect,
+    }),
+    getProjectProgressSettings(),
+  ])
+
+  const now = new Date()
+  return new Map(projects.map(project => [
+    project.id,
+    calculateHealth(project, tasks.filter(t => t.projectId === project.id), settings, now),
+  ]))
+}
+
+/**
+ * Store the derived progress on the project, e.g. after one of its tasks was added, finished or moved
+ */
+export async function refreshProjectProgress(projectId: string) {
+  const [tasks, { weightByHours }] = await Promise.all([
+    prisma.task.findMany({ where: { projectId }, select: progressTaskSelect }),
+    getProjectProgressSettings(),
+  ])
+
+  const progress = calculateProgress(tasks, weightByHours)
+  await prisma.project.update({ where: { id: projectId }, data: { progress } })
+  return progress
+}
+
+function getDayKey(date: Date, timeZone: string) {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date)
+}
+
+/**
+ * Remaining work per day (or week) from the project's start until today, next to the ideal line towards endDate.
+ * Work is counted in tasks, or in estimated hours when progress is weighted by hours.
+ */
+export async function getProjectBurndown(project: ProgressProject & { id: string }) {
+  const [tasks, { weightByHours }, timeZone] = await Promise.all([
+    prisma.task.findMany({
+      where: { projectId: project.id, status: { not: 'CANCELLED' } },
+      select: progressTaskSelect,
+    }),
+    getProjectProgressSettings(),
+    getInstituteTimeZone(),
+  ])
+
+  const weights = getTaskWeights(tasks, weightByHours).map(({ task, weight }) => ({
+    weight,
+    createdKey: getDayKey(task.createdAt, timeZone),
+    // A finished task without a completion time is treated as finished when it was created
+    completedKey: isTaskCompleted(task.status) ? getDayKey(task.completedAt ?? task.createdAt, timeZone) : null,
+  }))
+
+  const todayKey = getDayKey(new Date(), timeZone)
+  const startKey = getDayKey(project.startDate ?? project.createdAt, timeZone)
+  const endKey = project.endDate ? getDayKey(project.endDate, timeZone) : null
+  const lastKey = endKey && endKey > todayKey ? endKey : todayKey
+
+  const startMs = Date.parse(`${startKey}T00:00:00Z`)
+  const lastMs = Math.max(startMs, Date.parse(`${lastKey}T00:00:00Z`))
+  const endMs = endKey ? Date.parse(`${endKey}T00:00:00Z`) : null
+  const stepDays = (lastMs - startMs) / DAY_MS + 1 > MAX_DAILY_BURNDOWN_POINTS ? 7 : 1
+
+  const total = round(weights.reduce((sum, w) => sum + w.weight, 0))
+  const points: { date: string; remaining: number | null; ideal: number | null }[] = []
+
+  for (let ms = startMs; ; ms = Math.min(ms + stepDays * DAY_MS, lastMs)) {
+    const date = new Date(ms).toISOString().slice(0, 10)
+
+    // Scope grows as tasks are added, so the remaining work is counted per day rather than from the total
+    const remaining = date > todayKey ? null : round(weights
+      .filter(w => w.createdKey <= date && !(w.completedKey && w.completedKey <= date))
+      .reduce((sum, w) => sum + w.weight, 0))
+
+    let ideal: number | null = null
+    if (endMs !== null) {
+      ideal = endMs <= startMs || ms >= endMs ? 0 : round(total * (1 - (ms - startMs) / (endMs - startMs)))
+    }
+
+    points.push({ date, remaining, ideal })
+    if (ms >= lastMs) break
+  }
+
+  return {
+    unit: weightByHours ? 'hours' as const : 'tasks' as const,
+    total,
+    interval: stepDays === 1 ? 'day' as const : 'week' as const,
+    points,
+  }
+}
@@ -0,0 +1,207 @@
+import { EmailMessage, SendChannel, SendJob, WhatsAppMessage } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getInstituteTimeZone, getNumberSetting } from '@/lib/system-settings'
+import { formatDateTimeInputInTimeZone, zonedDateTimeToUtc } from '@/lib/date-utils'
+
+// Fallbacks when the SystemSettings keys are not configured
+export const SEND_QUEUE_DEFAULTS = {
+  EMAIL_SEND_RATE_PER_MINUTE: 60,
+  WHATSAPP_SEND_RATE_PER_MINUTE: 20,
+  SEND_MAX_ATTEMPTS: 4,
+} as const
+
+const RETRY_BASE_DELAY_MS = 60 * 1000 // 1 minute, doubled on each attempt
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000 // 30 minutes
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000 // 1 year
+
+export async function getSendRatePerMinute(channel: SendChannel): Promise<number> {
+  const rate = channel === 'EMAIL'
+    ? await getNumberSetting('EMAIL_SEND_RATE_PER_MINUTE', SEND_QUEUE_DEFAULTS.EMAIL_SEND_RATE_PER_MINUTE)
+    : await getNumberSetting('WHATSAPP_SEND_RATE_PER_MINUTE', SEND_QUEUE_DEFAULTS.WHATSAPP_SEND_RATE_PER_MINUTE)
+  return rate > 0 ? rate : 1
+}
+
+export async function getSendMaxAttempts(): Promise<number> {
+  const attempts = await getNumberSetting('SEND_MAX_ATTEMPTS', SEND_QUEUE_DEFAULTS.SEND_MAX_ATTEMPTS)
+  return attempts > 0 ? Math.floor(attempts) : 1
+}
+
+/**
+ * Exponential backoff for transient failures (1m, 2m, 4m, ... capped at 30m)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * History label stored as the message text of a WhatsApp send without a caption
+ */
+export function getMediaOnlyLabel(mediaFilename?: string | null) {
+  return mediaFilename ? `Media: ${mediaFilename}` : 'Media message'
+}
+
+export function isMediaOnlyLabel(text: string, mediaFilename?: string | null) {
+  return text === getMediaOnlyLabel(mediaFilename)
+}
+
+/**
+ * Shape returned by the progress endpoint
+ */
+export function serializeSendJob(job: SendJob) {
+  const percent = job.totalCount > 0 ? Math.round((job.processedCount / job.totalCount) * 100) : 100
+  return {
+    id: job.id,
+    channel: job.channel,
+    status: job.status,
+    totalCount: job.totalCount,
+    processedCount: job.processedCount,
+    sentCount: job.sentCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    pendingCount: Math.max(0, job.totalCount - job.processedCount),
+    percent,
+    lastError: job.lastError,
+    scheduledAt: job.scheduledAt,
+    messageId: job.emailMessageId || job.whatsappMessageId,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+  }
+}
+
+/**
+ * Shape returned for upcoming scheduled sends, with the time as an institute wall-clock value for editing
+ */
+export function serializeScheduledSend(
+  job: SendJob & {
+    emailMessage?: Pick<EmailMessage, 'subject' | 'message' | 'isHtml'> | null
+    whatsappMessage?: Pick<WhatsAppMessage, 'message' | 'mediaFilename'> | null
+  },
+  timeZone: string,
+) {
+  return {
+    ...serializeSendJob(job),
+    scheduledAtLocal: job.scheduledAt ? formatDateTimeInputInTimeZone(job.scheduledAt, timeZone) : null,
+    timeZone,
+    subject: job.emailMessage?.subject ?? null,
+    message: job.emailMessage?.message ?? job.whatsappMessage?.message ?? '',
+    isHtml: job.emailMessage?.isHtml ?? false,
+    mediaFilename: job.whatsappMessage?.mediaFilename ?? null,
+  }
+}
+
+/**
+ * Parse a "YYYY-MM-DDTHH:mm" schedule time entered in the institute time zone.
+ * The time must be in the future and within a year.
+ */
+export async function resolveScheduledAt(value: string): Promise<{ scheduledAt?: Date; error?: string }> {
+  const timeZone = await getInstituteTimeZone()
+  const scheduledAt = zonedDateTimeToUtc(value, timeZone)
+
+  if (!scheduledAt) {
+    return { error: 'Scheduled time must be in the format YYYY-MM-DDTHH:mm' }
+  }
+  if (scheduledAt.getTime() <= Date.now()) {
+    return { error: 'Scheduled time must be in the future' }
+  }
+  if (scheduledAt.getTime() - Date.now() > MAX_SCHEDULE_AHEAD_MS) {
+    return { error: 'Sends can be scheduled at most one year ahead' }
+  }
+  return { scheduledAt }
+}
+
+export function isSendJobFinished(job: Pick<SendJob, 'status'>) {
+  return job.status === 'COMPLETED' || job.status === 'CANCELLED'
+}
+
+export async function pauseSendJob(jobId: string) {
+  await prisma.sendJob.updateMany({
+    where: { id: jobId, status: { in: ['QUEUED', 'RUNNING'] } },
+    data: { status: 'PAUSED' },
+  })
+  return prisma.sendJob.findUniqueOrThrow({ where: { id: jobId } })
+}
+
+export async function resumeSendJob(jobId: string) {
+  await prisma.sendJob.updateMany({
+    where: { id: jobId, status: 'PAUSED' },
+    data: { status: 'QUEUED', lastError: null },
+  })
+  return prisma.sendJob.findUniqueOrThrow({ where: { id: jobId } })
+}
+
+/**
+ * Change the time or content of a send that has not started yet.
+ * Throws when the send already left the SCHEDULED state.
+ */
+export async function updateScheduledSend(
+  jobId: string,
+  changes: { scheduledAt?: Date; subject?: string; message?: string },
+) {
+  return prisma.$transaction(async (tx) => {
+    // Conditional update so an edit can't race the send being picked up
+    const updated = await tx.sendJob.updateMany({
+      where: { id: jobId, status: 'SCHEDULED' },
+      data: changes.scheduledAt ? { scheduledAt: changes.scheduledAt } : {},
+    })
+    if (updated.count === 0) {
+      throw new Error('This send has already started and can no longer be edited')
+    }
+
+    const job = await tx.sendJob.findUniqueOrThrow({ where: { id: jobId } })
+    if (job.emailMessageId && (changes.subject !== undefined || changes.message !== undefined)) {
+      await tx.emailMessage.update({
+        where: { id: job.emailMessageId },
+        data: {
+          ...(changes.subject !== undefined && { subject: changes.subject }),
+          ...(changes.message !== undefined && { message: changes.message }),
+        },
+      })
+    }
+    if (job.whatsappMessageId && changes.message !== undefined) {
+      await tx.whatsAppMessage.update({
+        where: { id: job.whatsappMessageId },
+        data: { message: changes.message },
+      })
+    }
+    if (changes.scheduledAt) {
+      const sentAt = changes.scheduledAt
+      if (job.emailMessageId) {
+        await tx.emailMessage.update({ where: { id: job.emailMessageId }, data: { sentAt } })
+      } else if (job.whatsappMessageId) {
+        await tx.whatsAppMessage.update({ where: { id: job.whatsappMessageId }, data: { sentAt } })
+      }
+    }
+
+    return job
+  })
+}
+
+/**
+ * Cancel a job. Recipients that were not sent yet are marked CANCELLED so nothing stays PENDING.
+ */
+export async function cancelSendJob(jobId: string) {
+  const job = await prisma.sendJob.findUniqueOrThrow({ where: { id: jobId } })
+  if (isSendJobFinished(job)) return job
+
+  const cancelled = job.channel === 'EMAIL'
+    ? await prisma.emailRecipient.updateMany({
+      where: { emailMessageId: job.emailMessageId!, status: 'PENDING' },
+      data: { status: 'CANCELLED', nextAttemptAt: null, errorMessage: 'Cancelled before sending' },
+    })
+    : await prisma.whatsAppRecipient.updateMany({
+      where: { whatsappMessageId: job.whatsappMessageId!, status: 'PENDING' },
+      data: { status: 'CANCELLED', nextAttemptAt: null, errorMessage: 'Cancelled before sending' },
+    })
+
+  return prisma.sendJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'CANCELLED',
+      processedCount: { increment: cancelled.count },
+      completedAt: new Date(),
+      lockedUntil: null,
+      mediaContent: null,
+    },
+  })
+}
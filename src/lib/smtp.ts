@@ -7,6 +7,7 @@
 // - Gmail SMTP: Free with Gmail account
 
 import nodemailer from 'nodemailer'
+import { getUnsubscribeUrl } from '@/lib/contact-suppression'
 
 export interface SMTPConfig {
   host: string
@@ -258,9 +259,24 @@ export interface SendEmailOptions {
   }>
 }
 
+// Connection problems and 4xx SMTP replies (greylisting, rate limits) are temporary
+const RETRYABLE_SMTP_CODES = ['ETIMEDOUT', 'ECONNECTION', 'ECONNRESET', 'ECONNREFUSED', 'ESOCKET', 'EDNS', 'EAI_AGAIN']
+
+function isRetryableSMTPError(error: unknown): boolean {
+  const err = error as { code?: string; responseCode?: number }
+  if (err?.code && RETRYABLE_SMTP_CODES.includes(err.code)) return true
+  return typeof err?.responseCode === 'number' && err.responseCode >= 400 && err.responseCode < 500
+}
+
+// Every email carries an unsubscribe link (footer + List-Unsubscribe headers for one-click clients)
+function appendUnsubscribeFooter(html: string, unsubscribeUrl: string) {
+  const footer = `<p style="font-size: 12px; color: #666;">Don't want to receive these emails? <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe</a></p>`
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${footer}</body>`) : `${html}${footer}`
+}
+
 export async function sendEmailViaSMTP(
   options: SendEmailOptions
-): Promise<{ success: boolean; error?: string; messageId?: string }> {
+): Promise<{ success: boolean; error?: string; messageId?: string; retryable?: boolean }> {
   try {
     const config = getSMTPConfig()
     const transporter = getTransporter()
@@ -272,15 +288,24 @@ export async function sendEmailViaSMTP(
       contentType: att.contentType,
     }))
 
+    const unsubscribeUrl = await getUnsubscribeUrl(options.to)
+    const html = appendUnsubscribeFooter(options.html, unsubscribeUrl)
+
     const mailOptions = {
       from: config.fromName
         ? `${config.fromName} <${config.from}>`
         : config.from,
       to: options.to,
       subject: options.subject,
-      html: options.html,
-      text: options.text || options.html.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+      html,
+      text: `${options.text || options.html.replace(/<[^>]*>/g, '')}\n\nUnsubscribe: ${unsubscribeUrl}`, // Strip HTML for text version
       attachments,
+      list: {
+        unsubscribe: unsubscribeUrl,
+      },
+      headers: {
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
     }
 
     const info = await transporter.sendMail(mailOptions)
@@ -294,6 +319,7 @@ export async function sendEmailViaSMTP(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: isRetryableSMTPError(error),
     }
   }
 }
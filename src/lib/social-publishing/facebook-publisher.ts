@@ -0,0 +1,26 @@
+import { SocialPublisher } from './types'
+import { MetaGraphConfig, graphRequest } from './meta-graph'
+
+export interface FacebookPageConfig extends MetaGraphConfig {
+  pageId: string
+}
+
+/**
+ * Posts to a Facebook Page: a photo post when the post has an image, otherwise a text post
+ */
+export function createFacebookPublisher(config: FacebookPageConfig): SocialPublisher {
+  return {
+    name: 'facebook',
+
+    async publish({ caption, imageUrl }) {
+      const response = imageUrl
+        ? await graphRequest(config, `${config.pageId}/photos`, { url: imageUrl, caption })
+        : await graphRequest(config, `${config.pageId}/feed`, { message: caption })
+      if (!response.ok) return response.result
+
+      // Photo posts return the photo id and the id of the feed post showing it
+      const postId = String(response.data.post_id || response.data.id)
+      return { success: true, externalId: postId, externalUrl: `https://www.facebook.com/${postId}` }
+    },
+  }
+}
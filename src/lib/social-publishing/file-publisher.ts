@@ -0,0 +1,33 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { SocialPublisher } from './types'
+
+// Captions containing this tag fail (as a retryable error), so retries can be exercised without a real platform
+const FILE_PUBLISHER_FAILURE_TAG = '#fail'
+
+/**
+ * Development/test publisher: writes each publish as a JSON file in `directory` instead of posting it
+ */
+export function createFilePublisher(directory: string): SocialPublisher {
+  return {
+    name: 'file',
+
+    async publish(content) {
+      if (content.caption.toLowerCase().includes(FILE_PUBLISHER_FAILURE_TAG)) {
+        return { success: false, error: 'File publisher: simulated publishing failure', retryable: true }
+      }
+
+      const externalId = `${content.platform.toLowerCase()}_${content.postId}_${Date.now()}`
+      const filePath = join(directory, `${externalId}.json`)
+      try {
+        await mkdir(directory, { recursive: true })
+        await writeFile(filePath, JSON.stringify({ ...content, publishedAt: new Date().toISOString() }, null, 2))
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to write file', retryable: false }
+      }
+
+      console.log('[file publisher]', content.platform, 'post written to', filePath)
+      return { success: true, externalId }
+    },
+  }
+}
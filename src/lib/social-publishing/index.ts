@@ -0,0 +1,77 @@
+import { join } from 'path'
+import { SocialPlatform } from '@prisma/client'
+import { getSettingOrEnv } from '@/lib/system-settings'
+import { SocialPublisher } from './types'
+import { createFacebookPublisher } from './facebook-publisher'
+import { createInstagramPublisher } from './instagram-publisher'
+import { createLinkedInPublisher } from './linkedin-publisher'
+import { createFilePublisher } from './file-publisher'
+
+export * from './types'
+
+const DEFAULT_META_GRAPH_API_VERSION = 'v21.0'
+const DEFAULT_LINKEDIN_API_VERSION = '202405'
+const DEFAULT_FILE_PUBLISHER_DIR = join(process.cwd(), '.social-outbox')
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  FACEBOOK: 'Facebook',
+  INSTAGRAM: 'Instagram',
+  LINKEDIN: 'LinkedIn',
+}
+
+export function isSocialPlatform(value: unknown): value is SocialPlatform {
+  return typeof value === 'string' && Object.values(SocialPlatform).includes(value as SocialPlatform)
+}
+
+async function getFilePublisher() {
+  return createFilePublisher((await getSettingOrEnv('SOCIAL_FILE_PUBLISHER_DIR')) || DEFAULT_FILE_PUBLISHER_DIR)
+}
+
+/**
+ * Build the publisher for a platform from SystemSettings/env credentials.
+ * SOCIAL_PUBLISHER=file sends every platform to the file publisher; otherwise a platform without
+ * credentials uses it outside production, and throws in production.
+ */
+export async function getSocialPublisher(platform: SocialPlatform): Promise<SocialPublisher> {
+  if ((await getSettingOrEnv('SOCIAL_PUBLISHER'))?.toLowerCase() === 'file') {
+    return getFilePublisher()
+  }
+
+  const notConfigured = async (keys: string) => {
+    if (process.env.NODE_ENV !== 'production') return getFilePublisher()
+    throw new Error(`${SOCIAL_PLATFORM_LABELS[platform]} publishing is not configured. Set ${keys} in system settings or environment variables.`)
+  }
+
+  switch (platform) {
+    case 'FACEBOOK': {
+      const [pageId, accessToken, apiVersion] = await Promise.all([
+        getSettingOrEnv('FACEBOOK_PAGE_ID'),
+        getSettingOrEnv('FACEBOOK_PAGE_ACCESS_TOKEN'),
+        getSettingOrEnv('META_GRAPH_API_VERSION'),
+      ])
+      if (!pageId || !accessToken) return notConfigured('FACEBOOK_PAGE_ID and FACEBOOK_PAGE_ACCESS_TOKEN')
+      return createFacebookPublisher({ pageId, accessToken, apiVersion: apiVersion || DEFAULT_META_GRAPH_API_VERSION })
+    }
+    case 'INSTAGRAM': {
+      // Instagram accounts connected to the Page can usually use the Page token
+      const [accountId, accessToken, pageAccessToken, apiVersion] = await Promise.all([
+        getSettingOrEnv('INSTAGRAM_ACCOUNT_ID'),
+        getSettingOrEnv('INSTAGRAM_ACCESS_TOKEN'),
+        getSettingOrEnv('FACEBOOK_PAGE_ACCESS_TOKEN'),
+        getSettingOrEnv('META_GRAPH_API_VERSION'),
+      ])
+      const token = accessToken || pageAccessToken
+      if (!accountId || !token) return notConfigured('INSTAGRAM_ACCOUNT_ID and INSTAGRAM_ACCESS_TOKEN')
+      return createInstagramPublisher({ accountId, accessToken: token, apiVersion: apiVersion || DEFAULT_META_GRAPH_API_VERSION })
+    }
+    case 'LINKEDIN': {
+      const [organizationId, accessToken, apiVersion] = await Promise.all([
+        getSettingOrEnv('LINKEDIN_ORGANIZATION_ID'),
+        getSettingOrEnv('LINKEDIN_ACCESS_TOKEN'),
+        getSettingOrEnv('LINKEDIN_API_VERSION'),
+      ])
+      if (!organizationId || !accessToken) return notConfigured('LINKEDIN_ORGANIZATION_ID and LINKEDIN_ACCESS_TOKEN')
+      return createLinkedInPublisher({ organizationId, accessToken, apiVersion: apiVersion || DEFAULT_LINKEDIN_API_VERSION })
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { SocialPublisher } from './types'
+import { MetaGraphConfig, graphRequest } from './meta-graph'
+
+export interface InstagramConfig extends MetaGraphConfig {
+  accountId: string // Instagram professional account connected to the Facebook Page
+}
+
+/**
+ * Publishes an image post to an Instagram professional account: create a media container, then publish it
+ */
+export function createInstagramPublisher(config: InstagramConfig): SocialPublisher {
+  return {
+    name: 'instagram',
+
+    async publish({ caption, imageUrl }) {
+      if (!imageUrl) {
+        return { success: false, error: 'Instagram posts need an image', retryable: false }
+      }
+
+      const container = await graphRequest(config, `${config.accountId}/media`, { image_url: imageUrl, caption })
+      if (!container.ok) return container.result
+
+      const published = await graphRequest(config, `${config.accountId}/media_publish`, { creation_id: String(container.data.id) })
+      if (!published.ok) return published.result
+
+      const mediaId = String(published.data.id)
+      // The permalink is only a convenience; the post is live either way
+      const media = await graphRequest(config, mediaId, { fields: 'permalink' }, 'GET')
+      return {
+        success: true,
+        externalId: mediaId,
+        externalUrl: media.ok ? media.data.permalink : undefined,
+      }
+    },
+  }
+}
@@ -0,0 +1,94 @@
+import { PUBLISH_REQUEST_TIMEOUT_MS, SocialPublishResult, SocialPublisher, isRetryableStatus } from './types'
+
+export interface LinkedInConfig {
+  organizationId: string
+  accessToken: string
+  apiVersion: string // LinkedIn-Version header, YYYYMM
+}
+
+const LINKEDIN_API_URL = 'https://api.linkedin.com/rest'
+
+/**
+ * Posts to a LinkedIn organization page through the Posts API. Images are uploaded to LinkedIn first.
+ */
+export function createLinkedInPublisher(config: LinkedInConfig): SocialPublisher {
+  const author = `urn:li:organization:${config.organizationId}`
+  const headers = {
+    Authorization: `Bearer ${config.accessToken}`,
+    'LinkedIn-Version': config.apiVersion,
+    'X-Restli-Protocol-Version': '2.0.0',
+    'Content-Type': 'application/json',
+  }
+
+  const failure = async (response: Response, fallback: string): Promise<SocialPublishResult> => {
+    const data = await response.json().catch(() => ({}))
+    return { success: false, error: data?.message || fallback, retryable: isRetryableStatus(response.status) }
+  }
+
+  const uploadImage = async (imageUrl: string): Promise<{ image: string } | SocialPublishResult> => {
+    const image = await fetch(imageUrl, { signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS) })
+    if (!image.ok) {
+      return { success: false, error: `Could not download the post image (${image.status})`, retryable: isRetryableStatus(image.status) }
+    }
+
+    const init = await fetch(`${LINKEDIN_API_URL}/images?action=initializeUpload`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ initializeUploadRequest: { owner: author } }),
+      signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS),
+    })
+    if (!init.ok) return failure(init, 'Failed to start the LinkedIn image upload')
+    const { value } = await init.json()
+
+    const upload = await fetch(value.uploadUrl, {
+      method: 'PUT',
+      headers: { Authorization: headers.Authorization },
+      body: await image.arrayBuffer(),
+      signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS),
+    })
+    if (!upload.ok) return failure(upload, 'Failed to upload the image to LinkedIn')
+
+    return { image: String(value.image) }
+  }
+
+  return {
+    name: 'linkedin',
+
+    async publish({ caption, imageUrl }) {
+      try {
+        let media: { id: string } | undefined
+        if (imageUrl) {
+          const uploaded = await uploadImage(imageUrl)
+          if (!('image' in uploaded)) return uploaded
+          media = { id: uploaded.image }
+        }
+
+        const response = await fetch(`${LINKEDIN_API_URL}/posts`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            author,
+            commentary: caption,
+            visibility: 'PUBLIC',
+            distribution: { feedDistribution: 'MAIN_FEED', targetEntities: [], thirdPartyDistributionChannels: [] },
+            ...(media && { content: { media } }),
+            lifecycleState: 'PUBLISHED',
+            isReshareDisabledByAuthor: false,
+          }),
+          signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS),
+        })
+        if (!response.ok) return failure(response, 'Failed to create the LinkedIn post')
+
+        // The new post's URN comes back in a header rather than the body
+        const postUrn = response.headers.get('x-restli-id') || ''
+        return {
+          success: true,
+          externalId: postUrn,
+          externalUrl: postUrn ? `https://www.linkedin.com/feed/update/${postUrn}` : undefined,
+        }
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Network error', retryable: true }
+      }
+    },
+  }
+}
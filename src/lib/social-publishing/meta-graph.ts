@@ -0,0 +1,50 @@
+import { PUBLISH_REQUEST_TIMEOUT_MS, SocialPublishResult, isRetryableStatus } from './types'
+
+export interface MetaGraphConfig {
+  accessToken: string
+  apiVersion: string
+}
+
+type GraphResponse = { ok: true; data: any } | { ok: false; result: SocialPublishResult }
+
+/**
+ * Call the Graph API, turning network and API errors into a failed publish result.
+ * Meta flags some errors (e.g. temporary outages) as is_transient, which are retried too.
+ */
+export async function graphRequest(
+  config: MetaGraphConfig,
+  path: string,
+  params: Record<string, string>,
+  method: 'GET' | 'POST' = 'POST'
+): Promise<GraphResponse> {
+  const url = `https://graph.facebook.com/${config.apiVersion}/${path}`
+  let response: Response
+  try {
+    response = method === 'POST'
+      ? await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${config.accessToken}` },
+        body: new URLSearchParams(params),
+        signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS),
+      })
+      : await fetch(`${url}?${new URLSearchParams(params)}`, {
+        headers: { Authorization: `Bearer ${config.accessToken}` },
+        signal: AbortSignal.timeout(PUBLISH_REQUEST_TIMEOUT_MS),
+      })
+  } catch (error) {
+    return { ok: false, result: { success: false, error: error instanceof Error ? error.message : 'Network error', retryable: true } }
+  }
+
+  const data = await response.json().catch(() => ({}))
+  if (response.ok && !data?.error) {
+    return { ok: true, data }
+  }
+  return {
+    ok: false,
+    result: {
+      success: false,
+      error: data?.error?.message || `Graph API request failed (${response.status})`,
+      retryable: isRetryableStatus(response.status) || !!data?.error?.is_transient,
+    },
+  }
+}
@@ -0,0 +1,34 @@
+import { SocialPlatform } from '@prisma/client'
+
+export type SocialPublisherName = 'facebook' | 'instagram' | 'linkedin' | 'file'
+
+export interface SocialPostContent {
+  postId: string
+  platform: SocialPlatform
+  caption: string
+  imageUrl?: string | null // Absolute, publicly reachable URL
+}
+
+export interface SocialPublishResult {
+  success: boolean
+  externalId?: string
+  externalUrl?: string
+  error?: string
+  retryable?: boolean // Transient failure (rate limit, platform/network outage) - safe to retry later
+}
+
+export interface SocialPublisher {
+  name: SocialPublisherName
+  publish(content: SocialPostContent): Promise<SocialPublishResult>
+}
+
+// Each platform request is cut off after this, so a publish (at most a few requests) always ends
+// well within the publishing job's lease on the publication and is never picked up a second time
+export const PUBLISH_REQUEST_TIMEOUT_MS = 30 * 1000
+
+/**
+ * Rate limits and server errors are transient; other HTTP errors (bad token, invalid media) are not
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
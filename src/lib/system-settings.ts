@@ -0,0 +1,119 @@
+import { prisma } from '@/lib/prisma'
+import { isValidTimeZone } from '@/lib/date-utils'
+
+// Shared in-memory cache for SystemSettings values (server only).
+// Settings are read on hot paths (login, every authenticated request), so values are cached briefly.
+const settingsCache = new Map<string, { value: string | null; timestamp: number }>()
+
+export const SYSTEM_SETTINGS_CACHE_TTL_MS = 30000 // 30 seconds
+
+// Fallbacks match the values seeded by scripts/seed-system-settings.ts
+export const SECURITY_SETTING_DEFAULTS = {
+  MAX_LOGIN_ATTEMPTS: 5,
+  ACCOUNT_LOCKOUT_MINUTES: 30,
+  SESSION_TIMEOUT_MINUTES: 480,
+  PASSWORD_MIN_LENGTH: 8,
+  MAINTENANCE_MODE: false,
+} as const
+
+/**
+ * Get the raw value of an active system setting, or null if it is missing/inactive
+ */
+export async function getSystemSetting(key: string): Promise<string | null> {
+  const cached = settingsCache.get(key)
+  if (cached && Date.now() - cached.timestamp < SYSTEM_SETTINGS_CACHE_TTL_MS) {
+    return cached.value
+  }
+
+  try {
+    const setting = await prisma.systemSettings.findUnique({
+      where: { key },
+    })
+    const value = setting && setting.isActive ? setting.value : null
+    settingsCache.set(key, { value, timestamp: Date.now() })
+    return value
+  } catch (error) {
+    console.error(`Error reading system setting ${key}:`, error)
+    return cached ? cached.value : null
+  }
+}
+
+/**
+ * Get a numeric system setting. Falls back when the setting is missing or not a number.
+ */
+export async function getNumberSetting(key: string, fallback: number): Promise<number> {
+  const value = await getSystemSetting(key)
+  if (value === null || value.trim() === '') return fallback
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * Get a boolean system setting ("true"/"false")
+ */
+export async function getBooleanSetting(key: string, fallback: boolean): Promise<boolean> {
+  const value = await getSystemSetting(key)
+  if (value === null) return fallback
+  return value.trim().toLowerCase() === 'true'
+}
+
+// Call this when a setting is changed
+export function invalidateSystemSettingsCache(key?: string) {
+  if (key) {
+    settingsCache.delete(key)
+  } else {
+    settingsCache.clear()
+  }
+}
+
+export async function getSecuritySettings() {
+  const [maxLoginAttempts, accountLockoutMinutes, sessionTimeoutMinutes, passwordMinLength, maintenanceMode] =
+    await Promise.all([
+      getNumberSetting('MAX_LOGIN_ATTEMPTS', SECURITY_SETTING_DEFAULTS.MAX_LOGIN_ATTEMPTS),
+      getNumberSetting('ACCOUNT_LOCKOUT_MINUTES', SECURITY_SETTING_DEFAULTS.ACCOUNT_LOCKOUT_MINUTES),
+      getNumberSetting('SESSION_TIMEOUT_MINUTES', SECURITY_SETTING_DEFAULTS.SESSION_TIMEOUT_MINUTES),
+      getNumberSetting('PASSWORD_MIN_LENGTH', SECURITY_SETTING_DEFAULTS.PASSWORD_MIN_LENGTH),
+      getBooleanSetting('MAINTENANCE_MODE', SECURITY_SETTING_DEFAULTS.MAINTENANCE_MODE),
+    ])
+
+  return {
+    maxLoginAttempts,
+    accountLockoutMinutes,
+    sessionTimeoutMinutes,
+    passwordMinLength,
+    maintenanceMode,
+  }
+}
+
+export async function isMaintenanceModeEnabled(): Promise<boolean> {
+  return getBooleanSetting('MAINTENANCE_MODE', SECURITY_SETTING_DEFAULTS.MAINTENANCE_MODE)
+}
+
+/**
+ * Get a configuration value from SystemSettings, falling back to the environment variable of the same name.
+ * Used for integration credentials that admins can manage from the settings page.
+ */
+export async function getSettingOrEnv(key: string): Promise<string | null> {
+  const value = await getSystemSetting(key)
+  if (value !== null && value.trim() !== '') return value.trim()
+  const envValue = process.env[key]
+  return envValue && envValue.trim() !== '' ? envValue.trim() : null
+}
+
+/**
+ * IANA time zone the institute works in (INSTITUTE_TIMEZONE), used to interpret scheduled times.
+ * Falls back to the server's time zone when unset or invalid.
+ */
+export async function getInstituteTimeZone(): Promise<string> {
+  const timeZone = await getSettingOrEnv('INSTITUTE_TIMEZONE')
+  if (timeZone && isValidTimeZone(timeZone)) return timeZone
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * Public base URL of the app (APP_URL), used for links in outgoing emails
+ */
+export async function getAppBaseUrl(): Promise<string> {
+  const baseUrl = (await getSettingOrEnv('APP_URL')) || `http://localhost:${process.env.PORT || 3000}`
+  return baseUrl.replace(/\/$/, '')
+}
@@ -0,0 +1,29 @@
+import { prisma } from '@/lib/prisma'
+
+// Actor recorded for changes made by background jobs (server only).
+// The account is inactive and has no password, so it can never sign in.
+const SYSTEM_USER_EMAIL = 'system@crm.local'
+
+let systemUserId: string | null = null
+
+/**
+ * Get the id of the system user, creating it on first use
+ */
+export async function getSystemUserId(): Promise<string> {
+  if (systemUserId) return systemUserId
+
+  const systemUser = await prisma.user.upsert({
+    where: { email: SYSTEM_USER_EMAIL },
+    update: {},
+    create: {
+      name: 'System',
+      email: SYSTEM_USER_EMAIL,
+      role: 'SYSTEM',
+      isActive: false,
+    },
+    select: { id: true },
+  })
+
+  systemUserId = systemUser.id
+  return systemUserId
+}
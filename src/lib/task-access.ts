@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, type User } from '@/lib/auth'
+import { PROJECT_TASK_EDITOR_ROLES, getProjectRole } from '@/lib/project-access'
+
+// Access checks shared by the /api/tasks/enhanced/[id]/... routes (server only).
+// Admins can work on any task; others must be its creator, assignee or a member of its project.
+// Project viewers can read a project's tasks but not change them.
+
+/**
+ * Load a task the user may read ('read') or change ('write'), or the 404/403 response to return instead
+ */
+export async function getTaskForUser(taskId: string, user: User, access: 'read' | 'write' = 'read') {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      id: true,
+      createdById: true,
+      assignedToId: true,
+      projectId: true,
+      status: true,
+      completedAt: true,
+      recurrenceId: true,
+      project: {
+        select: {
+          createdById: true,
+          members: { select: { userId: true, role: true } },
+        },
+      },
+    },
+  })
+
+  if (!task) {
+    return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+  }
+
+  const projectRole = task.project ? getProjectRole(task.project, user) : null
+  const hasAccess = isAdminRole(user.role) ||
+    task.createdById === user.id ||
+    task.assignedToId === user.id ||
+    (!!projectRole && (access === 'read' || PROJECT_TASK_EDITOR_ROLES.includes(projectRole)))
+
+  if (!hasAccess) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+
+  return task
+}
+
+/**
+ * Recompute Task.actualHours from its finished time entries
+ */
+export async function updateTaskActualHours(taskId: string) {
+  const totals = await prisma.taskTimeEntry.aggregate({
+    where: { taskId, duration: { not: null } },
+    _sum: { duration: true },
+  })
+
+  const minutes = totals._sum.duration || 0
+  return prisma.task.update({
+    where: { id: taskId },
+    data: { actualHours: Math.round((minutes / 60) * 100) / 100 },
+    select: { id: true, actualHours: true },
+  })
+}
+
+/**
+ * Whole minutes between two times, at least 1 so a short entry still counts
+ */
+export function getDurationMinutes(startTime: Date, endTime: Date) {
+  return Math.max(1, Math.round((endTime.getTime() - startTime.getTime()) / 60000))
+}
@@ -0,0 +1,83 @@
+import { writeFile, mkdir, unlink } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { uploadToS3, deleteFromS3 } from '@/lib/s3'
+
+// Task attachment storage (server only): S3 when configured, otherwise public/uploads/tasks
+const TASK_ATTACHMENT_FOLDER = 'tasks'
+const LOCAL_UPLOAD_DIR = join(process.cwd(), 'public', 'uploads', TASK_ATTACHMENT_FOLDER)
+const LOCAL_URL_PREFIX = `/uploads/${TASK_ATTACHMENT_FOLDER}/`
+
+export const MAX_TASK_ATTACHMENT_BYTES = 25 * 1024 * 1024 // 25 MB
+
+// Accepted file types by extension, with the content type they are stored and served as. Local files
+// are served from the app's own origin, so nothing a browser would render as a page (HTML, SVG, XML)
+const TASK_ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  zip: 'application/zip',
+}
+
+export const TASK_ATTACHMENT_EXTENSIONS = Object.keys(TASK_ATTACHMENT_TYPES)
+
+/**
+ * The extension and content type an uploaded file is stored with, or null when its type is not allowed
+ */
+export function getTaskAttachmentType(fileName: string): { extension: string; mimeType: string } | null {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+  const mimeType = TASK_ATTACHMENT_TYPES[extension]
+  return mimeType ? { extension, mimeType } : null
+}
+
+/**
+ * Store an uploaded file. `filename` is the S3 key or the local file name, used to delete it later.
+ */
+export async function saveTaskAttachmentFile(file: File): Promise<{ filename: string; url: string; mimeType: string }> {
+  const type = getTaskAttachmentType(file.name)
+  if (!type) {
+    throw new Error(`File type not allowed: ${file.name}`)
+  }
+
+  try {
+    // Upload with the allowed content type rather than the one the browser claimed
+    const s3Result = await uploadToS3(new File([file], file.name, { type: type.mimeType }), TASK_ATTACHMENT_FOLDER)
+    return { filename: s3Result.s3Key, url: s3Result.filePath, mimeType: type.mimeType }
+  } catch (s3Error) {
+    console.warn('S3 upload failed, falling back to local storage:', s3Error)
+  }
+
+  await mkdir(LOCAL_UPLOAD_DIR, { recursive: true })
+  const filename = `${randomUUID()}.${type.extension}`
+  await writeFile(join(LOCAL_UPLOAD_DIR, filename), Buffer.from(await file.arrayBuffer()))
+
+  return { filename, url: `${LOCAL_URL_PREFIX}${filename}`, mimeType: type.mimeType }
+}
+
+/**
+ * Remove a stored attachment file. Failures are logged; the attachment record is removed regardless.
+ */
+export async function deleteTaskAttachmentFile(attachment: { filename: string; url: string }) {
+  try {
+    if (attachment.url.startsWith(LOCAL_URL_PREFIX)) {
+      await unlink(join(LOCAL_UPLOAD_DIR, attachment.filename))
+    } else {
+      await deleteFromS3(attachment.filename)
+    }
+  } catch (error) {
+    console.error(`Error deleting task attachment file ${attachment.filename}:`, error)
+  }
+}
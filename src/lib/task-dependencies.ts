@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isTaskCompleted } from '@/lib/project-progress'
+
+// Finish-to-start dependencies between a project's tasks, and rescheduling for the timeline (server only).
+
+export const dependencyTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  startDate: true,
+  dueDate: true,
+} as const
+
+async function getProjectDependencyEdges(db: Prisma.TransactionClient, projectId: string) {
+  return db.taskDependency.findMany({
+    where: { task: { projectId } },
+    select: { taskId: true, dependsOnId: true },
+  })
+}
+
+/**
+ * Whether making taskId depend on dependsOnId would close a loop,
+ * i.e. dependsOnId already waits (directly or through other tasks) on taskId
+ */
+export async function wouldCreateDependencyCycle(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  taskId: string,
+  dependsOnId: string
+) {
+  if (taskId === dependsOnId) return true
+
+  const blockersOf = new Map<string, string[]>()
+  for (const edge of await getProjectDependencyEdges(tx, projectId)) {
+    blockersOf.set(edge.taskId, [...(blockersOf.get(edge.taskId) ?? []), edge.dependsOnId])
+  }
+
+  const seen = new Set<string>()
+  const queue = [dependsOnId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === taskId) return true
+    if (seen.has(current)) continue
+    seen.add(current)
+    queue.push(...(blockersOf.get(current) ?? []))
+  }
+  return false
+}
+
+/**
+ * Tasks this task depends on that are neither finished nor cancelled
+ */
+export async function getOpenBlockers(taskId: string) {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: { taskId },
+    select: { dependsOn: { select: dependencyTaskSelect } },
+  })
+
+  return dependencies
+    .map(d => d.dependsOn)
+    .filter(blocker => !isTaskCompleted(blocker.status) && blocker.status !== 'CANCELLED')
+}
+
+/**
+ * Move a task to new dates, then push later every task that depends on it (directly or indirectly)
+ * and would now start before its blocker is due, keeping each pushed task's duration.
+ * Tasks are never pulled earlier. Returns every task whose dates changed.
+ */
+export async function rescheduleTask(taskId: string, startDate: Date | null, dueDate: Date | null) {
+  const task = await prisma.task.findUniqueOrThrow({
+    where: { id: taskId },
+    select: { projectId: true },
+  })
+
+  const [tasks, edges] = task.projectId
+    ? await Promise.all([
+      prisma.task.findMany({
+        where: { projectId: task.projectId },
+        select: { id: true, startDate: true, dueDate: true },
+      }),
+      getProjectDependencyEdges(prisma, task.projectId),
+    ])
+    : [[], []]
+
+  const dates = new Map(tasks.map(t => [t.id, { startDate: t.startDate, dueDate: t.dueDate }]))
+  dates.set(taskId, { startDate, dueDate })
+
+  const dependentsOf = new Map<string, string[]>()
+  for (const edge of edges) {
+    dependentsOf.set(edge.dependsOnId, [...(dependentsOf.get(edge.dependsOnId) ?? []), edge.taskId])
+  }
+
+  const changed = new Set([taskId])
+  // Dependencies are acyclic, so pushing forward always settles. A task pushed more often than the
+  // project has tasks can only be on a loop, so give up rather than push forever.
+  const visits = new Map<string, number>()
+  const queue = [taskId]
+  while (queue.length > 0) {
+    const blockerId = queue.shift()!
+    const visitCount = (visits.get(blockerId) ?? 0) + 1
+    if (visitCount > tasks.length) {
+      throw new Error(`Task dependencies of project ${task.projectId} form a cycle`)
+    }
+    visits.set(blockerId, visitCount)
+    const blocker = dates.get(blockerId)!
+    const blockerEnd = blocker.dueDate ?? blocker.startDate
+    if (!blockerEnd) continue
+
+    for (const dependentId of dependentsOf.get(blockerId) ?? []) {
+      const dependent = dates.get(dependentId)
+      const dependentStart = dependent?.startDate ?? dependent?.dueDate
+      // Unscheduled tasks have nothing to push
+      if (!dependent || !dependentStart || dependentStart >= blockerEnd) continue
+
+      const shiftMs = blockerEnd.getTime() - dependentStart.getTime()
+      const shift = (date: Date | null) => date ? new Date(date.getTime() + shiftMs) : null
+      dates.set(dependentId, { startDate: shift(dependent.startDate), dueDate: shift(dependent.dueDate) })
+      changed.add(dependentId)
+      queue.push(dependentId)
+    }
+  }
+
+  const ids = Array.from(changed)
+  await prisma.$transaction(ids.map(id => prisma.task.update({
+    where: { id },
+    data: dates.get(id)!,
+  })))
+
+  return prisma.task.findMany({
+    where: { id: { in: ids } },
+    select: dependencyTaskSelect,
+  })
+}
@@ -0,0 +1,296 @@
+import { NextResponse } from 'next/server'
+import { RecurrenceFrequency, TaskRecurrence } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isAdminRole, type User } from '@/lib/auth'
+import { getSeekerAccessConditions } from '@/lib/inquiry-assignment'
+import { getTaskForUser } from '@/lib/task-access'
+import { formatDateTimeInputInTimeZone, zonedDateTimeToUtc } from '@/lib/date-utils'
+import { getInstituteTimeZone } from '@/lib/system-settings'
+
+// Recurring project tasks and follow-ups (server only).
+// A series only ever has one open occurrence: completing it creates the next one from the rule,
+// copying the completed occurrence. Dates are worked out in the institute time zone so occurrences
+// keep their wall-clock time across DST changes.
+
+export const MAX_RECURRENCE_INTERVAL = 365
+export const MAX_RECURRENCE_OCCURRENCES = 500
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  daysOfWeek: number[]
+  until: Date | null
+  maxOccurrences: number | null
+}
+
+// Series details returned with each occurrence
+export const recurrenceSelect = {
+  id: true,
+  frequency: true,
+  interval: true,
+  daysOfWeek: true,
+  until: true,
+  maxOccurrences: true,
+  occurrenceCount: true,
+  isActive: true,
+} as const
+
+export function isRecurrenceFrequency(value: unknown): value is RecurrenceFrequency {
+  return typeof value === 'string' && Object.values(RecurrenceFrequency).includes(value as RecurrenceFrequency)
+}
+
+/**
+ * Validate a recurrence rule from a request body. until may be a "YYYY-MM-DD" date (the end of that day
+ * in the institute time zone) or a full timestamp; null clears it.
+ */
+export function parseRecurrenceRule(input: any, timeZone: string): { rule: RecurrenceRule } | { error: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Recurrence must be an object' }
+  }
+
+  const { frequency, interval = 1, daysOfWeek = [], until = null, maxOccurrences = null } = input
+
+  if (!isRecurrenceFrequency(frequency)) {
+    return { error: `Recurrence frequency must be one of ${Object.values(RecurrenceFrequency).join(', ')}` }
+  }
+
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+    return { error: `Recurrence interval must be a whole number from 1 to ${MAX_RECURRENCE_INTERVAL}` }
+  }
+
+  if (!Array.isArray(daysOfWeek) || daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return { error: 'daysOfWeek must be a list of weekdays from 0 (Sunday) to 6 (Saturday)' }
+  }
+
+  if (maxOccurrences !== null && (!Number.isInteger(maxOccurrences) || maxOccurrences < 1 || maxOccurrences > MAX_RECURRENCE_OCCURRENCES)) {
+    return { error: `Number of occurrences must be from 1 to ${MAX_RECURRENCE_OCCURRENCES}` }
+  }
+
+  let untilDate: Date | null = null
+  if (until !== null && until !== '') {
+    untilDate = typeof until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(until)
+      ? zonedDateTimeToUtc(`${until}T23:59`, timeZone)
+      : new Date(until)
+    if (!untilDate || isNaN(untilDate.getTime())) {
+      return { error: 'Invalid recurrence end date' }
+    }
+  }
+
+  return {
+    rule: {
+      frequency,
+      interval,
+      daysOfWeek: frequency === 'WEEKLY' ? Array.from(new Set<number>(daysOfWeek)).sort() : [],
+      until: untilDate,
+      maxOccurrences,
+    },
+  }
+}
+
+/**
+ * Load a series the user may change, or the 404/403 response to return instead: its creator, admins,
+ * and whoever can edit its latest task or work on its inquiry's follow-ups
+ */
+export async function getRecurrenceForUser(recurrenceId: string, user: User) {
+  const recurrence = await prisma.taskRecurrence.findUnique({
+    where: { id: recurrenceId },
+    include: {
+      tasks: {
+        select: { id: true, title: true, status: true, dueDate: true, completedAt: true, projectId: true },
+        orderBy: { dueDate: 'asc' },
+      },
+      followUpTasks: {
+        select: { id: true, purpose: true, status: true, dueAt: true, seekerId: true },
+        orderBy: { dueAt: 'asc' },
+      },
+    },
+  })
+
+  if (!recurrence) {
+    return NextResponse.json({ error: 'Recurring series not found' }, { status: 404 })
+  }
+
+  if (isAdminRole(user.role) || recurrence.createdById === user.id) {
+    return recurrence
+  }
+
+  const latestTask = recurrence.tasks[recurrence.tasks.length - 1]
+  if (latestTask && !((await getTaskForUser(latestTask.id, user, 'write')) instanceof NextResponse)) {
+    return recurrence
+  }
+
+  const latestFollowUp = recurrence.followUpTasks[recurrence.followUpTasks.length - 1]
+  if (latestFollowUp) {
+    const seeker = await prisma.seeker.findFirst({
+      where: { id: latestFollowUp.seekerId, OR: getSeekerAccessConditions(user.id) },
+      select: { id: true },
+    })
+    if (seeker) return recurrence
+  }
+
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Calendar dates are handled as UTC midnights so adding days never crosses a DST change
+function addCalendarDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function advanceCalendarDate(rule: RecurrenceRule, date: Date, anchor: Date): Date {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addCalendarDays(date, rule.interval)
+    case 'WEEKDAYS': {
+      let next = addCalendarDays(date, 1)
+      while (next.getUTCDay() === 0 || next.getUTCDay() === 6) next = addCalendarDays(next, 1)
+      return next
+    }
+    case 'WEEKLY': {
+      const days = rule.daysOfWeek.length > 0 ? rule.daysOfWeek : [anchor.getUTCDay()]
+      const weekday = date.getUTCDay()
+      const laterThisWeek = days.find(day => day > weekday)
+      if (laterThisWeek !== undefined) return addCalendarDays(date, laterThisWeek - weekday)
+      // First chosen day of the week `interval` weeks on
+      return addCalendarDays(date, 7 * rule.interval - weekday + days[0])
+    }
+    case 'MONTHLY': {
+      // Keep the day of month of the first occurrence, or the month's last day when it is shorter
+      const month = date.getUTCMonth() + rule.interval
+      const lastDay = new Date(Date.UTC(date.getUTCFullYear(), month + 1, 0)).getUTCDate()
+      return new Date(Date.UTC(date.getUTCFullYear(), month, Math.min(anchor.getUTCDate(), lastDay)))
+    }
+  }
+}
+
+/**
+ * Due time of the occurrence after `previousDue`, at the series' time of day. Dates that have already
+ * passed (an occurrence completed late) are skipped. Returns null once the rule has no more occurrences.
+ */
+export function getNextOccurrenceDate(
+  recurrence: RecurrenceRule & { startsAt: Date; occurrenceCount: number },
+  previousDue: Date,
+  timeZone: string,
+  now: Date = new Date()
+): Date | null {
+  if (recurrence.maxOccurrences !== null && recurrence.occurrenceCount >= recurrence.maxOccurrences) {
+    return null
+  }
+
+  const [anchorDay, timeOfDay] = formatDateTimeInputInTimeZone(recurrence.startsAt, timeZone).split('T')
+  const anchor = new Date(`${anchorDay}T00:00:00Z`)
+  let date = new Date(`${formatDateTimeInputInTimeZone(previousDue, timeZone).split('T')[0]}T00:00:00Z`)
+
+  for (let i = 0; i < MAX_RECURRENCE_OCCURRENCES * 7; i++) {
+    date = advanceCalendarDate(recurrence, date, anchor)
+    const due = zonedDateTimeToUtc(`${date.toISOString().slice(0, 10)}T${timeOfDay}`, timeZone)
+    if (!due) return null
+    if (recurrence.until && due > recurrence.until) return null
+    if (due > now) return due
+  }
+
+  return null
+}
+
+/**
+ * Claim the next occurrence number. Returns false when another request already created it.
+ */
+async function claimNextOccurrence(recurrence: TaskRecurrence) {
+  const claimed = await prisma.taskRecurrence.updateMany({
+    where: { id: recurrence.id, isActive: true, occurrenceCount: recurrence.occurrenceCount },
+    data: { occurrenceCount: { increment: 1 } },
+  })
+  return claimed.count > 0
+}
+
+async function getNextDueDate(recurrenceId: string, previousDue: Date) {
+  const recurrence = await prisma.taskRecurrence.findUnique({ where: { id: recurrenceId } })
+  if (!recurrence || !recurrence.isActive) return null
+
+  const nextDue = getNextOccurrenceDate(recurrence, previousDue, await getInstituteTimeZone())
+  if (!nextDue) {
+    // The completed occurrence was the last one
+    await prisma.taskRecurrence.update({ where: { id: recurrence.id }, data: { isActive: false } })
+    return null
+  }
+
+  return { recurrence, nextDue }
+}
+
+/**
+ * Create the next occurrence of a recurring project task after one was completed.
+ * Does nothing if the task isn't recurring, the series has ended, or a later occurrence already exists
+ * (e.g. the task was reopened and completed again).
+ */
+export async function createNextTaskOccurrence(taskId: string) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { checklists: { orderBy: { order: 'asc' } } },
+  })
+  if (!task?.recurrenceId || !task.dueDate) return null
+
+  const later = await prisma.task.count({
+    where: { recurrenceId: task.recurrenceId, dueDate: { gt: task.dueDate } },
+  })
+  if (later > 0) return null
+
+  const next = await getNextDueDate(task.recurrenceId, task.dueDate)
+  if (!next || !(await claimNextOccurrence(next.recurrence))) return null
+
+  return prisma.task.create({
+    data: {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      dueDate: next.nextDue,
+      estimatedHours: task.estimatedHours,
+      tags: task.tags,
+      createdById: task.createdById,
+      assignedToId: task.assignedToId,
+      projectId: task.projectId,
+      parentTaskId: task.parentTaskId,
+      recurrenceId: task.recurrenceId,
+      checklists: {
+        create: task.checklists.map(item => ({ title: item.title, order: item.order })),
+      },
+    },
+  })
+}
+
+/**
+ * Create the next occurrence of a recurring follow-up after one was completed, with the same rules
+ * as createNextTaskOccurrence. actionBy is recorded on the new follow-up's history.
+ */
+export async function createNextFollowUpOccurrence(taskId: string, actionBy: string) {
+  const task = await prisma.followUpTask.findUnique({ where: { id: taskId } })
+  if (!task?.recurrenceId) return null
+
+  const later = await prisma.followUpTask.count({
+    where: { recurrenceId: task.recurrenceId, dueAt: { gt: task.dueAt } },
+  })
+  if (later > 0) return null
+
+  const next = await getNextDueDate(task.recurrenceId, task.dueAt)
+  if (!next || !(await claimNextOccurrence(next.recurrence))) return null
+
+  return prisma.followUpTask.create({
+    data: {
+      seekerId: task.seekerId,
+      assignedTo: task.assignedTo,
+      dueAt: next.nextDue,
+      purpose: task.purpose,
+      notes: task.notes,
+      status: 'OPEN',
+      recurrenceId: task.recurrenceId,
+      actionHistory: {
+        create: {
+          fromStatus: null,
+          toStatus: 'OPEN',
+          actionBy,
+          notes: `Next occurrence of a recurring follow-up (#${next.recurrence.occurrenceCount + 1})`,
+        },
+      },
+    },
+  })
+}
@@ -0,0 +1,71 @@
+// Word-level text diff for showing what changed between two versions of a caption.
+// Safe to use on both client and server.
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Beyond this many words on both sides the LCS table gets large, so fall back to a whole-text replace
+const MAX_DIFF_CELLS = 4_000_000
+
+function tokenize(text: string) {
+  // Keep whitespace as its own tokens so the parts join back into the original text
+  return text.split(/(\s+)/).filter(token => token !== '')
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence). Joining the equal and removed parts gives
+ * the old text; joining the equal and added parts gives the new one.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : []
+
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ]
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++])
+  while (j < b.length) pushPart(parts, 'added', b[j++])
+
+  return parts
+}
@@ -0,0 +1,57 @@
+import { Permission } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_ROLE_PERMISSIONS } from '@/lib/permissions'
+
+// Effective permissions per user (server only).
+// Custom roles assigned through UserRoleAssignment define what a user may do. Users without any
+// active role assignment fall back to the defaults for their UserRole.
+// Permissions are checked on every API request, so they are cached briefly.
+const permissionsCache = new Map<string, { permissions: Set<Permission>; timestamp: number }>()
+
+export const USER_PERMISSIONS_CACHE_TTL_MS = 30000 // 30 seconds
+
+const ALL_PERMISSIONS = new Set<string>(Object.values(Permission))
+
+function getDefaultPermissions(role: string): Set<Permission> {
+  const defaults: readonly string[] = DEFAULT_ROLE_PERMISSIONS[role as keyof typeof DEFAULT_ROLE_PERMISSIONS] || []
+  return new Set(defaults.filter((name): name is Permission => ALL_PERMISSIONS.has(name)))
+}
+
+/**
+ * Get the permissions a user holds through their active roles
+ */
+export async function getEffectivePermissions(userId: string, role: string): Promise<Set<Permission>> {
+  const cached = permissionsCache.get(userId)
+  if (cached && Date.now() - cached.timestamp < USER_PERMISSIONS_CACHE_TTL_MS) {
+    return cached.permissions
+  }
+
+  const assignments = await prisma.userRoleAssignment.findMany({
+    where: { userId, role: { isActive: true } },
+    select: {
+      role: {
+        select: {
+          permissions: {
+            select: { permission: { select: { name: true } } },
+          },
+        },
+      },
+    },
+  })
+
+  const permissions = assignments.length > 0
+    ? new Set(assignments.flatMap(assignment => assignment.role.permissions.map(rp => rp.permission.name)))
+    : getDefaultPermissions(role)
+
+  permissionsCache.set(userId, { permissions, timestamp: Date.now() })
+  return permissions
+}
+
+// Call this when a user's role assignments or a role's permissions change
+export function invalidateUserPermissionsCache(userId?: string) {
+  if (userId) {
+    permissionsCache.delete(userId)
+  } else {
+    permissionsCache.clear()
+  }
+}
@@ -46,4 +46,16 @@ export async function safeJsonParse<T = any>(response: Response): Promise<T> {
     
     throw new Error(`Failed to parse JSON response: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Escape a string for safe interpolation into HTML (e.g. email bodies)
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
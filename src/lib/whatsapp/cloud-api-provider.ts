@@ -0,0 +1,188 @@
+import { createHmac } from 'crypto'
+import {
+  WhatsAppInboundMessage,
+  WhatsAppMedia,
+  WhatsAppProvider,
+  WhatsAppSendResult,
+  WhatsAppStatusUpdate,
+  WhatsAppDeliveryStatus,
+  getWhatsAppMediaKind,
+  isRetryableStatus,
+} from './types'
+import { safeCompare, verifyWebhookSecret } from './webhook-secret'
+
+export interface WhatsAppCloudConfig {
+  phoneNumberId: string
+  accessToken: string
+  apiVersion: string
+  appSecret?: string | null // Used to verify X-Hub-Signature-256 on callbacks
+}
+
+const CLOUD_STATUS: Record<string, WhatsAppDeliveryStatus> = {
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'READ',
+  failed: 'FAILED',
+}
+
+// The Cloud API expects the number without "+"
+function toCloudNumber(phone: string) {
+  return phone.replace(/[^\d]/g, '')
+}
+
+export function createCloudApiProvider(config: WhatsAppCloudConfig): WhatsAppProvider {
+  const baseUrl = `https://graph.facebook.com/${config.apiVersion}/${config.phoneNumberId}`
+  const authHeaders = { Authorization: `Bearer ${config.accessToken}` }
+
+  // Bulk sends reuse the same attachment, so upload it once per provider instance
+  const uploadedMedia = new WeakMap<WhatsAppMedia, Promise<string>>()
+
+  const uploadMedia = (media: WhatsAppMedia): Promise<string> => {
+    const cached = uploadedMedia.get(media)
+    if (cached) return cached
+
+    const upload = (async () => {
+      const form = new FormData()
+      form.append('messaging_product', 'whatsapp')
+      form.append('type', media.mimeType)
+      form.append('file', new Blob([Buffer.from(media.base64, 'base64')], { type: media.mimeType }), media.filename)
+
+      const response = await fetch(`${baseUrl}/media`, {
+        method: 'POST',
+        headers: authHeaders,
+        body: form
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.id) {
+        throw new Error(data?.error?.message || 'Failed to upload media to WhatsApp')
+      }
+      return String(data.id)
+    })()
+
+    uploadedMedia.set(media, upload)
+    upload.catch(() => uploadedMedia.delete(media))
+    return upload
+  }
+
+  const sendMessage = async (body: Record<string, unknown>): Promise<WhatsAppSendResult> => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          ...body
+        })
+      })
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Network error', retryable: true }
+    }
+
+    const data = await response.json().catch(() => ({}))
+    const messageId = data?.messages?.[0]?.id
+
+    if (response.ok && messageId) {
+      return { success: true, providerMessageId: String(messageId) }
+    }
+    return { success: false, error: data?.error?.message || 'Unknown error', retryable: isRetryableStatus(response.status) }
+  }
+
+  return {
+    name: 'cloud',
+
+    async sendText({ to, body }) {
+      return sendMessage({
+        to: toCloudNumber(to),
+        type: 'text',
+        text: { preview_url: true, body },
+      })
+    },
+
+    async sendMedia({ to, media, caption }) {
+      const kind = getWhatsAppMediaKind(media.mimeType)
+      let mediaId: string
+      try {
+        mediaId = await uploadMedia(media)
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Failed to upload media', retryable: true }
+      }
+
+      return sendMessage({
+        to: toCloudNumber(to),
+        type: kind,
+        [kind]: {
+          id: mediaId,
+          // Audio messages don't support captions
+          ...(kind !== 'audio' && caption && { caption }),
+          ...(kind === 'document' && { filename: media.filename }),
+        },
+      })
+    },
+
+    async getStatus() {
+      const response = await fetch(`${baseUrl}?fields=display_phone_number,verified_name,quality_rating`, {
+        headers: authHeaders
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return { connected: false, error: data?.error?.message || 'Failed to connect to WhatsApp Cloud API' }
+      }
+      return { connected: true, status: data }
+    },
+
+    async verifyWebhook({ rawBody, headers, searchParams }) {
+      if (!config.appSecret) {
+        return verifyWebhookSecret(searchParams)
+      }
+      const signature = headers.get('x-hub-signature-256') || ''
+      const expected = `sha256=${createHmac('sha256', config.appSecret).update(rawBody).digest('hex')}`
+      return safeCompare(signature, expected)
+    },
+
+    parseWebhook(payload: any) {
+      const updates: WhatsAppStatusUpdate[] = []
+      for (const entry of payload?.entry || []) {
+        for (const change of entry?.changes || []) {
+          for (const item of change?.value?.statuses || []) {
+            const status = CLOUD_STATUS[item?.status]
+            if (!status || !item.id) continue
+            updates.push({
+              providerMessageId: String(item.id),
+              status,
+              timestamp: item.timestamp ? new Date(Number(item.timestamp) * 1000) : undefined,
+              error: item.errors?.[0]
+                ? String(item.errors[0].error_data?.details || item.errors[0].message || item.errors[0].title)
+                : undefined,
+            })
+          }
+        }
+      }
+      return updates
+    },
+
+    parseInboundMessages(payload: any) {
+      const messages: WhatsAppInboundMessage[] = []
+      for (const entry of payload?.entry || []) {
+        for (const change of entry?.changes || []) {
+          for (const item of change?.value?.messages || []) {
+            // Plain text, or the label of a quick-reply button
+            const body = item?.text?.body ?? item?.button?.text
+            if (typeof body !== 'string' || !item.from) continue
+            messages.push({
+              from: `+${String(item.from).replace(/\D/g, '')}`,
+              body,
+              providerMessageId: item.id ? String(item.id) : undefined,
+              timestamp: item.timestamp ? new Date(Number(item.timestamp) * 1000) : undefined,
+            })
+          }
+        }
+      }
+      return messages
+    },
+  }
+}
@@ -0,0 +1,72 @@
+import { prisma } from '@/lib/prisma'
+import { getOptOutKeyword, liftSuppressions, suppressContacts } from '@/lib/contact-suppression'
+import { formatWhatsAppNumber } from './phone'
+import { WhatsAppInboundMessage } from './types'
+
+// Numbers are stored in mixed local/international formats, so candidates are found by their
+// trailing digits and then compared in E.164
+const MATCH_DIGITS = 9
+
+async function findSeekerIdsByNumber(from: string) {
+  const normalized = formatWhatsAppNumber(from)
+  const digits = normalized.replace(/\D/g, '').slice(-MATCH_DIGITS)
+  if (digits.length < MATCH_DIGITS) return []
+
+  const candidates = await prisma.seeker.findMany({
+    where: {
+      OR: [
+        { phone: { contains: digits } },
+        { whatsappNumber: { contains: digits } },
+      ],
+    },
+    select: { id: true, phone: true, whatsappNumber: true },
+  })
+
+  return candidates
+    .filter(seeker =>
+      formatWhatsAppNumber(seeker.phone) === normalized ||
+      (!!seeker.whatsappNumber && formatWhatsAppNumber(seeker.whatsappNumber) === normalized)
+    )
+    .map(seeker => seeker.id)
+}
+
+/**
+ * Apply STOP/START keyword replies from a provider webhook.
+ * STOP suppresses WhatsApp for every inquiry using the number; START only lifts suppressions
+ * that came from a STOP reply (not Do Not Contact or manual opt-outs).
+ */
+export async function applyWhatsAppInboundMessages(messages: WhatsAppInboundMessage[]) {
+  let optedOut = 0
+  let optedIn = 0
+  let unmatched = 0
+
+  for (const message of messages) {
+    const keyword = getOptOutKeyword(message.body)
+    if (!keyword) continue
+
+    const seekerIds = await findSeekerIdsByNumber(message.from)
+    if (seekerIds.length === 0) {
+      unmatched++
+      continue
+    }
+
+    if (keyword === 'STOP') {
+      await suppressContacts({
+        seekerIds,
+        channels: ['WHATSAPP'],
+        source: 'STOP_REPLY',
+        reason: `Replied "${message.body.trim()}" from ${message.from}`,
+      })
+      optedOut += seekerIds.length
+    } else {
+      await liftSuppressions({
+        seekerIds,
+        channels: ['WHATSAPP'],
+        sources: ['STOP_REPLY'],
+      })
+      optedIn += seekerIds.length
+    }
+  }
+
+  return { inbound: messages.length, optedOut, optedIn, unmatched }
+}
@@ -0,0 +1,70 @@
+import { getSettingOrEnv } from '@/lib/system-settings'
+import { WhatsAppProvider, WhatsAppProviderName } from './types'
+import { createUltramsgProvider } from './ultramsg-provider'
+import { createCloudApiProvider } from './cloud-api-provider'
+import { createMockProvider } from './mock-provider'
+
+export * from './types'
+export { getMockWhatsAppOutbox, clearMockWhatsAppOutbox } from './mock-provider'
+export { applyWhatsAppStatusUpdates } from './status'
+export { applyWhatsAppInboundMessages } from './inbound'
+export { formatWhatsAppNumber } from './phone'
+
+const PROVIDER_NAMES: WhatsAppProviderName[] = ['ultramsg', 'cloud', 'mock']
+
+export function isWhatsAppProviderName(value: unknown): value is WhatsAppProviderName {
+  return PROVIDER_NAMES.includes(value as WhatsAppProviderName)
+}
+
+/**
+ * Resolve which provider to use. WHATSAPP_PROVIDER (SystemSettings or env) wins;
+ * otherwise the first provider with credentials, and the mock provider outside production.
+ */
+export async function getActiveWhatsAppProviderName(): Promise<WhatsAppProviderName> {
+  const configured = (await getSettingOrEnv('WHATSAPP_PROVIDER'))?.toLowerCase()
+  if (isWhatsAppProviderName(configured)) return configured
+
+  if (await getSettingOrEnv('ULTRAMSG_TOKEN')) return 'ultramsg'
+  if (await getSettingOrEnv('WHATSAPP_CLOUD_ACCESS_TOKEN')) return 'cloud'
+  return process.env.NODE_ENV === 'production' ? 'ultramsg' : 'mock'
+}
+
+/**
+ * Build a WhatsApp provider from SystemSettings/env credentials.
+ * Throws when the selected provider is missing credentials.
+ */
+export async function getWhatsAppProvider(name?: WhatsAppProviderName): Promise<WhatsAppProvider> {
+  const providerName = name || await getActiveWhatsAppProviderName()
+
+  switch (providerName) {
+    case 'ultramsg': {
+      const [instanceId, token] = await Promise.all([
+        getSettingOrEnv('ULTRAMSG_INSTANCE_ID'),
+        getSettingOrEnv('ULTRAMSG_TOKEN'),
+      ])
+      if (!instanceId || !token) {
+        throw new Error('Ultramsg is not configured. Set ULTRAMSG_INSTANCE_ID and ULTRAMSG_TOKEN in system settings or environment variables.')
+      }
+      return createUltramsgProvider({ instanceId, token })
+    }
+    case 'cloud': {
+      const [phoneNumberId, accessToken, apiVersion, appSecret] = await Promise.all([
+        getSettingOrEnv('WHATSAPP_CLOUD_PHONE_NUMBER_ID'),
+        getSettingOrEnv('WHATSAPP_CLOUD_ACCESS_TOKEN'),
+        getSettingOrEnv('WHATSAPP_CLOUD_API_VERSION'),
+        getSettingOrEnv('WHATSAPP_CLOUD_APP_SECRET'),
+      ])
+      if (!phoneNumberId || !accessToken) {
+        throw new Error('WhatsApp Cloud API is not configured. Set WHATSAPP_CLOUD_PHONE_NUMBER_ID and WHATSAPP_CLOUD_ACCESS_TOKEN in system settings or environment variables.')
+      }
+      return createCloudApiProvider({
+        phoneNumberId,
+        accessToken,
+        apiVersion: apiVersion || 'v21.0',
+        appSecret,
+      })
+    }
+    case 'mock':
+      return createMockProvider()
+  }
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto'
+import { WhatsAppInboundMessage, WhatsAppProvider, WhatsAppStatusUpdate, WhatsAppDeliveryStatus } from './types'
+import { verifyWebhookSecret } from './webhook-secret'
+
+export interface MockWhatsAppMessage {
+  id: string
+  to: string
+  body?: string
+  caption?: string
+  mediaFilename?: string
+  referenceId?: string
+  createdAt: Date
+}
+
+// Numbers ending in 0000 fail, so error handling can be exercised without a real provider
+const MOCK_FAILURE_SUFFIX = '0000'
+const MOCK_OUTBOX_LIMIT = 500
+
+// In-memory outbox (per server process) for development and tests
+const outbox: MockWhatsAppMessage[] = []
+
+export function getMockWhatsAppOutbox(): MockWhatsAppMessage[] {
+  return [...outbox]
+}
+
+export function clearMockWhatsAppOutbox() {
+  outbox.length = 0
+}
+
+function record(message: Omit<MockWhatsAppMessage, 'id' | 'createdAt'>) {
+  if (message.to.replace(/[^\d]/g, '').endsWith(MOCK_FAILURE_SUFFIX)) {
+    return { success: false, error: 'Mock provider: simulated delivery failure' }
+  }
+
+  const id = `mock_${randomUUID()}`
+  outbox.push({ ...message, id, createdAt: new Date() })
+  if (outbox.length > MOCK_OUTBOX_LIMIT) {
+    outbox.shift()
+  }
+  console.log('[mock whatsapp] message to', message.to, message.body || message.caption || message.mediaFilename)
+  return { success: true, providerMessageId: id }
+}
+
+export function createMockProvider(): WhatsAppProvider {
+  return {
+    name: 'mock',
+
+    async sendText({ to, body, referenceId }) {
+      return record({ to, body, referenceId })
+    },
+
+    async sendMedia({ to, media, caption, referenceId }) {
+      return record({ to, caption, mediaFilename: media.filename, referenceId })
+    },
+
+    async getStatus() {
+      return { connected: true, status: { provider: 'mock', outboxSize: outbox.length } }
+    },
+
+    verifyWebhook({ searchParams }) {
+      return verifyWebhookSecret(searchParams)
+    },
+
+    // Mock callbacks: { "updates": [{ "messageId": "mock_...", "status": "DELIVERED", "error": "..." }] }
+    parseWebhook(payload: any) {
+      const updates: WhatsAppStatusUpdate[] = []
+      for (const item of payload?.updates || []) {
+        const status = String(item?.status || '').toUpperCase() as WhatsAppDeliveryStatus
+        if (!['SENT', 'DELIVERED', 'READ', 'FAILED'].includes(status)) continue
+        updates.push({
+          providerMessageId: item.messageId ? String(item.messageId) : undefined,
+          referenceId: item.referenceId ? String(item.referenceId) : undefined,
+          status,
+          error: item.error ? String(item.error) : undefined,
+        })
+      }
+      return updates
+    },
+
+    // Test payload: { "inbound": [{ "from": "+94771234567", "body": "STOP" }] }
+    parseInboundMessages(payload: any) {
+      const messages: WhatsAppInboundMessage[] = []
+      for (const item of payload?.inbound || []) {
+        if (!item?.from || typeof item.body !== 'string') continue
+        messages.push({ from: String(item.from), body: item.body })
+      }
+      return messages
+    },
+  }
+}
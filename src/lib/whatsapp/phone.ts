@@ -0,0 +1,11 @@
+/**
+ * Normalize a phone number to E.164 (defaults to Sri Lanka +94 when no country code is present)
+ */
+export function formatWhatsAppNumber(phoneNumber: string): string {
+  const cleanPhone = phoneNumber.replace(/[\s\-\(\)]/g, '')
+
+  if (cleanPhone.startsWith('+')) return cleanPhone
+  if (cleanPhone.startsWith('94')) return `+${cleanPhone}`
+  // Local numbers are written with a leading 0 (e.g. 0771234567)
+  return `+94${cleanPhone.replace(/^0/, '')}`
+}
@@ -0,0 +1,94 @@
+import { WhatsAppStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { WhatsAppStatusUpdate } from './types'
+
+// Callbacks can arrive out of order, so a recipient never moves back to an earlier state
+const STATUS_RANK: Record<WhatsAppStatus, number> = {
+  PENDING: 0,
+  SENT: 1,
+  FAILED: 1,
+  CANCELLED: 1,
+  DELIVERED: 2,
+  READ: 3,
+}
+
+/**
+ * Recompute the sent/failed counters on WhatsApp messages from their recipients
+ */
+export async function refreshWhatsAppMessageCounts(messageIds: string[]) {
+  for (const messageId of messageIds) {
+    const counts = await prisma.whatsAppRecipient.groupBy({
+      by: ['status'],
+      where: { whatsappMessageId: messageId },
+      _count: { _all: true },
+    })
+    const countFor = (statuses: WhatsAppStatus[]) =>
+      counts.filter(c => statuses.includes(c.status)).reduce((sum, c) => sum + c._count._all, 0)
+
+    await prisma.whatsAppMessage.update({
+      where: { id: messageId },
+      data: {
+        sentCount: countFor(['SENT', 'DELIVERED', 'READ']),
+        failedCount: countFor(['FAILED']),
+      },
+    })
+  }
+}
+
+/**
+ * Apply delivery status updates from a provider webhook to WhatsAppRecipient rows.
+ * Recipients are matched by referenceId (our recipient id) or by the provider message id.
+ */
+export async function applyWhatsAppStatusUpdates(updates: WhatsAppStatusUpdate[]) {
+  let updated = 0
+  let unmatched = 0
+  const touchedMessageIds = new Set<string>()
+
+  for (const update of updates) {
+    const recipient = await prisma.whatsAppRecipient.findFirst({
+      where: {
+        OR: [
+          ...(update.referenceId ? [{ id: update.referenceId }] : []),
+          ...(update.providerMessageId ? [{ providerMessageId: update.providerMessageId }] : []),
+        ],
+      },
+    })
+
+    if (!recipient || (!update.referenceId && !update.providerMessageId)) {
+      unmatched++
+      continue
+    }
+
+    // FAILED only applies to messages that were never delivered, and a failed message
+    // only changes again if the provider later reports it delivered/read
+    const isDowngrade = update.status === 'FAILED'
+      ? STATUS_RANK[recipient.status] >= STATUS_RANK.DELIVERED
+      : STATUS_RANK[update.status] <= STATUS_RANK[recipient.status]
+    if (isDowngrade || recipient.status === update.status) {
+      continue
+    }
+
+    const at = update.timestamp || new Date()
+    await prisma.whatsAppRecipient.update({
+      where: { id: recipient.id },
+      data: {
+        status: update.status,
+        ...(update.providerMessageId && !recipient.providerMessageId && { providerMessageId: update.providerMessageId }),
+        ...(update.status === 'FAILED' && { errorMessage: update.error || recipient.errorMessage || 'Delivery failed' }),
+        ...(update.status !== 'FAILED' && { errorMessage: null }),
+        ...(!recipient.sentAt && update.status !== 'FAILED' && { sentAt: at }),
+        ...((update.status === 'DELIVERED' || update.status === 'READ') && !recipient.deliveredAt && { deliveredAt: at }),
+        ...(update.status === 'READ' && { readAt: at }),
+      },
+    })
+
+    updated++
+    touchedMessageIds.add(recipient.whatsappMessageId)
+  }
+
+  if (touchedMessageIds.size > 0) {
+    await refreshWhatsAppMessageCounts(Array.from(touchedMessageIds))
+  }
+
+  return { received: updates.length, updated, unmatched }
+}
@@ -0,0 +1,93 @@
+export type WhatsAppProviderName = 'ultramsg' | 'cloud' | 'mock'
+
+export type WhatsAppMediaKind = 'image' | 'video' | 'audio' | 'document'
+
+export interface WhatsAppMedia {
+  base64: string
+  mimeType: string
+  filename: string
+}
+
+export interface SendWhatsAppTextParams {
+  to: string // E.164 format, e.g. +94771234567
+  body: string
+  referenceId?: string // Our WhatsAppRecipient id, echoed back by providers that support it
+}
+
+export interface SendWhatsAppMediaParams {
+  to: string
+  media: WhatsAppMedia
+  caption?: string
+  referenceId?: string
+}
+
+export interface WhatsAppSendResult {
+  success: boolean
+  providerMessageId?: string
+  error?: string
+  retryable?: boolean // Transient failure (rate limit, provider/network outage) - safe to retry later
+}
+
+export interface WhatsAppConnectionStatus {
+  connected: boolean
+  status?: unknown
+  error?: string
+}
+
+// Delivery states reported by provider callbacks (subset of the WhatsAppStatus enum)
+export type WhatsAppDeliveryStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED'
+
+export interface WhatsAppStatusUpdate {
+  providerMessageId?: string
+  referenceId?: string
+  status: WhatsAppDeliveryStatus
+  timestamp?: Date
+  error?: string
+}
+
+// A message a contact sent us (used for STOP/START opt-out keywords)
+export interface WhatsAppInboundMessage {
+  from: string // E.164 format
+  body: string
+  providerMessageId?: string
+  timestamp?: Date
+}
+
+export interface WhatsAppWebhookRequest {
+  rawBody: string
+  headers: Headers
+  searchParams: URLSearchParams
+}
+
+export interface WhatsAppProvider {
+  name: WhatsAppProviderName
+  sendText(params: SendWhatsAppTextParams): Promise<WhatsAppSendResult>
+  sendMedia(params: SendWhatsAppMediaParams): Promise<WhatsAppSendResult>
+  getStatus(): Promise<WhatsAppConnectionStatus>
+  /**
+   * Verify a provider callback. Returns false when the request is not authentic.
+   */
+  verifyWebhook(request: WhatsAppWebhookRequest): Promise<boolean> | boolean
+  /**
+   * Extract delivery status updates from a (verified) provider callback payload
+   */
+  parseWebhook(payload: unknown): WhatsAppStatusUpdate[]
+  /**
+   * Extract inbound text messages from a (verified) provider callback payload
+   */
+  parseInboundMessages(payload: unknown): WhatsAppInboundMessage[]
+}
+
+export function getWhatsAppMediaKind(mimeType: string): WhatsAppMediaKind {
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  if (mimeType === 'application/pdf') return 'document'
+  return 'image'
+}
+
+/**
+ * Rate limits and server errors are transient; other HTTP errors (bad number, auth) are not
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
@@ -0,0 +1,136 @@
+import {
+  WhatsAppInboundMessage,
+  WhatsAppProvider,
+  WhatsAppSendResult,
+  WhatsAppStatusUpdate,
+  WhatsAppDeliveryStatus,
+  getWhatsAppMediaKind,
+  isRetryableStatus,
+} from './types'
+import { verifyWebhookSecret } from './webhook-secret'
+
+export interface UltramsgConfig {
+  instanceId: string
+  token: string
+}
+
+// Ultramsg "ack" values -> our delivery states ("pending" means not yet sent, so it is ignored)
+const ULTRAMSG_ACK_STATUS: Record<string, WhatsAppDeliveryStatus> = {
+  server: 'SENT',
+  device: 'DELIVERED',
+  read: 'READ',
+  played: 'READ',
+  failed: 'FAILED',
+  error: 'FAILED',
+}
+
+function getErrorMessage(responseData: any): string {
+  if (responseData?.error) {
+    if (Array.isArray(responseData.error)) {
+      const first = responseData.error[0]
+      return String(first?.message || (typeof first === 'object' ? JSON.stringify(first) : first))
+    }
+    return String(responseData.error.message || responseData.error)
+  }
+  return String(responseData?.message || 'Unknown error')
+}
+
+export function createUltramsgProvider(config: UltramsgConfig): WhatsAppProvider {
+  const baseUrl = `https://api.ultramsg.com/${config.instanceId}`
+
+  const post = async (path: string, body: Record<string, unknown>): Promise<WhatsAppSendResult> => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}${path}?token=${encodeURIComponent(config.token)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Network error', retryable: true }
+    }
+
+    const responseData = await response.json().catch(() => ({}))
+
+    if (response.ok && !responseData.error && responseData.sent !== 'false') {
+      return {
+        success: true,
+        providerMessageId: responseData.id !== undefined ? String(responseData.id) : undefined,
+      }
+    }
+
+    return { success: false, error: getErrorMessage(responseData), retryable: isRetryableStatus(response.status) }
+  }
+
+  return {
+    name: 'ultramsg',
+
+    async sendText({ to, body, referenceId }) {
+      return post('/messages/chat', {
+        to,
+        body,
+        priority: 10,
+        referenceId,
+      })
+    },
+
+    async sendMedia({ to, media, caption, referenceId }) {
+      const kind = getWhatsAppMediaKind(media.mimeType)
+      return post(`/messages/${kind}`, {
+        to,
+        [kind]: media.base64,
+        ...(kind === 'document' && { filename: media.filename }),
+        caption: caption || 'Media message',
+        priority: 10,
+        referenceId,
+      })
+    },
+
+    async getStatus() {
+      const response = await fetch(`${baseUrl}/instance/status?token=${encodeURIComponent(config.token)}`)
+      if (!response.ok) {
+        return { connected: false, error: 'Failed to connect to Ultramsg API' }
+      }
+      const status = await response.json().catch(() => ({}))
+      return { connected: true, status }
+    },
+
+    verifyWebhook({ searchParams }) {
+      return verifyWebhookSecret(searchParams)
+    },
+
+    parseWebhook(payload: any) {
+      if (!payload || payload.event_type !== 'message_ack') return []
+
+      const data = payload.data || {}
+      const status = ULTRAMSG_ACK_STATUS[String(data.ack || '').toLowerCase()]
+      if (!status) return []
+
+      const update: WhatsAppStatusUpdate = {
+        providerMessageId: payload.id ? String(payload.id) : undefined,
+        referenceId: payload.referenceId || data.referenceId || undefined,
+        status,
+        timestamp: data.time ? new Date(Number(data.time) * 1000) : undefined,
+      }
+      return [update]
+    },
+
+    parseInboundMessages(payload: any) {
+      if (!payload || payload.event_type !== 'message_received') return []
+
+      const data = payload.data || {}
+      if (data.fromMe || typeof data.body !== 'string' || !data.from) return []
+
+      // Ultramsg addresses chats as "94771234567@c.us"
+      const message: WhatsAppInboundMessage = {
+        from: `+${String(data.from).split('@')[0].replace(/\D/g, '')}`,
+        body: data.body,
+        providerMessageId: data.id ? String(data.id) : undefined,
+        timestamp: data.time ? new Date(Number(data.time) * 1000) : undefined,
+      }
+      return [message]
+    },
+  }
+}
@@ -0,0 +1,25 @@
+import { timingSafeEqual } from 'crypto'
+import { getSettingOrEnv } from '@/lib/system-settings'
+
+/**
+ * Constant-time string comparison for secrets
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+/**
+ * Check the shared webhook secret passed as ?secret=... on the callback URL.
+ * Providers that don't sign their callbacks (Ultramsg, mock) rely on this.
+ */
+export async function verifyWebhookSecret(searchParams: URLSearchParams): Promise<boolean> {
+  const secret = await getSettingOrEnv('WHATSAPP_WEBHOOK_SECRET')
+  if (!secret) {
+    console.warn('WHATSAPP_WEBHOOK_SECRET is not configured - rejecting WhatsApp webhook')
+    return false
+  }
+  const provided = searchParams.get('secret')
+  return !!provided && safeCompare(provided, secret)
+}
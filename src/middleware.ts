@@ -10,13 +10,43 @@ const publicRoutes = [
   '/sign-up',
   '/api/auth/login',
   '/api/auth/register',
+  '/maintenance',
 ]
 
+// Cache MAINTENANCE_MODE briefly so every page request doesn't hit the API
+const MAINTENANCE_CACHE_TTL_MS = 30000 // 30 seconds
+let maintenanceCache: { enabled: boolean; timestamp: number } | null = null
+
 // Check if route is public
 function isPublicRoute(pathname: string): boolean {
   return publicRoutes.some(route => pathname.startsWith(route))
 }
 
+// Same rule as isAdminRole in lib/auth (that module can't be imported in middleware)
+function isAdminRole(role?: string): boolean {
+  return role === 'ADMIN' || role === 'ADMINISTRATOR' || role === 'DEVELOPER'
+}
+
+// Read MAINTENANCE_MODE via the public status route (Prisma isn't available in middleware)
+async function isMaintenanceMode(request: NextRequest): Promise<boolean> {
+  if (maintenanceCache && Date.now() - maintenanceCache.timestamp < MAINTENANCE_CACHE_TTL_MS) {
+    return maintenanceCache.enabled
+  }
+
+  try {
+    const response = await fetch(new URL('/api/system-settings/maintenance', request.url), {
+      cache: 'no-store',
+    })
+    const data = response.ok ? await response.json() : { enabled: false }
+    maintenanceCache = { enabled: data.enabled === true, timestamp: Date.now() }
+  } catch (error) {
+    console.error('Error checking maintenance mode:', error)
+    maintenanceCache = { enabled: false, timestamp: Date.now() }
+  }
+
+  return maintenanceCache.enabled
+}
+
 // Verify JWT token
 function verifyToken(token: string): { id: string; email: string; role: string } | null {
   try {
@@ -26,7 +56,7 @@ function verifyToken(token: string): { id: string; email: string; role: string }
   }
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
   // Allow public routes
@@ -39,6 +69,14 @@ export function middleware(request: NextRequest) {
     request.cookies.get('auth-token')?.value ||
     request.headers.get('authorization')?.replace('Bearer ', '')
 
+  // While MAINTENANCE_MODE is on, only admins can use the app
+  if (await isMaintenanceMode(request)) {
+    const role = token ? verifyToken(token)?.role : undefined
+    if (!isAdminRole(role)) {
+      return NextResponse.redirect(new URL('/maintenance', request.url))
+    }
+  }
+
   // If no token and not a public route, continue (let API routes handle auth)
   if (!token) {
     return NextResponse.next()
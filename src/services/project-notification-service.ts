@@ -63,6 +63,14 @@ export function useProjectNotificationService({ userId, projectId }: ProjectNoti
                 actionUrl = `/projects?project=${activity.entityId}`
                 actionText = 'View Project'
                 break
+              case 'PROJECT_MEMBER_ADDED':
+                notificationType = 'success'
+                actionUrl = `/projects?project=${activity.entityId}`
+                actionText = 'View Project'
+                break
+              case 'PROJECT_MEMBER_REMOVED':
+                notificationType = 'warning'
+                break
               case 'DEAL_UPDATED':
                 notificationType = 'info'
                 actionUrl = `/projects?deal=${activity.entityId}`
@@ -83,11 +91,14 @@ export function useProjectNotificationService({ userId, projectId }: ProjectNoti
               actionText,
               entityType: activity.entityType,
               entityId: activity.entityId,
-              fromUser: {
-                id: activity.userId,
-                name: activity.userName,
-                email: activity.userEmail
-              }
+              // Membership changes come from the system rather than a user
+              ...(activity.userId && {
+                fromUser: {
+                  id: activity.userId,
+                  name: activity.userName,
+                  email: activity.userEmail
+                }
+              })
             })
           }
         })